@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ColumnMappingStore } from "../../../storage/ColumnMappingStore";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const mapping = await new ColumnMappingStore().get(id);
+  if (!mapping) {
+    return NextResponse.json({ error: `Column mapping '${id}' not found` }, { status: 404 });
+  }
+  return NextResponse.json({ mapping });
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const removed = await new ColumnMappingStore().remove(id);
+  if (!removed) {
+    return NextResponse.json({ error: `Column mapping '${id}' not found` }, { status: 404 });
+  }
+  return NextResponse.json({ removed: id });
+}
@@ -0,0 +1,61 @@
+import { writeFile, unlink } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { randomBytes } from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { previewCsv, WORK_ORDER_FIELDS, type ColumnMapping } from "../../../parser/CsvParser";
+import { ColumnMappingStore } from "../../../storage/ColumnMappingStore";
+
+/**
+ * Previews the first rows of an uploaded work order as work-order fields, with the field list to map headers to.
+ * The mapping is a saved profile id (`columnMapping`) or an unsaved one as JSON (`mapping`).
+ */
+export async function POST(request: NextRequest) {
+  let tempFilePath: string | null = null;
+
+  try {
+    const formData = await request.formData();
+    const file = formData.get("file") as File | null;
+    if (!file) {
+      return NextResponse.json({ error: "No file provided" }, { status: 400 });
+    }
+
+    let mapping: ColumnMapping | undefined;
+    const mappingId = ((formData.get("columnMapping") as string | null) ?? "").trim();
+    const mappingJson = formData.get("mapping") as string | null;
+    if (mappingId) {
+      mapping = await new ColumnMappingStore().get(mappingId);
+      if (!mapping) {
+        return NextResponse.json({ error: `Column mapping '${mappingId}' not found` }, { status: 404 });
+      }
+    } else if (mappingJson) {
+      try {
+        mapping = JSON.parse(mappingJson) as ColumnMapping;
+      } catch {
+        mapping = undefined;
+      }
+      if (typeof mapping?.columns !== "object" || mapping.columns === null) {
+        return NextResponse.json({ error: "mapping must be JSON with a columns object" }, { status: 400 });
+      }
+    }
+
+    tempFilePath = join(tmpdir(), `preview-${randomBytes(16).toString("hex")}.csv`);
+    await writeFile(tempFilePath, Buffer.from(await file.arrayBuffer()));
+
+    return NextResponse.json({ preview: await previewCsv(tempFilePath, mapping), fields: WORK_ORDER_FIELDS });
+  } catch (error) {
+    console.error("Error previewing work order:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  } finally {
+    if (tempFilePath) {
+      try {
+        await unlink(tempFilePath);
+      } catch {
+        // Ignore cleanup errors
+      }
+    }
+  }
+}
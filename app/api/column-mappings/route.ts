@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ColumnMappingStore, type ColumnMappingInput } from "../../storage/ColumnMappingStore";
+
+export async function GET() {
+  try {
+    const mappings = await new ColumnMappingStore().list();
+    return NextResponse.json({ mappings });
+  } catch (error) {
+    console.error("Error listing column mappings:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  let input: ColumnMappingInput;
+  try {
+    input = (await request.json()) as ColumnMappingInput;
+  } catch {
+    return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 });
+  }
+
+  try {
+    const mapping = await new ColumnMappingStore().save(input);
+    return NextResponse.json({ mapping }, { status: 201 });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Could not save column mapping" },
+      { status: 400 }
+    );
+  }
+}
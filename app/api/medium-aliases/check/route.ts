@@ -0,0 +1,49 @@
+import { writeFile, unlink } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { randomBytes } from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { collectUnknownLabels, parseWithDiagnostics } from "../../../parser/CsvParser";
+import { ColumnMappingStore } from "../../../storage/ColumnMappingStore";
+
+/**
+ * Lists the mediums and glazings in an uploaded work order that the catalog doesn't know,
+ * with the closest catalog entries, so they can be mapped before the job is packed.
+ */
+export async function POST(request: NextRequest) {
+  let tempFilePath: string | null = null;
+
+  try {
+    const formData = await request.formData();
+    const file = formData.get("file") as File | null;
+    if (!file) {
+      return NextResponse.json({ error: "No file provided" }, { status: 400 });
+    }
+
+    const mappingId = ((formData.get("columnMapping") as string | null) ?? "").trim();
+    const mapping = mappingId ? await new ColumnMappingStore().get(mappingId) : undefined;
+    if (mappingId && !mapping) {
+      return NextResponse.json({ error: `Column mapping '${mappingId}' not found` }, { status: 404 });
+    }
+
+    tempFilePath = join(tmpdir(), `check-${randomBytes(16).toString("hex")}.csv`);
+    await writeFile(tempFilePath, Buffer.from(await file.arrayBuffer()));
+
+    const result = await parseWithDiagnostics(tempFilePath, mapping);
+    return NextResponse.json({ unknownLabels: collectUnknownLabels(result) });
+  } catch (error) {
+    console.error("Error checking work-order labels:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  } finally {
+    if (tempFilePath) {
+      try {
+        await unlink(tempFilePath);
+      } catch {
+        // Ignore cleanup errors
+      }
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getMediumCatalog, type MediumAliasKind } from "../../catalog/MediumCatalog";
+import { MediumAliasStore, type MediumAliasInput } from "../../storage/MediumAliasStore";
+
+/**
+ * Catalog medium and glazing labels (the targets an alias may point at) and the saved aliases.
+ */
+export async function GET() {
+  try {
+    const catalog = getMediumCatalog();
+    const aliases = await new MediumAliasStore().list();
+    return NextResponse.json({
+      mediums: Object.keys(catalog.mediums),
+      glazings: Object.keys(catalog.glazings),
+      aliases,
+    });
+  } catch (error) {
+    console.error("Error listing medium aliases:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  let input: MediumAliasInput;
+  try {
+    input = (await request.json()) as MediumAliasInput;
+  } catch {
+    return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 });
+  }
+
+  try {
+    const alias = await new MediumAliasStore().save(input);
+    return NextResponse.json({ alias }, { status: 201 });
+  } catch (error) {
+    // Unknown targets and catalog labels are the caller's to fix
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Could not save alias" },
+      { status: 400 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const kind = request.nextUrl.searchParams.get("kind") as MediumAliasKind | null;
+  const alias = request.nextUrl.searchParams.get("alias");
+  if (!kind || !alias) {
+    return NextResponse.json({ error: "kind and alias are required" }, { status: 400 });
+  }
+
+  const removed = await new MediumAliasStore().remove(kind, alias);
+  if (!removed) {
+    return NextResponse.json({ error: `No saved ${kind} alias '${alias}'` }, { status: 404 });
+  }
+  return NextResponse.json({ removed: alias });
+}
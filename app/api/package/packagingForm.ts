@@ -0,0 +1,161 @@
+import { writeFile, unlink } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { randomBytes } from "node:crypto";
+import { PackagingService, type PackagingJobResult } from "../../services/PackagingService";
+import type { DeliveryCapabilities, ShippingMode, SiteClearances } from "../../requests/PackagingRequest";
+import { parseSiteClearances } from "../../parser/SiteClearancesParser";
+import { ColumnMappingStore } from "../../storage/ColumnMappingStore";
+import { RateTableStore } from "../../storage/RateTableStore";
+import type { LtlRateTables } from "../../rates/LtlRateTables";
+
+export interface PackagingFormJobDetails {
+  clientName: string;
+  jobSiteLocation: string;
+  serviceType: string;
+  deliveryCapabilities: DeliveryCapabilities;
+  shippingMode: ShippingMode;
+}
+
+/**
+ * A packed job, or a form problem the caller should report with the given status.
+ */
+export type PackagingFormOutcome =
+  | { result: PackagingJobResult; jobDetails: PackagingFormJobDetails }
+  | { error: string; status: number };
+
+/**
+ * Runs a packaging job from the upload form shared by /api/package and /api/package/trace.
+ * Uploaded files are written to temp files for the parsers and removed afterwards, even on failure.
+ */
+export async function runPackagingForm(formData: FormData): Promise<PackagingFormOutcome> {
+  let tempFilePath: string | null = null;
+  let siteTempFilePath: string | null = null;
+
+  try {
+    const file = formData.get("file") as File;
+    
+    if (!file) {
+      return { error: "No file provided", status: 400 };
+    }
+
+    // Extract form data
+    let clientName = formData.get("clientName") as string;
+    let jobSiteLocation = formData.get("jobSiteLocation") as string;
+    let serviceType = formData.get("serviceType") as string;
+    const packingAlgorithm = (formData.get("packingAlgorithm") as string) || "first-fit";
+    const acceptsPallets = formData.get("acceptsPallets") === "true";
+    const acceptsCrates = formData.get("acceptsCrates") === "true";
+    const hasLoadingDock = formData.get("hasLoadingDock") === "true";
+    const requiresLiftgate = formData.get("requiresLiftgate") === "true";
+    const needsInsideDelivery = formData.get("needsInsideDelivery") === "true";
+
+    const siteRequirementsFile = formData.get("siteRequirementsFile") as File | null;
+
+    // An uploaded rate tables file prices this job instead of the saved tables
+    const rateTablesFile = formData.get("rateTablesFile") as File | null;
+    let rateTables: LtlRateTables | undefined;
+    if (rateTablesFile) {
+      try {
+        rateTables = RateTableStore.fromJson(await rateTablesFile.text(), rateTablesFile.name);
+      } catch (error) {
+        return { error: (error as Error).message, status: 400 };
+      }
+    }
+
+    // A saved column-mapping profile lets vendor spreadsheets through
+    const columnMappingId = ((formData.get("columnMapping") as string | null) ?? "").trim();
+    const columnMapping = columnMappingId ? await new ColumnMappingStore().get(columnMappingId) : undefined;
+    if (columnMappingId && !columnMapping) {
+      return { error: `Column mapping '${columnMappingId}' not found`, status: 400 };
+    }
+
+    let shippingMode: ShippingMode;
+    let siteClearances: SiteClearances | undefined;
+    try {
+      shippingMode = PackagingService.parseShippingMode((formData.get("shippingMode") as string) || "freight");
+      const clearancesSpec = ((formData.get("siteClearances") as string | null) ?? "").trim();
+      siteClearances = clearancesSpec ? parseSiteClearances(clearancesSpec) : undefined;
+    } catch (error) {
+      return { error: (error as Error).message, status: 400 };
+    }
+
+    // Build delivery capabilities
+    let deliveryCapabilities: DeliveryCapabilities = {
+      acceptsPallets,
+      acceptsCrates,
+      hasLoadingDock,
+      requiresLiftgate,
+      needsInsideDelivery,
+    };
+
+    // A site requirements sheet replaces the capability checkboxes; typed-in fields still win
+    if (siteRequirementsFile) {
+      siteTempFilePath = join(tmpdir(), `site-${randomBytes(16).toString("hex")}.csv`);
+      await writeFile(siteTempFilePath, Buffer.from(await siteRequirementsFile.arrayBuffer()));
+
+      const siteDetails = await PackagingService.loadSiteRequirements(siteTempFilePath, {
+        clientName: clientName || undefined,
+        jobSiteLocation: jobSiteLocation || undefined,
+        serviceType: serviceType || undefined,
+      });
+      clientName = siteDetails.clientName;
+      jobSiteLocation = siteDetails.jobSiteLocation;
+      serviceType = siteDetails.serviceType;
+      deliveryCapabilities = siteDetails.deliveryCapabilities;
+
+      await unlink(siteTempFilePath);
+      siteTempFilePath = null;
+    }
+
+    if (!clientName || !jobSiteLocation || !serviceType) {
+      return { error: "Missing required fields", status: 400 };
+    }
+
+    // Save uploaded file to temp directory
+    const bytes = await file.arrayBuffer();
+    const buffer = Buffer.from(bytes);
+    
+    // Generate unique temp filename
+    const tempFileName = `upload-${randomBytes(16).toString("hex")}.csv`;
+    tempFilePath = join(tmpdir(), tempFileName);
+    
+    await writeFile(tempFilePath, buffer);
+
+    // Run packaging job
+    const result = await PackagingService.runPackagingJob({
+      csvFilePath: tempFilePath,
+      clientName,
+      jobSiteLocation,
+      serviceType,
+      deliveryCapabilities,
+      siteClearances,
+      rateTables,
+      packingAlgorithm,
+      shippingMode,
+      columnMapping,
+      quiet: true,
+    });
+
+    // Clean up temp file
+    await unlink(tempFilePath);
+    tempFilePath = null;
+
+    return {
+      result,
+      jobDetails: { clientName, jobSiteLocation, serviceType, deliveryCapabilities, shippingMode },
+    };
+  } catch (error) {
+    // Clean up temp files on error
+    for (const path of [tempFilePath, siteTempFilePath]) {
+      if (path) {
+        try {
+          await unlink(path);
+        } catch {
+          // Ignore cleanup errors
+        }
+      }
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PackagingService } from "../../../services/PackagingService";
+import { runPackagingForm } from "../packagingForm";
+
+/**
+ * Packs the uploaded job like /api/package and returns where a tag number ended up.
+ * Without a `tag` field it returns the trace for every tag.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const tag = ((formData.get("tag") as string | null) ?? "").trim();
+
+    const outcome = await runPackagingForm(formData);
+    if ("error" in outcome) {
+      return NextResponse.json({ error: outcome.error }, { status: outcome.status });
+    }
+
+    const trace = PackagingService.findTagTrace(outcome.result.response, tag);
+    if (tag && trace.length === 0) {
+      return NextResponse.json({ error: `Tag '${tag}' not found` }, { status: 404 });
+    }
+    return NextResponse.json({ tag, trace });
+  } catch (error) {
+    console.error("Error tracing packaging request:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
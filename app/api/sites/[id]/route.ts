@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SiteDirectory, type JobSiteChanges } from "../../../storage/SiteDirectory";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const site = await new SiteDirectory().get(id);
+  if (!site) {
+    return NextResponse.json({ error: `Job site '${id}' not found` }, { status: 404 });
+  }
+  return NextResponse.json({ site });
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  let changes: JobSiteChanges;
+  try {
+    changes = (await request.json()) as JobSiteChanges;
+  } catch {
+    return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 });
+  }
+
+  try {
+    const site = await new SiteDirectory().update(id, changes);
+    if (!site) {
+      return NextResponse.json({ error: `Job site '${id}' not found` }, { status: 404 });
+    }
+    return NextResponse.json({ site });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Could not update job site" },
+      { status: 400 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const removed = await new SiteDirectory().remove(id);
+  if (!removed) {
+    return NextResponse.json({ error: `Job site '${id}' not found` }, { status: 404 });
+  }
+  return NextResponse.json({ removed: id });
+}
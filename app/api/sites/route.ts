@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SiteDirectory, type JobSiteInput } from "../../storage/SiteDirectory";
+
+export async function GET() {
+  try {
+    const sites = await new SiteDirectory().list();
+    return NextResponse.json({ sites });
+  } catch (error) {
+    console.error("Error listing job sites:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  let input: JobSiteInput;
+  try {
+    input = (await request.json()) as JobSiteInput;
+  } catch {
+    return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 });
+  }
+
+  try {
+    const site = await new SiteDirectory().create(input);
+    return NextResponse.json({ site }, { status: 201 });
+  } catch (error) {
+    // Validation and duplicate-name failures are the caller's to fix
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Could not save job site" },
+      { status: 400 }
+    );
+  }
+}
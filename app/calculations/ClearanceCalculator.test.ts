@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { ClearanceCalculator, type ClearanceItem } from "./ClearanceCalculator";
+
+const pallet: ClearanceItem = { length: 48, width: 40, height: 60, weightLbs: 300, upright: true };
+const box: ClearanceItem = { length: 40, width: 6, height: 40, weightLbs: 45, upright: false };
+
+describe("ClearanceCalculator", () => {
+  it("checks upright pallets narrow side first and lets boxes tilt through doors and hallways", () => {
+    const clearances = { doorWidthInches: 36, doorHeightInches: 80, hallwayWidthInches: 30 };
+
+    expect(ClearanceCalculator.check(pallet, clearances)).toEqual([
+      'does not fit through the 36"x80" door',
+      'is wider than the 30" hallway',
+    ]);
+    expect(ClearanceCalculator.check(box, clearances)).toEqual([]);
+    expect(ClearanceCalculator.check(pallet, { doorWidthInches: 42, doorHeightInches: 80 })).toEqual([]);
+  });
+
+  it("checks the elevator cab, its door and its weight limit", () => {
+    const elevator = { cabWidthInches: 48, cabDepthInches: 60, cabHeightInches: 84, weightLimitLbs: 250 };
+    const flatPack: ClearanceItem = { length: 100, width: 6, height: 50, weightLbs: 80, upright: false };
+
+    expect(ClearanceCalculator.check(pallet, { elevator })).toEqual(["is over the elevator's 250 lb limit"]);
+    expect(ClearanceCalculator.check(flatPack, { elevator })).toEqual(['does not fit the 48"x60"x84" elevator cab']);
+    expect(ClearanceCalculator.check(pallet, { elevator: { ...elevator, doorWidthInches: 36, weightLimitLbs: 2500 } })).toEqual([
+      'does not fit the 48"x60"x84" elevator cab',
+    ]);
+  });
+
+  it("only stops upright units at the stairs", () => {
+    expect(ClearanceCalculator.check(pallet, { hasStairs: true })).toEqual(["cannot be rolled up the stairs"]);
+    expect(ClearanceCalculator.check(box, { hasStairs: true })).toEqual([]);
+    expect(ClearanceCalculator.check(pallet, { hasStairs: false })).toEqual([]);
+  });
+});
@@ -0,0 +1,93 @@
+import type { ElevatorClearance, SiteClearances } from "../requests/PackagingRequest";
+
+/**
+ * A box, pallet, crate or flat-pack being moved through the site.
+ */
+export interface ClearanceItem {
+  length: number;
+  width: number;
+  height: number;
+  weightLbs: number;
+  /** Pallets and crates ride upright on a jack or dolly; boxes and flat-packs can be tilted and carried. */
+  upright: boolean;
+}
+
+function sorted(values: number[]): number[] {
+  return [...values].sort((a, b) => a - b);
+}
+
+/**
+ * ClearanceCalculator checks one item against the doors, hallways, elevator and stairs on the way
+ * to the install room.
+ */
+export class ClearanceCalculator {
+  /**
+   * What blocks the item, e.g. `does not fit through the 36"x80" door`; empty when it gets through.
+   */
+  static check(item: ClearanceItem, clearances: SiteClearances): string[] {
+    const problems: string[] = [];
+    const { doorWidthInches, doorHeightInches, hallwayWidthInches, elevator, hasStairs } = clearances;
+
+    if (
+      doorWidthInches !== undefined &&
+      doorHeightInches !== undefined &&
+      !this.fitsThroughOpening(item, doorWidthInches, doorHeightInches)
+    ) {
+      problems.push(`does not fit through the ${doorWidthInches}"x${doorHeightInches}" door`);
+    }
+    if (hallwayWidthInches !== undefined && !this.fitsThroughOpening(item, hallwayWidthInches, Infinity)) {
+      problems.push(`is wider than the ${hallwayWidthInches}" hallway`);
+    }
+    if (elevator) {
+      problems.push(...this.checkElevator(item, elevator));
+    }
+    if (hasStairs && item.upright) {
+      problems.push("cannot be rolled up the stairs");
+    }
+    return problems;
+  }
+
+  /**
+   * Upright items pass through with their narrow side first and their height under the top of the opening.
+   * Other items may be turned so their two smallest sides face the opening.
+   */
+  static fitsThroughOpening(item: ClearanceItem, widthInches: number, heightInches: number): boolean {
+    if (item.upright) {
+      return Math.min(item.length, item.width) <= widthInches && item.height <= heightInches;
+    }
+    const [smallest, middle] = sorted([item.length, item.width, item.height]);
+    return (
+      (smallest <= widthInches && middle <= heightInches) || (middle <= widthInches && smallest <= heightInches)
+    );
+  }
+
+  /**
+   * Upright items need their footprint on the cab floor and their height under the ceiling;
+   * other items may go in on any side.
+   */
+  static fitsInCab(item: ClearanceItem, elevator: ElevatorClearance): boolean {
+    const { cabWidthInches, cabDepthInches, cabHeightInches } = elevator;
+    if (item.upright) {
+      const [itemShort, itemLong] = sorted([item.length, item.width]);
+      const [cabShort, cabLong] = sorted([cabWidthInches, cabDepthInches]);
+      return itemShort <= cabShort && itemLong <= cabLong && item.height <= cabHeightInches;
+    }
+    const itemSides = sorted([item.length, item.width, item.height]);
+    const cabSides = sorted([cabWidthInches, cabDepthInches, cabHeightInches]);
+    return itemSides.every((side, index) => side <= cabSides[index]);
+  }
+
+  private static checkElevator(item: ClearanceItem, elevator: ElevatorClearance): string[] {
+    const problems: string[] = [];
+    const doorWidthInches = elevator.doorWidthInches ?? elevator.cabWidthInches;
+    if (!this.fitsThroughOpening(item, doorWidthInches, elevator.cabHeightInches) || !this.fitsInCab(item, elevator)) {
+      problems.push(
+        `does not fit the ${elevator.cabWidthInches}"x${elevator.cabDepthInches}"x${elevator.cabHeightInches}" elevator cab`,
+      );
+    }
+    if (item.weightLbs > elevator.weightLimitLbs) {
+      problems.push(`is over the elevator's ${elevator.weightLimitLbs} lb limit`);
+    }
+    return problems;
+  }
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { CrateSizeCalculator } from "./CrateSizeCalculator";
+import { Art, ArtMaterial, ArtType } from "../entities/Art";
+import { Box, BoxType } from "../entities/Box";
+
+function makeArt(dimensions: { length: number; width: number; height: number }, quantity: number): Art {
+  return new Art({ id: "crate-art", productType: ArtType.PaperPrint, material: ArtMaterial.Glass, dimensions, quantity });
+}
+
+describe("CrateSizeCalculator", () => {
+  it("stands loose art on its long edge and stacks the pieces side by side", () => {
+    const contents = CrateSizeCalculator.calculateContentsSize([], [makeArt({ length: 30, width: 40, height: 2 }, 10)]);
+
+    expect(contents).toEqual({ length: 40, width: 20, height: 30 });
+  });
+
+  it("stacks boxes flat", () => {
+    const first = new Box({ type: BoxType.Standard });
+    const second = new Box({ type: BoxType.Standard });
+    first.addArt(makeArt({ length: 30, width: 20, height: 4 }, 1));
+    second.addArt(makeArt({ length: 30, width: 20, height: 4 }, 1));
+
+    const contents = CrateSizeCalculator.calculateContentsSize([first, second], []);
+    const boxHeight = first.getRequiredDimensions().height;
+
+    expect(contents.height).toBe(boxHeight * 2);
+    expect(contents.length).toBe(first.getRequiredDimensions().length);
+  });
+
+  it("adds foam, panel, cleat and skid allowances and weighs the lumber", () => {
+    const size = CrateSizeCalculator.calculateSize([], [makeArt({ length: 30, width: 40, height: 2 }, 10)]);
+
+    // 2" foam each side, then 1/2" panel + 3/4" cleat each side, plus 3.5" skids underneath
+    expect(size.interior).toEqual({ length: 44, width: 24, height: 34 });
+    expect(size.exterior).toEqual({ length: 46.5, width: 26.5, height: 40 });
+    // Panels 81.18 + cleats 25.55 + skids 29.06 + foam 2.34 lbs, rounded up
+    expect(size.tareWeightLbs).toBe(139);
+  });
+
+  it("lays a flat-pack piece flat inside foam and corrugated sheet", () => {
+    const size = CrateSizeCalculator.calculateFlatPackSize([makeArt({ length: 30, width: 96, height: 2 }, 1)]);
+
+    expect(size.interior).toEqual({ length: 98, width: 32, height: 4 });
+    expect(size.exterior).toEqual({ length: 99, width: 33, height: 5 });
+    // Sheet 7854 sq in at 0.2 lb/ft² (10.91) plus foam 7312 sq in at 0.05 lb/ft² (2.54), rounded up
+    expect(size.tareWeightLbs).toBe(14);
+  });
+});
@@ -0,0 +1,119 @@
+import type { Art } from "../entities/Art";
+import type { Box } from "../entities/Box";
+import { getPackagingSpecCatalog } from "../catalog/PackagingSpecCatalog";
+
+export interface CrateDimensions {
+  length: number;
+  width: number;
+  height: number;
+}
+
+export interface CrateSize {
+  /** Space inside the foam lining. */
+  interior: CrateDimensions;
+  /** Outside of the cleats (skids included) or sheets; this is what goes on the freight quote. */
+  exterior: CrateDimensions;
+  tareWeightLbs: number;
+}
+
+const SQUARE_INCHES_PER_SQUARE_FOOT = 144;
+const INCHES_PER_FOOT = 12;
+
+/**
+ * CrateSizeCalculator builds a custom crate or flat-pack around its contents.
+ * Lumber, sheet, foam and skid allowances come from the packaging spec catalog.
+ */
+export class CrateSizeCalculator {
+  /**
+   * Size of the stacked contents. Boxes stack flat; loose art stands on its long edge,
+   * side by side, so the stack's width is the total depth of the pieces.
+   */
+  public static calculateContentsSize(boxes: readonly Box[], looseArt: readonly Art[]): CrateDimensions {
+    let length = 0;
+    let width = 0;
+    let height = 0;
+
+    for (const box of boxes) {
+      const dims = box.getRequiredDimensions();
+      length = Math.max(length, dims.length);
+      width = Math.max(width, dims.width);
+      height += dims.height;
+    }
+
+    let artStackDepth = 0;
+    let artStandingHeight = 0;
+    for (const art of looseArt) {
+      const dims = art.getDimensions();
+      length = Math.max(length, dims.length, dims.width);
+      artStandingHeight = Math.max(artStandingHeight, Math.min(dims.length, dims.width));
+      artStackDepth += dims.height * art.getQuantity();
+    }
+
+    return { length, width: Math.max(width, artStackDepth), height: height + artStandingHeight };
+  }
+
+  /**
+   * Interior and exterior dimensions and the tare weight of a crate built for the contents.
+   * Tare is panels, cleats along every edge, skids and foam lining, rounded up to the pound.
+   */
+  public static calculateSize(boxes: readonly Box[], looseArt: readonly Art[]): CrateSize {
+    const construction = getPackagingSpecCatalog().crateConstruction;
+    const contents = this.calculateContentsSize(boxes, looseArt);
+    const padding = construction.foamPaddingInches * 2;
+    const wall = (construction.panelThicknessInches + construction.cleatThicknessInches) * 2;
+
+    const interior = {
+      length: contents.length + padding,
+      width: contents.width + padding,
+      height: contents.height + padding,
+    };
+    const exterior = {
+      length: interior.length + wall,
+      width: interior.width + wall,
+      height: interior.height + wall + construction.skidHeightInches,
+    };
+
+    const panelBox = { ...exterior, height: exterior.height - construction.skidHeightInches };
+    const panelWeight = (this.surfaceArea(panelBox) / SQUARE_INCHES_PER_SQUARE_FOOT) * construction.panelWeightLbPerSqFt;
+    const cleatFeet = (4 * (panelBox.length + panelBox.width + panelBox.height)) / INCHES_PER_FOOT;
+    const cleatWeight = cleatFeet * construction.cleatWeightLbPerFt;
+    const skidWeight = construction.skidCount * (exterior.length / INCHES_PER_FOOT) * construction.skidWeightLbPerFt;
+    const foamWeight = (this.surfaceArea(interior) / SQUARE_INCHES_PER_SQUARE_FOOT) * construction.foamWeightLbPerSqFt;
+
+    return {
+      interior,
+      exterior,
+      tareWeightLbs: Math.ceil(panelWeight + cleatWeight + skidWeight + foamWeight),
+    };
+  }
+
+  /**
+   * Size and tare of a flat-pack: pieces lie flat, padded with foam and wrapped in corrugated sheet.
+   */
+  public static calculateFlatPackSize(looseArt: readonly Art[]): CrateSize {
+    const construction = getPackagingSpecCatalog().flatPackConstruction;
+    let length = 0;
+    let width = 0;
+    let height = 0;
+    for (const art of looseArt) {
+      const dims = art.getDimensions();
+      length = Math.max(length, dims.length, dims.width);
+      width = Math.max(width, Math.min(dims.length, dims.width));
+      height += dims.height * art.getQuantity();
+    }
+
+    const padding = construction.paddingInches * 2;
+    const sheet = construction.sheetThicknessInches * 2;
+    const interior = { length: length + padding, width: width + padding, height: height + padding };
+    const exterior = { length: interior.length + sheet, width: interior.width + sheet, height: interior.height + sheet };
+
+    const sheetWeight = (this.surfaceArea(exterior) / SQUARE_INCHES_PER_SQUARE_FOOT) * construction.sheetWeightLbPerSqFt;
+    const foamWeight = (this.surfaceArea(interior) / SQUARE_INCHES_PER_SQUARE_FOOT) * construction.foamWeightLbPerSqFt;
+
+    return { interior, exterior, tareWeightLbs: Math.ceil(sheetWeight + foamWeight) };
+  }
+
+  private static surfaceArea(dims: CrateDimensions): number {
+    return 2 * (dims.length * dims.width + dims.length * dims.height + dims.width * dims.height);
+  }
+}
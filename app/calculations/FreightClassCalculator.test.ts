@@ -0,0 +1,21 @@
+import { describe, it, expect } from "vitest";
+import { FreightClassCalculator } from "./FreightClassCalculator";
+
+describe("FreightClassCalculator", () => {
+  it("calculates density in pounds per cubic foot", () => {
+    // 48 * 40 * 36 = 69120 cu in = 40 cu ft -> 400 lbs / 40 = 10 lb/ft³
+    expect(FreightClassCalculator.calculateDensity({ length: 48, width: 40, height: 36 }, 400)).toBe(10);
+  });
+
+  it("reports zero density for a unit with no volume", () => {
+    expect(FreightClassCalculator.calculateDensity({ length: 48, width: 40, height: 0 }, 400)).toBe(0);
+  });
+
+  it("maps density to the catalog's NMFC class breaks", () => {
+    expect(FreightClassCalculator.classifyDensity(60)).toBe(50);
+    expect(FreightClassCalculator.classifyDensity(10)).toBe(100);
+    expect(FreightClassCalculator.classifyDensity(10.5)).toBe(92.5);
+    expect(FreightClassCalculator.classifyDensity(4.2)).toBe(200);
+    expect(FreightClassCalculator.classifyDensity(0.4)).toBe(500);
+  });
+});
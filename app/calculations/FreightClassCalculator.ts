@@ -0,0 +1,42 @@
+import { getPackagingSpecCatalog } from "../catalog/PackagingSpecCatalog";
+
+const CUBIC_INCHES_PER_CUBIC_FOOT = 1728;
+
+/**
+ * FreightClassCalculator works out LTL density and the suggested NMFC class for a handling unit.
+ * The density-to-class table comes from the packaging spec catalog.
+ */
+export class FreightClassCalculator {
+  /**
+   * Density in lb/ft³, rounded to two decimals. Zero-volume units report 0.
+   */
+  public static calculateDensity(
+    dimensions: { length: number; width: number; height: number },
+    weightLbs: number,
+  ): number {
+    return this.calculateDensityFromVolume(dimensions.length * dimensions.width * dimensions.height, weightLbs);
+  }
+
+  /**
+   * Density in lb/ft³ for a volume given in cubic inches (e.g., several units combined).
+   */
+  public static calculateDensityFromVolume(cubicInches: number, weightLbs: number): number {
+    const cubicFeet = cubicInches / CUBIC_INCHES_PER_CUBIC_FOOT;
+    if (cubicFeet <= 0) {
+      return 0;
+    }
+    return Math.round((weightLbs / cubicFeet) * 100) / 100;
+  }
+
+  /**
+   * Suggested NMFC class for a density: the row with the highest minimum the density still meets.
+   */
+  public static classifyDensity(densityLbPerCuFt: number): number {
+    const breaks = [...getPackagingSpecCatalog().freightClassByDensity].sort(
+      (a, b) => b.minDensityLbPerCuFt - a.minDensityLbPerCuFt,
+    );
+    const match = breaks.find((row) => densityLbPerCuFt >= row.minDensityLbPerCuFt);
+    // The catalog guarantees a 0 lb/ft³ row, so only negative input falls through
+    return (match ?? breaks[breaks.length - 1]).freightClass;
+  }
+}
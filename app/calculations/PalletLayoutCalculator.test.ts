@@ -0,0 +1,83 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import bundledCatalogFile from "../catalog/packaging-spec-catalog.json";
+import { resetPackagingSpecCatalogCache, type PackagingSpecCatalog } from "../catalog/PackagingSpecCatalog";
+import { PalletLayoutCalculator } from "./PalletLayoutCalculator";
+import { Art, ArtMaterial, ArtType } from "../entities/Art";
+import { Box, BoxType } from "../entities/Box";
+
+const standardDeck = { length: 48, width: 40 };
+
+function makeBoxes(type: BoxType, count: number): Box[] {
+  return Array.from({ length: count }, () => new Box({ type }));
+}
+
+describe("PalletLayoutCalculator", () => {
+  afterEach(() => {
+    delete process.env.PACKAGING_SPEC_CATALOG_PATH;
+    resetPackagingSpecCatalogCache();
+  });
+
+  it("stands standard boxes side by side along the deck and centres the row", () => {
+    const layout = PalletLayoutCalculator.plan(makeBoxes(BoxType.Standard, 4), standardDeck);
+
+    expect(layout?.placements.map((placement) => placement.x)).toEqual([2, 13, 24, 35]);
+    expect(layout?.placements[0]).toMatchObject({ layer: 1, y: 2, z: 0, length: 11, width: 36, height: 36 });
+    expect(layout?.stackHeightInches).toBe(41.5);
+    expect(PalletLayoutCalculator.plan(makeBoxes(BoxType.Standard, 5), standardDeck)).toBeNull();
+  });
+
+  it("turns rows across the deck when large boxes are too long for its width", () => {
+    const layout = PalletLayoutCalculator.plan(makeBoxes(BoxType.Large, 3), standardDeck);
+
+    expect(layout?.placements[0]).toMatchObject({ length: 44, width: 13 });
+    expect(PalletLayoutCalculator.plan(makeBoxes(BoxType.Large, 4), standardDeck)).toBeNull();
+
+    const mixed = [...makeBoxes(BoxType.Standard, 2), ...makeBoxes(BoxType.Large, 1)];
+    expect(PalletLayoutCalculator.plan(mixed, standardDeck)).not.toBeNull();
+    expect(PalletLayoutCalculator.countBoxesThatFit([...mixed, ...makeBoxes(BoxType.Standard, 1)], standardDeck)).toBe(3);
+  });
+
+  it("lets boxes hang over the deck edge by the catalog overhang", () => {
+    const layout = PalletLayoutCalculator.plan(makeBoxes(BoxType.Standard, 4), { length: 43, width: 35 });
+
+    expect(layout?.placements[0]).toMatchObject({ x: -0.5, y: -0.5 });
+    // The overhang widens the measured pallet past the 43x35 deck
+    expect(PalletLayoutCalculator.measure(layout!)).toEqual({ length: 44, width: 36, height: 42 });
+  });
+
+  it("stands a box on its short edge when its long side is past the deck", () => {
+    const box = new Box({ type: BoxType.Standard });
+    box.addArt(
+      new Art({ id: "long", productType: ArtType.PaperPrint, material: ArtMaterial.Glass, dimensions: { length: 55, width: 31, height: 2 } }),
+    );
+
+    const layout = PalletLayoutCalculator.plan([box], standardDeck);
+
+    expect(layout?.placements[0]).toMatchObject({ width: 36, height: 55 });
+    expect(layout?.stackHeightInches).toBe(60.5);
+  });
+
+  it("stacks layers up to the stack height when the catalog allows more than one", async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), "pallet-layout-"));
+    try {
+      const bundled = bundledCatalogFile.catalogs[0] as PackagingSpecCatalog;
+      const stacked = { ...structuredClone(bundled), version: "stacked", palletLayout: { ...bundled.palletLayout, maxLayers: 2 } };
+      const filePath = join(tempDir, "catalog.json");
+      await writeFile(filePath, JSON.stringify({ catalogs: [stacked] }));
+      process.env.PACKAGING_SPEC_CATALOG_PATH = filePath;
+      resetPackagingSpecCatalogCache();
+
+      const layout = PalletLayoutCalculator.plan(makeBoxes(BoxType.Standard, 8), standardDeck);
+      expect(layout?.placements.filter((placement) => placement.layer === 2 && placement.z === 36)).toHaveLength(4);
+      expect(layout?.stackHeightInches).toBe(77.5);
+
+      // Two layers of 44" large boxes would reach 93.5", past the 84" limit
+      expect(PalletLayoutCalculator.countBoxesThatFit(makeBoxes(BoxType.Large, 6), standardDeck)).toBe(3);
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,229 @@
+import type { Box } from "../entities/Box";
+import { getPackagingSpecCatalog } from "../catalog/PackagingSpecCatalog";
+
+export interface PalletDeck {
+  length: number;
+  width: number;
+}
+
+/**
+ * Where one box sits on the pallet. x and y run along the deck's length and width from its corner;
+ * they are negative when the box hangs over that edge. z is the bottom of the box above the deck surface.
+ */
+export interface PalletPlacement {
+  box: Box;
+  /** 1 is the layer sitting on the deck. */
+  layer: number;
+  x: number;
+  y: number;
+  z: number;
+  /** Footprint along the deck's length and width. */
+  length: number;
+  width: number;
+  /** Height of the box as it stands. */
+  height: number;
+}
+
+export interface PalletLayout {
+  deck: PalletDeck;
+  placements: PalletPlacement[];
+  /** Pallet deck plus every layer of boxes. */
+  stackHeightInches: number;
+}
+
+interface Row {
+  across: number;
+  depth: number;
+  used: number;
+}
+
+interface Layer {
+  height: number;
+  depthUsed: number;
+  rows: Row[];
+}
+
+interface Slot {
+  box: Box;
+  layer: number;
+  row: Row;
+  along: number;
+  thickness: number;
+  face: number;
+  standing: number;
+}
+
+/**
+ * PalletLayoutCalculator places boxes on a pallet deck. Boxes stand on edge, side by side in rows
+ * across the deck; a box stands on its long edge when that fits the row, otherwise on its short edge.
+ * Boxes may hang past the deck by the catalog's overhang, and layers stack up to the catalog's
+ * layer and height limits.
+ */
+export class PalletLayoutCalculator {
+  /**
+   * Layout for all the boxes, or null when they do not fit the deck.
+   * Rows running along the deck's length are tried first, then rows along its width.
+   */
+  public static plan(boxes: readonly Box[], deck: PalletDeck): PalletLayout | null {
+    const { palletLayout, maxStackHeightInches } = getPackagingSpecCatalog();
+    const sorted = [...boxes].sort((a, b) => this.compareBoxes(a, b));
+    const reach = { length: deck.length + palletLayout.overhangInches * 2, width: deck.width + palletLayout.overhangInches * 2 };
+    const heightLimit = maxStackHeightInches - palletLayout.deckHeightInches;
+
+    const rowsAlongLength = this.fill(sorted, reach.length, reach.width, palletLayout.maxLayers, heightLimit);
+    if (rowsAlongLength) {
+      return this.toLayout(rowsAlongLength, deck, palletLayout.deckHeightInches, false);
+    }
+    const rowsAlongWidth = this.fill(sorted, reach.width, reach.length, palletLayout.maxLayers, heightLimit);
+    if (rowsAlongWidth) {
+      return this.toLayout(rowsAlongWidth, deck, palletLayout.deckHeightInches, true);
+    }
+    return null;
+  }
+
+  /**
+   * How many of the boxes, taken in order, fit on one pallet.
+   */
+  public static countBoxesThatFit(boxes: readonly Box[], deck: PalletDeck): number {
+    let count = 0;
+    while (count < boxes.length && this.plan(boxes.slice(0, count + 1), deck)) {
+      count++;
+    }
+    return count;
+  }
+
+  /**
+   * Loaded size of a planned pallet: the deck or the boxes hanging over it, whichever reaches further,
+   * and the deck plus its layers, rounded up to whole inches as carriers measure them. Reports, freight
+   * classes, truck plans and clearance checks all measure pallets this way.
+   */
+  public static measure(layout: PalletLayout): { length: number; width: number; height: number } {
+    const minX = Math.min(0, ...layout.placements.map((placement) => placement.x));
+    const maxX = Math.max(layout.deck.length, ...layout.placements.map((placement) => placement.x + placement.length));
+    const minY = Math.min(0, ...layout.placements.map((placement) => placement.y));
+    const maxY = Math.max(layout.deck.width, ...layout.placements.map((placement) => placement.y + placement.width));
+    return {
+      length: Math.ceil(maxX - minX),
+      width: Math.ceil(maxY - minY),
+      height: Math.ceil(layout.stackHeightInches),
+    };
+  }
+
+  /** Longest boxes first, so the deepest rows open first. */
+  private static compareBoxes(a: Box, b: Box): number {
+    const [aLong, aShort] = this.faceSides(a);
+    const [bLong, bShort] = this.faceSides(b);
+    return bLong - aLong || bShort - aShort || b.getRequiredDimensions().height - a.getRequiredDimensions().height;
+  }
+
+  private static faceSides(box: Box): [number, number] {
+    const dims = box.getRequiredDimensions();
+    return [Math.max(dims.length, dims.width), Math.min(dims.length, dims.width)];
+  }
+
+  /**
+   * Fills rows of at most rowLimit inches, stacked across the deck up to depthLimit, layer by layer.
+   */
+  private static fill(
+    boxes: readonly Box[],
+    rowLimit: number,
+    depthLimit: number,
+    maxLayers: number,
+    heightLimit: number,
+  ): { slots: Slot[]; layers: Layer[] } | null {
+    const layers: Layer[] = [];
+    const slots: Slot[] = [];
+    const stackHeight = (layer: Layer, standing: number) =>
+      layers.reduce((sum, current) => sum + (current === layer ? Math.max(current.height, standing) : current.height), 0);
+
+    for (const box of boxes) {
+      const thickness = box.getRequiredDimensions().height;
+      const sides = this.faceSides(box);
+      let slot: Slot | null = null;
+
+      for (let index = 0; index < layers.length && !slot; index++) {
+        const layer = layers[index];
+        for (const row of layer.rows) {
+          const face = sides.find((side) => side <= row.depth);
+          if (face === undefined || row.used + thickness > rowLimit) {
+            continue;
+          }
+          const standing = face === sides[0] ? sides[1] : sides[0];
+          if (stackHeight(layer, standing) <= heightLimit) {
+            slot = { box, layer: index + 1, row, along: row.used, thickness, face, standing };
+            break;
+          }
+        }
+
+        if (!slot && thickness <= rowLimit) {
+          const face = sides.find((side) => layer.depthUsed + side <= depthLimit);
+          const standing = face === sides[0] ? sides[1] : sides[0];
+          if (face !== undefined && stackHeight(layer, standing) <= heightLimit) {
+            const row = { across: layer.depthUsed, depth: face, used: 0 };
+            layer.rows.push(row);
+            layer.depthUsed += face;
+            slot = { box, layer: index + 1, row, along: 0, thickness, face, standing };
+          }
+        }
+      }
+
+      if (!slot && layers.length < maxLayers && thickness <= rowLimit) {
+        const face = sides.find((side) => side <= depthLimit);
+        const standing = face === sides[0] ? sides[1] : sides[0];
+        const layersBelow = layers.reduce((sum, layer) => sum + layer.height, 0);
+        if (face !== undefined && layersBelow + standing <= heightLimit) {
+          const row = { across: 0, depth: face, used: 0 };
+          layers.push({ height: 0, depthUsed: face, rows: [row] });
+          slot = { box, layer: layers.length, row, along: 0, thickness, face, standing };
+        }
+      }
+
+      if (!slot) {
+        return null;
+      }
+      slot.row.used += thickness;
+      layers[slot.layer - 1].height = Math.max(layers[slot.layer - 1].height, slot.standing);
+      slots.push(slot);
+    }
+
+    return { slots, layers };
+  }
+
+  /**
+   * Turns row positions into deck coordinates, centring each layer's load on the deck.
+   */
+  private static toLayout(
+    filled: { slots: Slot[]; layers: Layer[] },
+    deck: PalletDeck,
+    deckHeight: number,
+    rowsAlongWidth: boolean,
+  ): PalletLayout {
+    const rowDeck = rowsAlongWidth ? deck.width : deck.length;
+    const depthDeck = rowsAlongWidth ? deck.length : deck.width;
+    const layerBottoms: number[] = [];
+    let height = 0;
+    for (const layer of filled.layers) {
+      layerBottoms.push(height);
+      height += layer.height;
+    }
+
+    const placements = filled.slots.map((slot): PalletPlacement => {
+      const layer = filled.layers[slot.layer - 1];
+      const rowExtent = Math.max(...layer.rows.map((row) => row.used));
+      const along = slot.along + (rowDeck - rowExtent) / 2;
+      const across = slot.row.across + (depthDeck - layer.depthUsed) / 2;
+      return {
+        box: slot.box,
+        layer: slot.layer,
+        x: rowsAlongWidth ? across : along,
+        y: rowsAlongWidth ? along : across,
+        z: layerBottoms[slot.layer - 1],
+        length: rowsAlongWidth ? slot.face : slot.thickness,
+        width: rowsAlongWidth ? slot.thickness : slot.face,
+        height: slot.standing,
+      };
+    });
+
+    return { deck, placements, stackHeightInches: deckHeight + height };
+  }
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { TruckLoadCalculator, type TruckLoadUnit } from "./TruckLoadCalculator";
+
+function pallet(id: string, weightLbs = 300): TruckLoadUnit {
+  return { id, containerKind: "PALLET", length: 48, width: 40, height: 60, weightLbs };
+}
+
+function crate(id: string, weightLbs = 400, height = 40): TruckLoadUnit {
+  return { id, containerKind: "CRATE", length: 50, width: 44, height, weightLbs };
+}
+
+describe("TruckLoadCalculator", () => {
+  it("puts pallets two across, long side across the truck, and counts linear feet", () => {
+    const load = TruckLoadCalculator.plan([pallet("P1"), pallet("P2"), pallet("P3")], "BOX_TRUCK_20");
+
+    expect(load.placements.map(({ unit, row, x, y }) => [unit.id, row, x, y])).toEqual([
+      ["P1", 1, 0, 0],
+      ["P2", 1, 0, 48],
+      ["P3", 2, 40, 0],
+    ]);
+    expect(load.placements[0]).toMatchObject({ length: 40, width: 48, z: 0 });
+    expect(load.linearFeet).toBe(6.7);
+    expect(load).toMatchObject({ fits: true, problems: [], weightLbs: 900 });
+
+    // The 16' truck is 92" wide, so the second pallet turns its short side across
+    const narrow = TruckLoadCalculator.plan([pallet("P1"), pallet("P2")], "BOX_TRUCK_16");
+    expect(narrow.placements[1]).toMatchObject({ row: 1, y: 48, length: 48, width: 40 });
+  });
+
+  it("stacks crates but never pallets, within the interior height", () => {
+    const units = [crate("C1"), crate("C2", 350), pallet("P1"), pallet("P2")];
+
+    const load = TruckLoadCalculator.plan(units, "BOX_TRUCK_20");
+    const top = load.placements.find((placement) => placement.unit.id === "C2")!;
+    expect(top).toMatchObject({ z: 40, x: 0, y: 0 });
+    expect(top.stackedOn?.id).toBe("C1");
+    expect(load.placements.filter((placement) => placement.unit.containerKind === "PALLET").every((p) => !p.stackedOn)).toBe(true);
+
+    // Two 50" crates are taller than the 16' truck's 86" interior
+    const tall = TruckLoadCalculator.plan([crate("C1", 400, 50), crate("C2", 350, 50)], "BOX_TRUCK_16");
+    expect(tall.placements.every((placement) => placement.z === 0)).toBe(true);
+  });
+
+  it("recommends the smallest vehicle that takes the floor length and payload", () => {
+    const pallets = Array.from({ length: 14 }, (_, index) => pallet(`P${index + 1}`, 400));
+
+    const loads = TruckLoadCalculator.planAll(pallets);
+    expect(loads.map((load) => [load.vehicleId, load.fits])).toEqual([
+      ["BOX_TRUCK_16", false],
+      ["BOX_TRUCK_20", false],
+      ["BOX_TRUCK_26", true],
+      ["TRAILER_53", true],
+    ]);
+    expect(loads[0].problems).toEqual(["5600 lbs is over the 4000 lb payload", "needs 28 linear ft; the floor is 16 ft"]);
+    expect(TruckLoadCalculator.recommend(loads)?.vehicleId).toBe("BOX_TRUCK_26");
+  });
+
+  it("reports units too big for the vehicle and loads that need more than the largest one", () => {
+    const oversize: TruckLoadUnit = { id: "C1", containerKind: "CRATE", length: 130, width: 104, height: 40, weightLbs: 500 };
+    const heavy = Array.from({ length: 2 }, (_, index) => crate(`C${index + 2}`, 25000));
+
+    const loads = TruckLoadCalculator.planAll([oversize, ...heavy]);
+    expect(TruckLoadCalculator.recommend(loads)).toBeUndefined();
+    expect(loads[3].problems).toEqual([
+      "50500 lbs is over the 44000 lb payload",
+      'C1 does not fit inside (130"x104"x40")',
+    ]);
+    expect(() => TruckLoadCalculator.plan([], "BOX_TRUCK_40")).toThrow("Unknown vehicle 'BOX_TRUCK_40'.");
+  });
+});
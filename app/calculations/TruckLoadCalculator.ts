@@ -0,0 +1,199 @@
+import { getPackagingSpecCatalog, type CatalogVehicleSpecification } from "../catalog/PackagingSpecCatalog";
+
+/**
+ * One pallet, crate or flat-pack as it sits on the truck floor.
+ */
+export interface TruckLoadUnit {
+  id: string;
+  /** Catalog container kind (CRATE, PALLET, FLAT_PACK). */
+  containerKind: string;
+  /** Footprint, including any overhang, and height off the floor. */
+  length: number;
+  width: number;
+  height: number;
+  weightLbs: number;
+}
+
+/**
+ * Where one unit rides. x runs from the front wall toward the doors and y from the left wall;
+ * z is the floor or the top of the unit it is stacked on.
+ */
+export interface TruckPlacement {
+  unit: TruckLoadUnit;
+  /** 1 is the row against the front wall. */
+  row: number;
+  x: number;
+  y: number;
+  z: number;
+  /** Footprint along the truck's length and width. */
+  length: number;
+  width: number;
+  stackedOn?: TruckLoadUnit;
+}
+
+export interface VehicleLoad {
+  vehicleId: string;
+  vehicle: CatalogVehicleSpecification;
+  fits: boolean;
+  /** Why the load does not fit; empty when it does. */
+  problems: string[];
+  /** Loading order: front row first, floor units before the units stacked on them. */
+  placements: TruckPlacement[];
+  linearFeet: number;
+  weightLbs: number;
+}
+
+interface Stack {
+  units: TruckLoadUnit[];
+  height: number;
+}
+
+interface Row {
+  x: number;
+  depth: number;
+  used: number;
+}
+
+function sortedSides(unit: { length: number; width: number }): [number, number] {
+  return unit.length >= unit.width ? [unit.length, unit.width] : [unit.width, unit.length];
+}
+
+/**
+ * TruckLoadCalculator lays pallets, crates and flat-packs out on a truck floor in rows across its width,
+ * stacks the units the catalog allows, and picks the smallest truck or trailer that takes the whole load.
+ */
+export class TruckLoadCalculator {
+  /**
+   * Plans the load for every catalog vehicle, smallest first.
+   */
+  static planAll(units: TruckLoadUnit[]): VehicleLoad[] {
+    return Object.keys(getPackagingSpecCatalog().vehicles).map((vehicleId) => this.plan(units, vehicleId));
+  }
+
+  /**
+   * The first vehicle the load fits, or undefined when it needs more than the largest one.
+   */
+  static recommend(loads: VehicleLoad[]): VehicleLoad | undefined {
+    return loads.find((load) => load.fits);
+  }
+
+  static plan(units: TruckLoadUnit[], vehicleId: string): VehicleLoad {
+    const vehicle = getPackagingSpecCatalog().vehicles[vehicleId];
+    if (!vehicle) {
+      throw new Error(`Unknown vehicle '${vehicleId}'.`);
+    }
+
+    const problems: string[] = [];
+    const weightLbs = units.reduce((sum, unit) => sum + unit.weightLbs, 0);
+    if (weightLbs > vehicle.payloadLbs) {
+      problems.push(`${weightLbs} lbs is over the ${vehicle.payloadLbs} lb payload`);
+    }
+    for (const unit of units) {
+      if (sortedSides(unit)[1] > vehicle.interiorWidthInches || unit.height > vehicle.interiorHeightInches) {
+        problems.push(`${unit.id} does not fit inside (${unit.length}"x${unit.width}"x${unit.height}")`);
+      }
+    }
+
+    const stacks = this.buildStacks(units, vehicle);
+    const placements: TruckPlacement[] = [];
+    const rows: Row[] = [];
+
+    for (const stack of stacks) {
+      const [longSide, shortSide] = sortedSides(stack.units[0]);
+      // Long side across the truck keeps rows shallow; turn the unit when that does not fit
+      const orientations: Array<[number, number]> = [
+        [longSide, shortSide],
+        [shortSide, longSide],
+      ].filter(([across]) => across <= vehicle.interiorWidthInches) as Array<[number, number]>;
+      if (orientations.length === 0) {
+        continue;
+      }
+
+      let row = rows[rows.length - 1];
+      let orientation = row && orientations.find(([across]) => row.used + across <= vehicle.interiorWidthInches);
+      if (!row || !orientation) {
+        row = { x: row ? row.x + row.depth : 0, depth: 0, used: 0 };
+        rows.push(row);
+        orientation = orientations[0];
+      }
+
+      const [across, depth] = orientation;
+      let z = 0;
+      let below: TruckLoadUnit | undefined;
+      for (const unit of stack.units) {
+        const [unitLong, unitShort] = sortedSides(unit);
+        const turned = across === longSide;
+        placements.push({
+          unit,
+          row: rows.length,
+          x: row.x,
+          y: row.used,
+          z,
+          length: turned ? unitShort : unitLong,
+          width: turned ? unitLong : unitShort,
+          ...(below && { stackedOn: below }),
+        });
+        z += unit.height;
+        below = unit;
+      }
+      row.used += across;
+      row.depth = Math.max(row.depth, depth);
+    }
+
+    const lastRow = rows[rows.length - 1];
+    const usedLengthInches = lastRow ? lastRow.x + lastRow.depth : 0;
+    if (usedLengthInches > vehicle.interiorLengthInches) {
+      problems.push(
+        `needs ${Math.round((usedLengthInches / 12) * 10) / 10} linear ft; the floor is ${Math.round((vehicle.interiorLengthInches / 12) * 10) / 10} ft`,
+      );
+    }
+
+    return {
+      vehicleId,
+      vehicle,
+      fits: problems.length === 0,
+      problems,
+      placements,
+      linearFeet: Math.round((usedLengthInches / 12) * 10) / 10,
+      weightLbs,
+    };
+  }
+
+  /**
+   * Largest footprints go down first. A stackable unit rides on a stackable unit at least as large and
+   * as heavy, up to the catalog's stack limit and the vehicle's interior height.
+   */
+  private static buildStacks(units: TruckLoadUnit[], vehicle: CatalogVehicleSpecification): Stack[] {
+    const { stackableContainerKinds, maxUnitsPerStack } = getPackagingSpecCatalog().truckLoading;
+    const ordered = [...units].sort(
+      (a, b) => b.length * b.width - a.length * a.width || b.weightLbs - a.weightLbs,
+    );
+
+    const stacks: Stack[] = [];
+    for (const unit of ordered) {
+      const [unitLong, unitShort] = sortedSides(unit);
+      const stack = stackableContainerKinds.includes(unit.containerKind)
+        ? stacks.find((candidate) => {
+            const top = candidate.units[candidate.units.length - 1];
+            const [topLong, topShort] = sortedSides(top);
+            return (
+              stackableContainerKinds.includes(top.containerKind) &&
+              candidate.units.length < maxUnitsPerStack &&
+              unitLong <= topLong &&
+              unitShort <= topShort &&
+              unit.weightLbs <= top.weightLbs &&
+              candidate.height + unit.height <= vehicle.interiorHeightInches
+            );
+          })
+        : undefined;
+
+      if (stack) {
+        stack.units.push(unit);
+        stack.height += unit.height;
+      } else {
+        stacks.push({ units: [unit], height: unit.height });
+      }
+    }
+    return stacks;
+  }
+}
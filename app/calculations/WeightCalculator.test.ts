@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import { WeightCalculator } from "./WeightCalculator";
-import { Art, ArtMaterial, ArtType } from "../entities/Art";
+import { Art, ArtMaterial, ArtType, type FrameMoulding } from "../entities/Art";
 
 let artId = 0;
 
@@ -8,6 +8,8 @@ function makeArt(options: {
   material?: ArtMaterial;
   dimensions?: { length: number; width: number; height?: number };
   quantity?: number;
+  measuredWeightLbs?: number;
+  frameMoulding?: FrameMoulding;
 } = {}): Art {
   return new Art({
     id: `weight-art-${artId++}`,
@@ -15,6 +17,8 @@ function makeArt(options: {
     material: options.material ?? ArtMaterial.Glass,
     dimensions: options.dimensions ?? { length: 30, width: 20, height: 4 },
     quantity: options.quantity ?? 1,
+    measuredWeightLbs: options.measuredWeightLbs,
+    frameMoulding: options.frameMoulding,
   });
 }
 
@@ -39,6 +43,24 @@ describe("WeightCalculator", () => {
     expect(warn).toHaveBeenCalled();
   });
 
+  it("uses a measured piece weight instead of the area estimate", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const decor = makeArt({ material: ArtMaterial.Unknown, measuredWeightLbs: 12.2, quantity: 3 });
+
+    // 12.2 lbs rounds up to 13 per piece
+    expect(WeightCalculator.calculateWeight(decor)).toBe(39);
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it("adds the moulding's weight along the frame perimeter", () => {
+    const walnut = { code: "HW-300-WAL", weightLbPerLinearInch: 0.035, profileDepthInches: 2.25 };
+    const art = makeArt({ dimensions: { length: 30, width: 20, height: 2 }, quantity: 2, frameMoulding: walnut });
+
+    // 600 sq in * 0.0098 = 5.88, plus 100" of frame * 0.035 = 3.5 -> 9.38 -> 10 per piece
+    expect(WeightCalculator.calculateFrameWeight(art)).toBeCloseTo(3.5);
+    expect(WeightCalculator.calculateWeight(art)).toBe(20);
+  });
+
   it("throws when requesting weight factor for unsupported material", () => {
     // Cast to bypass exhaustive enum check
     expect(() => WeightCalculator.getWeightFactor(999 as unknown as ArtMaterial)).toThrow();
@@ -51,4 +73,19 @@ describe("WeightCalculator", () => {
     const total = WeightCalculator.calculateTotalWeight([a, b]);
     expect(total).toBe(WeightCalculator.calculateWeight(a) + WeightCalculator.calculateWeight(b));
   });
+
+  it("rounds dimensional weight up to the next pound", () => {
+    // 36 * 36 * 6 = 7776 cu in -> /139 = 55.94 -> 56
+    expect(WeightCalculator.calculateDimensionalWeight({ length: 36, width: 36, height: 6 }, 139)).toBe(56);
+  });
+
+  it("bills the greater of actual and dimensional weight", () => {
+    expect(WeightCalculator.calculateBillableWeight(30.2, 56)).toBe(56);
+    expect(WeightCalculator.calculateBillableWeight(80.2, 56)).toBe(81);
+  });
+
+  it("reads dimensional weight divisors from the spec catalog", () => {
+    expect(WeightCalculator.getDimensionalWeightDivisor("parcel")).toBe(139);
+    expect(WeightCalculator.getDimensionalWeightDivisor("freight")).toBe(139);
+  });
 });
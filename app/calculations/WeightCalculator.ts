@@ -1,22 +1,20 @@
-import { Art, ArtMaterial } from "../entities/Art";
+import { Art, ArtMaterial, getArtMaterialLabel } from "../entities/Art";
+import { getPackagingSpecCatalog } from "../catalog/PackagingSpecCatalog";
+import type { ShippingMode } from "../requests/PackagingRequest";
 
 /**
  * WeightCalculator encapsulates weight calculation logic.
  * This separates calculation concerns from the Art entity.
  */
 export class WeightCalculator {
-  private static readonly MATERIAL_WEIGHT_LB_PER_SQIN: Record<ArtMaterial, number> = {
-    [ArtMaterial.Glass]: 0.0098,
-    [ArtMaterial.Acrylic]: 0.0094,
-    [ArtMaterial.CanvasFramed]: 0.0085,
-    [ArtMaterial.CanvasGallery]: 0.0061,
-    [ArtMaterial.Mirror]: 0.0191,
-    [ArtMaterial.AcousticPanel]: 0.0038,
-    [ArtMaterial.AcousticPanelFramed]: 0.0037,
-    [ArtMaterial.PatientBoard]: 0.0347,
-    [ArtMaterial.NoGlazing]: 0.0,
-    [ArtMaterial.Unknown]: 0.0,
-  };
+  /**
+   * Looks up the lb-per-square-inch factor in the active packaging spec catalog.
+   * Returns undefined for values outside the ArtMaterial enum.
+   */
+  private static lookupWeightFactor(material: ArtMaterial): number | undefined {
+    const label = getArtMaterialLabel(material);
+    return label === undefined ? undefined : getPackagingSpecCatalog().materialWeightLbPerSqIn[label];
+  }
 
   /**
    * Calculates the weight of an art piece
@@ -24,10 +22,16 @@ export class WeightCalculator {
    * 
    * IMPORTANT: Weight is rounded up at the INDIVIDUAL PIECE level, then multiplied by quantity.
    * This ensures conservative estimates as per requirements.
+   * A measured piece weight from the work order replaces the estimate.
    */
   public static calculateWeight(art: Art): number {
+    const measuredWeight = art.getMeasuredWeightLbs();
+    if (measuredWeight !== undefined) {
+      return this.roundUpWeight(measuredWeight) * art.getQuantity();
+    }
+
     const material = art.getMaterial();
-    const weightFactor = this.MATERIAL_WEIGHT_LB_PER_SQIN[material];
+    const weightFactor = this.lookupWeightFactor(material);
     
     if (weightFactor === undefined) {
       throw new Error(`Unknown material weight factor for: ${material}`);
@@ -40,9 +44,11 @@ export class WeightCalculator {
 
     const dims = art.getDimensions();
     const surfaceArea = dims.length * dims.width;
+    // Catalog mouldings add their weight along the frame's perimeter
+    const frameWeight = this.calculateFrameWeight(art);
     
     // Calculate weight per individual piece
-    const weightPerPiece = surfaceArea * weightFactor;
+    const weightPerPiece = surfaceArea * weightFactor + frameWeight;
     
     // Round up at the individual piece level (conservative approach)
     const roundedWeightPerPiece = this.roundUpWeight(weightPerPiece);
@@ -51,6 +57,18 @@ export class WeightCalculator {
     return roundedWeightPerPiece * art.getQuantity();
   }
 
+  /**
+   * Weight of one piece's frame: perimeter times the moulding's weight per linear inch; 0 without a catalog moulding.
+   */
+  public static calculateFrameWeight(art: Art): number {
+    const moulding = art.getFrameMoulding();
+    if (!moulding) {
+      return 0;
+    }
+    const dims = art.getDimensions();
+    return 2 * (dims.length + dims.width) * moulding.weightLbPerLinearInch;
+  }
+
   /**
    * Rounds weight up to next whole number (conservative approach)
    */
@@ -65,11 +83,35 @@ export class WeightCalculator {
     return artPieces.reduce((total, art) => total + this.calculateWeight(art), 0);
   }
 
+  /**
+   * Gets the carrier's dimensional weight divisor for a shipping mode from the spec catalog.
+   */
+  public static getDimensionalWeightDivisor(mode: ShippingMode): number {
+    return getPackagingSpecCatalog().dimensionalWeightDivisors[mode];
+  }
+
+  /**
+   * Calculates dimensional weight: outside cubic inches over the divisor, rounded up to the next pound.
+   */
+  public static calculateDimensionalWeight(
+    dimensions: { length: number; width: number; height: number },
+    divisor: number,
+  ): number {
+    return this.roundUpWeight((dimensions.length * dimensions.width * dimensions.height) / divisor);
+  }
+
+  /**
+   * Carriers bill the greater of actual and dimensional weight.
+   */
+  public static calculateBillableWeight(actualWeight: number, dimensionalWeight: number): number {
+    return Math.max(this.roundUpWeight(actualWeight), dimensionalWeight);
+  }
+
   /**
    * Gets the weight factor for a material (for external calculations)
    */
   public static getWeightFactor(material: ArtMaterial): number {
-    const factor = this.MATERIAL_WEIGHT_LB_PER_SQIN[material];
+    const factor = this.lookupWeightFactor(material);
     if (factor === undefined) {
       throw new Error(`Unknown material weight factor for: ${material}`);
     }
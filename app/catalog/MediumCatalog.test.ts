@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import bundledCatalogFile from './medium-catalog.json'
+import {
+  findGlazing,
+  findMedium,
+  getMediumCatalog,
+  isNoGlazing,
+  labelSimilarity,
+  resetMediumCatalogCache,
+  suggestGlazings,
+  suggestMediums,
+  validateMediumCatalog,
+  type MediumCatalog,
+} from './MediumCatalog'
+import { ArtMaterial, ArtType, SpecialHandlingFlag } from '../entities/Art'
+
+const bundled = bundledCatalogFile as MediumCatalog
+
+describe('MediumCatalog', () => {
+  let tempDir: string
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'medium-catalog-'))
+    process.env.MEDIUM_ALIASES_PATH = join(tempDir, 'medium-aliases.json')
+    resetMediumCatalogCache()
+  })
+
+  afterEach(async () => {
+    delete process.env.MEDIUM_ALIASES_PATH
+    delete process.env.MEDIUM_CATALOG_PATH
+    resetMediumCatalogCache()
+    await rm(tempDir, { recursive: true, force: true })
+  })
+
+  it('should validate the bundled catalog and use it by default', () => {
+    expect(() => validateMediumCatalog(bundledCatalogFile, 'bundled')).not.toThrow()
+    expect(Object.keys(getMediumCatalog().mediums)).toEqual(Object.keys(bundled.mediums))
+  })
+
+  it('should find mediums by label or alias, ignoring case, accents and spacing', () => {
+    expect(findMedium('canvas')).toEqual({
+      label: 'Canvas - Float Frame',
+      productType: ArtType.CanvasFloatFrame,
+      material: ArtMaterial.CanvasFramed,
+      flags: [],
+    })
+    expect(findMedium('WALL DÉCOR')?.label).toBe('Wall Decor')
+    expect(findMedium('  Print -  Raised Mat ')?.flags).toEqual([SpecialHandlingFlag.RaisedFloat])
+    expect(findMedium('Print - Float Mount w/ Spacer')).toBeUndefined()
+  })
+
+  it('should find glazings and recognize no-glazing labels', () => {
+    expect(findGlazing('glass')).toEqual({ label: 'Regular Glass', material: ArtMaterial.Glass })
+    expect(findGlazing('Regular Acrylic')?.material).toBe(ArtMaterial.Acrylic)
+    expect(findGlazing('N/A')).toBeUndefined()
+    expect(isNoGlazing('N/A')).toBe(true)
+    expect(isNoGlazing('  ')).toBe(true)
+    expect(isNoGlazing('Museum Glass')).toBe(false)
+  })
+
+  it('should suggest the closest catalog entries for unknown labels', () => {
+    expect(suggestMediums('Print - Float Mount w/ Spacer')[0]).toBe('Print - Raised Float Mount')
+    expect(suggestMediums('Paper Prnt - Framed')[0]).toBe('Paper Print - Framed')
+    expect(suggestMediums('Acoustic Pannels')[0]).toBe('Acoustic Panel')
+    expect(suggestMediums('Print - Raised Float', 2)).toHaveLength(2)
+    expect(suggestMediums('Tapestry')).toEqual([])
+    expect(suggestGlazings('Museum Glas')[0]).toBe('Museum Glass')
+  })
+
+  it('should score identical labels 1 and unrelated labels low', () => {
+    expect(labelSimilarity('Canvas - Gallery', 'canvas gallery')).toBe(1)
+    expect(labelSimilarity('Gallery Canvas', 'Canvas - Gallery')).toBe(1)
+    expect(labelSimilarity('Mirror', 'Patient Board')).toBeLessThan(0.5)
+    expect(labelSimilarity('', 'Mirror')).toBe(0)
+  })
+
+  it('should add saved aliases to their catalog entries and skip stale ones', async () => {
+    await writeFile(
+      process.env.MEDIUM_ALIASES_PATH!,
+      JSON.stringify({
+        version: 1,
+        aliases: [
+          { kind: 'medium', alias: 'Print - Float Mount w/ Spacer', target: 'Print - Raised Float Mount', savedAt: '2026-01-01' },
+          { kind: 'glazing', alias: 'UV Glass', target: 'museum glass', savedAt: '2026-01-01' },
+          { kind: 'medium', alias: 'Tapestry', target: 'Retired Medium', savedAt: '2026-01-01' },
+          { kind: 'medium', alias: 'Mirror', target: 'Metal Print', savedAt: '2026-01-01' },
+        ],
+      })
+    )
+
+    expect(findMedium('print - float mount w/ spacer')?.label).toBe('Print - Raised Float Mount')
+    expect(findGlazing('UV Glass')?.label).toBe('Museum Glass')
+    expect(findMedium('Tapestry')).toBeUndefined()
+    expect(findMedium('Mirror')?.label).toBe('Mirror')
+    expect(getMediumCatalog().mediums['Print - Raised Float Mount'].aliases).toEqual(['Print - Float Mount w/ Spacer'])
+  })
+
+  it('should read a replacement catalog from MEDIUM_CATALOG_PATH', async () => {
+    const overridePath = join(tempDir, 'medium-catalog.json')
+    await writeFile(
+      overridePath,
+      JSON.stringify({
+        ...bundled,
+        mediums: { ...bundled.mediums, Tapestry: { productType: 'WALL_DECOR', material: 'UNKNOWN' } },
+      })
+    )
+    process.env.MEDIUM_CATALOG_PATH = overridePath
+
+    expect(findMedium('tapestry')?.productType).toBe(ArtType.WallDecor)
+  })
+
+  it('should list every problem in an invalid catalog', () => {
+    const invalid = {
+      mediums: {
+        Canvas: { productType: 'CANVAS', material: 'CANVAS_FRAMED', flags: ['FRAGILE'] },
+        'Canvas - Framed': { productType: 'CANVAS_FLOAT_FRAME', material: 'CANVAS_FRAMED', aliases: ['canvas'] },
+      },
+      glazings: { Glass: { material: 'GLASS' }, Museum: { material: 'GLASS', aliases: [''] } },
+      noGlazingLabels: ['Glass'],
+    }
+
+    expect(() => validateMediumCatalog(invalid, 'test')).toThrow(
+      "Invalid medium catalog 'test': mediums.Canvas.productType must be one of PAPER_PRINT, PAPER_PRINT_WITH_TITLE_PLATE, " +
+        'CANVAS_FLOAT_FRAME, WALL_DECOR, ACOUSTIC_PANEL, ACOUSTIC_PANEL_FRAMED, METAL_PRINT, MIRROR, PATIENT_BOARD; ' +
+        'mediums.Canvas.flags has unknown flag "FRAGILE"; ' +
+        "mediums: 'canvas' is listed under both Canvas and Canvas - Framed; " +
+        'glazings.Museum.aliases must list non-empty labels; ' +
+        "noGlazingLabels: 'Glass' is also a glazing"
+    )
+    expect(() => validateMediumCatalog({}, 'test')).toThrow(
+      'mediums must list at least one medium; glazings must be an object; noGlazingLabels must list non-empty labels'
+    )
+  })
+})
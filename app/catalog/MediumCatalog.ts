@@ -0,0 +1,415 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import bundledCatalogFile from "./medium-catalog.json";
+import {
+  ArtMaterial,
+  ArtType,
+  SpecialHandlingFlag,
+  getArtMaterialLabel,
+  getArtTypeLabel,
+  getSpecialHandlingFlagLabel,
+} from "../entities/Art";
+
+/**
+ * A Final Medium as stored in the catalog (keyed by its label, e.g., Paper Print - Framed).
+ */
+export interface CatalogMediumSpecification {
+  /** Art type label, e.g., PAPER_PRINT. */
+  productType: string;
+  /** Material label used when the row's glazing is empty or means no glazing. */
+  material: string;
+  /** Special handling flag labels, e.g., RAISED_FLOAT. */
+  flags?: string[];
+  aliases?: string[];
+}
+
+/**
+ * A Glazing as stored in the catalog (keyed by its label, e.g., Museum Glass).
+ */
+export interface CatalogGlazingSpecification {
+  material: string;
+  aliases?: string[];
+}
+
+export interface MediumCatalog {
+  mediums: Record<string, CatalogMediumSpecification>;
+  glazings: Record<string, CatalogGlazingSpecification>;
+  /** Glazing cells that mean the piece is unglazed, e.g., No Glass or N/A. */
+  noGlazingLabels: string[];
+}
+
+export type MediumAliasKind = "medium" | "glazing";
+
+/**
+ * A work-order label mapped to a catalog entry from the GUI, so later jobs with the same label parse.
+ */
+export interface SavedMediumAlias {
+  kind: MediumAliasKind;
+  /** The label as written on the work order. */
+  alias: string;
+  /** The catalog medium or glazing label it stands for. */
+  target: string;
+  savedAt: string;
+}
+
+export interface MediumAliasFile {
+  version: number;
+  aliases: SavedMediumAlias[];
+}
+
+/**
+ * A catalog medium resolved to the enums the Art entity uses.
+ */
+export interface MediumMatch {
+  label: string;
+  productType: ArtType;
+  material: ArtMaterial;
+  flags: SpecialHandlingFlag[];
+}
+
+export interface GlazingMatch {
+  label: string;
+  material: ArtMaterial;
+}
+
+const BUNDLED_CATALOG_SOURCE = "app/catalog/medium-catalog.json";
+
+// Suggestions scoring lower than this are left out
+const MIN_SUGGESTION_SCORE = 0.5;
+
+interface LoadedMediumCatalog {
+  source: string;
+  catalog: MediumCatalog;
+  /** Normalized label or alias → catalog label. */
+  mediumIndex: Map<string, string>;
+  glazingIndex: Map<string, string>;
+  noGlazing: Set<string>;
+}
+
+let cached: LoadedMediumCatalog | undefined;
+
+function enumByLabel<T extends number>(enumObject: object, toLabel: (value: T) => string): Map<string, T> {
+  const values = Object.values(enumObject).filter((value) => typeof value === "number") as T[];
+  return new Map(values.map((value) => [toLabel(value), value]));
+}
+
+const ART_TYPES_BY_LABEL = enumByLabel<ArtType>(ArtType, getArtTypeLabel);
+const ART_MATERIALS_BY_LABEL = enumByLabel<ArtMaterial>(ArtMaterial, getArtMaterialLabel);
+const FLAGS_BY_LABEL = enumByLabel<SpecialHandlingFlag>(SpecialHandlingFlag, getSpecialHandlingFlagLabel);
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isLabelList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string" && item.trim() !== "");
+}
+
+/**
+ * Lookup key for a label: trimmed, lowercase, without accents and with single spaces.
+ */
+export function normalizeCatalogLabel(value: string | undefined): string {
+  return (value ?? "")
+    .trim()
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/\s+/g, " ");
+}
+
+/**
+ * Location of the saved aliases file. MEDIUM_ALIASES_PATH overrides it.
+ */
+export function getMediumAliasesPath(): string {
+  return process.env.MEDIUM_ALIASES_PATH ?? join(process.cwd(), "data", "medium-aliases.json");
+}
+
+/**
+ * Checks a parsed catalog file against the schema. Throws with every problem listed.
+ */
+export function validateMediumCatalog(raw: unknown, source: string): MediumCatalog {
+  const errors: string[] = [];
+  const record = isRecord(raw) ? raw : {};
+  const seen = { mediums: new Map<string, string>(), glazings: new Map<string, string>() };
+
+  const checkLabels = (section: "mediums" | "glazings", label: string, aliases: unknown) => {
+    if (aliases !== undefined && !isLabelList(aliases)) {
+      errors.push(`${section}.${label}.aliases must list non-empty labels`);
+    }
+    for (const name of [label, ...(isLabelList(aliases) ? aliases : [])]) {
+      const key = normalizeCatalogLabel(name);
+      const owner = seen[section].get(key);
+      if (owner !== undefined) {
+        errors.push(`${section}: '${name}' is listed under both ${owner} and ${label}`);
+      }
+      seen[section].set(key, label);
+    }
+  };
+
+  const mediums = isRecord(record.mediums) ? record.mediums : {};
+  if (Object.keys(mediums).length === 0) {
+    errors.push("mediums must list at least one medium");
+  }
+  for (const [label, medium] of Object.entries(mediums)) {
+    if (!isRecord(medium)) {
+      errors.push(`mediums.${label} must be an object`);
+      continue;
+    }
+    if (typeof medium.productType !== "string" || !ART_TYPES_BY_LABEL.has(medium.productType)) {
+      errors.push(`mediums.${label}.productType must be one of ${[...ART_TYPES_BY_LABEL.keys()].join(", ")}`);
+    }
+    if (typeof medium.material !== "string" || !ART_MATERIALS_BY_LABEL.has(medium.material)) {
+      errors.push(`mediums.${label}.material must be one of ${[...ART_MATERIALS_BY_LABEL.keys()].join(", ")}`);
+    }
+    if (medium.flags !== undefined) {
+      const flags = Array.isArray(medium.flags) ? medium.flags : [medium.flags];
+      for (const flag of flags) {
+        if (typeof flag !== "string" || !FLAGS_BY_LABEL.has(flag)) {
+          errors.push(`mediums.${label}.flags has unknown flag "${String(flag)}"`);
+        }
+      }
+    }
+    checkLabels("mediums", label, medium.aliases);
+  }
+
+  if (!isRecord(record.glazings)) {
+    errors.push("glazings must be an object");
+  }
+  for (const [label, glazing] of Object.entries(isRecord(record.glazings) ? record.glazings : {})) {
+    if (!isRecord(glazing)) {
+      errors.push(`glazings.${label} must be an object`);
+      continue;
+    }
+    if (typeof glazing.material !== "string" || !ART_MATERIALS_BY_LABEL.has(glazing.material)) {
+      errors.push(`glazings.${label}.material must be one of ${[...ART_MATERIALS_BY_LABEL.keys()].join(", ")}`);
+    }
+    checkLabels("glazings", label, glazing.aliases);
+  }
+
+  if (!isLabelList(record.noGlazingLabels)) {
+    errors.push("noGlazingLabels must list non-empty labels");
+  } else {
+    for (const label of record.noGlazingLabels) {
+      if (seen.glazings.has(normalizeCatalogLabel(label))) {
+        errors.push(`noGlazingLabels: '${label}' is also a glazing`);
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid medium catalog '${source}': ${errors.join("; ")}`);
+  }
+
+  return {
+    mediums: mediums as Record<string, CatalogMediumSpecification>,
+    glazings: record.glazings as Record<string, CatalogGlazingSpecification>,
+    noGlazingLabels: record.noGlazingLabels as string[],
+  };
+}
+
+/**
+ * Reads the saved aliases file. A missing file means nothing has been saved yet.
+ */
+export function readMediumAliasFile(filePath: string = getMediumAliasesPath()): MediumAliasFile {
+  let content: string;
+  try {
+    content = readFileSync(filePath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return { version: 1, aliases: [] };
+    }
+    throw new Error(`Cannot read medium aliases '${filePath}': ${error instanceof Error ? error.message : "Unknown error"}`);
+  }
+
+  try {
+    const parsed = JSON.parse(content) as Partial<MediumAliasFile>;
+    return { version: parsed.version ?? 1, aliases: Array.isArray(parsed.aliases) ? parsed.aliases : [] };
+  } catch (error) {
+    throw new Error(`Medium aliases '${filePath}' is not valid JSON: ${error instanceof Error ? error.message : "Unknown error"}`);
+  }
+}
+
+function buildIndex(entries: Record<string, { aliases?: string[] }>): Map<string, string> {
+  const index = new Map<string, string>();
+  for (const [label, entry] of Object.entries(entries)) {
+    for (const name of [label, ...(entry.aliases ?? [])]) {
+      index.set(normalizeCatalogLabel(name), label);
+    }
+  }
+  return index;
+}
+
+/**
+ * Adds saved aliases to the catalog entries they point at. Aliases whose entry has since been
+ * removed, or that now clash with a catalog label, are skipped.
+ */
+function withSavedAliases(catalog: MediumCatalog, saved: SavedMediumAlias[]): MediumCatalog {
+  const merged: MediumCatalog = structuredClone(catalog);
+  const indexes = { medium: buildIndex(merged.mediums), glazing: buildIndex(merged.glazings) };
+
+  for (const { kind, alias, target } of saved) {
+    const entries: Record<string, { aliases?: string[] }> | undefined =
+      kind === "medium" ? merged.mediums : kind === "glazing" ? merged.glazings : undefined;
+    const index = indexes[kind];
+    const targetLabel = index?.get(normalizeCatalogLabel(target));
+    const key = normalizeCatalogLabel(alias);
+    if (!entries || !targetLabel || !key || index.has(key)) {
+      continue;
+    }
+    entries[targetLabel].aliases = [...(entries[targetLabel].aliases ?? []), alias];
+    index.set(key, targetLabel);
+  }
+
+  return merged;
+}
+
+function loadMediumCatalog(): LoadedMediumCatalog {
+  const overridePath = process.env.MEDIUM_CATALOG_PATH;
+  const aliasesPath = getMediumAliasesPath();
+  const source = `${overridePath ?? BUNDLED_CATALOG_SOURCE}|${aliasesPath}`;
+
+  if (!cached || cached.source !== source) {
+    let catalog: MediumCatalog;
+    if (overridePath) {
+      let raw: unknown;
+      try {
+        raw = JSON.parse(readFileSync(overridePath, "utf8"));
+      } catch (error) {
+        throw new Error(`Cannot read medium catalog '${overridePath}': ${error instanceof Error ? error.message : "Unknown error"}`);
+      }
+      catalog = validateMediumCatalog(raw, overridePath);
+    } else {
+      catalog = validateMediumCatalog(bundledCatalogFile, BUNDLED_CATALOG_SOURCE);
+    }
+
+    catalog = withSavedAliases(catalog, readMediumAliasFile(aliasesPath).aliases);
+    cached = {
+      source,
+      catalog,
+      mediumIndex: buildIndex(catalog.mediums),
+      glazingIndex: buildIndex(catalog.glazings),
+      noGlazing: new Set(catalog.noGlazingLabels.map(normalizeCatalogLabel)),
+    };
+  }
+
+  return cached;
+}
+
+/**
+ * Returns the medium catalog with saved aliases added. MEDIUM_CATALOG_PATH points at a replacement
+ * file; otherwise the catalog bundled with the app is used. Both files are read once and cached.
+ */
+export function getMediumCatalog(): MediumCatalog {
+  return loadMediumCatalog().catalog;
+}
+
+/**
+ * Drops the cached catalog so the next lookup re-reads it (e.g., after saving an alias).
+ */
+export function resetMediumCatalogCache(): void {
+  cached = undefined;
+}
+
+/**
+ * Finds the catalog medium for a Final Medium label or one of its aliases.
+ */
+export function findMedium(label: string | undefined): MediumMatch | undefined {
+  const { catalog, mediumIndex } = loadMediumCatalog();
+  const catalogLabel = mediumIndex.get(normalizeCatalogLabel(label));
+  if (catalogLabel === undefined) {
+    return undefined;
+  }
+  const medium = catalog.mediums[catalogLabel];
+  return {
+    label: catalogLabel,
+    productType: ART_TYPES_BY_LABEL.get(medium.productType)!,
+    material: ART_MATERIALS_BY_LABEL.get(medium.material)!,
+    flags: (medium.flags ?? []).map((flag) => FLAGS_BY_LABEL.get(flag)!),
+  };
+}
+
+/**
+ * Finds the catalog glazing for a Glazing label or one of its aliases. No-glazing labels are not glazings.
+ */
+export function findGlazing(label: string | undefined): GlazingMatch | undefined {
+  const { catalog, glazingIndex } = loadMediumCatalog();
+  const catalogLabel = glazingIndex.get(normalizeCatalogLabel(label));
+  if (catalogLabel === undefined) {
+    return undefined;
+  }
+  return { label: catalogLabel, material: ART_MATERIALS_BY_LABEL.get(catalog.glazings[catalogLabel].material)! };
+}
+
+/**
+ * True for empty glazing cells and labels such as No Glass or N/A.
+ */
+export function isNoGlazing(label: string | undefined): boolean {
+  const key = normalizeCatalogLabel(label);
+  return key === "" || loadMediumCatalog().noGlazing.has(key);
+}
+
+function words(value: string): string[] {
+  return normalizeCatalogLabel(value).split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * How alike two labels are, from 0 to 1: the better of their shared words (so reordered or extra words
+ * still match) and their edit distance (so typos still match). Case, accents and punctuation are ignored.
+ */
+export function labelSimilarity(a: string, b: string): number {
+  const aWords = words(a);
+  const bWords = words(b);
+  if (aWords.length === 0 || bWords.length === 0) {
+    return 0;
+  }
+
+  const aSet = new Set(aWords);
+  const bSet = new Set(bWords);
+  const shared = [...aSet].filter((word) => bSet.has(word)).length;
+  const wordScore = (2 * shared) / (aSet.size + bSet.size);
+
+  const aText = aWords.join(" ");
+  const bText = bWords.join(" ");
+  const editScore = 1 - editDistance(aText, bText) / Math.max(aText.length, bText.length);
+
+  return Math.max(wordScore, editScore);
+}
+
+function suggest(label: string, entries: Record<string, { aliases?: string[] }>, limit: number): string[] {
+  return Object.entries(entries)
+    .map(([catalogLabel, entry]) => ({
+      catalogLabel,
+      score: Math.max(...[catalogLabel, ...(entry.aliases ?? [])].map((name) => labelSimilarity(label, name))),
+    }))
+    .filter(({ score }) => score >= MIN_SUGGESTION_SCORE)
+    .sort((a, b) => b.score - a.score || a.catalogLabel.localeCompare(b.catalogLabel))
+    .slice(0, limit)
+    .map(({ catalogLabel }) => catalogLabel);
+}
+
+/**
+ * The catalog mediums closest to an unknown Final Medium label, best first.
+ */
+export function suggestMediums(label: string, limit: number = 3): string[] {
+  return suggest(label, loadMediumCatalog().catalog.mediums, limit);
+}
+
+/**
+ * The catalog glazings closest to an unknown Glazing label, best first.
+ */
+export function suggestGlazings(label: string, limit: number = 3): string[] {
+  return suggest(label, loadMediumCatalog().catalog.glazings, limit);
+}
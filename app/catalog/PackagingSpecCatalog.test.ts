@@ -0,0 +1,174 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import bundledCatalogFile from './packaging-spec-catalog.json'
+import {
+  getPackagingSpecCatalog,
+  resetPackagingSpecCatalogCache,
+  selectPackagingSpecCatalog,
+  validatePackagingSpecCatalogFile,
+  PackagingSpecCatalog,
+} from './PackagingSpecCatalog'
+import { Box, BoxType } from '../entities/Box'
+import { Art, ArtMaterial, ArtType } from '../entities/Art'
+import { PackagingInteractor } from '../interactors/PackagingInteractor'
+
+const bundled = bundledCatalogFile.catalogs[0] as PackagingSpecCatalog
+
+function catalogWith(overrides: Partial<PackagingSpecCatalog>): PackagingSpecCatalog {
+  return { ...structuredClone(bundled), ...overrides }
+}
+
+describe('PackagingSpecCatalog', () => {
+  afterEach(() => {
+    delete process.env.PACKAGING_SPEC_CATALOG_PATH
+    resetPackagingSpecCatalogCache()
+  })
+
+  it('should validate the bundled catalog and use it by default', () => {
+    expect(() => validatePackagingSpecCatalogFile(bundledCatalogFile, 'bundled')).not.toThrow()
+    expect(getPackagingSpecCatalog().version).toBe(bundled.version)
+  })
+
+  it('should pick the catalog in effect on the packing date', () => {
+    const file = {
+      catalogs: [
+        catalogWith({ version: '2025.1', effectiveFrom: '2025-01-01', effectiveUntil: '2025-06-30' }),
+        catalogWith({ version: '2025.2', effectiveFrom: '2025-07-01' }),
+        catalogWith({ version: '2025.3', effectiveFrom: '2025-12-01' }),
+      ],
+    }
+
+    expect(selectPackagingSpecCatalog(file, new Date('2025-06-30T12:00:00Z')).version).toBe('2025.1')
+    expect(selectPackagingSpecCatalog(file, new Date('2025-07-01T00:00:00Z')).version).toBe('2025.2')
+    expect(selectPackagingSpecCatalog(file, new Date('2026-01-15T00:00:00Z')).version).toBe('2025.3')
+    expect(() => selectPackagingSpecCatalog(file, new Date('2024-12-31T00:00:00Z'))).toThrow(
+      'No packaging spec catalog is in effect on 2024-12-31'
+    )
+  })
+
+  it('should list every schema problem', () => {
+    const broken = structuredClone(bundled) as any
+    delete broken.boxes.LARGE
+    broken.containers.STANDARD_PALLET.allowedBoxTypes = ['HUGE']
+    broken.vehicles.BOX_TRUCK_16.payloadLbs = 0
+    broken.truckLoading.stackableContainerKinds = ['SHELF']
+    broken.liftgate.maxLoadHeightInches = 0
+    broken.maxGrossBoxWeightLbs = 0
+    broken.thicknessPacking.paddingPerPieceInches = -0.5
+    broken.maxPiecesPerProduct.standardBox.SCULPTURE = 2
+    broken.materialWeightLbPerSqIn.GLASS = -1
+    broken.mouldings['HW-300-WAL'].profileDepthInches = 0
+    broken.effectiveUntil = '2024-01-01'
+
+    expect(() => validatePackagingSpecCatalogFile({ catalogs: [broken, bundled] }, 'broken.json')).toThrow(
+      "Invalid packaging spec catalog 'broken.json': " +
+      'catalog 2025.1: effectiveUntil is before effectiveFrom; ' +
+      'catalog 2025.1: boxes.LARGE is missing; ' +
+      'catalog 2025.1: containers.STANDARD_PALLET.allowedBoxTypes has unknown box type "HUGE"; ' +
+      'catalog 2025.1: vehicles.BOX_TRUCK_16.payloadLbs must be a positive number; ' +
+      'catalog 2025.1: truckLoading.stackableContainerKinds has unknown container kind "SHELF"; ' +
+      'catalog 2025.1: liftgate.maxLoadHeightInches must be a positive number; ' +
+      'catalog 2025.1: maxGrossBoxWeightLbs must be a positive number; ' +
+      'catalog 2025.1: thicknessPacking.paddingPerPieceInches must be zero or more; ' +
+      'catalog 2025.1: maxPiecesPerProduct.standardBox has unknown product type "SCULPTURE"; ' +
+      'catalog 2025.1: materialWeightLbPerSqIn.GLASS must be zero or more; ' +
+      'catalog 2025.1: mouldings.HW-300-WAL.profileDepthInches must be a positive number; ' +
+      'catalog version 2025.1 is listed more than once'
+    )
+    expect(() => validatePackagingSpecCatalogFile({ catalogs: [] }, 'empty.json')).toThrow(
+      'catalogs must list at least one catalog'
+    )
+  })
+
+  it('should read specs from the override file and stamp its version on responses', async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), 'spec-catalog-'))
+    try {
+      const supplierChange = catalogWith({ version: 'test-supplier', effectiveFrom: '2000-01-01' })
+      supplierChange.boxes.STANDARD = { ...supplierChange.boxes.STANDARD, tareWeight: 20 }
+      supplierChange.maxPiecesPerProduct.standardBox.PAPER_PRINT = 3
+      const filePath = join(tempDir, 'catalog.json')
+      await writeFile(filePath, JSON.stringify({ catalogs: [supplierChange] }))
+
+      process.env.PACKAGING_SPEC_CATALOG_PATH = filePath
+      resetPackagingSpecCatalogCache()
+
+      expect(new Box({ type: BoxType.Standard }).getSpecification().tareWeight).toBe(20)
+      expect(new Box({ type: BoxType.Standard }).getProductLimit(ArtType.PaperPrint)).toBe(3)
+
+      const response = new PackagingInteractor().packageEverything({
+        artItems: [new Art({
+          id: 'ART-1',
+          productType: ArtType.PaperPrint,
+          material: ArtMaterial.Acrylic,
+          dimensions: { length: 24, width: 30, height: 2 },
+          quantity: 6,
+        })],
+        clientName: 'Test',
+        jobSiteLocation: 'Test',
+        serviceType: 'Delivery',
+        deliveryCapabilities: {
+          acceptsPallets: true,
+          acceptsCrates: false,
+          hasLoadingDock: true,
+          requiresLiftgate: false,
+          needsInsideDelivery: false,
+        },
+      })
+
+      expect(response.metadata.specCatalogVersion).toBe('test-supplier')
+      expect(response.packingSummary.boxRequirements[0].count).toBe(2)
+    } finally {
+      await rm(tempDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should count carton tare in packaging weight only when the weight policy says so', async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), 'spec-catalog-'))
+    try {
+      const request = {
+        artItems: [new Art({
+          id: 'ART-1',
+          productType: ArtType.PaperPrint,
+          material: ArtMaterial.Acrylic,
+          dimensions: { length: 24, width: 30, height: 2 },
+          quantity: 6,
+        })],
+        clientName: 'Test',
+        jobSiteLocation: 'Test',
+        serviceType: 'Delivery',
+        deliveryCapabilities: {
+          acceptsPallets: true,
+          acceptsCrates: false,
+          hasLoadingDock: true,
+          requiresLiftgate: false,
+          needsInsideDelivery: false,
+        },
+      }
+
+      const excluded = new PackagingInteractor().packageEverything(request).weightSummary.packagingWeightLbs
+      expect(excluded.cartons).toEqual({ count: 1, totalWeight: 18 })
+      expect(excluded.cartonTareIncluded).toBe(false)
+      expect(excluded.total).toBe(60)
+
+      const filePath = join(tempDir, 'catalog.json')
+      const withTare = catalogWith({ version: 'carton-tare', effectiveFrom: '2000-01-01', weightPolicy: { includeCartonTare: true } })
+      await writeFile(filePath, JSON.stringify({ catalogs: [withTare] }))
+      process.env.PACKAGING_SPEC_CATALOG_PATH = filePath
+      resetPackagingSpecCatalogCache()
+
+      const included = new PackagingInteractor().packageEverything(request).weightSummary
+      expect(included.packagingWeightLbs.cartonTareIncluded).toBe(true)
+      expect(included.packagingWeightLbs.total).toBe(78)
+      expect(included.finalShipmentWeightLbs).toBe(included.totalArtworkWeightLbs + 78)
+    } finally {
+      await rm(tempDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should fail clearly when the override file is missing', () => {
+    process.env.PACKAGING_SPEC_CATALOG_PATH = '/nonexistent/catalog.json'
+    expect(() => getPackagingSpecCatalog()).toThrow("Cannot read packaging spec catalog '/nonexistent/catalog.json'")
+  })
+})
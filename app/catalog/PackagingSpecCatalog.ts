@@ -0,0 +1,637 @@
+import { readFileSync } from "node:fs";
+import bundledCatalogFile from "./packaging-spec-catalog.json";
+import { ArtMaterial, ArtType, getArtMaterialLabel, getArtTypeLabel } from "../entities/Art";
+import { BoxType, getBoxTypeLabel } from "../entities/Box";
+import { CrateType, getCrateTypeLabel } from "../entities/Crate";
+import { SHIPPING_MODES, type ShippingMode } from "../requests/PackagingRequest";
+
+/**
+ * Box dimensions and limits as stored in the catalog (keyed by box type label, e.g., STANDARD).
+ */
+export interface CatalogBoxSpecification {
+  innerLength: number;
+  innerWidth: number;
+  innerHeight: number;
+  tareWeight: number;
+  /** Purchase price of one empty box. */
+  unitCost: number;
+  maxShortSideInches: number;
+  maxLongSideInches: number;
+  telescopeMaxLengthInches?: number;
+  notes?: string;
+}
+
+/**
+ * Crate/pallet limits as stored in the catalog (keyed by container type label, e.g., STANDARD_PALLET).
+ */
+export interface CatalogContainerSpecification {
+  containerKind: "CRATE" | "PALLET" | "FLAT_PACK";
+  tareWeight: number;
+  /** Purchase price of one empty crate or pallet. */
+  unitCost: number;
+  /** Box limit for crates and flat-packs. Pallets are limited by their deck layout instead. */
+  maxBoxes?: number;
+  /** Pallet deck size; required for pallets. */
+  deckLengthInches?: number;
+  deckWidthInches?: number;
+  allowedBoxTypes?: string[];
+  notes?: string;
+}
+
+/**
+ * Lumber, foam and skid allowances used to size custom crates around their contents.
+ */
+export interface CrateConstruction {
+  /** Foam lining on every inside face. */
+  foamPaddingInches: number;
+  panelThicknessInches: number;
+  /** Framing cleats on the outside of each panel. */
+  cleatThicknessInches: number;
+  skidHeightInches: number;
+  /** Skids running the crate's length. */
+  skidCount: number;
+  panelWeightLbPerSqFt: number;
+  cleatWeightLbPerFt: number;
+  skidWeightLbPerFt: number;
+  foamWeightLbPerSqFt: number;
+  notes?: string;
+}
+
+/**
+ * Sheet and foam allowances for flat-packing a custom piece that does not need a crate.
+ */
+export interface FlatPackConstruction {
+  /** Foam on every face of the piece. */
+  paddingInches: number;
+  /** Corrugated sheet wrapped around the padding. */
+  sheetThicknessInches: number;
+  sheetWeightLbPerSqFt: number;
+  foamWeightLbPerSqFt: number;
+}
+
+/**
+ * How boxes are laid out on a pallet deck.
+ */
+export interface PalletLayoutRules {
+  /** How far a box may hang past each edge of the deck. */
+  overhangInches: number;
+  /** Height of the pallet itself, counted against maxStackHeightInches. */
+  deckHeightInches: number;
+  /** Layers of standing boxes allowed on one pallet. */
+  maxLayers: number;
+  notes?: string;
+}
+
+/**
+ * A truck or trailer dispatch can send, listed smallest first.
+ */
+export interface CatalogVehicleSpecification {
+  description: string;
+  interiorLengthInches: number;
+  interiorWidthInches: number;
+  interiorHeightInches: number;
+  payloadLbs: number;
+}
+
+/**
+ * A frame moulding, keyed by the code in the work order's Frame 1 Moulding column.
+ */
+export interface CatalogMouldingSpecification {
+  description: string;
+  /** Weight of the moulding per inch of frame perimeter. */
+  weightLbPerLinearInch: number;
+  /** How far the frame stands off the wall; becomes the piece's depth. */
+  profileDepthInches: number;
+}
+
+/**
+ * Which handling units may be stacked on the truck floor.
+ */
+export interface TruckLoadingRules {
+  /** Container kinds (CRATE, PALLET, FLAT_PACK) that may carry, and be carried by, another unit. */
+  stackableContainerKinds: string[];
+  /** Units in one stack, counting the one on the floor. */
+  maxUnitsPerStack: number;
+  notes?: string;
+}
+
+/**
+ * How the Pack by Thickness strategy fills a box: each piece takes its depth plus this padding.
+ */
+export interface ThicknessPackingRules {
+  paddingPerPieceInches: number;
+  notes?: string;
+}
+
+/**
+ * What one pallet may weigh and stand on a liftgate; pallets are capped to this only when the site requires a liftgate.
+ */
+export interface LiftgateLimits {
+  maxLoadLbs: number;
+  /** Deck included. */
+  maxLoadHeightInches: number;
+  notes?: string;
+}
+
+/**
+ * One row of the density-to-NMFC-class table: handling units at or above this density get this class.
+ */
+export interface FreightClassBreak {
+  minDensityLbPerCuFt: number;
+  freightClass: number;
+}
+
+/**
+ * Packing material that is not a box or container, as listed in the materials bill.
+ */
+export interface CatalogPackingMaterial {
+  description: string;
+  /** Unit the quantity is counted in (each, sq ft, ft). */
+  unit: string;
+  unitCost: number;
+  unitWeightLbs: number;
+}
+
+export const PACKING_MATERIAL_IDS = [
+  "TELESCOPING_EXTENSION",
+  "CORNER_PROTECTOR",
+  "FOAM_SHEET",
+  "BUBBLE_WRAP",
+  "STRETCH_WRAP",
+] as const;
+
+export type PackingMaterialId = (typeof PACKING_MATERIAL_IDS)[number];
+
+/**
+ * How much of each packing material the crew uses per piece, box or pallet.
+ */
+export interface MaterialUsageRates {
+  cornerProtectorsPerFramedPiece: number;
+  foamSheetsPerBox: number;
+  /** Layers of bubble wrap over each piece's face area. */
+  bubbleWrapLayersPerPiece: number;
+  stretchWrapFeetPerPallet: number;
+}
+
+export interface WeightPolicy {
+  /** Count empty box weight in the packaging weight and final shipment weight. */
+  includeCartonTare: boolean;
+}
+
+export interface PackagingThresholds {
+  standardBoxMaxShortSideInches: number;
+  largeBoxMaxSideInches: number;
+  telescopingMaxLengthInches: number;
+  oversizedReportingLongSideInches: number;
+}
+
+/**
+ * One dated version of the packaging specs. Labels match the enum labels used in reports
+ * (PAPER_PRINT, GLASS, ...) so the file stays readable.
+ */
+export interface PackagingSpecCatalog {
+  version: string;
+  /** First day (YYYY-MM-DD) this catalog applies. */
+  effectiveFrom: string;
+  /** Last day (YYYY-MM-DD) this catalog applies; open-ended when omitted. */
+  effectiveUntil?: string;
+  notes?: string;
+  boxes: Record<string, CatalogBoxSpecification>;
+  containers: Record<string, CatalogContainerSpecification>;
+  crateConstruction: CrateConstruction;
+  flatPackConstruction: FlatPackConstruction;
+  palletLayout: PalletLayoutRules;
+  /** Trucks and trailers by id, smallest first; the load planner recommends the first one the load fits. */
+  vehicles: Record<string, CatalogVehicleSpecification>;
+  truckLoading: TruckLoadingRules;
+  liftgate: LiftgateLimits;
+  maxStackHeightInches: number;
+  maxPiecesPerProduct: {
+    standardBox: Record<string, number>;
+    largeBox: Record<string, number>;
+  };
+  maxOversizedPiecesPerBox: number;
+  /** Heaviest a packed box may be, carton included; a single piece over it ships alone as a team lift. */
+  maxGrossBoxWeightLbs: number;
+  thicknessPacking: ThicknessPackingRules;
+  thresholds: PackagingThresholds;
+  /** Cubic inches per pound of dimensional weight, per shipping mode. */
+  dimensionalWeightDivisors: Record<ShippingMode, number>;
+  /** Density breaks for suggesting an NMFC freight class; must include a 0 lb/ft³ row. */
+  freightClassByDensity: FreightClassBreak[];
+  packingMaterials: Record<PackingMaterialId, CatalogPackingMaterial>;
+  materialUsage: MaterialUsageRates;
+  weightPolicy: WeightPolicy;
+  materialWeightLbPerSqIn: Record<string, number>;
+  /** Frame mouldings by code; their weight is added to the area estimate along the frame's perimeter. */
+  mouldings: Record<string, CatalogMouldingSpecification>;
+}
+
+export interface PackagingSpecCatalogFile {
+  catalogs: PackagingSpecCatalog[];
+}
+
+const BUNDLED_CATALOG_SOURCE = "app/catalog/packaging-spec-catalog.json";
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+let cachedFile: { source: string; file: PackagingSpecCatalogFile } | undefined;
+
+function enumLabels<T extends number>(enumObject: object, toLabel: (value: T) => string): string[] {
+  return (Object.values(enumObject).filter((value) => typeof value === "number") as T[]).map(toLabel);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isPositive(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) > 0;
+}
+
+function isNonNegative(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+function isValidDate(value: unknown): value is string {
+  return typeof value === "string" && DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+function validateCatalog(raw: unknown, errors: string[]): void {
+  if (!isRecord(raw)) {
+    errors.push("catalog entry must be an object");
+    return;
+  }
+
+  const where = typeof raw.version === "string" && raw.version.trim() ? `catalog ${raw.version}` : "catalog";
+  const fail = (message: string) => errors.push(`${where}: ${message}`);
+
+  if (typeof raw.version !== "string" || !raw.version.trim()) {
+    fail("version is required");
+  }
+  if (!isValidDate(raw.effectiveFrom)) {
+    fail("effectiveFrom must be a YYYY-MM-DD date");
+  }
+  if (raw.effectiveUntil !== undefined) {
+    if (!isValidDate(raw.effectiveUntil)) {
+      fail("effectiveUntil must be a YYYY-MM-DD date");
+    } else if (isValidDate(raw.effectiveFrom) && raw.effectiveUntil < raw.effectiveFrom) {
+      fail("effectiveUntil is before effectiveFrom");
+    }
+  }
+
+  const boxLabels = enumLabels<BoxType>(BoxType, getBoxTypeLabel);
+  const boxes = isRecord(raw.boxes) ? raw.boxes : {};
+  for (const label of boxLabels) {
+    const box = boxes[label];
+    if (!isRecord(box)) {
+      fail(`boxes.${label} is missing`);
+      continue;
+    }
+    for (const field of ["innerLength", "innerWidth", "innerHeight", "maxShortSideInches", "maxLongSideInches"]) {
+      if (!isPositive(box[field])) {
+        fail(`boxes.${label}.${field} must be a positive number`);
+      }
+    }
+    if (typeof box.tareWeight !== "number" || box.tareWeight < 0) {
+      fail(`boxes.${label}.tareWeight must be zero or more`);
+    }
+    if (!isNonNegative(box.unitCost)) {
+      fail(`boxes.${label}.unitCost must be zero or more`);
+    }
+    if (box.telescopeMaxLengthInches !== undefined && !isPositive(box.telescopeMaxLengthInches)) {
+      fail(`boxes.${label}.telescopeMaxLengthInches must be a positive number`);
+    }
+  }
+
+  const containers = isRecord(raw.containers) ? raw.containers : {};
+  for (const label of enumLabels<CrateType>(CrateType, getCrateTypeLabel)) {
+    const container = containers[label];
+    if (!isRecord(container)) {
+      fail(`containers.${label} is missing`);
+      continue;
+    }
+    if (!["CRATE", "PALLET", "FLAT_PACK"].includes(container.containerKind as string)) {
+      fail(`containers.${label}.containerKind must be CRATE, PALLET or FLAT_PACK`);
+    }
+    if (typeof container.tareWeight !== "number" || container.tareWeight < 0) {
+      fail(`containers.${label}.tareWeight must be zero or more`);
+    }
+    if (!isNonNegative(container.unitCost)) {
+      fail(`containers.${label}.unitCost must be zero or more`);
+    }
+    if (container.containerKind === "PALLET") {
+      for (const field of ["deckLengthInches", "deckWidthInches"]) {
+        if (!isPositive(container[field])) {
+          fail(`containers.${label}.${field} must be a positive number`);
+        }
+      }
+    } else if (!isPositiveInteger(container.maxBoxes)) {
+      fail(`containers.${label}.maxBoxes must be a whole number of at least 1`);
+    }
+    if (container.allowedBoxTypes !== undefined) {
+      const allowed = Array.isArray(container.allowedBoxTypes) ? container.allowedBoxTypes : [undefined];
+      for (const boxType of allowed) {
+        if (!boxLabels.includes(boxType as string)) {
+          fail(`containers.${label}.allowedBoxTypes has unknown box type "${boxType}"`);
+        }
+      }
+    }
+  }
+
+  const construction = isRecord(raw.crateConstruction) ? raw.crateConstruction : {};
+  for (const field of [
+    "foamPaddingInches",
+    "panelThicknessInches",
+    "cleatThicknessInches",
+    "skidHeightInches",
+    "panelWeightLbPerSqFt",
+    "cleatWeightLbPerFt",
+    "skidWeightLbPerFt",
+    "foamWeightLbPerSqFt",
+  ]) {
+    if (!isNonNegative(construction[field])) {
+      fail(`crateConstruction.${field} must be zero or more`);
+    }
+  }
+  if (!Number.isInteger(construction.skidCount) || (construction.skidCount as number) < 0) {
+    fail("crateConstruction.skidCount must be a whole number of zero or more");
+  }
+
+  const flatPack = isRecord(raw.flatPackConstruction) ? raw.flatPackConstruction : {};
+  for (const field of ["paddingInches", "sheetThicknessInches", "sheetWeightLbPerSqFt", "foamWeightLbPerSqFt"]) {
+    if (!isNonNegative(flatPack[field])) {
+      fail(`flatPackConstruction.${field} must be zero or more`);
+    }
+  }
+
+  const palletLayout = isRecord(raw.palletLayout) ? raw.palletLayout : {};
+  for (const field of ["overhangInches", "deckHeightInches"]) {
+    if (!isNonNegative(palletLayout[field])) {
+      fail(`palletLayout.${field} must be zero or more`);
+    }
+  }
+  if (!isPositiveInteger(palletLayout.maxLayers)) {
+    fail("palletLayout.maxLayers must be a whole number of at least 1");
+  }
+
+  const vehicles = isRecord(raw.vehicles) ? raw.vehicles : {};
+  if (Object.keys(vehicles).length === 0) {
+    fail("vehicles must list at least one truck or trailer");
+  }
+  for (const [id, vehicle] of Object.entries(vehicles)) {
+    if (!isRecord(vehicle)) {
+      fail(`vehicles.${id} must be an object`);
+      continue;
+    }
+    if (typeof vehicle.description !== "string" || !vehicle.description.trim()) {
+      fail(`vehicles.${id}.description is required`);
+    }
+    for (const field of ["interiorLengthInches", "interiorWidthInches", "interiorHeightInches", "payloadLbs"]) {
+      if (!isPositive(vehicle[field])) {
+        fail(`vehicles.${id}.${field} must be a positive number`);
+      }
+    }
+  }
+
+  const truckLoading = isRecord(raw.truckLoading) ? raw.truckLoading : {};
+  const stackableKinds = Array.isArray(truckLoading.stackableContainerKinds) ? truckLoading.stackableContainerKinds : [undefined];
+  for (const kind of stackableKinds) {
+    if (!["CRATE", "PALLET", "FLAT_PACK"].includes(kind as string)) {
+      fail(`truckLoading.stackableContainerKinds has unknown container kind "${kind}"`);
+    }
+  }
+  if (!isPositiveInteger(truckLoading.maxUnitsPerStack)) {
+    fail("truckLoading.maxUnitsPerStack must be a whole number of at least 1");
+  }
+
+  const liftgate = isRecord(raw.liftgate) ? raw.liftgate : {};
+  for (const field of ["maxLoadLbs", "maxLoadHeightInches"]) {
+    if (!isPositive(liftgate[field])) {
+      fail(`liftgate.${field} must be a positive number`);
+    }
+  }
+
+  if (!isPositive(raw.maxStackHeightInches)) {
+    fail("maxStackHeightInches must be a positive number");
+  }
+  if (!isPositiveInteger(raw.maxOversizedPiecesPerBox)) {
+    fail("maxOversizedPiecesPerBox must be a whole number of at least 1");
+  }
+  if (!isPositive(raw.maxGrossBoxWeightLbs)) {
+    fail("maxGrossBoxWeightLbs must be a positive number");
+  }
+  const thicknessPacking = isRecord(raw.thicknessPacking) ? raw.thicknessPacking : {};
+  if (!isNonNegative(thicknessPacking.paddingPerPieceInches)) {
+    fail("thicknessPacking.paddingPerPieceInches must be zero or more");
+  }
+
+  const artLabels = enumLabels<ArtType>(ArtType, getArtTypeLabel);
+  const maxPieces = isRecord(raw.maxPiecesPerProduct) ? raw.maxPiecesPerProduct : {};
+  for (const size of ["standardBox", "largeBox"]) {
+    const limits = maxPieces[size];
+    if (!isRecord(limits)) {
+      fail(`maxPiecesPerProduct.${size} is missing`);
+      continue;
+    }
+    for (const [label, limit] of Object.entries(limits)) {
+      if (!artLabels.includes(label)) {
+        fail(`maxPiecesPerProduct.${size} has unknown product type "${label}"`);
+      } else if (!isPositiveInteger(limit)) {
+        fail(`maxPiecesPerProduct.${size}.${label} must be a whole number of at least 1`);
+      }
+    }
+  }
+
+  const thresholds = isRecord(raw.thresholds) ? raw.thresholds : {};
+  for (const field of [
+    "standardBoxMaxShortSideInches",
+    "largeBoxMaxSideInches",
+    "telescopingMaxLengthInches",
+    "oversizedReportingLongSideInches",
+  ]) {
+    if (!isPositive(thresholds[field])) {
+      fail(`thresholds.${field} must be a positive number`);
+    }
+  }
+
+  const divisors = isRecord(raw.dimensionalWeightDivisors) ? raw.dimensionalWeightDivisors : {};
+  for (const mode of SHIPPING_MODES) {
+    if (!isPositive(divisors[mode])) {
+      fail(`dimensionalWeightDivisors.${mode} must be a positive number`);
+    }
+  }
+
+  const classBreaks = Array.isArray(raw.freightClassByDensity) ? raw.freightClassByDensity : [];
+  if (classBreaks.length === 0) {
+    fail("freightClassByDensity must list at least one density break");
+  }
+  classBreaks.forEach((row, index) => {
+    const density = isRecord(row) ? row.minDensityLbPerCuFt : undefined;
+    if (typeof density !== "number" || !Number.isFinite(density) || density < 0) {
+      fail(`freightClassByDensity[${index}].minDensityLbPerCuFt must be zero or more`);
+    }
+    if (!isPositive(isRecord(row) ? row.freightClass : undefined)) {
+      fail(`freightClassByDensity[${index}].freightClass must be a positive number`);
+    }
+  });
+  if (classBreaks.length > 0 && !classBreaks.some((row) => isRecord(row) && row.minDensityLbPerCuFt === 0)) {
+    fail("freightClassByDensity needs a row with minDensityLbPerCuFt 0 so every density gets a class");
+  }
+
+  const packingMaterials = isRecord(raw.packingMaterials) ? raw.packingMaterials : {};
+  for (const id of PACKING_MATERIAL_IDS) {
+    const material = packingMaterials[id];
+    if (!isRecord(material)) {
+      fail(`packingMaterials.${id} is missing`);
+      continue;
+    }
+    for (const field of ["description", "unit"]) {
+      if (typeof material[field] !== "string" || !(material[field] as string).trim()) {
+        fail(`packingMaterials.${id}.${field} is required`);
+      }
+    }
+    for (const field of ["unitCost", "unitWeightLbs"]) {
+      if (!isNonNegative(material[field])) {
+        fail(`packingMaterials.${id}.${field} must be zero or more`);
+      }
+    }
+  }
+
+  const usage = isRecord(raw.materialUsage) ? raw.materialUsage : {};
+  for (const field of [
+    "cornerProtectorsPerFramedPiece",
+    "foamSheetsPerBox",
+    "bubbleWrapLayersPerPiece",
+    "stretchWrapFeetPerPallet",
+  ]) {
+    if (!isNonNegative(usage[field])) {
+      fail(`materialUsage.${field} must be zero or more`);
+    }
+  }
+
+  if (!isRecord(raw.weightPolicy) || typeof raw.weightPolicy.includeCartonTare !== "boolean") {
+    fail("weightPolicy.includeCartonTare must be true or false");
+  }
+
+  const weights = isRecord(raw.materialWeightLbPerSqIn) ? raw.materialWeightLbPerSqIn : {};
+  for (const label of enumLabels<ArtMaterial>(ArtMaterial, getArtMaterialLabel)) {
+    const factor = weights[label];
+    if (typeof factor !== "number" || !Number.isFinite(factor) || factor < 0) {
+      fail(`materialWeightLbPerSqIn.${label} must be zero or more`);
+    }
+  }
+
+  const mouldings = isRecord(raw.mouldings) ? raw.mouldings : undefined;
+  if (!mouldings) {
+    fail("mouldings must be an object");
+  }
+  for (const [code, moulding] of Object.entries(mouldings ?? {})) {
+    if (!isRecord(moulding)) {
+      fail(`mouldings.${code} must be an object`);
+      continue;
+    }
+    if (typeof moulding.description !== "string" || !moulding.description.trim()) {
+      fail(`mouldings.${code}.description is required`);
+    }
+    if (!isNonNegative(moulding.weightLbPerLinearInch)) {
+      fail(`mouldings.${code}.weightLbPerLinearInch must be zero or more`);
+    }
+    if (!isPositive(moulding.profileDepthInches)) {
+      fail(`mouldings.${code}.profileDepthInches must be a positive number`);
+    }
+  }
+}
+
+/**
+ * Checks a parsed catalog file against the schema. Throws with every problem listed.
+ */
+export function validatePackagingSpecCatalogFile(raw: unknown, source: string): PackagingSpecCatalogFile {
+  const errors: string[] = [];
+  const catalogs = isRecord(raw) && Array.isArray(raw.catalogs) ? raw.catalogs : undefined;
+
+  if (!catalogs || catalogs.length === 0) {
+    errors.push("catalogs must list at least one catalog");
+  } else {
+    for (const catalog of catalogs) {
+      validateCatalog(catalog, errors);
+    }
+
+    const versions = catalogs.map((catalog) => (isRecord(catalog) ? catalog.version : undefined));
+    const duplicates = versions.filter((version, index) => version !== undefined && versions.indexOf(version) !== index);
+    for (const version of new Set(duplicates)) {
+      errors.push(`catalog version ${version} is listed more than once`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid packaging spec catalog '${source}': ${errors.join("; ")}`);
+  }
+
+  return { catalogs: catalogs as PackagingSpecCatalog[] };
+}
+
+/**
+ * Picks the catalog in effect on the given date. When several overlap, the one that started last wins.
+ */
+export function selectPackagingSpecCatalog(file: PackagingSpecCatalogFile, asOf: Date = new Date()): PackagingSpecCatalog {
+  const day = asOf.toISOString().slice(0, 10);
+  let selected: PackagingSpecCatalog | undefined;
+
+  for (const catalog of file.catalogs) {
+    const inEffect = catalog.effectiveFrom <= day && (catalog.effectiveUntil === undefined || day <= catalog.effectiveUntil);
+    if (inEffect && (!selected || catalog.effectiveFrom >= selected.effectiveFrom)) {
+      selected = catalog;
+    }
+  }
+
+  if (!selected) {
+    const known = file.catalogs
+      .map((catalog) => `${catalog.version} (${catalog.effectiveFrom} to ${catalog.effectiveUntil ?? "open"})`)
+      .join(", ");
+    throw new Error(`No packaging spec catalog is in effect on ${day}. Known catalogs: ${known}`);
+  }
+
+  return selected;
+}
+
+/**
+ * Reads and validates a catalog file from disk.
+ */
+export function loadPackagingSpecCatalogFile(filePath: string): PackagingSpecCatalogFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(filePath, "utf8"));
+  } catch (error) {
+    throw new Error(`Cannot read packaging spec catalog '${filePath}': ${error instanceof Error ? error.message : "Unknown error"}`);
+  }
+  return validatePackagingSpecCatalogFile(raw, filePath);
+}
+
+/**
+ * Returns the catalog in effect today. PACKAGING_SPEC_CATALOG_PATH points at a replacement file;
+ * otherwise the catalog bundled with the app is used. The file is validated once and cached.
+ */
+export function getPackagingSpecCatalog(asOf: Date = new Date()): PackagingSpecCatalog {
+  const overridePath = process.env.PACKAGING_SPEC_CATALOG_PATH;
+  const source = overridePath ?? BUNDLED_CATALOG_SOURCE;
+
+  if (!cachedFile || cachedFile.source !== source) {
+    const file = overridePath
+      ? loadPackagingSpecCatalogFile(overridePath)
+      : validatePackagingSpecCatalogFile(bundledCatalogFile, BUNDLED_CATALOG_SOURCE);
+    cachedFile = { source, file };
+  }
+
+  return selectPackagingSpecCatalog(cachedFile.file, asOf);
+}
+
+/**
+ * Drops the cached catalog file so the next lookup re-reads it (e.g., after editing the override file).
+ */
+export function resetPackagingSpecCatalogCache(): void {
+  cachedFile = undefined;
+}
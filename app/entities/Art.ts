@@ -13,6 +13,23 @@ export interface Dimensions {
   height?: number;
 }
 
+/**
+ * Sizes as written in the work order, before conversion to inches (e.g., `33-1/2"`, `85 cm`).
+ */
+export interface SourceDimensions {
+  width: string;
+  height: string;
+}
+
+/**
+ * The frame around a piece, from the moulding catalog.
+ */
+export interface FrameMoulding {
+  code: string;
+  weightLbPerLinearInch: number;
+  profileDepthInches: number;
+}
+
 export enum ArtType {
   PaperPrint,
   PaperPrintWithTitlePlate,
@@ -74,6 +91,12 @@ const ART_MATERIAL_LABELS: Record<ArtMaterial, string> = {
   [ArtMaterial.Unknown]: "UNKNOWN",
 };
 
+const SPECIAL_HANDLING_FLAG_LABELS: Record<SpecialHandlingFlag, string> = {
+  [SpecialHandlingFlag.TactilePanel]: "TACTILE_PANEL",
+  [SpecialHandlingFlag.RaisedFloat]: "RAISED_FLOAT",
+  [SpecialHandlingFlag.ManualReview]: "MANUAL_REVIEW",
+};
+
 export function getArtTypeLabel(type: ArtType): string {
   return ART_TYPE_LABELS[type];
 }
@@ -82,6 +105,10 @@ export function getArtMaterialLabel(material: ArtMaterial): string {
   return ART_MATERIAL_LABELS[material];
 }
 
+export function getSpecialHandlingFlagLabel(flag: SpecialHandlingFlag): string {
+  return SPECIAL_HANDLING_FLAG_LABELS[flag];
+}
+
 export interface ArtCreationOptions {
   id: string;
   productType: ArtType;
@@ -94,6 +121,13 @@ export interface ArtCreationOptions {
   glazingLabel?: string;
   hardwareLabel?: string;
   hardwarePiecesPerItem?: number;
+  sourceDimensions?: SourceDimensions;
+  /** Weight of one piece as weighed, in lbs; replaces the area and material estimate. */
+  measuredWeightLbs?: number;
+  /** Moulding code as written in the work order; absent for unframed pieces. */
+  frameMouldingLabel?: string;
+  /** Catalog data for the moulding; absent when the code is not in the catalog. */
+  frameMoulding?: FrameMoulding;
 }
 
 const DEFAULT_DEPTH_PADDING_INCHES = 4;
@@ -132,6 +166,10 @@ export class Art {
   private readonly glazingLabel?: string;
   private readonly hardwareLabel?: string;
   private readonly hardwarePiecesPerItem?: number;
+  private readonly sourceDimensions?: SourceDimensions;
+  private readonly measuredWeightLbs?: number;
+  private readonly frameMouldingLabel?: string;
+  private readonly frameMoulding?: FrameMoulding;
 
 
   constructor(options: ArtCreationOptions) {
@@ -150,6 +188,10 @@ export class Art {
     this.glazingLabel = options.glazingLabel;
     this.hardwareLabel = options.hardwareLabel;
     this.hardwarePiecesPerItem = options.hardwarePiecesPerItem;
+    this.sourceDimensions = options.sourceDimensions;
+    this.measuredWeightLbs = options.measuredWeightLbs;
+    this.frameMouldingLabel = options.frameMouldingLabel;
+    this.frameMoulding = options.frameMoulding;
   }
 
   public getId(): string {
@@ -200,6 +242,29 @@ export class Art {
     return this.hardwarePiecesPerItem;
   }
 
+  public getSourceDimensions(): SourceDimensions | undefined {
+    return this.sourceDimensions;
+  }
+
+  public getMeasuredWeightLbs(): number | undefined {
+    return this.measuredWeightLbs;
+  }
+
+  public getFrameMouldingLabel(): string | undefined {
+    return this.frameMouldingLabel;
+  }
+
+  public getFrameMoulding(): FrameMoulding | undefined {
+    return this.frameMoulding;
+  }
+
+  /**
+   * True when the work order names a moulding the catalog does not list.
+   */
+  public hasUnknownFrameMoulding(): boolean {
+    return this.frameMouldingLabel !== undefined && this.frameMoulding === undefined;
+  }
+
   public getHardwarePiecesTotal(): number {
     const piecesPerItem = this.hardwarePiecesPerItem ?? 0;
     return piecesPerItem * this.quantity;
@@ -236,3 +301,27 @@ export class Art {
   }
 
 }
+
+/**
+ * Copies a piece under a new id and quantity, keeping every other field (labels, measured weight,
+ * source dimensions, frame moulding), so split, crated and flat-packed pieces weigh and report the same.
+ */
+export function cloneArt(art: Art, changes: { id: string; quantity: number }): Art {
+  return new Art({
+    id: changes.id,
+    productType: art.getProductType(),
+    material: art.getMaterial(),
+    dimensions: art.getRawDimensions(),
+    quantity: changes.quantity,
+    specialHandlingFlags: art.getSpecialHandlingFlags(),
+    description: art.getDescription(),
+    finalMediumLabel: art.getFinalMediumLabel(),
+    glazingLabel: art.getGlazingLabel(),
+    hardwareLabel: art.getHardwareLabel(),
+    hardwarePiecesPerItem: art.getHardwarePiecesPerItem(),
+    sourceDimensions: art.getSourceDimensions(),
+    measuredWeightLbs: art.getMeasuredWeightLbs(),
+    frameMouldingLabel: art.getFrameMouldingLabel(),
+    frameMoulding: art.getFrameMoulding(),
+  });
+}
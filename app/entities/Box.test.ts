@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from "vitest";
-import { Box, BoxType } from "./Box";
+import { Box, BoxType, PackingMode } from "./Box";
 import { Art, ArtType, ArtMaterial, SpecialHandlingFlag } from "./Art";
 import { PackagingRules } from "../rules/PackagingRules";
 import { WeightCalculator } from "../calculations/WeightCalculator";
@@ -108,6 +108,38 @@ describe("Box", () => {
       expect(box.getRemainingCapacity()).toBe(0);
     });
 
+    it("caps pieces by gross weight and lets a single heavy piece ship alone", () => {
+      // 40x40 mirrors weigh 31 lbs each; four fit a 22 lb large box under the 150 lb limit
+      const mirrors = makeArt({ productType: ArtType.Mirror, material: ArtMaterial.Mirror, dimensions: { length: 40, width: 40, height: 2 }, quantity: 5 });
+      const largeBox = new Box({ type: BoxType.Large });
+      expect(largeBox.getMaxPiecesByWeight(mirrors)).toBe(4);
+      expect(largeBox.canAccommodate(mirrors)).toBe(false);
+
+      // A 43x86 patient board weighs 129 lbs, 151 lbs boxed
+      const board = makeArt({ productType: ArtType.PatientBoard, material: ArtMaterial.PatientBoard, dimensions: { length: 43, width: 86, height: 2 } });
+      expect(largeBox.addArt(board)).toBe(true);
+      expect(largeBox.getTotalWeight()).toBe(151);
+      expect(largeBox.isTeamLift()).toBe(true);
+      // Nothing else joins a box that is already over the limit
+      expect(largeBox.canAccommodate(makeArt({ productType: ArtType.PatientBoard, material: ArtMaterial.NoGlazing }))).toBe(false);
+    });
+
+    it("fills by padded thickness instead of piece count when packing by thickness", () => {
+      const thicknessBox = new Box({ type: BoxType.Standard, packingMode: PackingMode.ByThickness });
+      // 2" pieces take 2.5" each with padding; four fill 10" of the 11" box
+      const prints = makeArt({ dimensions: { length: 30, width: 20, height: 2 }, quantity: 4 });
+
+      expect(thicknessBox.getMaxPiecesByThickness(prints)).toBe(4);
+      expect(thicknessBox.addArt(prints)).toBe(true);
+      expect(thicknessBox.getAccumulatedDepth()).toBe(10);
+      expect(thicknessBox.canAccommodate(makeArt({ dimensions: { length: 30, width: 20, height: 0.5 } }))).toBe(true);
+      expect(thicknessBox.canAccommodate(makeArt({ dimensions: { length: 30, width: 20, height: 1 } }))).toBe(false);
+
+      // A single piece deeper than the padded allowance still fits an empty box by its bare depth
+      const deep = makeArt({ dimensions: { length: 30, width: 20, height: 10.8 } });
+      expect(new Box({ type: BoxType.Standard, packingMode: PackingMode.ByThickness }).canAccommodate(deep)).toBe(true);
+    });
+
     it("computes telescoping length for standard box", () => {
       const art = makeArt({ dimensions: { length: 70, width: 30, height: 4 } });
       box.addArt(art);
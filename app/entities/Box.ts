@@ -1,6 +1,7 @@
-import { Art, ArtType } from "./Art";
+import { Art, ArtType, getArtTypeLabel } from "./Art";
 import { PackagingRules } from "../rules/PackagingRules";
 import { WeightCalculator } from "../calculations/WeightCalculator";
+import { getPackagingSpecCatalog } from "../catalog/PackagingSpecCatalog";
 
 export enum BoxType {
   Standard,
@@ -32,93 +33,40 @@ interface BoxSpecification {
   notes?: string;
 }
 
-const BOX_SPECIFICATIONS: Record<BoxType, BoxSpecification> = {
-  [BoxType.Standard]: {
-    type: BoxType.Standard,
-    innerLength: 36,
-    innerWidth: 36,
-    innerHeight: 11,
-    tareWeight: 18,
-    maxShortSideInches: 36.5,
-    maxLongSideInches: 88,
-    telescopeMaxLengthInches: 88,
-    notes: "Most common size; telescope up to 88 inches on the long edge when one side ≤36.5 inches.",
-  },
-  [BoxType.Large]: {
-    type: BoxType.Large,
-    innerLength: 44,
-    innerWidth: 44,
-    innerHeight: 13,
-    tareWeight: 22,
-    maxShortSideInches: 43.5,
-    maxLongSideInches: 88,
-    telescopeMaxLengthInches: 88,
-    notes: ">36.5 inches in both directions; can telescope up to 88 inches when short side ≤43.5 inches.",
-  },
-  [BoxType.UpsSmall]: {
-    type: BoxType.UpsSmall,
-    innerLength: 36,
-    innerWidth: 36,
-    innerHeight: 6,
-    tareWeight: 8,
-    maxShortSideInches: 36,
-    maxLongSideInches: 36,
-    notes: "UPS parcel only; not suitable for fragile glazing (rule 15).",
-  },
-  [BoxType.UpsLarge]: {
-    type: BoxType.UpsLarge,
-    innerLength: 44,
-    innerWidth: 35,
-    innerHeight: 6,
-    tareWeight: 10,
-    maxShortSideInches: 35,
-    maxLongSideInches: 44,
-    notes: "Adjustable-length UPS carton; keep for durable acrylic shipments (rule 15).",
-  },
-};
-
-const DEFAULT_CANVAS_PIECES_PER_BOX = 4; // Canvas pieces (framed or gallery) can fit 4 per box per packing rules
-
 interface BoxRules {
   maxPiecesPerProduct: Partial<Record<ArtType, number>>;
   maxOversizedPieces: number;
   disallowedProductTypes: Set<ArtType>;
 }
 
-// Standard box capacities (for boxes with at least one dimension ≤ 36.5")
-const MAX_PIECES_PER_PRODUCT: Partial<Record<ArtType, number>> = {
-  [ArtType.PaperPrint]: 6,
-  [ArtType.PaperPrintWithTitlePlate]: 6,
-  [ArtType.CanvasFloatFrame]: DEFAULT_CANVAS_PIECES_PER_BOX,
-  [ArtType.AcousticPanel]: 4,
-  [ArtType.AcousticPanelFramed]: 4,
-  [ArtType.MetalPrint]: 6,
-  [ArtType.Mirror]: 8,
-  [ArtType.WallDecor]: 6,
-  [ArtType.PatientBoard]: 2,
-};
+const ART_TYPES = Object.values(ArtType).filter((value): value is ArtType => typeof value === "number");
 
-// Large box capacities (for boxes with both dimensions > 36.5")
-const MAX_PIECES_PER_PRODUCT_LARGE: Partial<Record<ArtType, number>> = {
-  [ArtType.PaperPrint]: 7,
-  [ArtType.PaperPrintWithTitlePlate]: 7,
-  [ArtType.CanvasFloatFrame]: DEFAULT_CANVAS_PIECES_PER_BOX,
-  [ArtType.AcousticPanel]: 4,
-  [ArtType.AcousticPanelFramed]: 4,
-  [ArtType.MetalPrint]: 7,
-  [ArtType.Mirror]: 8,
-  [ArtType.WallDecor]: 7,
-  [ArtType.PatientBoard]: 2,
-};
+/**
+ * Looks up a box type's dimensions and limits in the active packaging spec catalog.
+ */
+export function getBoxSpecification(type: BoxType): BoxSpecification {
+  return { type, ...getPackagingSpecCatalog().boxes[getBoxTypeLabel(type)] };
+}
 
-const DEFAULT_BOX_RULES: BoxRules = {
-  maxPiecesPerProduct: MAX_PIECES_PER_PRODUCT,
-  maxOversizedPieces: 3,
-  disallowedProductTypes: new Set<ArtType>(),
-};
+/**
+ * Per-product capacities from the catalog. Large boxes have their own table.
+ */
+function getCatalogMaxPiecesPerProduct(boxType: BoxType): Partial<Record<ArtType, number>> {
+  const { maxPiecesPerProduct } = getPackagingSpecCatalog();
+  const limitsByLabel = boxType === BoxType.Large ? maxPiecesPerProduct.largeBox : maxPiecesPerProduct.standardBox;
+
+  const limits: Partial<Record<ArtType, number>> = {};
+  for (const type of ART_TYPES) {
+    const limit = limitsByLabel[getArtTypeLabel(type)];
+    if (limit !== undefined) {
+      limits[type] = limit;
+    }
+  }
+  return limits;
+}
 
 export function getDefaultMaxPiecesPerProduct(type: ArtType): number | undefined {
-  return MAX_PIECES_PER_PRODUCT[type];
+  return getCatalogMaxPiecesPerProduct(BoxType.Standard)[type];
 }
 
 export enum PackingMode {
@@ -127,7 +75,9 @@ export enum PackingMode {
   /** Allow mixing but use strictest constraint */
   ByStrictestConstraint,
   /** Pack by physical depth */
-  ByDepth
+  ByDepth,
+  /** Fill by summed piece thickness plus padding, up to the box's inner height; piece counts do not apply */
+  ByThickness
 }
 
 export interface BoxOptions {
@@ -156,27 +106,22 @@ export class Box {
 
   constructor(options: BoxOptions = {}) {
     const type = options.type ?? BoxType.Standard;
-    this.spec = BOX_SPECIFICATIONS[type];
+    this.spec = getBoxSpecification(type);
     this.packingMode = options.packingMode ?? PackingMode.ByMedium;
 
     // Use large box capacities for Large boxes, standard capacities otherwise
-    const baseCapacities = type === BoxType.Large 
-      ? MAX_PIECES_PER_PRODUCT_LARGE 
-      : MAX_PIECES_PER_PRODUCT;
+    const baseCapacities = getCatalogMaxPiecesPerProduct(type);
 
     const mergedMaxPieces: Partial<Record<ArtType, number>> = {
       ...baseCapacities,
       ...options.maxPiecesPerProductOverride,
     };
 
-    const disallowed = new Set(DEFAULT_BOX_RULES.disallowedProductTypes);
-    for (const override of options.disallowedProductTypesOverride ?? []) {
-      disallowed.add(override);
-    }
+    const disallowed = new Set<ArtType>(options.disallowedProductTypesOverride ?? []);
 
     this.rules = {
       maxPiecesPerProduct: mergedMaxPieces,
-      maxOversizedPieces: options.maxOversizedPiecesOverride ?? DEFAULT_BOX_RULES.maxOversizedPieces,
+      maxOversizedPieces: options.maxOversizedPiecesOverride ?? getPackagingSpecCatalog().maxOversizedPiecesPerBox,
       disallowedProductTypes: disallowed,
     };
 
@@ -236,6 +181,8 @@ export class Box {
     
     // Pack by Strictest Constraint: allow mixing
 
+    // Pack by Thickness: allow mixing; thickness, not piece count, fills the box
+
     if (PackagingRules.requiresCrateOnly(art)) {
       return false;
     }
@@ -248,9 +195,25 @@ export class Box {
       return false;
     }
 
+    const fitsCapacity = this.packingMode === PackingMode.ByThickness ? this.fitsThickness(art) : this.fitsPieceLimits(art);
+    if (!fitsCapacity) {
+      return false;
+    }
+
+    // A single piece over the limit still gets a box of its own; it is flagged as a team lift
     const quantity = art.getQuantity();
-    const currentCount = this.counts.get(type) ?? 0;
-    
+    const projectedWeight = Math.ceil(this.totalWeight + WeightCalculator.calculateWeight(art));
+    if (projectedWeight > getPackagingSpecCatalog().maxGrossBoxWeightLbs && (this.contents.length > 0 || quantity > 1)) {
+      return false;
+    }
+
+    return true;
+  }
+
+  private fitsPieceLimits(art: Art): boolean {
+    const type = art.getProductType();
+    const quantity = art.getQuantity();
+
     // Determine capacity limit based on packing mode
     let effectiveLimit: number | undefined;
     
@@ -309,6 +272,49 @@ export class Box {
     return true;
   }
 
+  /**
+   * Each piece takes its depth plus the catalog padding. One piece always fits on its own,
+   * since fitsDimensions has already checked its bare depth.
+   */
+  private fitsThickness(art: Art): boolean {
+    const projectedDepth = this.accumulatedDepth + this.getPaddedDepth(art) * art.getQuantity();
+    return projectedDepth <= this.spec.innerHeight || (this.contents.length === 0 && art.getQuantity() === 1);
+  }
+
+  private getPaddedDepth(art: Art): number {
+    return art.getRawDimensions().height + getPackagingSpecCatalog().thicknessPacking.paddingPerPieceInches;
+  }
+
+  /**
+   * How many pieces of the art an empty box of this type takes by padded thickness; at least 1.
+   */
+  public getMaxPiecesByThickness(art: Art): number {
+    return Math.max(1, Math.floor(this.spec.innerHeight / this.getPaddedDepth(art)));
+  }
+
+  /**
+   * Inches of the inner height taken so far; only tracked when packing by depth or thickness.
+   */
+  public getAccumulatedDepth(): number {
+    return this.accumulatedDepth;
+  }
+
+  /**
+   * How many pieces of the art an empty box of this type takes under the gross weight limit; at least 1.
+   */
+  public getMaxPiecesByWeight(art: Art): number {
+    const pieceWeight = WeightCalculator.calculateWeight(art) / art.getQuantity();
+    const allowance = getPackagingSpecCatalog().maxGrossBoxWeightLbs - this.spec.tareWeight;
+    return pieceWeight > 0 ? Math.max(1, Math.floor(allowance / pieceWeight)) : Number.POSITIVE_INFINITY;
+  }
+
+  /**
+   * True when the box is over the gross weight limit, which only a single heavy piece can do.
+   */
+  public isTeamLift(): boolean {
+    return this.getTotalWeight() > getPackagingSpecCatalog().maxGrossBoxWeightLbs;
+  }
+
   public addArt(art: Art): boolean {
     if (!this.canAccommodate(art)) {
       return false;
@@ -336,6 +342,8 @@ export class Box {
     // Track accumulated depth for ByDepth mode
     if (this.packingMode === PackingMode.ByDepth) {
       this.accumulatedDepth += art.getRawDimensions().height * quantity;
+    } else if (this.packingMode === PackingMode.ByThickness) {
+      this.accumulatedDepth += this.getPaddedDepth(art) * quantity;
     }
 
     const dims = art.getDimensions();
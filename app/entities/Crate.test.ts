@@ -2,6 +2,8 @@ import { describe, it, expect, beforeEach, vi } from "vitest";
 import { Crate, CrateType } from "./Crate";
 import { Box, BoxType } from "./Box";
 import { Art, ArtType, ArtMaterial } from "./Art";
+import { WeightCalculator } from "../calculations/WeightCalculator";
+import { CrateSizeCalculator } from "../calculations/CrateSizeCalculator";
 
 let artId = 0;
 
@@ -33,7 +35,7 @@ describe("Crate", () => {
   });
 
   describe("canAccommodate", () => {
-    it("allows standard boxes up to maxBoxes and height limit", () => {
+    it("allows standard boxes up to what the deck holds", () => {
       const boxes = Array.from({ length: 4 }, () =>
         makePopulatedBox(BoxType.Standard, [
           makeArt({ length: 30, width: 20, height: 4 }),
@@ -86,7 +88,8 @@ describe("Crate", () => {
       const added = crate.addBox(box);
       expect(added).toBe(true);
       expect(crate.getContents()).toHaveLength(1);
-      expect(crate.getRemainingCapacity()).toBe(crate.getSpecification().maxBoxes - 1);
+      // Four standard boxes stand side by side on a 48x40 deck
+      expect(crate.getRemainingCapacity()).toBe(3);
       expect(crate.getTotalWeight()).toBe(crate.getSpecification().tareWeight + box.getTotalWeight());
     });
 
@@ -102,6 +105,26 @@ describe("Crate", () => {
     });
   });
 
+  describe("custom crates", () => {
+    it("weighs loose art with the weight calculator and sizes the crate to it", () => {
+      const standardCrate = new Crate({ type: CrateType.StandardCrate });
+      const art = makeArt({ length: 30, width: 40, height: 2 });
+
+      standardCrate.addArt(art);
+      const size = CrateSizeCalculator.calculateSize([], [art]);
+
+      expect(standardCrate.getTareWeight()).toBe(size.tareWeightLbs);
+      expect(standardCrate.getExteriorDimensions()).toEqual(size.exterior);
+      expect(standardCrate.getTotalWeight()).toBe(Math.ceil(size.tareWeightLbs + WeightCalculator.calculateWeight(art)));
+    });
+
+    it("keeps catalog tare and no built size for pallets", () => {
+      expect(crate.getTareWeight()).toBe(crate.getSpecification().tareWeight);
+      expect(crate.getInteriorDimensions()).toBeNull();
+      expect(crate.getExteriorDimensions()).toBeNull();
+    });
+  });
+
   describe("calculateWeight", () => {
     it("adds overhead and rounds up", () => {
       const box = makePopulatedBox(BoxType.Standard, [
@@ -1,16 +1,23 @@
-import { Box, BoxType } from "./Box";
+import { Box, BoxType, getBoxTypeLabel } from "./Box";
 import { Art } from "./Art";
+import { getPackagingSpecCatalog } from "../catalog/PackagingSpecCatalog";
+import { WeightCalculator } from "../calculations/WeightCalculator";
+import { CrateSizeCalculator, type CrateDimensions, type CrateSize } from "../calculations/CrateSizeCalculator";
+import { PalletLayoutCalculator, type PalletDeck, type PalletLayout } from "../calculations/PalletLayoutCalculator";
 
 export enum CrateType {
   StandardCrate,
   StandardPallet,
   GlassPallet,
   OversizePallet,
+  FlatPack,
 }
 
 export enum ContainerKind {
   Crate,
   Pallet,
+  /** Soft pack of cardboard sheets and foam around a single piece. */
+  FlatPack,
 }
 
 const CRATE_TYPE_LABELS: Record<CrateType, string> = {
@@ -18,6 +25,13 @@ const CRATE_TYPE_LABELS: Record<CrateType, string> = {
   [CrateType.StandardPallet]: "STANDARD_PALLET",
   [CrateType.GlassPallet]: "GLASS_PALLET",
   [CrateType.OversizePallet]: "OVERSIZE_PALLET",
+  [CrateType.FlatPack]: "FLAT_PACK",
+};
+
+const CONTAINER_KINDS: Record<string, ContainerKind> = {
+  CRATE: ContainerKind.Crate,
+  PALLET: ContainerKind.Pallet,
+  FLAT_PACK: ContainerKind.FlatPack,
 };
 
 export function getCrateTypeLabel(type: CrateType): string {
@@ -28,61 +42,64 @@ interface CrateSpecification {
   type: CrateType;
   containerKind: ContainerKind;
   tareWeight: number;
-  maxBoxes: number;
+  /** Box limit for crates and flat-packs; pallets are limited by their deck. */
+  maxBoxes?: number;
+  /** Pallet deck size. */
+  deck?: PalletDeck;
   allowedBoxTypes?: readonly BoxType[];
   notes?: string;
 }
 
-const MAX_STACK_HEIGHT_IN = 84;
-
-const CRATE_SPECIFICATIONS: Record<CrateType, CrateSpecification> = {
-  [CrateType.StandardCrate]: {
-    type: CrateType.StandardCrate,
-    containerKind: ContainerKind.Crate,
-    tareWeight: 125,
-    maxBoxes: 3,
-    notes: "Most protective option; can also accept loose items per Bri's rules.",
-  },
-  [CrateType.StandardPallet]: {
-    type: CrateType.StandardPallet,
-    containerKind: ContainerKind.Pallet,
-    tareWeight: 60,
-    maxBoxes: 4,
-    allowedBoxTypes: [BoxType.Standard, BoxType.Large],
-    notes: "48x40 pallet with four standard boxes or three large boxes (rule of thumb).",
-  },
-  [CrateType.GlassPallet]: {
-    type: CrateType.GlassPallet,
-    containerKind: ContainerKind.Pallet,
-    tareWeight: 60,
-    maxBoxes: 4,
-    allowedBoxTypes: [BoxType.Standard],
-    notes: "43x35 glass pallet; use for small glass shipments (rule may vary).",
-  },
-  [CrateType.OversizePallet]: {
-    type: CrateType.OversizePallet,
-    containerKind: ContainerKind.Pallet,
-    tareWeight: 75,
-    maxBoxes: 5,
-    allowedBoxTypes: [BoxType.Standard, BoxType.Large],
-    notes: "60x40 pallet; holds up to five standard or mixed oversized boxes.",
-  },
-};
+/**
+ * Looks up a container type's limits in the active packaging spec catalog.
+ */
+export function getCrateSpecification(type: CrateType): CrateSpecification {
+  const spec = getPackagingSpecCatalog().containers[getCrateTypeLabel(type)];
+  const allowedLabels = spec.allowedBoxTypes;
+  const allowedBoxTypes = allowedLabels
+    ? Object.values(BoxType)
+        .filter((value): value is BoxType => typeof value === "number")
+        .filter((boxType) => allowedLabels.includes(getBoxTypeLabel(boxType)))
+    : undefined;
+
+  return {
+    type,
+    containerKind: CONTAINER_KINDS[spec.containerKind],
+    tareWeight: spec.tareWeight,
+    maxBoxes: spec.maxBoxes,
+    deck:
+      spec.deckLengthInches !== undefined && spec.deckWidthInches !== undefined
+        ? { length: spec.deckLengthInches, width: spec.deckWidthInches }
+        : undefined,
+    allowedBoxTypes,
+    notes: spec.notes,
+  };
+}
+
+/**
+ * Caps on what a loaded container may weigh (tare included) and how tall it may stand (pallet deck included).
+ */
+export interface ContainerLoadLimits {
+  maxWeightLbs: number;
+  maxHeightInches: number;
+}
 
 export interface CrateOptions {
   type?: CrateType;
+  loadLimits?: ContainerLoadLimits;
 }
 
 export class Crate {
   private readonly spec: CrateSpecification;
   private readonly contents: Box[] = [];
   private readonly looseArt: Art[] = []; // For direct art packing in crates
-  private totalWeight: number;
+  private contentsWeight = 0;
+  private readonly loadLimits?: ContainerLoadLimits;
 
   constructor(options: CrateOptions = {}) {
     const type = options.type ?? CrateType.StandardCrate;
-    this.spec = CRATE_SPECIFICATIONS[type];
-    this.totalWeight = this.spec.tareWeight;
+    this.spec = getCrateSpecification(type);
+    this.loadLimits = options.loadLimits;
   }
 
   public getType(): CrateType {
@@ -107,11 +124,7 @@ export class Crate {
 
   public addArt(art: Art): boolean {
     this.looseArt.push(art);
-    // Add weight calculation for art
-    const dims = art.getDimensions();
-    const volume = dims.length * dims.width * dims.height;
-    const weight = volume * 0.1; // Rough estimate, adjust as needed
-    this.totalWeight += weight * art.getQuantity();
+    this.contentsWeight += WeightCalculator.calculateWeight(art);
     return true;
   }
 
@@ -120,31 +133,23 @@ export class Crate {
       return false;
     }
 
-    // Special handling for StandardPallet: large boxes fit 3 per pallet, standard boxes fit 4
-    // If pallet has any large boxes, max capacity is 3 (for mixed boxes)
-    // If adding a large box to a pallet with standard boxes, reduce capacity to 3
-    let maxCapacity = this.spec.maxBoxes;
-    const hasLargeBoxes = this.contents.some(b => b.getType() === BoxType.Large);
-    const willHaveLargeBoxes = hasLargeBoxes || box.getType() === BoxType.Large;
-    
-    if (this.spec.type === CrateType.StandardPallet && willHaveLargeBoxes) {
-      // If pallet has or will have large boxes, max capacity is 3 total boxes
-      maxCapacity = 3;
-      const largeBoxCount = this.contents.filter(b => b.getType() === BoxType.Large).length;
-      // Can't add more large boxes if already at capacity (3)
-      if (box.getType() === BoxType.Large && largeBoxCount >= 3) {
-        return false;
-      }
-      // Can't add any box if total capacity (3) would be exceeded
-      // This is checked below with contents.length >= maxCapacity
+    if (this.loadLimits && Math.ceil(this.getTareWeight() + this.contentsWeight + box.getTotalWeight()) > this.loadLimits.maxWeightLbs) {
+      return false;
+    }
+    const heightLimit = Math.min(getPackagingSpecCatalog().maxStackHeightInches, this.loadLimits?.maxHeightInches ?? Infinity);
+
+    // Pallets take whatever fits the deck layout
+    if (this.spec.deck) {
+      const layout = PalletLayoutCalculator.plan([...this.contents, box], this.spec.deck);
+      return layout !== null && layout.stackHeightInches <= heightLimit;
     }
 
-    if (this.contents.length >= maxCapacity) {
+    if (this.spec.maxBoxes !== undefined && this.contents.length >= this.spec.maxBoxes) {
       return false;
     }
 
     const projectedHeight = this.getStackHeight() + box.getRequiredDimensions().height;
-    if (projectedHeight > MAX_STACK_HEIGHT_IN) {
+    if (projectedHeight > heightLimit) {
       return false;
     }
 
@@ -157,28 +162,77 @@ export class Crate {
     }
 
     this.contents.push(box);
-    this.totalWeight += box.getTotalWeight();
+    this.contentsWeight += box.getTotalWeight();
     return true;
   }
 
   public isAtCapacity(): boolean {
-    return this.contents.length >= this.spec.maxBoxes;
+    return this.getRemainingCapacity() === 0;
   }
 
+  /**
+   * Boxes still to go. For pallets, how many more boxes the size of the last one loaded
+   * (or an empty box of the first allowed type) fit the deck.
+   */
   public getRemainingCapacity(): number {
-    return Math.max(0, this.spec.maxBoxes - this.contents.length);
+    if (!this.spec.deck) {
+      return Math.max(0, (this.spec.maxBoxes ?? 0) - this.contents.length);
+    }
+
+    const sample = this.contents[this.contents.length - 1] ?? new Box({ type: this.spec.allowedBoxTypes?.[0] ?? BoxType.Standard });
+    let remaining = 0;
+    while (PalletLayoutCalculator.plan([...this.contents, ...Array<Box>(remaining + 1).fill(sample)], this.spec.deck)) {
+      remaining++;
+    }
+    return remaining;
+  }
+
+  /**
+   * Where each box sits on a pallet's deck. Null for crates and flat-packs.
+   */
+  public getPalletLayout(): PalletLayout | null {
+    return this.spec.deck ? PalletLayoutCalculator.plan(this.contents, this.spec.deck) : null;
   }
 
   public calculateWeight(overhead: number): number {
-    return Math.ceil(this.totalWeight + overhead);
+    return Math.ceil(this.getTareWeight() + this.contentsWeight + overhead);
   }
 
   public getTotalWeight(): number {
-    return Math.ceil(this.totalWeight);
+    return Math.ceil(this.getTareWeight() + this.contentsWeight);
   }
 
+  /**
+   * Pallets weigh what the catalog says; crates and flat-packs are built to their contents
+   * and weighed from their materials.
+   */
   public getTareWeight(): number {
-    return this.spec.tareWeight;
+    return this.getCrateSize()?.tareWeightLbs ?? this.spec.tareWeight;
+  }
+
+  /**
+   * Space inside a crate's or flat-pack's foam lining. Null for pallets.
+   */
+  public getInteriorDimensions(): CrateDimensions | null {
+    return this.getCrateSize()?.interior ?? null;
+  }
+
+  /**
+   * Outside size of a crate (skids included) or flat-pack. Null for pallets.
+   */
+  public getExteriorDimensions(): CrateDimensions | null {
+    return this.getCrateSize()?.exterior ?? null;
+  }
+
+  private getCrateSize(): CrateSize | null {
+    switch (this.spec.containerKind) {
+      case ContainerKind.Crate:
+        return CrateSizeCalculator.calculateSize(this.contents, this.looseArt);
+      case ContainerKind.FlatPack:
+        return CrateSizeCalculator.calculateFlatPackSize(this.looseArt);
+      default:
+        return null;
+    }
   }
 
   private getStackHeight(): number {
@@ -64,6 +64,8 @@ export class JsonFormatter {
       total_artwork_weight: totalArtworkWeight,
       total_packaging_weight: totalPackagingWeight,
       final_shipment_weight: finalShipmentWeight,
+      total_dimensional_weight: weightSummary.dimensionalWeightLbs,
+      total_billable_weight: weightSummary.billableWeightLbs,
     };
 
     // Only include oversized_pieces if there are pieces that need special handling
@@ -75,6 +77,41 @@ export class JsonFormatter {
       output.oversized_pieces = oversizedPieces;
     }
 
+    if (weightSummary.artworkWeights.some((line) => line.source === "measured")) {
+      output.artwork_weights = weightSummary.artworkWeights.map((line) => ({
+        tag: line.tag,
+        pieces: line.pieces,
+        weight: line.weightLbs,
+        source: line.source,
+      }));
+    }
+
+    const manifest = packingSummary.containerManifest;
+    if (manifest && manifest.length > 0) {
+      output.container_manifest = manifest.map((entry) => ({
+        container_id: entry.containerId,
+        boxes: entry.boxes.map((box) => ({ box_number: box.boxNumber, art_tags: box.artTags })),
+        loose_art_tags: entry.looseArtTags,
+        piece_count: entry.pieceCount,
+        weight: entry.weightLbs,
+      }));
+    }
+
+    const truckLoadPlan = packingSummary.truckLoadPlan;
+    if (truckLoadPlan) {
+      output.truck_load = {
+        recommended_vehicle: truckLoadPlan.recommendedVehicle ?? null,
+        linear_feet: truckLoadPlan.linearFeet,
+        total_weight: truckLoadPlan.totalWeightLbs,
+        loading_sequence: truckLoadPlan.loadingSequence.map((step) => ({
+          step: step.step,
+          container_id: step.containerId,
+          row: step.row,
+          ...(step.stackedOn && { stacked_on: step.stackedOn }),
+        })),
+      };
+    }
+
     return output;
   }
 
@@ -9,6 +9,29 @@ export interface OversizedPiece {
   quantity: number;
 }
 
+export interface ContainerManifestOutput {
+  container_id: string;
+  boxes: Array<{ box_number: number; art_tags: string[] }>;
+  loose_art_tags: string[];
+  piece_count: number;
+  weight: number;
+}
+
+export interface ArtworkWeightOutput {
+  tag: string;
+  pieces: number;
+  weight: number;
+  source: "measured" | "estimated";
+}
+
+export interface TruckLoadOutput {
+  /** Null when the load needs more than the largest vehicle. */
+  recommended_vehicle: string | null;
+  linear_feet: number;
+  total_weight: number;
+  loading_sequence: Array<{ step: number; container_id: string; row: number; stacked_on?: string }>;
+}
+
 export interface JsonOutputSchema {
   total_pieces: number;
   standard_size_pieces: number;
@@ -22,4 +45,10 @@ export interface JsonOutputSchema {
   total_artwork_weight: number;
   total_packaging_weight: number;
   final_shipment_weight: number;
+  total_dimensional_weight: number;
+  total_billable_weight: number;
+  /** Only present when some weights were measured. */
+  artwork_weights?: ArtworkWeightOutput[];
+  container_manifest?: ContainerManifestOutput[];
+  truck_load?: TruckLoadOutput;
 }
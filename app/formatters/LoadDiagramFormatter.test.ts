@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { LoadDiagramFormatter } from "./LoadDiagramFormatter";
+import type { ContainerLoadDiagram } from "../responses/PackagingResponse";
+
+const pallet: ContainerLoadDiagram = {
+  containerId: "Standard pallet 1",
+  base: { length: 43, width: 35 },
+  baseHeightInches: 5.5,
+  items: [
+    { boxNumber: 1, label: "#1", layer: 1, x: -0.5, y: -0.5, z: 0, length: 11, width: 36, height: 36, weightLbs: 40 },
+    { boxNumber: 2, label: "#2", layer: 1, x: 10.5, y: -0.5, z: 0, length: 11, width: 36, height: 36, weightLbs: 35 },
+    { boxNumber: 3, label: "#3", layer: 2, x: -0.5, y: -0.5, z: 36, length: 11, width: 36, height: 36, weightLbs: 30 },
+  ],
+  layers: [
+    { layer: 1, labels: ["#1", "#2"], weightLbs: 75 },
+    { layer: 2, labels: ["#3"], weightLbs: 30 },
+  ],
+};
+
+describe("LoadDiagramFormatter", () => {
+  it("draws top and side views with box numbers and a layer list", () => {
+    const svg = LoadDiagramFormatter.toSvg(pallet);
+
+    expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg"')).toBe(true);
+    expect(svg).toContain("Standard pallet 1");
+    expect(svg).toContain("Top view");
+    expect(svg).toContain("Side view");
+    // Each box appears once per view
+    expect(svg.match(/>#1<\/text>/g)).toHaveLength(2);
+    expect(svg).toContain("Layer 1: #1, #2 - 75 lbs");
+    expect(svg).toContain("Layer 2: #3 - 30 lbs");
+  });
+
+  it("widens the views to show overhang and stacks the side view on the deck", () => {
+    const svg = LoadDiagramFormatter.toSvg(pallet);
+
+    // The deck starts half an inch (2.5px) in from the margin because box #1 overhangs it
+    expect(svg).toContain('<rect x="22.5" y="54.5" width="215" height="175"');
+    // Layer 2 sits on layer 1, which sits on the 5.5" deck: its top is 77.5" up a 77.5" tall view
+    expect(svg).toMatch(/<rect x="[\d.]+" y="52" width="55" height="180" fill="#bbf7d0"/);
+  });
+
+  it("names files after the container and escapes labels", () => {
+    const crate: ContainerLoadDiagram = {
+      containerId: "Standard crate 2",
+      base: { length: 64, width: 8 },
+      baseHeightInches: 0,
+      items: [{ label: "A&B <1>", layer: 1, x: 2, y: 2, z: 2, length: 60, width: 4, height: 50, weightLbs: 50 }],
+      layers: [{ layer: 1, labels: ["A&B <1>"], weightLbs: 50 }],
+    };
+
+    expect(LoadDiagramFormatter.toFileName(crate.containerId)).toBe("standard-crate-2.svg");
+    expect(LoadDiagramFormatter.toSvg(crate)).toContain("A&amp;B &lt;1&gt;");
+    expect(LoadDiagramFormatter.toSvg(crate)).not.toContain("A&B");
+  });
+});
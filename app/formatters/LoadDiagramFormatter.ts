@@ -0,0 +1,116 @@
+import type { ContainerLoadDiagram, LoadDiagramItem, PackagingResponse } from "../responses/PackagingResponse";
+
+export interface LoadDiagramFile {
+  fileName: string;
+  svg: string;
+}
+
+const PIXELS_PER_INCH = 5;
+const MARGIN = 20;
+const VIEW_GAP = 40;
+const TITLE_HEIGHT = 32;
+const LEGEND_LINE_HEIGHT = 16;
+const LAYER_COLORS = ["#bfdbfe", "#bbf7d0", "#fde68a", "#fecaca", "#ddd6fe", "#fed7aa"];
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * LoadDiagramFormatter draws each pallet, crate or flat-pack as an SVG for the warehouse:
+ * a top view and a side view with box numbers, plus each layer's boxes and weight, bottom layer first.
+ */
+export class LoadDiagramFormatter {
+  /**
+   * One SVG per loaded unit, named after its container id (e.g., standard-pallet-1.svg).
+   */
+  static formatResponse(response: PackagingResponse): LoadDiagramFile[] {
+    return (response.packingSummary.loadDiagrams ?? []).map((diagram) => ({
+      fileName: this.toFileName(diagram.containerId),
+      svg: this.toSvg(diagram),
+    }));
+  }
+
+  static toFileName(containerId: string): string {
+    return `${containerId.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "")}.svg`;
+  }
+
+  static toSvg(diagram: ContainerLoadDiagram): string {
+    // Boxes may overhang the deck, so each view spans the deck and every box
+    const minX = Math.min(0, ...diagram.items.map((item) => item.x));
+    const maxX = Math.max(diagram.base.length, ...diagram.items.map((item) => item.x + item.length));
+    const minY = Math.min(0, ...diagram.items.map((item) => item.y));
+    const maxY = Math.max(diagram.base.width, ...diagram.items.map((item) => item.y + item.width));
+    const maxZ = diagram.baseHeightInches + Math.max(0, ...diagram.items.map((item) => item.z + item.height));
+
+    const viewWidth = (maxX - minX) * PIXELS_PER_INCH;
+    const topHeight = (maxY - minY) * PIXELS_PER_INCH;
+    const sideHeight = maxZ * PIXELS_PER_INCH;
+    const viewTop = MARGIN + TITLE_HEIGHT;
+    const viewsHeight = Math.max(topHeight, sideHeight);
+    const sideLeft = MARGIN + viewWidth + VIEW_GAP;
+    const legendTop = viewTop + viewsHeight + LEGEND_LINE_HEIGHT * 2;
+    const width = sideLeft + viewWidth + MARGIN;
+    const height = legendTop + diagram.layers.length * LEGEND_LINE_HEIGHT + MARGIN;
+
+    const topX = (inches: number) => round(MARGIN + (inches - minX) * PIXELS_PER_INCH);
+    const topY = (inches: number) => round(viewTop + (inches - minY) * PIXELS_PER_INCH);
+    const sideX = (inches: number) => round(sideLeft + (inches - minX) * PIXELS_PER_INCH);
+    const sideY = (inches: number) => round(viewTop + sideHeight - inches * PIXELS_PER_INCH);
+
+    const parts: string[] = [];
+    parts.push(
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${round(width)}" height="${round(height)}" viewBox="0 0 ${round(width)} ${round(height)}" font-family="sans-serif" font-size="11">`,
+    );
+    parts.push(`<text x="${MARGIN}" y="${MARGIN + 10}" font-size="14" font-weight="bold">${escapeXml(diagram.containerId)}</text>`);
+    parts.push(`<text x="${MARGIN}" y="${viewTop - 4}" fill="#6b7280">Top view</text>`);
+    parts.push(`<text x="${round(sideLeft)}" y="${viewTop - 4}" fill="#6b7280">Side view</text>`);
+
+    // Top view: deck, then boxes bottom layer first so the top layer is drawn last
+    parts.push(
+      `<rect x="${topX(0)}" y="${topY(0)}" width="${round(diagram.base.length * PIXELS_PER_INCH)}" height="${round(diagram.base.width * PIXELS_PER_INCH)}" fill="#f3f4f6" stroke="#6b7280" stroke-dasharray="4 2"/>`,
+    );
+    for (const item of this.inLoadingOrder(diagram.items)) {
+      parts.push(this.drawItem(item, topX(item.x), topY(item.y), item.length, item.width));
+    }
+
+    // Side view: looking at the deck's length, with the pallet itself at the bottom
+    if (diagram.baseHeightInches > 0) {
+      parts.push(
+        `<rect x="${sideX(0)}" y="${sideY(diagram.baseHeightInches)}" width="${round(diagram.base.length * PIXELS_PER_INCH)}" height="${round(diagram.baseHeightInches * PIXELS_PER_INCH)}" fill="#d6b88a" stroke="#6b7280"/>`,
+      );
+    }
+    for (const item of this.inLoadingOrder(diagram.items)) {
+      const top = diagram.baseHeightInches + item.z + item.height;
+      parts.push(this.drawItem(item, sideX(item.x), sideY(top), item.length, item.height));
+    }
+
+    diagram.layers.forEach((layer, index) => {
+      parts.push(
+        `<text x="${MARGIN}" y="${round(legendTop + index * LEGEND_LINE_HEIGHT)}">Layer ${layer.layer}: ${escapeXml(layer.labels.join(", "))} - ${layer.weightLbs} lbs</text>`,
+      );
+    });
+
+    parts.push("</svg>");
+    return parts.join("\n");
+  }
+
+  private static inLoadingOrder(items: LoadDiagramItem[]): LoadDiagramItem[] {
+    return [...items].sort((a, b) => a.layer - b.layer || a.z - b.z);
+  }
+
+  private static drawItem(item: LoadDiagramItem, x: number, y: number, lengthInches: number, heightInches: number): string {
+    const width = round(lengthInches * PIXELS_PER_INCH);
+    const height = round(heightInches * PIXELS_PER_INCH);
+    const color = LAYER_COLORS[(item.layer - 1) % LAYER_COLORS.length];
+    return (
+      `<g><title>${escapeXml(`${item.label} (layer ${item.layer}, ${item.weightLbs} lbs)`)}</title>` +
+      `<rect x="${x}" y="${y}" width="${width}" height="${height}" fill="${color}" stroke="#1f2937"/>` +
+      `<text x="${round(x + width / 2)}" y="${round(y + height / 2 + 4)}" text-anchor="middle">${escapeXml(item.label)}</text></g>`
+    );
+  }
+}
@@ -1,4 +1,4 @@
-import { PackagingResponse } from "../responses/PackagingResponse";
+import { PackagingResponse, TagTrace } from "../responses/PackagingResponse";
 
 /**
  * Formats a PackagingResponse into the human-readable text format
@@ -23,9 +23,116 @@ export class TextFormatter {
     
     // Weight Summary
     lines.push(`Total Artwork Weight: ${response.weightSummary.totalArtworkWeightLbs} lbs`);
+    // Mark weighed lines so estimates are not mistaken for scale readings
+    const measured = response.weightSummary.artworkWeights.filter((line) => line.source === "measured");
+    if (measured.length > 0) {
+      const measuredWeight = measured.reduce((sum, line) => sum + line.weightLbs, 0);
+      lines.push(`- Measured: ${measuredWeight} lbs (tags ${measured.map((line) => line.tag).join(", ")}); other weights are estimated from size and material`);
+    }
     lines.push(`Total Packaging Weight: ${response.weightSummary.packagingWeightLbs.total} lbs`);
+    const cartons = response.weightSummary.packagingWeightLbs.cartons;
+    if (cartons.count > 0) {
+      const included = response.weightSummary.packagingWeightLbs.cartonTareIncluded ? "included" : "not included";
+      lines.push(`Carton Tare: ${cartons.totalWeight} lbs for ${cartons.count} box(es) (${included} in packaging weight)`);
+    }
     lines.push(`Final Shipment Weight: ${response.weightSummary.finalShipmentWeightLbs} lbs`);
+    lines.push(`Dimensional Weight: ${response.weightSummary.dimensionalWeightLbs} lbs (divisor ${response.weightSummary.dimensionalWeightDivisor})`);
+    lines.push(`Billable Weight: ${response.weightSummary.billableWeightLbs} lbs`);
+
+    // Parcel shipments list every UPS carton for labeling
+    const parcelCartons = response.packingSummary.parcelCartons;
+    if (parcelCartons) {
+      lines.push("");
+      lines.push("UPS Cartons:");
+      if (parcelCartons.length === 0) {
+        lines.push("- None (no items can ship UPS parcel)");
+      }
+      for (const carton of parcelCartons) {
+        lines.push(`- Carton ${carton.cartonNumber} (${carton.cartonType}): ${carton.dimensions}, ${carton.pieces} piece(s), ${carton.weightLbs} lbs (billable ${carton.billableWeightLbs} lbs)`);
+      }
+    }
+
+    // What goes on each pallet and in each crate, for the loaders
+    const manifest = response.packingSummary.containerManifest;
+    if (manifest && manifest.length > 0) {
+      lines.push("");
+      lines.push("Container Manifest:");
+      for (const entry of manifest) {
+        lines.push(`- ${entry.containerId}: ${entry.boxes.length} box(es), ${entry.pieceCount} piece(s), ${entry.weightLbs} lbs`);
+        for (const box of entry.boxes) {
+          lines.push(`   * Box ${box.boxNumber} (${box.boxType}): tags ${box.artTags.join(", ")}`);
+        }
+        if (entry.looseArtTags.length > 0) {
+          lines.push(`   * Loose: tags ${entry.looseArtTags.join(", ")}`);
+        }
+      }
+    }
+
+    // Smallest truck that takes the load, and the order to load it
+    const truckLoadPlan = response.packingSummary.truckLoadPlan;
+    if (truckLoadPlan) {
+      const largest = truckLoadPlan.vehicles[truckLoadPlan.vehicles.length - 1];
+      const vehicle = truckLoadPlan.recommendedVehicle ?? `more than one ${largest.description}`;
+      lines.push("");
+      lines.push(`Truck Load: ${vehicle} (${truckLoadPlan.linearFeet} linear ft, ${truckLoadPlan.totalWeightLbs} lbs)`);
+      for (const step of truckLoadPlan.loadingSequence) {
+        const position = step.stackedOn ? `on top of ${step.stackedOn}` : `row ${step.row}, ${step.y}" from the left wall`;
+        lines.push(`- ${step.step}. ${step.containerId}: ${position}`);
+      }
+    }
+
+    // Built-to-size units for pieces too big for any box
+    const customPackaging = response.packingSummary.customPackaging;
+    if (customPackaging) {
+      lines.push("");
+      lines.push("Custom Packaging:");
+      for (const plan of customPackaging) {
+        const method = plan.method === "crate" ? "Crate" : "Flat-pack";
+        lines.push(`- ${plan.artId} (${plan.pieces} piece(s)): ${method} ${plan.dimensions}, ${plan.weightLbs} lbs (tare ${plan.tareWeightLbs} lbs) - ${plan.reason}`);
+      }
+    }
 
+    // Bill of materials for the packing crew
+    const materials = response.packingSummary.materials;
+    if (materials.lines.length > 0) {
+      lines.push("");
+      lines.push("Packing Materials:");
+      for (const line of materials.lines) {
+        lines.push(`- ${line.description}: ${line.quantity} ${line.unit} @ $${line.unitCost.toFixed(2)} = $${line.totalCost.toFixed(2)} (${line.totalWeightLbs} lbs)`);
+      }
+      lines.push(`- Total: $${materials.totalCost.toFixed(2)}, ${materials.totalWeightLbs} lbs`);
+    }
+
+    // LTL cost estimates, when local rate tables are set up
+    const costSummary = response.costSummary;
+    if (costSummary) {
+      lines.push("");
+      lines.push(`Estimated Freight Cost (${costSummary.originZone} to ${costSummary.destinationZone ?? "unknown zone"}):`);
+      for (const estimate of costSummary.estimates) {
+        const marker = estimate.selected ? " (selected)" : "";
+        lines.push(`- ${estimate.strategyName}${marker}: $${estimate.total.toFixed(2)} for ${estimate.handlingUnits} unit(s), ${estimate.weightLbs} lbs`);
+      }
+      for (const note of costSummary.notes) {
+        lines.push(`   * ${note}`);
+      }
+    }
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Formats where one tag's pieces went, for `pnpm package lookup`.
+   */
+  static formatTagTrace(trace: TagTrace): string {
+    const lines = [`Tag ${trace.tag} (${trace.productType}, ${trace.pieces} piece(s)):`];
+    for (const location of trace.locations) {
+      const box = location.boxNumber !== undefined ? `Box ${location.boxNumber}` : "Loose";
+      const container = location.containerId ? ` on ${location.containerId}` : "";
+      lines.push(`- ${box}${container}: ${location.pieces} piece(s)`);
+    }
+    if (trace.unpackedPieces > 0) {
+      lines.push(`- Not packed: ${trace.unpackedPieces} piece(s) - ${trace.unpackedReason}`);
+    }
     return lines.join("\n");
   }
 }
@@ -0,0 +1,248 @@
+import React, { useEffect, useState } from "react";
+import type { ColumnMapping, CsvPreview } from "../../parser/CsvParser";
+import type { ColumnMappingProfile } from "../../storage/ColumnMappingStore";
+
+interface ColumnMappingScreenProps {
+  file: File | null;
+  /** Id of the saved profile the job is packed with; empty for the standard work-order layout. */
+  mappingId: string;
+  onMappingChange: (mappingId: string) => void;
+}
+
+const EMPTY_MAPPING: ColumnMapping = { columns: {}, defaults: {} };
+
+const controlStyle: React.CSSProperties = {
+  padding: "0.375rem 0.5rem",
+  border: "1px solid #cbd5e1",
+  borderRadius: "6px",
+  fontSize: "0.8125rem",
+  background: "white",
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: "0.5rem 1rem",
+  background: "white",
+  color: "#2563eb",
+  border: "1px solid #2563eb",
+  borderRadius: "6px",
+  fontSize: "0.875rem",
+  cursor: "pointer",
+  fontWeight: "500",
+};
+
+/**
+ * Maps an uploaded work order's headers to work-order fields, previews the first rows through the mapping
+ * and saves it as a profile, so spreadsheets with vendor headers (Qty, W, H, Medium) can be imported.
+ */
+export default function ColumnMappingScreen({ file, mappingId, onMappingChange }: ColumnMappingScreenProps) {
+  const [profiles, setProfiles] = useState<ColumnMappingProfile[]>([]);
+  const [draft, setDraft] = useState<ColumnMapping>(EMPTY_MAPPING);
+  const [preview, setPreview] = useState<CsvPreview | null>(null);
+  const [fields, setFields] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadProfiles = async () => {
+    try {
+      const res = await fetch("/api/column-mappings");
+      const data = await res.json();
+      if (res.ok) {
+        setProfiles(data.mappings);
+      }
+    } catch {
+      // The standard layout still works without saved profiles
+    }
+  };
+
+  useEffect(() => {
+    loadProfiles();
+  }, []);
+
+  // Start from the chosen profile, or from the standard headers when none is chosen
+  useEffect(() => {
+    const profile = profiles.find((candidate) => candidate.id === mappingId);
+    setDraft(profile ? { columns: profile.columns, defaults: profile.defaults ?? {} } : EMPTY_MAPPING);
+  }, [mappingId, profiles]);
+
+  useEffect(() => {
+    setPreview(null);
+    if (!file || !file.name.endsWith(".csv")) {
+      return;
+    }
+
+    // Wait for typing in the default fields to settle before previewing again
+    const timer = setTimeout(async () => {
+      try {
+        const formData = new FormData();
+        formData.append("file", file);
+        formData.append("mapping", JSON.stringify(draft));
+        const res = await fetch("/api/column-mappings/preview", { method: "POST", body: formData });
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(data.error || "Could not preview the work order");
+        }
+        setPreview(data.preview);
+        setFields(data.fields);
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Could not preview the work order");
+      }
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [file, draft]);
+
+  const setColumnField = (header: string, field: string) => {
+    setDraft((prev) => {
+      const columns = { ...prev.columns };
+      if (field) {
+        columns[header] = field;
+      } else {
+        delete columns[header];
+      }
+      return { ...prev, columns };
+    });
+  };
+
+  const setDefault = (field: string, value: string) => {
+    setDraft((prev) => {
+      const defaults = { ...prev.defaults };
+      if (value) {
+        defaults[field] = value;
+      } else {
+        delete defaults[field];
+      }
+      return { ...prev, defaults };
+    });
+  };
+
+  const saveProfile = async () => {
+    const current = profiles.find((profile) => profile.id === mappingId);
+    const name = window.prompt("Name for this column mapping (e.g., the vendor)", current?.name ?? "");
+    if (!name) {
+      return;
+    }
+
+    setError(null);
+    try {
+      const res = await fetch("/api/column-mappings", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, ...draft }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Could not save column mapping");
+      }
+      await loadProfiles();
+      onMappingChange(data.mapping.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not save column mapping");
+    }
+  };
+
+  if (!file || (!preview && !error)) {
+    return null;
+  }
+
+  const savedProfile = profiles.find((profile) => profile.id === mappingId);
+  const unsaved =
+    Object.keys(draft.columns).length > 0 &&
+    JSON.stringify({ columns: draft.columns, defaults: draft.defaults ?? {} }) !==
+      JSON.stringify({ columns: savedProfile?.columns, defaults: savedProfile?.defaults ?? {} });
+  const defaultFields = preview ? [...new Set([...preview.missingFields, ...Object.keys(draft.defaults ?? {})])] : [];
+  const previewFields = fields.filter((field) => preview?.rows.some((row) => row[field] !== undefined));
+
+  return (
+    <div
+      style={{
+        marginTop: "1rem",
+        padding: "1rem 1.25rem",
+        background: "#f8fafc",
+        border: "1px solid #cbd5e1",
+        borderRadius: "8px",
+        textAlign: "left",
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center", gap: "0.75rem", flexWrap: "wrap", marginBottom: "0.75rem" }}>
+        <h3 style={{ margin: 0, flex: "1 1 auto", color: "#334155", fontSize: "0.9375rem", fontWeight: "600" }}>
+          Column Mapping
+        </h3>
+        <select value={mappingId} onChange={(event) => onMappingChange(event.target.value)} style={controlStyle}>
+          <option value="">Standard work-order headers</option>
+          {profiles.map((profile) => (
+            <option key={profile.id} value={profile.id}>{profile.name}</option>
+          ))}
+        </select>
+        <button type="button" onClick={saveProfile} disabled={!unsaved} style={{ ...buttonStyle, cursor: unsaved ? "pointer" : "not-allowed" }}>
+          Save Profile
+        </button>
+      </div>
+      {error && <p style={{ margin: "0 0 0.75rem 0", color: "#991b1b", fontSize: "0.8125rem" }}>{error}</p>}
+      {unsaved && (
+        <p style={{ margin: "0 0 0.75rem 0", color: "#92400e", fontSize: "0.8125rem" }}>
+          Save this mapping as a profile to pack the job with it.
+        </p>
+      )}
+      {preview && (
+        <>
+          <div style={{ display: "flex", flexWrap: "wrap", gap: "0.5rem 1rem", marginBottom: "0.75rem" }}>
+            {preview.columns.map((column) => (
+              <label key={column.header} style={{ display: "flex", alignItems: "center", gap: "0.375rem", fontSize: "0.8125rem", color: "#334155" }}>
+                <strong>{column.header}</strong> →
+                <select value={column.field ?? ""} onChange={(event) => setColumnField(column.header, event.target.value)} style={controlStyle}>
+                  <option value="">Not imported</option>
+                  {fields.map((field) => (
+                    <option key={field} value={field}>{field}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+          {defaultFields.length > 0 && (
+            <div style={{ display: "flex", flexWrap: "wrap", gap: "0.5rem 1rem", marginBottom: "0.75rem" }}>
+              {defaultFields.map((field) => (
+                <label key={field} style={{ display: "flex", alignItems: "center", gap: "0.375rem", fontSize: "0.8125rem", color: "#334155" }}>
+                  {field} defaults to
+                  <input
+                    type="text"
+                    value={draft.defaults?.[field] ?? ""}
+                    onChange={(event) => setDefault(field, event.target.value)}
+                    style={{ ...controlStyle, width: "8rem" }}
+                  />
+                </label>
+              ))}
+            </div>
+          )}
+          {preview.missingFields.length > 0 && (
+            <p style={{ margin: "0 0 0.75rem 0", color: "#991b1b", fontSize: "0.8125rem" }}>
+              Map a column or give a default for: {preview.missingFields.join(", ")}
+            </p>
+          )}
+          <div style={{ overflowX: "auto" }}>
+            <table style={{ borderCollapse: "collapse", fontSize: "0.75rem", width: "100%" }}>
+              <thead>
+                <tr>
+                  {previewFields.map((field) => (
+                    <th key={field} style={{ padding: "0.25rem 0.5rem", borderBottom: "1px solid #cbd5e1", textAlign: "left", color: "#475569" }}>
+                      {field}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {preview.rows.map((row, index) => (
+                  <tr key={index}>
+                    {previewFields.map((field) => (
+                      <td key={field} style={{ padding: "0.25rem 0.5rem", borderBottom: "1px solid #e2e8f0", color: "#334155" }}>
+                        {row[field] ?? ""}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
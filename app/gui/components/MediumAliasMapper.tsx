@@ -0,0 +1,172 @@
+import React, { useEffect, useState } from "react";
+import type { UnknownLabel } from "../../parser/CsvParser";
+
+interface MediumAliasMapperProps {
+  file: File | null;
+  /** Saved column-mapping profile the work order is read with. */
+  mappingId?: string;
+}
+
+interface CatalogLabels {
+  mediums: string[];
+  glazings: string[];
+}
+
+function labelKey(label: UnknownLabel): string {
+  return `${label.kind}:${label.label}`;
+}
+
+/**
+ * Lists the work order's mediums and glazings the catalog doesn't know and saves each one as an alias
+ * of a catalog entry, so this job and later ones with the same label parse.
+ */
+export default function MediumAliasMapper({ file, mappingId }: MediumAliasMapperProps) {
+  const [unknownLabels, setUnknownLabels] = useState<UnknownLabel[]>([]);
+  const [catalog, setCatalog] = useState<CatalogLabels>({ mediums: [], glazings: [] });
+  const [targets, setTargets] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const checkFile = async (selectedFile: File) => {
+    try {
+      const formData = new FormData();
+      formData.append("file", selectedFile);
+      if (mappingId) {
+        formData.append("columnMapping", mappingId);
+      }
+      const res = await fetch("/api/medium-aliases/check", { method: "POST", body: formData });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Could not check the work order's mediums");
+      }
+      const labels: UnknownLabel[] = data.unknownLabels;
+      setUnknownLabels(labels);
+      // Preselect the closest match so a likely alias is one click away
+      setTargets(Object.fromEntries(labels.map((label) => [labelKey(label), label.suggestions[0] ?? ""])));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not check the work order's mediums");
+    }
+  };
+
+  useEffect(() => {
+    setUnknownLabels([]);
+    setError(null);
+    if (file && file.name.endsWith(".csv")) {
+      checkFile(file);
+    }
+  }, [file, mappingId]);
+
+  useEffect(() => {
+    if (unknownLabels.length === 0 || catalog.mediums.length > 0) {
+      return;
+    }
+    fetch("/api/medium-aliases")
+      .then((res) => (res.ok ? res.json() : undefined))
+      .then((data) => data && setCatalog({ mediums: data.mediums, glazings: data.glazings }))
+      .catch(() => {
+        // Suggestions still work without the full list
+      });
+  }, [unknownLabels, catalog.mediums.length]);
+
+  const saveAlias = async (label: UnknownLabel) => {
+    setError(null);
+    try {
+      const res = await fetch("/api/medium-aliases", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ kind: label.kind, alias: label.label, target: targets[labelKey(label)] }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Could not save alias");
+      }
+      if (file) {
+        await checkFile(file);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not save alias");
+    }
+  };
+
+  if (unknownLabels.length === 0 && !error) {
+    return null;
+  }
+
+  return (
+    <div
+      style={{
+        marginTop: "1rem",
+        padding: "1rem 1.25rem",
+        background: "#fef3c7",
+        border: "1px solid #f59e0b",
+        borderRadius: "8px",
+        textAlign: "left",
+      }}
+    >
+      <h3 style={{ margin: "0 0 0.25rem 0", color: "#92400e", fontSize: "0.9375rem", fontWeight: "600" }}>
+        Unknown Mediums and Glazings
+      </h3>
+      <p style={{ margin: "0 0 0.75rem 0", color: "#78350f", fontSize: "0.8125rem" }}>
+        Rows with an unknown medium are left out of the job, and unknown glazings use the medium's material.
+        Map each label to a catalog entry to save it for every future job.
+      </p>
+      {error && <p style={{ margin: "0 0 0.75rem 0", color: "#991b1b", fontSize: "0.8125rem" }}>{error}</p>}
+      {unknownLabels.map((label) => {
+        const key = labelKey(label);
+        const others = (label.kind === "medium" ? catalog.mediums : catalog.glazings).filter(
+          (candidate) => !label.suggestions.includes(candidate),
+        );
+        return (
+          <div key={key} style={{ display: "flex", alignItems: "center", gap: "0.75rem", marginBottom: "0.5rem", flexWrap: "wrap" }}>
+            <span style={{ flex: "1 1 14rem", fontSize: "0.875rem", color: "#334155" }}>
+              <strong>{label.label}</strong> ({label.kind}, row{label.rows.length > 1 ? "s" : ""} {label.rows.join(", ")})
+            </span>
+            <select
+              value={targets[key] ?? ""}
+              onChange={(event) => setTargets((prev) => ({ ...prev, [key]: event.target.value }))}
+              style={{
+                padding: "0.5rem 0.75rem",
+                border: "1px solid #cbd5e1",
+                borderRadius: "6px",
+                fontSize: "0.875rem",
+                background: "white",
+              }}
+            >
+              <option value="">Choose a catalog {label.kind}...</option>
+              {label.suggestions.length > 0 && (
+                <optgroup label="Closest matches">
+                  {label.suggestions.map((suggestion) => (
+                    <option key={suggestion} value={suggestion}>{suggestion}</option>
+                  ))}
+                </optgroup>
+              )}
+              {others.length > 0 && (
+                <optgroup label={`All ${label.kind}s`}>
+                  {others.map((candidate) => (
+                    <option key={candidate} value={candidate}>{candidate}</option>
+                  ))}
+                </optgroup>
+              )}
+            </select>
+            <button
+              type="button"
+              onClick={() => saveAlias(label)}
+              disabled={!targets[key]}
+              style={{
+                padding: "0.5rem 1rem",
+                background: "white",
+                color: "#2563eb",
+                border: "1px solid #2563eb",
+                borderRadius: "6px",
+                fontSize: "0.875rem",
+                cursor: targets[key] ? "pointer" : "not-allowed",
+                fontWeight: "500",
+              }}
+            >
+              Save Alias
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
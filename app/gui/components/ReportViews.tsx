@@ -1,5 +1,7 @@
 import React from "react";
 import type { PackagingResponse } from "../../responses/PackagingResponse";
+import { LoadDiagramFormatter } from "../../formatters/LoadDiagramFormatter";
+import TagLookup from "./TagLookup";
 
 interface ReportViewsProps {
   response: PackagingResponse;
@@ -14,7 +16,8 @@ interface ReportViewsProps {
 const PACKING_ALGORITHMS = [
   { id: "first-fit", name: "Pack by Medium" },
   { id: "balanced", name: "Pack by Strictest Constraint" },
-  { id: "minimize-boxes", name: "Pack by Depth" }
+  { id: "minimize-boxes", name: "Pack by Depth" },
+  { id: "by-thickness", name: "Pack by Thickness" }
 ];
 
 export default function ReportViews({
@@ -304,6 +307,33 @@ export default function ReportViews({
           </div>
         )}
 
+        {/* UPS Cartons (parcel shipments) */}
+        {response.packingSummary.parcelCartons && response.packingSummary.parcelCartons.length > 0 && (
+          <div style={{ marginBottom: "2rem" }}>
+            <h3 style={{ fontSize: "1.125rem", fontWeight: "600", marginBottom: "1rem" }}>UPS Cartons</h3>
+            <table style={{ width: "100%", borderCollapse: "collapse" }}>
+              <thead>
+                <tr style={{ borderBottom: "2px solid #e5e7eb" }}>
+                  <th style={{ textAlign: "left", padding: "0.75rem", fontSize: "0.875rem", fontWeight: "600", color: "#6b7280" }}>Carton</th>
+                  <th style={{ textAlign: "left", padding: "0.75rem", fontSize: "0.875rem", fontWeight: "600", color: "#6b7280" }}>Dimensions</th>
+                  <th style={{ textAlign: "right", padding: "0.75rem", fontSize: "0.875rem", fontWeight: "600", color: "#6b7280" }}>Pieces</th>
+                  <th style={{ textAlign: "right", padding: "0.75rem", fontSize: "0.875rem", fontWeight: "600", color: "#6b7280" }}>Weight</th>
+                </tr>
+              </thead>
+              <tbody>
+                {response.packingSummary.parcelCartons.map((carton) => (
+                  <tr key={carton.cartonNumber} style={{ borderBottom: "1px solid #f3f4f6" }}>
+                    <td style={{ padding: "0.75rem", fontWeight: "500" }}>#{carton.cartonNumber} {carton.cartonType}</td>
+                    <td style={{ padding: "0.75rem", color: "#6b7280" }}>{carton.dimensions}</td>
+                    <td style={{ padding: "0.75rem", textAlign: "right" }}>{carton.pieces}</td>
+                    <td style={{ padding: "0.75rem", textAlign: "right", fontWeight: "600" }}>{carton.weightLbs} lbs</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
         {/* Weight Breakdown */}
         <div>
           <h3 style={{ fontSize: "1.125rem", fontWeight: "600", marginBottom: "1rem" }}>Weight Breakdown</h3>
@@ -311,14 +341,178 @@ export default function ReportViews({
             <div style={{ padding: "1rem", background: "#f9fafb", borderRadius: "6px" }}>
               <div style={{ fontSize: "0.875rem", color: "#6b7280", marginBottom: "0.25rem" }}>Artwork Weight</div>
               <div style={{ fontSize: "1.25rem", fontWeight: "600" }}>{response.weightSummary.totalArtworkWeightLbs.toFixed(0)} lbs</div>
+              {response.weightSummary.artworkWeights.some((line) => line.source === "measured") && (
+                <div style={{ fontSize: "0.75rem", color: "#6b7280", marginTop: "0.25rem" }}>
+                  Measured: tags {response.weightSummary.artworkWeights
+                    .filter((line) => line.source === "measured")
+                    .map((line) => line.tag)
+                    .join(", ")}; others estimated from size and material
+                </div>
+              )}
             </div>
             <div style={{ padding: "1rem", background: "#f9fafb", borderRadius: "6px" }}>
               <div style={{ fontSize: "0.875rem", color: "#6b7280", marginBottom: "0.25rem" }}>Packaging Weight</div>
               <div style={{ fontSize: "1.25rem", fontWeight: "600" }}>{response.weightSummary.packagingWeightLbs.total.toFixed(0)} lbs</div>
+              {response.weightSummary.packagingWeightLbs.cartons.count > 0 && (
+                <div style={{ fontSize: "0.75rem", color: "#6b7280", marginTop: "0.25rem" }}>
+                  Carton tare {response.weightSummary.packagingWeightLbs.cartons.totalWeight.toFixed(0)} lbs
+                  {response.weightSummary.packagingWeightLbs.cartonTareIncluded ? " included" : " not included"}
+                </div>
+              )}
             </div>
           </div>
         </div>
 
+        {/* Custom Packaging */}
+        {response.packingSummary.customPackaging && (
+          <div style={{ marginTop: "2rem" }}>
+            <h3 style={{ fontSize: "1.125rem", fontWeight: "600", marginBottom: "1rem" }}>Custom Packaging</h3>
+            <table style={{ width: "100%", borderCollapse: "collapse" }}>
+              <thead>
+                <tr style={{ borderBottom: "2px solid #e5e7eb" }}>
+                  <th style={{ textAlign: "left", padding: "0.75rem", fontSize: "0.875rem", fontWeight: "600", color: "#6b7280" }}>Item</th>
+                  <th style={{ textAlign: "left", padding: "0.75rem", fontSize: "0.875rem", fontWeight: "600", color: "#6b7280" }}>Method</th>
+                  <th style={{ textAlign: "left", padding: "0.75rem", fontSize: "0.875rem", fontWeight: "600", color: "#6b7280" }}>Dimensions</th>
+                  <th style={{ textAlign: "right", padding: "0.75rem", fontSize: "0.875rem", fontWeight: "600", color: "#6b7280" }}>Tare</th>
+                  <th style={{ textAlign: "right", padding: "0.75rem", fontSize: "0.875rem", fontWeight: "600", color: "#6b7280" }}>Weight</th>
+                </tr>
+              </thead>
+              <tbody>
+                {response.packingSummary.customPackaging.map((plan) => (
+                  <tr key={plan.containerId} style={{ borderBottom: "1px solid #f3f4f6" }}>
+                    <td style={{ padding: "0.75rem", fontWeight: "500" }}>{plan.artId} ({plan.pieces} pc)</td>
+                    <td style={{ padding: "0.75rem" }} title={plan.reason}>{plan.method === "crate" ? "Crate" : "Flat-pack"}</td>
+                    <td style={{ padding: "0.75rem" }}>{plan.dimensions}</td>
+                    <td style={{ padding: "0.75rem", textAlign: "right" }}>{plan.tareWeightLbs} lbs</td>
+                    <td style={{ padding: "0.75rem", textAlign: "right" }}>{plan.weightLbs} lbs</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Container Manifest */}
+        {response.packingSummary.containerManifest && response.packingSummary.containerManifest.length > 0 && (
+          <div style={{ marginTop: "2rem" }}>
+            <h3 style={{ fontSize: "1.125rem", fontWeight: "600", marginBottom: "1rem" }}>Container Manifest</h3>
+            <table style={{ width: "100%", borderCollapse: "collapse" }}>
+              <thead>
+                <tr style={{ borderBottom: "2px solid #e5e7eb" }}>
+                  <th style={{ textAlign: "left", padding: "0.75rem", fontSize: "0.875rem", fontWeight: "600", color: "#6b7280" }}>Container</th>
+                  <th style={{ textAlign: "left", padding: "0.75rem", fontSize: "0.875rem", fontWeight: "600", color: "#6b7280" }}>Boxes and Tags</th>
+                  <th style={{ textAlign: "right", padding: "0.75rem", fontSize: "0.875rem", fontWeight: "600", color: "#6b7280" }}>Pieces</th>
+                  <th style={{ textAlign: "right", padding: "0.75rem", fontSize: "0.875rem", fontWeight: "600", color: "#6b7280" }}>Weight</th>
+                </tr>
+              </thead>
+              <tbody>
+                {response.packingSummary.containerManifest.map((entry) => (
+                  <tr key={entry.containerId} style={{ borderBottom: "1px solid #f3f4f6", verticalAlign: "top" }}>
+                    <td style={{ padding: "0.75rem", fontWeight: "500" }}>{entry.containerId}</td>
+                    <td style={{ padding: "0.75rem" }}>
+                      {entry.boxes.map((box) => (
+                        <div key={box.boxNumber}>
+                          Box {box.boxNumber} ({box.boxType}): tags {box.artTags.join(", ")}
+                        </div>
+                      ))}
+                      {entry.looseArtTags.length > 0 && <div>Loose: tags {entry.looseArtTags.join(", ")}</div>}
+                    </td>
+                    <td style={{ padding: "0.75rem", textAlign: "right" }}>{entry.pieceCount}</td>
+                    <td style={{ padding: "0.75rem", textAlign: "right", fontWeight: "600" }}>{entry.weightLbs} lbs</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Truck Load */}
+        {response.packingSummary.truckLoadPlan && (
+          <div style={{ marginTop: "2rem" }}>
+            <h3 style={{ fontSize: "1.125rem", fontWeight: "600", marginBottom: "0.5rem" }}>Truck Load</h3>
+            <p style={{ margin: "0 0 1rem 0", color: "#374151" }}>
+              {response.packingSummary.truckLoadPlan.recommendedVehicle ?? "Does not fit the largest vehicle"} -{" "}
+              {response.packingSummary.truckLoadPlan.linearFeet} linear ft, {response.packingSummary.truckLoadPlan.totalWeightLbs} lbs
+            </p>
+            <table style={{ width: "100%", borderCollapse: "collapse" }}>
+              <thead>
+                <tr style={{ borderBottom: "2px solid #e5e7eb" }}>
+                  <th style={{ textAlign: "left", padding: "0.75rem", fontSize: "0.875rem", fontWeight: "600", color: "#6b7280" }}>Step</th>
+                  <th style={{ textAlign: "left", padding: "0.75rem", fontSize: "0.875rem", fontWeight: "600", color: "#6b7280" }}>Unit</th>
+                  <th style={{ textAlign: "left", padding: "0.75rem", fontSize: "0.875rem", fontWeight: "600", color: "#6b7280" }}>Position</th>
+                  <th style={{ textAlign: "right", padding: "0.75rem", fontSize: "0.875rem", fontWeight: "600", color: "#6b7280" }}>Weight</th>
+                </tr>
+              </thead>
+              <tbody>
+                {response.packingSummary.truckLoadPlan.loadingSequence.map((step) => (
+                  <tr key={step.step} style={{ borderBottom: "1px solid #f3f4f6" }}>
+                    <td style={{ padding: "0.75rem" }}>{step.step}</td>
+                    <td style={{ padding: "0.75rem", fontWeight: "500" }}>{step.containerId}</td>
+                    <td style={{ padding: "0.75rem" }}>
+                      {step.stackedOn ? `On top of ${step.stackedOn}` : `Row ${step.row}, ${step.y}" from the left wall`}
+                    </td>
+                    <td style={{ padding: "0.75rem", textAlign: "right", fontWeight: "600" }}>{step.weightLbs} lbs</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Tag Lookup */}
+        {response.packingSummary.tagTrace && response.packingSummary.tagTrace.length > 0 && (
+          <TagLookup traces={response.packingSummary.tagTrace} />
+        )}
+
+        {/* Load Diagrams */}
+        {response.packingSummary.loadDiagrams && response.packingSummary.loadDiagrams.length > 0 && (
+          <div style={{ marginTop: "2rem" }}>
+            <h3 style={{ fontSize: "1.125rem", fontWeight: "600", marginBottom: "1rem" }}>Load Diagrams</h3>
+            {response.packingSummary.loadDiagrams.map((diagram) => (
+              <div
+                key={diagram.containerId}
+                style={{ marginBottom: "1rem", padding: "0.5rem", overflowX: "auto", border: "1px solid #e5e7eb", borderRadius: "6px" }}
+                dangerouslySetInnerHTML={{ __html: LoadDiagramFormatter.toSvg(diagram) }}
+              />
+            ))}
+          </div>
+        )}
+
+        {/* Packing Materials */}
+        {response.packingSummary.materials.lines.length > 0 && (
+          <div style={{ marginTop: "2rem" }}>
+            <h3 style={{ fontSize: "1.125rem", fontWeight: "600", marginBottom: "1rem" }}>Packing Materials</h3>
+            <table style={{ width: "100%", borderCollapse: "collapse" }}>
+              <thead>
+                <tr style={{ borderBottom: "2px solid #e5e7eb" }}>
+                  <th style={{ textAlign: "left", padding: "0.75rem", fontSize: "0.875rem", fontWeight: "600", color: "#6b7280" }}>Material</th>
+                  <th style={{ textAlign: "right", padding: "0.75rem", fontSize: "0.875rem", fontWeight: "600", color: "#6b7280" }}>Quantity</th>
+                  <th style={{ textAlign: "right", padding: "0.75rem", fontSize: "0.875rem", fontWeight: "600", color: "#6b7280" }}>Unit Cost</th>
+                  <th style={{ textAlign: "right", padding: "0.75rem", fontSize: "0.875rem", fontWeight: "600", color: "#6b7280" }}>Weight</th>
+                  <th style={{ textAlign: "right", padding: "0.75rem", fontSize: "0.875rem", fontWeight: "600", color: "#6b7280" }}>Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {response.packingSummary.materials.lines.map((line) => (
+                  <tr key={line.materialId} style={{ borderBottom: "1px solid #f3f4f6" }}>
+                    <td style={{ padding: "0.75rem", fontWeight: "500" }}>{line.description}</td>
+                    <td style={{ padding: "0.75rem", textAlign: "right" }}>{line.quantity} {line.unit}</td>
+                    <td style={{ padding: "0.75rem", textAlign: "right" }}>${line.unitCost.toFixed(2)}</td>
+                    <td style={{ padding: "0.75rem", textAlign: "right" }}>{line.totalWeightLbs} lbs</td>
+                    <td style={{ padding: "0.75rem", textAlign: "right" }}>${line.totalCost.toFixed(2)}</td>
+                  </tr>
+                ))}
+                <tr>
+                  <td style={{ padding: "0.75rem", fontWeight: "600" }}>Total</td>
+                  <td colSpan={2}></td>
+                  <td style={{ padding: "0.75rem", textAlign: "right", fontWeight: "600" }}>{response.packingSummary.materials.totalWeightLbs} lbs</td>
+                  <td style={{ padding: "0.75rem", textAlign: "right", fontWeight: "600" }}>${response.packingSummary.materials.totalCost.toFixed(2)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        )}
+
         {/* Oversized Items Warning */}
         {response.businessIntelligence.oversizedItems.length > 0 && (
           <div style={{ marginTop: "2rem", padding: "1rem", background: "#fef3c7", borderRadius: "6px", border: "1px solid #fcd34d" }}>
@@ -330,6 +524,54 @@ export default function ReportViews({
             ))}
           </div>
         )}
+
+        {/* Client Rules Applied */}
+        <div style={{ marginTop: "2rem", padding: "1rem", background: "#f9fafb", borderRadius: "6px" }}>
+          <div style={{ fontWeight: "600", marginBottom: "0.5rem" }}>Client Rules Applied</div>
+          {response.businessIntelligence.clientRulesApplied.map((rule, idx) => (
+            <div key={idx} style={{ fontSize: "0.875rem", color: "#374151", marginBottom: "0.25rem" }}>
+              • {rule}
+            </div>
+          ))}
+        </div>
+
+        {/* Estimated Freight Cost */}
+        {response.costSummary && (
+          <div style={{ marginTop: "2rem" }}>
+            <h3 style={{ fontSize: "1.125rem", fontWeight: "600", marginBottom: "1rem" }}>
+              Estimated Freight Cost ({response.costSummary.originZone} to {response.costSummary.destinationZone ?? "unknown zone"})
+            </h3>
+            <table style={{ width: "100%", borderCollapse: "collapse" }}>
+              <thead>
+                <tr style={{ borderBottom: "2px solid #e5e7eb" }}>
+                  <th style={{ textAlign: "left", padding: "0.75rem", fontSize: "0.875rem", fontWeight: "600", color: "#6b7280" }}>Strategy</th>
+                  <th style={{ textAlign: "right", padding: "0.75rem", fontSize: "0.875rem", fontWeight: "600", color: "#6b7280" }}>Units</th>
+                  <th style={{ textAlign: "right", padding: "0.75rem", fontSize: "0.875rem", fontWeight: "600", color: "#6b7280" }}>Linehaul</th>
+                  <th style={{ textAlign: "right", padding: "0.75rem", fontSize: "0.875rem", fontWeight: "600", color: "#6b7280" }}>Fuel</th>
+                  <th style={{ textAlign: "right", padding: "0.75rem", fontSize: "0.875rem", fontWeight: "600", color: "#6b7280" }}>Accessorials</th>
+                  <th style={{ textAlign: "right", padding: "0.75rem", fontSize: "0.875rem", fontWeight: "600", color: "#6b7280" }}>Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {response.costSummary.estimates.map((estimate) => (
+                  <tr key={estimate.strategyId} style={{ borderBottom: "1px solid #f3f4f6", background: estimate.selected ? "#eff6ff" : undefined }}>
+                    <td style={{ padding: "0.75rem", fontWeight: "500" }}>{estimate.strategyName}{estimate.selected ? " (selected)" : ""}</td>
+                    <td style={{ padding: "0.75rem", textAlign: "right" }}>{estimate.handlingUnits}</td>
+                    <td style={{ padding: "0.75rem", textAlign: "right" }}>${estimate.linehaul.toFixed(2)}{estimate.minimumApplied ? " (min)" : ""}</td>
+                    <td style={{ padding: "0.75rem", textAlign: "right" }}>${estimate.fuelSurcharge.toFixed(2)}</td>
+                    <td style={{ padding: "0.75rem", textAlign: "right" }}>${estimate.accessorials.reduce((sum, fee) => sum + fee.amount, 0).toFixed(2)}</td>
+                    <td style={{ padding: "0.75rem", textAlign: "right", fontWeight: "600" }}>${estimate.total.toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {response.costSummary.notes.map((note, idx) => (
+              <div key={idx} style={{ fontSize: "0.875rem", color: "#6b7280", marginTop: "0.5rem" }}>
+                • {note}
+              </div>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,87 @@
+import React, { useState } from "react";
+import type { TagTrace } from "../../responses/PackagingResponse";
+
+interface TagLookupProps {
+  traces: TagTrace[];
+}
+
+const headerStyle: React.CSSProperties = {
+  textAlign: "left",
+  padding: "0.75rem",
+  fontSize: "0.875rem",
+  fontWeight: "600",
+  color: "#6b7280",
+};
+
+function describeLocation(trace: TagTrace): string[] {
+  const locations = trace.locations.map((location) => {
+    const box = location.boxNumber !== undefined ? `Box ${location.boxNumber}` : "Loose";
+    const container = location.containerId ? ` on ${location.containerId}` : "";
+    return `${box}${container}: ${location.pieces} piece(s)`;
+  });
+  if (trace.unpackedPieces > 0) {
+    locations.push(`Not packed: ${trace.unpackedPieces} piece(s) - ${trace.unpackedReason}`);
+  }
+  return locations;
+}
+
+/**
+ * Searchable table of where every CSV tag number ended up, for installers looking up a piece.
+ */
+export default function TagLookup({ traces }: TagLookupProps) {
+  const [query, setQuery] = useState("");
+  const normalized = query.trim().toLowerCase();
+  const matches = normalized ? traces.filter((trace) => trace.tag.toLowerCase().includes(normalized)) : traces;
+
+  return (
+    <div style={{ marginTop: "2rem" }}>
+      <h3 style={{ fontSize: "1.125rem", fontWeight: "600", marginBottom: "1rem" }}>Tag Lookup</h3>
+      <input
+        type="search"
+        value={query}
+        onChange={(event) => setQuery(event.target.value)}
+        placeholder="Search by tag #"
+        style={{
+          width: "100%",
+          maxWidth: "20rem",
+          marginBottom: "1rem",
+          padding: "0.5rem 0.75rem",
+          border: "2px solid #e5e7eb",
+          borderRadius: "6px",
+          fontSize: "0.875rem",
+        }}
+      />
+      <table style={{ width: "100%", borderCollapse: "collapse" }}>
+        <thead>
+          <tr style={{ borderBottom: "2px solid #e5e7eb" }}>
+            <th style={headerStyle}>Tag #</th>
+            <th style={headerStyle}>Product</th>
+            <th style={{ ...headerStyle, textAlign: "right" }}>Pieces</th>
+            <th style={headerStyle}>Box and Container</th>
+          </tr>
+        </thead>
+        <tbody>
+          {matches.map((trace) => (
+            <tr key={trace.tag} style={{ borderBottom: "1px solid #f3f4f6", verticalAlign: "top" }}>
+              <td style={{ padding: "0.75rem", fontWeight: "500" }}>{trace.tag}</td>
+              <td style={{ padding: "0.75rem" }}>{trace.productType}</td>
+              <td style={{ padding: "0.75rem", textAlign: "right" }}>{trace.pieces}</td>
+              <td style={{ padding: "0.75rem" }}>
+                {describeLocation(trace).map((line) => (
+                  <div key={line}>{line}</div>
+                ))}
+              </td>
+            </tr>
+          ))}
+          {matches.length === 0 && (
+            <tr>
+              <td colSpan={4} style={{ padding: "0.75rem", color: "#6b7280" }}>
+                No tag matches "{query}".
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -1,21 +1,30 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import type { PackagingResponse } from "../responses/PackagingResponse";
+import type { SavedJobSite } from "../storage/SiteDirectory";
+import { formatSiteClearances, parseSiteClearances } from "../parser/SiteClearancesParser";
 import StatusIndicator from "./components/StatusIndicator";
 import ErrorDisplay from "./components/ErrorDisplay";
 import ReportViews from "./components/ReportViews";
+import MediumAliasMapper from "./components/MediumAliasMapper";
+import ColumnMappingScreen from "./components/ColumnMappingScreen";
 
 interface FormData {
   clientName: string;
   jobSiteLocation: string;
   serviceType: string;
   packingAlgorithm: string;
+  shippingMode: string;
   acceptsPallets: boolean;
   acceptsCrates: boolean;
   hasLoadingDock: boolean;
   requiresLiftgate: boolean;
   needsInsideDelivery: boolean;
+  /** Door, hallway, elevator and stair limits, e.g. "door=36x80, elevator=48x60x84, elevator-limit=2500". */
+  siteClearances: string;
+  /** Saved column-mapping profile for vendor CSV layouts; empty for the standard headers. */
+  columnMapping: string;
 }
 
 const PACKING_ALGORITHMS = [
@@ -36,6 +45,12 @@ const PACKING_ALGORITHMS = [
     name: "Pack by Depth",
     description: "Considers actual physical depth when stacking items. Checks if items will physically fit based on their thickness.",
     bestFor: "When you need realistic physical packing that accounts for item thickness"
+  },
+  {
+    id: "by-thickness",
+    name: "Pack by Thickness",
+    description: "Fills each box by the real thickness of its pieces plus padding, instead of a fixed piece count per box.",
+    bestFor: "Orders of very thin or very thick pieces, where fixed piece counts under- or over-fill boxes"
   }
 ];
 
@@ -43,16 +58,21 @@ type ProcessingStatus = "idle" | "uploading" | "processing" | "complete" | "erro
 
 export default function GuiPage() {
   const [file, setFile] = useState<File | null>(null);
+  const [siteRequirementsFile, setSiteRequirementsFile] = useState<File | null>(null);
+  const [rateTablesFile, setRateTablesFile] = useState<File | null>(null);
   const [formData, setFormData] = useState<FormData>({
     clientName: "",
     jobSiteLocation: "",
     serviceType: "Delivery + Installation",
     packingAlgorithm: "first-fit",
+    shippingMode: "freight",
     acceptsPallets: true,
     acceptsCrates: false,
     hasLoadingDock: false,
     requiresLiftgate: false,
     needsInsideDelivery: false,
+    siteClearances: "",
+    columnMapping: "",
   });
   const [response, setResponse] = useState<PackagingResponse | null>(null);
   const [status, setStatus] = useState<ProcessingStatus>("idle");
@@ -60,6 +80,89 @@ export default function GuiPage() {
   const [validationErrors, setValidationErrors] = useState<string[]>([]);
   const [lastUploadedFile, setLastUploadedFile] = useState<File | null>(null);
   const [showSettingsEditor, setShowSettingsEditor] = useState(false);
+  const [savedSites, setSavedSites] = useState<SavedJobSite[]>([]);
+  const [selectedSiteId, setSelectedSiteId] = useState("");
+
+  const loadSavedSites = async () => {
+    try {
+      const res = await fetch("/api/sites");
+      if (res.ok) {
+        const data = await res.json();
+        setSavedSites(data.sites);
+      }
+    } catch {
+      // The directory is optional; the form still works without it
+    }
+  };
+
+  useEffect(() => {
+    loadSavedSites();
+  }, []);
+
+  const handleSavedSiteChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const siteId = e.target.value;
+    setSelectedSiteId(siteId);
+    const site = savedSites.find((candidate) => candidate.id === siteId);
+    if (!site) {
+      return;
+    }
+    setFormData((prev) => ({
+      ...prev,
+      jobSiteLocation: site.address,
+      serviceType: site.serviceType,
+      ...site.deliveryCapabilities,
+      siteClearances: site.clearances ? formatSiteClearances(site.clearances) : "",
+    }));
+    setValidationErrors([]);
+  };
+
+  const saveCurrentSite = async () => {
+    if (!formData.jobSiteLocation.trim()) {
+      setValidationErrors(["Enter a job site location before saving the site"]);
+      return;
+    }
+    let clearances;
+    try {
+      clearances = formData.siteClearances.trim() ? parseSiteClearances(formData.siteClearances) : undefined;
+    } catch (err) {
+      setValidationErrors([err instanceof Error ? err.message : "Invalid site clearances"]);
+      return;
+    }
+    const name = window.prompt("Name for this job site", formData.jobSiteLocation);
+    if (!name) {
+      return;
+    }
+
+    try {
+      const res = await fetch("/api/sites", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          address: formData.jobSiteLocation,
+          serviceType: formData.serviceType,
+          deliveryCapabilities: {
+            acceptsPallets: formData.acceptsPallets,
+            acceptsCrates: formData.acceptsCrates,
+            hasLoadingDock: formData.hasLoadingDock,
+            requiresLiftgate: formData.requiresLiftgate,
+            needsInsideDelivery: formData.needsInsideDelivery,
+          },
+          clearances,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to save job site");
+      }
+      await loadSavedSites();
+      setSelectedSiteId(data.site.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save job site");
+    }
+  };
+
+  const selectedSite = savedSites.find((site) => site.id === selectedSiteId);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
@@ -75,6 +178,28 @@ export default function GuiPage() {
     }
   };
 
+  const handleSiteRequirementsChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = e.target.files && e.target.files[0] ? e.target.files[0] : null;
+    setSiteRequirementsFile(selectedFile);
+    setError(null);
+    setValidationErrors([]);
+
+    if (selectedFile && !selectedFile.name.endsWith('.csv')) {
+      setValidationErrors(["Site requirements file must be a CSV file"]);
+    }
+  };
+
+  const handleRateTablesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = e.target.files && e.target.files[0] ? e.target.files[0] : null;
+    setRateTablesFile(selectedFile);
+    setError(null);
+    setValidationErrors([]);
+
+    if (selectedFile && !selectedFile.name.endsWith('.json')) {
+      setValidationErrors(["Rate tables file must be a JSON file"]);
+    }
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value, type } = e.target;
     setFormData((prev) => ({
@@ -90,10 +215,11 @@ export default function GuiPage() {
     if (!file) {
       errors.push("CSV file is required");
     }
-    if (!formData.clientName.trim()) {
+    // The site requirements sheet can supply client and location
+    if (!siteRequirementsFile && !formData.clientName.trim()) {
       errors.push("Client name is required");
     }
-    if (!formData.jobSiteLocation.trim()) {
+    if (!siteRequirementsFile && !formData.jobSiteLocation.trim()) {
       errors.push("Job site location is required");
     }
     
@@ -120,11 +246,20 @@ export default function GuiPage() {
       formDataToSend.append("jobSiteLocation", formData.jobSiteLocation);
       formDataToSend.append("serviceType", formData.serviceType);
       formDataToSend.append("packingAlgorithm", formData.packingAlgorithm);
+      formDataToSend.append("shippingMode", formData.shippingMode);
       formDataToSend.append("acceptsPallets", String(formData.acceptsPallets));
       formDataToSend.append("acceptsCrates", String(formData.acceptsCrates));
       formDataToSend.append("hasLoadingDock", String(formData.hasLoadingDock));
       formDataToSend.append("requiresLiftgate", String(formData.requiresLiftgate));
       formDataToSend.append("needsInsideDelivery", String(formData.needsInsideDelivery));
+      formDataToSend.append("siteClearances", formData.siteClearances);
+      formDataToSend.append("columnMapping", formData.columnMapping);
+      if (rateTablesFile) {
+        formDataToSend.append("rateTablesFile", rateTablesFile);
+      }
+      if (siteRequirementsFile) {
+        formDataToSend.append("siteRequirementsFile", siteRequirementsFile);
+      }
 
       setStatus("processing");
 
@@ -139,6 +274,17 @@ export default function GuiPage() {
       }
 
       const data = await res.json();
+      if (data.jobDetails) {
+        // Reflect what the site sheet resolved to so Edit Settings starts from the real values
+        setFormData((prev) => ({
+          ...prev,
+          clientName: data.jobDetails.clientName,
+          jobSiteLocation: data.jobDetails.jobSiteLocation,
+          serviceType: data.jobDetails.serviceType,
+          ...data.jobDetails.deliveryCapabilities,
+        }));
+        setSiteRequirementsFile(null);
+      }
       setResponse(data.response);
       setStatus("complete");
       setLastUploadedFile(file); // Save for re-processing
@@ -162,11 +308,17 @@ export default function GuiPage() {
       formDataToSend.append("jobSiteLocation", formData.jobSiteLocation);
       formDataToSend.append("serviceType", formData.serviceType);
       formDataToSend.append("packingAlgorithm", formData.packingAlgorithm);
+      formDataToSend.append("shippingMode", formData.shippingMode);
       formDataToSend.append("acceptsPallets", String(formData.acceptsPallets));
       formDataToSend.append("acceptsCrates", String(formData.acceptsCrates));
       formDataToSend.append("hasLoadingDock", String(formData.hasLoadingDock));
       formDataToSend.append("requiresLiftgate", String(formData.requiresLiftgate));
       formDataToSend.append("needsInsideDelivery", String(formData.needsInsideDelivery));
+      formDataToSend.append("siteClearances", formData.siteClearances);
+      formDataToSend.append("columnMapping", formData.columnMapping);
+      if (rateTablesFile) {
+        formDataToSend.append("rateTablesFile", rateTablesFile);
+      }
 
       const res = await fetch("/api/package", {
         method: "POST",
@@ -204,11 +356,17 @@ export default function GuiPage() {
       formDataToSend.append("jobSiteLocation", formData.jobSiteLocation);
       formDataToSend.append("serviceType", formData.serviceType);
       formDataToSend.append("packingAlgorithm", newAlgorithm);
+      formDataToSend.append("shippingMode", formData.shippingMode);
       formDataToSend.append("acceptsPallets", String(formData.acceptsPallets));
       formDataToSend.append("acceptsCrates", String(formData.acceptsCrates));
       formDataToSend.append("hasLoadingDock", String(formData.hasLoadingDock));
       formDataToSend.append("requiresLiftgate", String(formData.requiresLiftgate));
       formDataToSend.append("needsInsideDelivery", String(formData.needsInsideDelivery));
+      formDataToSend.append("siteClearances", formData.siteClearances);
+      formDataToSend.append("columnMapping", formData.columnMapping);
+      if (rateTablesFile) {
+        formDataToSend.append("rateTablesFile", rateTablesFile);
+      }
 
       const res = await fetch("/api/package", {
         method: "POST",
@@ -432,6 +590,7 @@ export default function GuiPage() {
 
   const resetForm = () => {
     setFile(null);
+    setSiteRequirementsFile(null);
     setResponse(null);
     setStatus("idle");
     setError(null);
@@ -574,6 +733,68 @@ export default function GuiPage() {
                       CSV format only
                     </p>
                   </div>
+                  <ColumnMappingScreen
+                    file={file}
+                    mappingId={formData.columnMapping}
+                    onMappingChange={(columnMapping) => setFormData((prev) => ({ ...prev, columnMapping }))}
+                  />
+                  <MediumAliasMapper file={file} mappingId={formData.columnMapping} />
+                </div>
+
+                {/* Saved Job Site Picker */}
+                <div style={{ gridColumn: "1 / -1" }}>
+                  <label style={{ 
+                    display: "block", 
+                    marginBottom: "0.5rem", 
+                    fontWeight: "500",
+                    fontSize: "0.875rem",
+                    color: "#334155"
+                  }}>
+                    Saved Job Site
+                  </label>
+                  <div style={{ display: "flex", gap: "0.75rem" }}>
+                    <select
+                      value={selectedSiteId}
+                      onChange={handleSavedSiteChange}
+                      style={{ 
+                        padding: "0.625rem 0.875rem", 
+                        flex: 1, 
+                        border: "1px solid #cbd5e1", 
+                        borderRadius: "6px",
+                        fontSize: "0.875rem",
+                        outline: "none",
+                        background: "white",
+                        cursor: "pointer"
+                      }}
+                    >
+                      <option value="">{savedSites.length > 0 ? "Choose a saved site..." : "No saved sites yet"}</option>
+                      {savedSites.map((site) => (
+                        <option key={site.id} value={site.id}>{site.name} - {site.address}</option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={saveCurrentSite}
+                      style={{
+                        padding: "0.625rem 1rem",
+                        background: "white",
+                        color: "#2563eb",
+                        border: "1px solid #2563eb",
+                        borderRadius: "6px",
+                        fontSize: "0.875rem",
+                        cursor: "pointer",
+                        fontWeight: "500"
+                      }}
+                    >
+                      Save as Site
+                    </button>
+                  </div>
+                  {selectedSite && (selectedSite.dockNotes || selectedSite.doorNotes) && (
+                    <p style={{ margin: "0.5rem 0 0 0", fontSize: "0.75rem", color: "#64748b" }}>
+                      {selectedSite.dockNotes && <>Dock: {selectedSite.dockNotes}<br /></>}
+                      {selectedSite.doorNotes && <>Door: {selectedSite.doorNotes}</>}
+                    </p>
+                  )}
                 </div>
 
                 {/* Client Name */}
@@ -669,6 +890,38 @@ export default function GuiPage() {
                   </select>
                 </div>
 
+                {/* Shipping Mode */}
+                <div>
+                  <label style={{ 
+                    display: "block", 
+                    marginBottom: "0.5rem", 
+                    fontWeight: "500",
+                    fontSize: "0.875rem",
+                    color: "#334155"
+                  }}>
+                    Shipping Mode
+                  </label>
+                  <select
+                    name="shippingMode"
+                    value={formData.shippingMode}
+                    onChange={handleInputChange}
+                    style={{ 
+                      padding: "0.625rem 0.875rem", 
+                      width: "100%", 
+                      border: "1px solid #cbd5e1", 
+                      borderRadius: "6px",
+                      fontSize: "0.875rem",
+                      transition: "border-color 0.15s ease",
+                      outline: "none",
+                      background: "white",
+                      cursor: "pointer"
+                    }}
+                  >
+                    <option value="freight">Freight (pallets / crates)</option>
+                    <option value="parcel">UPS Parcel (cartons, no glass)</option>
+                  </select>
+                </div>
+
                 {/* Packing Algorithm */}
                 <div style={{ gridColumn: "1 / -1" }}>
                   <label style={{ 
@@ -738,6 +991,54 @@ export default function GuiPage() {
                   </div>
                 </div>
 
+                {/* Site Requirements Sheet */}
+                <div style={{ gridColumn: "1 / -1" }}>
+                  <label style={{ 
+                    display: "block", 
+                    marginBottom: "0.5rem", 
+                    fontWeight: "500",
+                    fontSize: "0.875rem",
+                    color: "#334155"
+                  }}>
+                    Site Requirements File (optional)
+                  </label>
+                  <input
+                    type="file"
+                    accept=".csv"
+                    onChange={handleSiteRequirementsChange}
+                    style={{ fontSize: "0.875rem" }}
+                  />
+                  <p style={{ margin: "0.25rem 0 0 0", fontSize: "0.75rem", color: "#64748b" }}>
+                    {siteRequirementsFile
+                      ? `Using ${siteRequirementsFile.name} - delivery capabilities below are ignored; N/A cells use the defaults`
+                      : "Site_requirements.csv layout: Location, Client, Accepts pallets, Accepts crates, LD Access, LG required, Inside Delivery, Service type"}
+                  </p>
+                </div>
+
+                {/* Rate Tables for this job */}
+                <div style={{ gridColumn: "1 / -1" }}>
+                  <label style={{ 
+                    display: "block", 
+                    marginBottom: "0.5rem", 
+                    fontWeight: "500",
+                    fontSize: "0.875rem",
+                    color: "#334155"
+                  }}>
+                    Rate Tables File (optional)
+                  </label>
+                  <input
+                    type="file"
+                    accept=".json"
+                    onChange={handleRateTablesChange}
+                    style={{ fontSize: "0.875rem" }}
+                  />
+                  <p style={{ margin: "0.25rem 0 0 0", fontSize: "0.75rem", color: "#64748b" }}>
+                    {rateTablesFile
+                      ? `Pricing this job with ${rateTablesFile.name}`
+                      : "Uses the saved LTL rate tables when no file is chosen"}
+                  </p>
+                </div>
+
                 {/* Delivery Capabilities */}
                 <div style={{ gridColumn: "1 / -1" }}>
                   <fieldset style={{ 
@@ -849,6 +1150,22 @@ export default function GuiPage() {
                         />
                         <span style={{ fontWeight: "500", color: "#374151" }}>Needs Inside Delivery</span>
                       </label>
+                      {formData.needsInsideDelivery && (
+                        <input
+                          type="text"
+                          name="siteClearances"
+                          value={formData.siteClearances}
+                          onChange={handleInputChange}
+                          placeholder="Clearances, e.g. door=36x80, hallway=44, elevator=48x60x84, elevator-limit=2500, stairs=no"
+                          style={{
+                            padding: "0.5rem 0.75rem",
+                            border: "1px solid #cbd5e1",
+                            borderRadius: "6px",
+                            fontSize: "0.8125rem",
+                            background: "white"
+                          }}
+                        />
+                      )}
                     </div>
                   </fieldset>
                 </div>
@@ -1042,6 +1359,22 @@ export default function GuiPage() {
                       </select>
                     </div>
 
+                    {/* Shipping Mode */}
+                    <div>
+                      <label style={{ display: "block", marginBottom: "0.5rem", fontWeight: "500", fontSize: "0.875rem" }}>
+                        Shipping Mode
+                      </label>
+                      <select
+                        name="shippingMode"
+                        value={formData.shippingMode}
+                        onChange={handleInputChange}
+                        style={{ padding: "0.625rem", width: "100%", border: "1px solid #cbd5e1", borderRadius: "6px" }}
+                      >
+                        <option value="freight">Freight (pallets / crates)</option>
+                        <option value="parcel">UPS Parcel (cartons, no glass)</option>
+                      </select>
+                    </div>
+
                     {/* Delivery Capabilities */}
                     <div>
                       <div style={{ fontWeight: "500", marginBottom: "0.75rem", fontSize: "0.875rem" }}>
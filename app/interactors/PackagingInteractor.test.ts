@@ -1,8 +1,17 @@
-import { describe, it, expect, beforeEach } from 'vitest'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import bundledCatalogFile from '../catalog/packaging-spec-catalog.json'
+import { resetPackagingSpecCatalogCache, type PackagingSpecCatalog } from '../catalog/PackagingSpecCatalog'
 import { PackagingInteractor } from './PackagingInteractor'
 import { Art, ArtType, ArtMaterial } from '../entities/Art'
 import { Box, BoxType } from '../entities/Box'
+import { CrateType } from '../entities/Crate'
 import { PackagingRequest, DeliveryCapabilities } from '../requests/PackagingRequest'
+import { ClientRuleProfile } from '../rules/ClientRuleProfile'
+import { WeightCalculator } from '../calculations/WeightCalculator'
+import { LtlRateTables } from '../rates/LtlRateTables'
 
 describe('PackagingInteractor', () => {
   let interactor: PackagingInteractor
@@ -297,6 +306,119 @@ describe('PackagingInteractor', () => {
     })
   })
 
+  describe('packContainers - Liftgate Limits', () => {
+    const prints = new Art({
+      id: '1',
+      productType: ArtType.PaperPrint,
+      material: ArtMaterial.Glass,
+      dimensions: { length: 24, width: 30, height: 2 },
+      quantity: 24
+    })
+
+    const withCatalog = async <T>(changes: Partial<PackagingSpecCatalog>, run: () => T): Promise<T> => {
+      const tempDir = await mkdtemp(join(tmpdir(), 'liftgate-'))
+      try {
+        const bundled = bundledCatalogFile.catalogs[0] as PackagingSpecCatalog
+        const filePath = join(tempDir, 'catalog.json')
+        await writeFile(filePath, JSON.stringify({ catalogs: [{ ...structuredClone(bundled), version: 'liftgate', ...changes }] }))
+        process.env.PACKAGING_SPEC_CATALOG_PATH = filePath
+        resetPackagingSpecCatalogCache()
+        return run()
+      } finally {
+        delete process.env.PACKAGING_SPEC_CATALOG_PATH
+        resetPackagingSpecCatalogCache()
+        await rm(tempDir, { recursive: true, force: true })
+      }
+    }
+
+    const capabilities = (overrides: Partial<DeliveryCapabilities>): DeliveryCapabilities => ({
+      acceptsPallets: true,
+      acceptsCrates: false,
+      hasLoadingDock: true,
+      requiresLiftgate: false,
+      needsInsideDelivery: false,
+      ...overrides
+    })
+
+    it('should spill boxes onto another pallet when the liftgate weight limit is hit', async () => {
+      // Four 66 lb boxes on a 60 lb pallet weigh 324 lbs; a 200 lb liftgate takes two boxes per pallet
+      const result = await withCatalog({ liftgate: { maxLoadLbs: 200, maxLoadHeightInches: 72 } }, () =>
+        interactor.packContainers(interactor.packBoxes([prints]).boxes, capabilities({ requiresLiftgate: true }))
+      )
+
+      expect(result.containers.map(container => [container.getContents().length, container.getTotalWeight()])).toEqual([
+        [2, 192],
+        [2, 192]
+      ])
+      expect(result.unassignedBoxes).toEqual([])
+      expect(result.liftgateSpill).toEqual({
+        capability: 'the site requires a liftgate',
+        movedBoxes: 2,
+        extraPallets: 1,
+        limits: { maxWeightLbs: 200, maxHeightInches: 72 }
+      })
+    })
+
+    it('should keep stacked pallets under the liftgate height when a site without a dock requires a liftgate', async () => {
+      const morePrints = new Art({
+        id: '2',
+        productType: ArtType.PaperPrint,
+        material: ArtMaterial.Glass,
+        dimensions: { length: 24, width: 30, height: 2 },
+        quantity: 24
+      })
+      const boxes = interactor.packBoxes([prints, morePrints]).boxes
+      const stacked = bundledCatalogFile.catalogs[0] as PackagingSpecCatalog
+
+      const [withDock, withoutDock] = await withCatalog({ palletLayout: { ...stacked.palletLayout, maxLayers: 2 } }, () => [
+        interactor.packContainers(boxes, capabilities({})),
+        interactor.packContainers(boxes, capabilities({ hasLoadingDock: false, requiresLiftgate: true }))
+      ])
+
+      // Two layers of 36" boxes stand 77.5" on the deck, over the 72" liftgate limit
+      expect(withDock.containers.map(container => container.getContents().length)).toEqual([8])
+      expect(withDock.liftgateSpill).toBeUndefined()
+      expect(withoutDock.containers.map(container => container.getContents().length)).toEqual([4, 4])
+      expect(withoutDock.liftgateSpill).toMatchObject({ capability: 'the site requires a liftgate', extraPallets: 1 })
+    })
+
+    it('should leave pallets alone at a site without a dock that does not require a liftgate', async () => {
+      const [withDock, withoutDock] = await withCatalog({ liftgate: { maxLoadLbs: 200, maxLoadHeightInches: 72 } }, () => {
+        const request = {
+          artItems: [prints],
+          clientName: 'Test Client',
+          jobSiteLocation: 'Test Location',
+          serviceType: 'Delivery'
+        }
+        return [
+          interactor.packageEverything({ ...request, deliveryCapabilities: capabilities({}) }),
+          interactor.packageEverything({ ...request, deliveryCapabilities: capabilities({ hasLoadingDock: false }) })
+        ]
+      })
+
+      expect(withoutDock.packingSummary.packedContainerDimensions).toEqual(withDock.packingSummary.packedContainerDimensions)
+      expect(withoutDock.packingSummary.packedContainerDimensions).toHaveLength(1)
+      expect(withoutDock.metadata.warnings.some(warning => warning.includes('liftgate'))).toBe(false)
+    })
+
+    it('should explain the extra pallets in the response warnings', async () => {
+      const response = await withCatalog({ liftgate: { maxLoadLbs: 200, maxLoadHeightInches: 72 } }, () =>
+        interactor.packageEverything({
+          artItems: [prints],
+          clientName: 'Test Client',
+          jobSiteLocation: 'Test Location',
+          serviceType: 'Delivery',
+          deliveryCapabilities: capabilities({ hasLoadingDock: false, requiresLiftgate: true })
+        })
+      )
+
+      expect(response.metadata.warnings).toContain(
+        '2 box(es) moved to keep each pallet under the 200 lb, 72" liftgate limits because the site requires a liftgate; ' +
+          'that took 1 extra pallet(s).'
+      )
+    })
+  })
+
   describe('packageEverything - Integration Tests', () => {
     it('should calculate correct weight summary for Input1 scenario', () => {
       const request: PackagingRequest = {
@@ -457,6 +579,591 @@ describe('PackagingInteractor', () => {
       expect(response.metadata.timestamp).toBeDefined()
       expect(response.metadata.algorithmUsed).toBe('Pack by Medium (No Mixed Mediums)')
     })
+
+    it('should warn about frame mouldings missing from the catalog', () => {
+      const framedPrint = (id: string, frameMouldingLabel?: string) => new Art({
+        id,
+        productType: ArtType.PaperPrint,
+        material: ArtMaterial.Glass,
+        dimensions: { length: 24, width: 30, height: 2 },
+        quantity: 1,
+        frameMouldingLabel
+      })
+      const request: PackagingRequest = {
+        artItems: [framedPrint('1', '26930-BX'), framedPrint('2'), framedPrint('3', '26930-BX'), framedPrint('4', '80785-BX')],
+        clientName: 'Test Client',
+        jobSiteLocation: 'Test Location',
+        serviceType: 'Delivery',
+        deliveryCapabilities: {
+          acceptsPallets: true,
+          acceptsCrates: false,
+          hasLoadingDock: true,
+          requiresLiftgate: false,
+          needsInsideDelivery: false
+        }
+      }
+
+      const response = interactor.packageEverything(request)
+
+      expect(response.metadata.warnings).toContain(
+        'Unknown frame moulding(s) 26930-BX (tags 1, 3), 80785-BX (tag 4); frame weight and depth are estimated without them.'
+      )
+    })
+  })
+
+  describe('packageEverything - Client Rules', () => {
+    const palletSite: DeliveryCapabilities = {
+      acceptsPallets: true,
+      acceptsCrates: false,
+      hasLoadingDock: true,
+      requiresLiftgate: false,
+      needsInsideDelivery: false
+    }
+
+    const prints = (quantity: number) => new Art({
+      id: 'PRINT-1',
+      productType: ArtType.PaperPrint,
+      material: ArtMaterial.Acrylic,
+      dimensions: { length: 24, width: 30, height: 2 },
+      quantity
+    })
+
+    const buildRequest = (artItems: Art[], clientRules?: ClientRuleProfile): PackagingRequest => ({
+      artItems,
+      clientName: 'Acme Health',
+      jobSiteLocation: 'Test Location',
+      serviceType: 'Delivery',
+      deliveryCapabilities: palletSite,
+      clientRules
+    })
+
+    it('should report standard packing when the client has no profile', () => {
+      const response = interactor.packageEverything(buildRequest([prints(6)]))
+
+      expect(response.businessIntelligence.clientRulesApplied).toEqual(['Standard packing (no client restrictions)'])
+    })
+
+    it('should use the strategy forced by the client profile', () => {
+      const response = interactor.packageEverything(
+        buildRequest([prints(6)], { clientName: 'Acme Health', forcedStrategy: 'balanced' })
+      )
+
+      expect(response.metadata.algorithmUsed).toBe('Pack by Strictest Constraint')
+      expect(response.businessIntelligence.clientRulesApplied).toEqual([
+        'Packing strategy set by client profile: Pack by Strictest Constraint'
+      ])
+    })
+
+    it('should apply per-product box capacity overrides', () => {
+      const response = interactor.packageEverything(
+        buildRequest([prints(6)], {
+          clientName: 'Acme Health',
+          maxPiecesPerProductOverride: { [ArtType.PaperPrint]: 2, [ArtType.Mirror]: 1 }
+        })
+      )
+
+      const boxCount = response.packingSummary.boxRequirements.reduce((sum, req) => sum + req.count, 0)
+      expect(boxCount).toBe(3)
+      // Mirror override had nothing to act on, so it is not listed
+      expect(response.businessIntelligence.clientRulesApplied).toEqual(['Box capacity for PAPER_PRINT: 2 per box'])
+    })
+
+    it('should hold back disallowed product types', () => {
+      const decor = new Art({
+        id: 'DECOR-1',
+        productType: ArtType.WallDecor,
+        material: ArtMaterial.NoGlazing,
+        dimensions: { length: 24, width: 30, height: 2 },
+        quantity: 2
+      })
+
+      const response = interactor.packageEverything(
+        buildRequest([prints(2), decor], { clientName: 'Acme Health', disallowedProductTypes: [ArtType.WallDecor] })
+      )
+
+      const packedIds = response.packingSummary.boxContents.flatMap(box => box.contents.flatMap(c => c.itemIds))
+      expect(packedIds).not.toContain('DECOR-1')
+      expect(response.metadata.errors).toContain('1 item(s) require custom handling or crates.')
+      expect(response.businessIntelligence.clientRulesApplied).toEqual([
+        'WALL_DECOR not accepted by client: 2 piece(s) held for review'
+      ])
+    })
+
+    it('should crate crate-only mediums and warn when the site does not take crates', () => {
+      const mirrors = new Art({
+        id: 'MIRROR-1',
+        productType: ArtType.Mirror,
+        material: ArtMaterial.Mirror,
+        dimensions: { length: 24, width: 30, height: 2 },
+        quantity: 3
+      })
+
+      const response = interactor.packageEverything(
+        buildRequest([prints(4), mirrors], { clientName: 'Acme Health', crateOnlyProductTypes: [ArtType.Mirror] })
+      )
+
+      expect(response.weightSummary.packagingWeightLbs.crates.count).toBe(1)
+      expect(response.weightSummary.packagingWeightLbs.pallets.count).toBe(1)
+      expect(response.metadata.warnings).toContain(
+        'Acme Health requires crates for some mediums, but the job site does not accept crates.'
+      )
+      expect(response.businessIntelligence.clientRulesApplied).toEqual(['MIRROR ships crate-only: 3 piece(s) crated'])
+    })
+
+    it('should put every box on the required pallet type', () => {
+      const response = interactor.packageEverything(
+        buildRequest([prints(24)], { clientName: 'Acme Health', requiredPalletType: CrateType.OversizePallet })
+      )
+
+      expect(response.packingSummary.containerRequirements).toEqual([
+        { label: 'Oversize pallet', dimensions: '60"x40"', count: 1 }
+      ])
+      expect(response.businessIntelligence.clientRulesApplied).toEqual(['Required pallet type: Oversize pallet'])
+    })
+  })
+
+  describe('packageEverything - Parcel Shipping', () => {
+    const site: DeliveryCapabilities = {
+      acceptsPallets: true,
+      acceptsCrates: true,
+      hasLoadingDock: true,
+      requiresLiftgate: false,
+      needsInsideDelivery: false
+    }
+
+    const acrylic = (id: string, length: number, width: number, quantity = 1) => new Art({
+      id,
+      productType: ArtType.PaperPrint,
+      material: ArtMaterial.Acrylic,
+      dimensions: { length, width, height: 2 },
+      quantity
+    })
+
+    const buildRequest = (artItems: Art[], clientRules?: ClientRuleProfile): PackagingRequest => ({
+      artItems,
+      clientName: 'Acme Health',
+      jobSiteLocation: 'Test Location',
+      serviceType: 'Delivery',
+      deliveryCapabilities: site,
+      clientRules,
+      shippingMode: 'parcel'
+    })
+
+    it('should pack into UPS cartons without pallets or crates', () => {
+      const prints = acrylic('PRINT-1', 24, 30, 4)
+      const response = interactor.packageEverything(buildRequest([prints]))
+
+      expect(response.metadata.algorithmUsed).toBe('UPS Parcel (No Glass, No Pallets)')
+      expect(response.packingSummary.containerRequirements).toEqual([])
+      expect(response.weightSummary.packagingWeightLbs.total).toBe(0)
+      expect(response.packingSummary.parcelCartons).toEqual([
+        {
+          cartonNumber: 1,
+          cartonType: 'UPS small carton',
+          dimensions: '36"x36"x6"',
+          weightLbs: Math.ceil(8 + WeightCalculator.calculateWeight(prints)),
+          dimensionalWeightLbs: 56,
+          billableWeightLbs: 56,
+          pieces: 4
+        }
+      ])
+      expect(response.freightExport.shipmentDetails).toContain('Pieces: 1 UPS cartons')
+    })
+
+    it('should use the large carton only for pieces that need it', () => {
+      const response = interactor.packageEverything(
+        buildRequest([acrylic('SMALL-1', 20, 16), acrylic('WIDE-1', 42, 30)])
+      )
+
+      const cartonTypes = response.packingSummary.parcelCartons!.map(carton => carton.cartonType)
+      expect(cartonTypes.sort()).toEqual(['UPS large carton', 'UPS small carton'])
+    })
+
+    it('should keep glass and oversize pieces out of cartons and flag them for freight', () => {
+      const framed = new Art({
+        id: 'FRAMED-1',
+        productType: ArtType.PaperPrint,
+        material: ArtMaterial.Glass,
+        dimensions: { length: 24, width: 30, height: 2 },
+        quantity: 1
+      })
+
+      const response = interactor.packageEverything(
+        buildRequest([acrylic('PRINT-1', 24, 30), framed, acrylic('BIG-1', 50, 40)])
+      )
+
+      const packedIds = response.packingSummary.boxContents.flatMap(box => box.contents.flatMap(c => c.itemIds))
+      expect(packedIds).toEqual(['PRINT-1'])
+      expect(response.metadata.warnings).toContain('2 item(s) cannot ship UPS parcel and need a freight shipment.')
+    })
+
+    it('should not report a forced client strategy that parcel mode replaced', () => {
+      const response = interactor.packageEverything(
+        buildRequest([acrylic('PRINT-1', 24, 30)], { clientName: 'Acme Health', forcedStrategy: 'balanced' })
+      )
+
+      expect(response.businessIntelligence.clientRulesApplied).toEqual(['Standard packing (no client restrictions)'])
+    })
+
+    it('should leave parcel cartons out of freight responses', () => {
+      const response = interactor.packageEverything({ ...buildRequest([acrylic('PRINT-1', 24, 30)]), shippingMode: 'freight' })
+
+      expect(response.packingSummary.parcelCartons).toBeUndefined()
+    })
+  })
+
+  describe('packageEverything - Custom Packaging', () => {
+    const site: DeliveryCapabilities = {
+      acceptsPallets: true,
+      acceptsCrates: false,
+      hasLoadingDock: true,
+      requiresLiftgate: false,
+      needsInsideDelivery: false
+    }
+
+    const buildRequest = (artItems: Art[]): PackagingRequest => ({
+      artItems,
+      clientName: 'Acme Health',
+      jobSiteLocation: 'Test Location',
+      serviceType: 'Delivery',
+      deliveryCapabilities: site
+    })
+
+    const glassMural = new Art({
+      id: 'MURAL-1',
+      productType: ArtType.PaperPrint,
+      material: ArtMaterial.Glass,
+      dimensions: { length: 50, width: 60, height: 2 },
+      quantity: 2
+    })
+
+    const canvasBanner = new Art({
+      id: 'BANNER-1',
+      productType: ArtType.CanvasFloatFrame,
+      material: ArtMaterial.CanvasGallery,
+      dimensions: { length: 30, width: 96, height: 2 },
+      quantity: 2
+    })
+
+    it('should crate glass and flat-pack the rest instead of leaving them unassigned', () => {
+      const response = interactor.packageEverything(buildRequest([glassMural, canvasBanner]))
+      const plans = response.packingSummary.customPackaging!
+
+      expect(plans.map(plan => [plan.artId, plan.method, plan.pieces])).toEqual(expect.arrayContaining([
+        ['MURAL-1', 'crate', 2],
+        ['BANNER-1', 'flat-pack', 1],
+        ['BANNER-1', 'flat-pack', 1]
+      ]))
+      expect(plans.find(plan => plan.method === 'crate')!.reason).toBe('GLASS needs a crate')
+      expect(response.metadata.errors).toEqual([])
+      expect(response.packingSummary.containerRequirements.map(req => [req.label, req.count])).toEqual(expect.arrayContaining([
+        ['Standard crate', 1],
+        ['Flat-pack', 2]
+      ]))
+      // Each plan points at its handling unit
+      const unitIds = response.packingSummary.packedContainerDimensions.map(unit => unit.containerId)
+      expect(plans.map(plan => plan.containerId)).toEqual(unitIds)
+      expect(response.metadata.warnings).toContain('1 custom piece(s) need a crate, but the job site does not accept crates.')
+    })
+
+    it('should add custom pieces and their packaging to the shipment weight and freight export', () => {
+      const response = interactor.packageEverything(buildRequest([glassMural, canvasBanner]))
+      const { weightSummary } = response
+      const crate = response.packingSummary.customPackaging!.find(plan => plan.method === 'crate')!
+      const flatPacks = response.packingSummary.customPackaging!.filter(plan => plan.method === 'flat-pack')
+
+      const customWeight = WeightCalculator.calculateWeight(glassMural) + WeightCalculator.calculateWeight(canvasBanner)
+      expect(weightSummary.totalArtworkWeightLbs).toBe(0)
+      expect(weightSummary.customPieceWeightLbs).toBe(customWeight)
+      expect(weightSummary.packagingWeightLbs.crates.totalWeight).toBe(crate.tareWeightLbs)
+      expect(weightSummary.packagingWeightLbs.flatPacks).toEqual({
+        count: 2,
+        totalWeight: flatPacks[0].tareWeightLbs + flatPacks[1].tareWeightLbs
+      })
+      expect(weightSummary.finalShipmentWeightLbs).toBe(weightSummary.packagingWeightLbs.total + customWeight)
+      expect(flatPacks[0].dimensions).toBe('99"x33"x5"')
+      expect(crate.weightLbs).toBe(Math.ceil(crate.tareWeightLbs + crate.artWeightLbs))
+
+      const dimensionsLine = response.freightExport.shipmentDetails.find(line => line.startsWith('Dimensions:'))!
+      expect(dimensionsLine).toContain(crate.dimensions)
+      expect(dimensionsLine.split(' @ ')).toHaveLength(4)
+    })
+
+    it('should count a custom piece by its handling unit in the freight export', () => {
+      const print = new Art({
+        id: 'PRINT-1',
+        productType: ArtType.PaperPrint,
+        material: ArtMaterial.Glass,
+        dimensions: { length: 30, width: 24, height: 2 },
+        quantity: 1
+      })
+      const banner = new Art({
+        id: 'BANNER-2',
+        productType: ArtType.CanvasFloatFrame,
+        material: ArtMaterial.CanvasGallery,
+        dimensions: { length: 30, width: 96, height: 2 },
+        quantity: 1
+      })
+
+      const response = interactor.packageEverything(buildRequest([print, banner]))
+
+      expect(response.packingSummary.customPackaging!.map(plan => plan.method)).toEqual(['flat-pack'])
+      expect(response.freightExport.shipmentDetails).toContain('Pieces: 1 pallet, 1 flat-pack')
+    })
+
+    it('should draw crated and flat-packed pieces on their load diagrams', () => {
+      const response = interactor.packageEverything(buildRequest([glassMural, canvasBanner]))
+      const crate = response.packingSummary.customPackaging!.find(plan => plan.method === 'crate')!
+      const diagram = response.packingSummary.loadDiagrams!.find(entry => entry.containerId === crate.containerId)!
+
+      expect(diagram.baseHeightInches).toBe(0)
+      // Two 2" pieces stand side by side inside 2" of foam
+      expect(diagram.items).toEqual([
+        expect.objectContaining({ label: 'MURAL-1', layer: 1, x: 2, y: 2, z: 2, length: 60, width: 4, height: 50 })
+      ])
+      expect(diagram.layers).toEqual([{ layer: 1, labels: ['MURAL-1'], weightLbs: Math.ceil(crate.artWeightLbs) }])
+    })
+
+    it('should keep every work-order field on crated and flat-packed copies', () => {
+      const workOrderFields = {
+        productType: ArtType.PaperPrint,
+        dimensions: { length: 40, width: 30, height: 2.25 },
+        quantity: 2,
+        finalMediumLabel: 'Paper Print - Framed',
+        glazingLabel: 'Regular Glass',
+        hardwareLabel: '4 pt Sec',
+        hardwarePiecesPerItem: 4,
+        sourceDimensions: { width: '30"', height: '40"' },
+        measuredWeightLbs: 21,
+        frameMouldingLabel: 'HW-300-WAL',
+        frameMoulding: { code: 'HW-300-WAL', weightLbPerLinearInch: 0.035, profileDepthInches: 2.25 }
+      }
+      const expectCopied = (copy: Art) => {
+        expect(copy.getFinalMediumLabel()).toBe('Paper Print - Framed')
+        expect(copy.getGlazingLabel()).toBe('Regular Glass')
+        expect(copy.getHardwarePiecesPerItem()).toBe(4)
+        expect(copy.getSourceDimensions()).toEqual({ width: '30"', height: '40"' })
+        expect(copy.getMeasuredWeightLbs()).toBe(21)
+        expect(copy.getFrameMouldingLabel()).toBe('HW-300-WAL')
+        expect(copy.getFrameMoulding()).toEqual(workOrderFields.frameMoulding)
+      }
+
+      const glass = new Art({ id: 'CRATED-1', material: ArtMaterial.Glass, ...workOrderFields })
+      const { crates } = (interactor as any).packArtIntoCrates([glass])
+      const crated: Art[] = crates.flatMap((crate: any) => crate.getLooseArt())
+      expect(crated.length).toBeGreaterThan(0)
+      crated.forEach(expectCopied)
+
+      const acrylic = new Art({ id: 'FLAT-1', material: ArtMaterial.Acrylic, ...workOrderFields })
+      const planned = (interactor as any).planCustomPackaging([acrylic])
+      expect(planned.map((plan: any) => plan.method)).toEqual(['flat-pack', 'flat-pack'])
+      planned.forEach((plan: any) => plan.unit.getLooseArt().forEach(expectCopied))
+    })
+  })
+
+  describe('packageEverything - Tag Trace', () => {
+    const buildRequest = (artItems: Art[], deliveryCapabilities: Partial<DeliveryCapabilities> = {}): PackagingRequest => ({
+      artItems,
+      clientName: 'Acme Health',
+      jobSiteLocation: 'Test Location',
+      serviceType: 'Delivery',
+      deliveryCapabilities: {
+        acceptsPallets: true,
+        acceptsCrates: false,
+        hasLoadingDock: true,
+        requiresLiftgate: false,
+        needsInsideDelivery: false,
+        ...deliveryCapabilities
+      },
+      clientRules: { clientName: 'Acme Health', disallowedProductTypes: [ArtType.WallDecor] }
+    })
+
+    const prints = new Art({
+      id: '7',
+      productType: ArtType.PaperPrint,
+      material: ArtMaterial.Acrylic,
+      dimensions: { length: 24, width: 30, height: 2 },
+      quantity: 14
+    })
+
+    const banner = new Art({
+      id: '8',
+      productType: ArtType.CanvasFloatFrame,
+      material: ArtMaterial.CanvasGallery,
+      dimensions: { length: 30, width: 96, height: 2 },
+      quantity: 2
+    })
+
+    const decor = new Art({
+      id: '9',
+      productType: ArtType.WallDecor,
+      material: ArtMaterial.NoGlazing,
+      dimensions: { length: 24, width: 30, height: 2 },
+      quantity: 1
+    })
+
+    it('should trace split tags to every box and flat-packed tags to their packs', () => {
+      const response = interactor.packageEverything(buildRequest([prints, banner, decor]))
+      const [printTrace, bannerTrace, decorTrace] = response.packingSummary.tagTrace!
+
+      expect(printTrace).toMatchObject({ tag: '7', pieces: 14, unpackedPieces: 0 })
+      expect(printTrace.locations.length).toBeGreaterThan(1)
+      expect(printTrace.locations.reduce((sum, location) => sum + location.pieces, 0)).toBe(14)
+      for (const location of printTrace.locations) {
+        expect(location.containerId).toBe('Standard pallet 1')
+        expect(response.packingSummary.boxContents[location.boxNumber! - 1].contents[0].quantity).toBeGreaterThan(0)
+      }
+
+      expect(bannerTrace.locations).toEqual([
+        { containerId: 'Flat-pack 2', pieces: 1 },
+        { containerId: 'Flat-pack 3', pieces: 1 }
+      ])
+      expect(decorTrace).toMatchObject({
+        tag: '9',
+        locations: [],
+        unpackedPieces: 1,
+        unpackedReason: 'WALL_DECOR is not accepted by Acme Health'
+      })
+    })
+
+    it('should trace crate copies back to their tag', () => {
+      const response = interactor.packageEverything(buildRequest([prints], { acceptsCrates: true }))
+      const [printTrace] = response.packingSummary.tagTrace!
+
+      expect(printTrace.locations.every(location => location.boxNumber === undefined)).toBe(true)
+      expect(printTrace.locations.map(location => location.containerId)).toEqual(
+        response.packingSummary.packedContainerDimensions.map(unit => unit.containerId)
+      )
+      expect(printTrace.locations.reduce((sum, location) => sum + location.pieces, 0)).toBe(14)
+    })
+  })
+
+  describe('packageEverything - Site Clearances', () => {
+    const prints = new Art({
+      id: '7',
+      productType: ArtType.PaperPrint,
+      material: ArtMaterial.Acrylic,
+      dimensions: { length: 24, width: 30, height: 2 },
+      quantity: 14
+    })
+
+    const buildRequest = (needsInsideDelivery: boolean): PackagingRequest => ({
+      artItems: [prints],
+      clientName: 'Test Client',
+      jobSiteLocation: 'Test Location',
+      serviceType: 'Delivery',
+      deliveryCapabilities: {
+        acceptsPallets: true,
+        acceptsCrates: false,
+        hasLoadingDock: true,
+        requiresLiftgate: false,
+        needsInsideDelivery
+      },
+      siteClearances: { doorWidthInches: 30, doorHeightInches: 80, hasStairs: true }
+    })
+
+    it('should report pallets that will not get through the door with a suggestion', () => {
+      const response = interactor.packageEverything(buildRequest(true))
+      const palletErrors = response.metadata.errors.filter(error => error.startsWith('Standard pallet 1'))
+
+      expect(palletErrors).toHaveLength(1)
+      expect(palletErrors[0]).toContain('does not fit through the 30"x80" door and cannot be rolled up the stairs.')
+      expect(palletErrors[0]).toMatch(/Break the pallet down at the door and carry its boxes in\.$/)
+      // Boxes tilt through the door and are carried up the stairs
+      expect(response.metadata.errors.some(error => error.startsWith('Box '))).toBe(false)
+    })
+
+    it('should skip the checks when the delivery stops at the door', () => {
+      const response = interactor.packageEverything(buildRequest(false))
+
+      expect(response.metadata.errors).toEqual([])
+    })
+  })
+
+  describe('packageEverything - Freight Cost', () => {
+    const classes = [50, 55, 60, 65, 70, 77.5, 85, 92.5, 100, 110, 125, 150, 175, 200, 250, 300, 400, 500]
+    const rateTables: LtlRateTables = {
+      originZone: 'STL',
+      zones: [{ zone: 'MID-ATLANTIC', match: ['MD'] }],
+      lanes: [{
+        originZone: 'STL',
+        destinationZone: 'MID-ATLANTIC',
+        minimumCharge: 150,
+        fuelSurchargePercent: 20,
+        classRates: classes.map(freightClass => ({
+          freightClass,
+          weightBreaks: [{ minWeightLbs: 0, ratePerCwt: freightClass }]
+        }))
+      }],
+      accessorials: { liftgate: 80, insideDelivery: 100 }
+    }
+
+    const buildRequest = (overrides: Partial<PackagingRequest> = {}): PackagingRequest => ({
+      artItems: [
+        new Art({
+          id: 'PRINT-1',
+          productType: ArtType.PaperPrint,
+          material: ArtMaterial.Glass,
+          dimensions: { length: 24, width: 30, height: 2 },
+          quantity: 30
+        })
+      ],
+      clientName: 'Acme Health',
+      jobSiteLocation: 'Olney, MD',
+      serviceType: 'Delivery',
+      deliveryCapabilities: {
+        acceptsPallets: true,
+        acceptsCrates: false,
+        hasLoadingDock: false,
+        requiresLiftgate: true,
+        needsInsideDelivery: false
+      },
+      rateTables,
+      ...overrides
+    })
+
+    it('should estimate freight cost for every packing strategy', () => {
+      const response = interactor.packageEverything(buildRequest())
+      const costSummary = response.costSummary!
+
+      expect(costSummary.originZone).toBe('STL')
+      expect(costSummary.destinationZone).toBe('MID-ATLANTIC')
+      expect(costSummary.notes).toEqual([])
+      expect(costSummary.estimates.map(estimate => estimate.strategyId)).toEqual(['first-fit', 'balanced', 'minimize-boxes', 'by-thickness'])
+      expect(costSummary.estimates.filter(estimate => estimate.selected).map(estimate => estimate.strategyId)).toEqual(['first-fit'])
+
+      const selected = costSummary.estimates[0]
+      const units = response.packingSummary.packedContainerDimensions
+      expect(selected.handlingUnits).toBe(units.length)
+      expect(selected.weightLbs).toBe(units.reduce((sum, unit) => sum + unit.weightLbs, 0))
+      expect(selected.accessorials).toEqual([{ name: 'Liftgate', amount: 80 }])
+      expect(selected.total).toBeCloseTo(selected.linehaul + selected.fuelSurcharge + 80, 2)
+    })
+
+    it('should rate the other strategies from their containers without packing full responses', () => {
+      const packageEverything = vi.spyOn(PackagingInteractor.prototype, 'packageEverything')
+      const response = interactor.packageEverything(buildRequest())
+      expect(packageEverything).toHaveBeenCalledTimes(1)
+      packageEverything.mockRestore()
+
+      const balanced = response.costSummary!.estimates.find(estimate => estimate.strategyId === 'balanced')!
+      const balancedUnits = new PackagingInteractor('balanced').packageEverything(buildRequest({ rateTables: undefined }))
+        .packingSummary.packedContainerDimensions
+      expect(balanced.handlingUnits).toBe(balancedUnits.length)
+      expect(balanced.weightLbs).toBe(balancedUnits.reduce((sum, unit) => sum + unit.weightLbs, 0))
+    })
+
+    it('should note when the job site has no rate zone', () => {
+      const response = interactor.packageEverything(buildRequest({ jobSiteLocation: 'Austin, TX' }))
+
+      expect(response.costSummary!.estimates).toEqual([])
+      expect(response.costSummary!.notes).toEqual(["No rate zone matches job site location 'Austin, TX'."])
+    })
+
+    it('should leave out the cost summary without rate tables or for parcel shipments', () => {
+      expect(interactor.packageEverything(buildRequest({ rateTables: undefined })).costSummary).toBeUndefined()
+      expect(interactor.packageEverything(buildRequest({ shippingMode: 'parcel' })).costSummary).toBeUndefined()
+    })
   })
 
   describe('calculateCrateFootprint', () => {
@@ -571,6 +1278,72 @@ describe('PackagingInteractor', () => {
       expect(summary.totalArtworkWeightLbs).toBeGreaterThan(summary.glassFramedWeightLbs)
     })
 
+    it('should use measured weights everywhere and mark them apart from estimates', () => {
+      // Wall decor has no weight factor, so only a measured weight gives it any weight
+      const decor = new Art({
+        id: 'DECOR-1',
+        productType: ArtType.WallDecor,
+        material: ArtMaterial.Unknown,
+        dimensions: { length: 30, width: 24, height: 3 },
+        quantity: 2,
+        measuredWeightLbs: 18.5
+      })
+      const print = new Art({
+        id: 'PRINT-1',
+        productType: ArtType.PaperPrint,
+        material: ArtMaterial.Glass,
+        dimensions: { length: 30, width: 24, height: 2 },
+        quantity: 1
+      })
+
+      const boxResult = interactor.packBoxes([decor, print])
+      const containerResult = interactor.packContainers(boxResult.boxes, {
+        acceptsPallets: true,
+        acceptsCrates: false,
+        hasLoadingDock: true,
+        requiresLiftgate: false,
+        needsInsideDelivery: false
+      })
+
+      const summary = (interactor as any).buildWeightSummary([decor, print], containerResult)
+
+      expect(summary.artworkWeights).toEqual([
+        { tag: 'DECOR-1', productType: 'WALL_DECOR', pieces: 2, weightPerPieceLbs: 19, weightLbs: 38, source: 'measured' },
+        { tag: 'PRINT-1', productType: 'PAPER_PRINT', pieces: 1, weightPerPieceLbs: 8, weightLbs: 8, source: 'estimated' }
+      ])
+      expect(summary.totalArtworkWeightLbs).toBe(46)
+      const packedArtWeight = boxResult.boxes.reduce(
+        (sum, box) => sum + box.getTotalWeight() - box.getSpecification().tareWeight,
+        0
+      )
+      expect(packedArtWeight).toBe(46)
+    })
+
+    it('should add frame weight from catalog mouldings', () => {
+      const framed = new Art({
+        id: 'FRAMED-1',
+        productType: ArtType.PaperPrint,
+        material: ArtMaterial.Glass,
+        dimensions: { length: 30, width: 24, height: 2.25 },
+        quantity: 1,
+        frameMouldingLabel: 'HW-300-WAL',
+        frameMoulding: { code: 'HW-300-WAL', weightLbPerLinearInch: 0.035, profileDepthInches: 2.25 }
+      })
+
+      const boxResult = interactor.packBoxes([framed])
+      const containerResult = interactor.packContainers(boxResult.boxes, {
+        acceptsPallets: true,
+        acceptsCrates: false,
+        hasLoadingDock: true,
+        requiresLiftgate: false,
+        needsInsideDelivery: false
+      })
+
+      // 720 sq in of glass (7.06 lbs) plus 108" of walnut frame (3.78 lbs)
+      const summary = (interactor as any).buildWeightSummary([framed], containerResult)
+      expect(summary.totalArtworkWeightLbs).toBe(11)
+    })
+
     it('should identify oversized weight correctly', () => {
       const oversizedArt = new Art({
         id: 'OVERSIZE-1',
@@ -654,9 +1427,98 @@ describe('PackagingInteractor', () => {
         summary.packagingWeightLbs.pallets.totalWeight + summary.packagingWeightLbs.crates.totalWeight
       )
     })
+
+    it('should total dimensional and billable weight over the shipping units', () => {
+      const units = [
+        { dimensionalWeightLbs: 120, billableWeightLbs: 150 },
+        { dimensionalWeightLbs: 80, billableWeightLbs: 80 }
+      ]
+
+      const summary = (interactor as any).buildWeightSummary([], { containers: [], unassignedBoxes: [] }, units, 166)
+
+      expect(summary.dimensionalWeightDivisor).toBe(166)
+      expect(summary.dimensionalWeightLbs).toBe(200)
+      expect(summary.billableWeightLbs).toBe(230)
+    })
+
+    it('should bill each pallet at the greater of actual and dimensional weight', () => {
+      const art = new Art({
+        id: 'DIM-1',
+        productType: ArtType.PaperPrint,
+        material: ArtMaterial.Acrylic,
+        dimensions: { length: 24, width: 30, height: 2 },
+        quantity: 6
+      })
+
+      const response = interactor.packageEverything({
+        artItems: [art],
+        clientName: 'Test Client',
+        jobSiteLocation: 'Test Location',
+        serviceType: 'Delivery',
+        deliveryCapabilities: {
+          acceptsPallets: true,
+          acceptsCrates: false,
+          hasLoadingDock: true,
+          requiresLiftgate: false,
+          needsInsideDelivery: false
+        }
+      })
+
+      const [pallet] = response.packingSummary.packedContainerDimensions
+      const [length, width, height] = pallet.dimensions.split('x').map(side => parseFloat(side))
+      expect(pallet.dimensionalWeightLbs).toBe(Math.ceil((length * width * height) / 139))
+      expect(pallet.billableWeightLbs).toBe(Math.max(pallet.weightLbs, pallet.dimensionalWeightLbs))
+      expect(response.weightSummary.billableWeightLbs).toBe(pallet.billableWeightLbs)
+
+      const [box] = response.packingSummary.boxContents
+      expect(box.billableWeightLbs).toBe(Math.max(box.weightLbs, box.dimensionalWeightLbs))
+    })
   })
 
   describe('buildPackingSummary - Unit Tests', () => {
+    it('should list packing materials with catalog costs and weights', () => {
+      const framedPrints = new Art({
+        id: 'FRAMED-1',
+        productType: ArtType.PaperPrint,
+        material: ArtMaterial.Glass,
+        dimensions: { length: 24, width: 30, height: 2 },
+        quantity: 2
+      })
+
+      const boxResult = interactor.packBoxes([framedPrints])
+      const containerResult = interactor.packContainers(boxResult.boxes, {
+        acceptsPallets: true,
+        acceptsCrates: false,
+        hasLoadingDock: true,
+        requiresLiftgate: false,
+        needsInsideDelivery: false
+      })
+
+      const { materials } = (interactor as any).buildPackingSummary(boxResult, containerResult)
+      const quantities = Object.fromEntries(materials.lines.map((line: any) => [line.materialId, line.quantity]))
+
+      // Two 24x30 pieces, double-wrapped: 2 * 720 * 2 / 144 = 20 sq ft of bubble wrap
+      expect(quantities).toEqual({
+        STANDARD_BOX: 1,
+        STANDARD_PALLET: 1,
+        CORNER_PROTECTOR: 8,
+        FOAM_SHEET: 2,
+        BUBBLE_WRAP: 20,
+        STRETCH_WRAP: 120
+      })
+      expect(materials.lines[0]).toEqual({
+        materialId: 'STANDARD_BOX',
+        description: 'Standard box',
+        unit: 'each',
+        quantity: 1,
+        unitCost: 6.5,
+        unitWeightLbs: 18,
+        totalCost: 6.5,
+        totalWeightLbs: 18
+      })
+      expect(materials.totalCost).toBe(6.5 + 18 + 8 * 0.35 + 2 * 2.1 + 20 * 0.12 + 120 * 0.03)
+    })
+
     it('should group boxes by type', () => {
       const standardArt = new Art({
         id: 'STD-1',
@@ -782,6 +1644,138 @@ describe('PackagingInteractor', () => {
         expect(container.weightLbs).toBeGreaterThan(0)
       })
     })
+
+    it('should list each container\'s boxes and art tags in the manifest', () => {
+      const prints = new Art({
+        id: '101',
+        productType: ArtType.PaperPrint,
+        material: ArtMaterial.Glass,
+        dimensions: { length: 24, width: 30, height: 2 },
+        quantity: 7
+      })
+      const mirror = new Art({
+        id: '102',
+        productType: ArtType.Mirror,
+        material: ArtMaterial.Mirror,
+        dimensions: { length: 24, width: 30, height: 2 },
+        quantity: 1
+      })
+
+      const boxResult = interactor.packBoxes([prints, mirror])
+      const containerResult = interactor.packContainers(boxResult.boxes, {
+        acceptsPallets: true,
+        acceptsCrates: false,
+        hasLoadingDock: true,
+        requiresLiftgate: false,
+        needsInsideDelivery: false
+      })
+
+      const summary = (interactor as any).buildPackingSummary(boxResult, containerResult)
+      const [entry] = summary.containerManifest
+
+      expect(summary.containerManifest).toHaveLength(1)
+      expect(entry.containerId).toBe(summary.packedContainerDimensions[0].containerId)
+      expect(entry.boxes.map((box: any) => box.boxNumber)).toEqual(summary.boxContents.map((box: any) => box.boxNumber))
+      expect(entry.boxes.flatMap((box: any) => box.artTags)).toEqual(['101', '101', '102'])
+      expect(entry.looseArtTags).toEqual([])
+      expect(entry.pieceCount).toBe(8)
+      expect(entry.weightLbs).toBe(summary.packedContainerDimensions[0].weightLbs)
+    })
+
+    it('should plan the truck from the pallet deck layout', () => {
+      const prints = new Art({
+        id: '101',
+        productType: ArtType.PaperPrint,
+        material: ArtMaterial.Glass,
+        dimensions: { length: 24, width: 30, height: 2 },
+        quantity: 7
+      })
+
+      const boxResult = interactor.packBoxes([prints])
+      const containerResult = interactor.packContainers(boxResult.boxes, {
+        acceptsPallets: true,
+        acceptsCrates: false,
+        hasLoadingDock: true,
+        requiresLiftgate: false,
+        needsInsideDelivery: false
+      })
+
+      const summary = (interactor as any).buildPackingSummary(boxResult, containerResult)
+      const plan = summary.truckLoadPlan
+
+      expect(plan.recommendedVehicle).toBe("16' box truck")
+      expect(plan.vehicles.map((vehicle: any) => vehicle.fits)).toEqual([true, true, true, true])
+      expect(plan.totalWeightLbs).toBe(summary.packedContainerDimensions[0].weightLbs)
+      // The deck's 48" side goes across the truck, 40" along it
+      expect(plan.loadingSequence).toEqual([
+        expect.objectContaining({ step: 1, containerId: summary.packedContainerDimensions[0].containerId, row: 1, length: 40, width: 48 })
+      ])
+      expect(plan.linearFeet).toBe(3.3)
+    })
+
+    it('should measure a pallet the same way for the reports and the truck plan', () => {
+      const prints = new Art({
+        id: '101',
+        productType: ArtType.PaperPrint,
+        material: ArtMaterial.Glass,
+        dimensions: { length: 24, width: 30, height: 2 },
+        quantity: 24
+      })
+
+      const boxResult = interactor.packBoxes([prints])
+      const containerResult = interactor.packContainers(boxResult.boxes, {
+        acceptsPallets: true,
+        acceptsCrates: false,
+        hasLoadingDock: true,
+        requiresLiftgate: false,
+        needsInsideDelivery: false
+      })
+
+      const summary = (interactor as any).buildPackingSummary(boxResult, containerResult)
+      const [reported] = summary.packedContainerDimensions
+      const [step] = summary.truckLoadPlan.loadingSequence
+      const [length, width, height] = reported.dimensions.split('x').map((side: string) => parseFloat(side))
+
+      // The truck turns the pallet, so compare the footprint sides in either order
+      expect([length, width].sort()).toEqual([step.length, step.width].sort())
+      expect(height).toBe(step.height)
+      // Deck height plus the standing boxes, not the box heights added up
+      expect(height).toBe(Math.ceil(containerResult.containers[0].getPalletLayout()!.stackHeightInches))
+      expect(reported.densityLbPerCuFt).toBeCloseTo(reported.weightLbs / ((length * width * height) / 1728), 1)
+    })
+
+    it('should lay out each pallet for load diagrams, numbered like the box contents', () => {
+      const art = new Art({
+        id: 'ART-1',
+        productType: ArtType.PaperPrint,
+        material: ArtMaterial.Glass,
+        dimensions: { length: 24, width: 30, height: 2 },
+        quantity: 24
+      })
+
+      const boxResult = interactor.packBoxes([art])
+      const containerResult = interactor.packContainers(boxResult.boxes, {
+        acceptsPallets: true,
+        acceptsCrates: false,
+        hasLoadingDock: true,
+        requiresLiftgate: false,
+        needsInsideDelivery: false
+      })
+
+      const summary = (interactor as any).buildPackingSummary(boxResult, containerResult)
+      const [diagram] = summary.loadDiagrams
+
+      expect(summary.loadDiagrams).toHaveLength(summary.packedContainerDimensions.length)
+      expect(diagram.containerId).toBe(summary.packedContainerDimensions[0].containerId)
+      expect(diagram.base).toEqual({ length: 48, width: 40 })
+      expect(diagram.baseHeightInches).toBe(5.5)
+      expect(diagram.items.map((item: any) => item.boxNumber).sort()).toEqual(summary.boxContents.map((box: any) => box.boxNumber))
+      expect(diagram.layers).toEqual([{
+        layer: 1,
+        labels: expect.arrayContaining(['#1', '#2', '#3', '#4']),
+        weightLbs: summary.boxContents.reduce((sum: number, box: any) => sum + box.weightLbs, 0)
+      }])
+    })
   })
 
   describe('buildBusinessIntelligence - Unit Tests', () => {
@@ -872,6 +1866,34 @@ describe('PackagingInteractor', () => {
       expect(bi.riskFlags.some((f: string) => f.includes('glass'))).toBe(true)
     })
 
+    it('should flag a single piece over the box weight limit for team lift', () => {
+      const board = new Art({
+        id: 'PB-1',
+        productType: ArtType.PatientBoard,
+        material: ArtMaterial.PatientBoard,
+        dimensions: { length: 43, width: 86, height: 2 },
+        quantity: 2
+      })
+
+      const response = interactor.packageEverything({
+        artItems: [board],
+        clientName: 'Test',
+        jobSiteLocation: 'Test',
+        serviceType: 'Delivery',
+        deliveryCapabilities: {
+          acceptsPallets: true,
+          acceptsCrates: false,
+          hasLoadingDock: true,
+          requiresLiftgate: false,
+          needsInsideDelivery: false
+        }
+      })
+
+      expect(response.packingSummary.boxContents.map(box => box.totalPieces)).toEqual([1, 1])
+      expect(response.packingSummary.boxContents[0].specialHandling).toContain('TEAM LIFT - 151 lbs, over the 150 lb box limit')
+      expect(response.businessIntelligence.riskFlags).toContain('Team lift: box(es) 1, 2 hold a single piece over the 150 lb box limit')
+    })
+
     it('should report no high-risk items when none present', () => {
       const standardArt = new Art({
         id: 'STD-1',
@@ -966,6 +1988,47 @@ describe('PackagingInteractor', () => {
       expect(freightExport.shipmentDetails.some((d: string) => d.includes('250 lbs'))).toBe(true)
     })
 
+    it('should list the freight class of every handling unit', () => {
+      const art = new Art({
+        id: 'ART-1',
+        productType: ArtType.PaperPrint,
+        material: ArtMaterial.Glass,
+        dimensions: { length: 24, width: 30, height: 2 },
+        quantity: 20
+      })
+
+      const request: PackagingRequest = {
+        artItems: [art],
+        clientName: 'Test',
+        jobSiteLocation: 'Test Location',
+        serviceType: 'Delivery',
+        deliveryCapabilities: {
+          acceptsPallets: true,
+          acceptsCrates: false,
+          hasLoadingDock: true,
+          requiresLiftgate: false,
+          needsInsideDelivery: false
+        }
+      }
+
+      const response = interactor.packageEverything(request)
+      const units = response.packingSummary.packedContainerDimensions
+      const dimensionsLine = response.freightExport.shipmentDetails.find(d => d.startsWith('Dimensions:'))!
+
+      expect(units.length).toBeGreaterThan(0)
+      for (const unit of units) {
+        const [length, width, height] = unit.dimensions.split('x').map(side => parseFloat(side))
+        expect(unit.densityLbPerCuFt).toBeCloseTo(unit.weightLbs / ((length * width * height) / 1728), 2)
+        expect(dimensionsLine).toContain(`@ ${unit.weightLbs} lbs (Class ${unit.freightClass})`)
+      }
+
+      const summary = response.packingSummary.freightClassSummary!
+      expect(summary.byClass.reduce((sum, line) => sum + line.units, 0)).toBe(units.length)
+      expect(summary.byClass.reduce((sum, line) => sum + line.weightLbs, 0)).toBe(
+        units.reduce((sum, unit) => sum + unit.weightLbs, 0)
+      )
+    })
+
     it('should include pickup and delivery locations', () => {
       const art = new Art({
         id: 'ART-1',
@@ -1,11 +1,26 @@
-import { Art, ArtMaterial, ArtType } from "../entities/Art";
-import { Box, BoxType, getDefaultMaxPiecesPerProduct } from "../entities/Box";
-import { Crate, CrateType, ContainerKind } from "../entities/Crate";
+import { Art, ArtMaterial, ArtType, cloneArt, getArtTypeLabel } from "../entities/Art";
+import { Box, BoxOptions, BoxType, getBoxTypeLabel, getDefaultMaxPiecesPerProduct } from "../entities/Box";
+import {
+  Crate,
+  CrateType,
+  ContainerKind,
+  getCrateSpecification,
+  getCrateTypeLabel,
+  type ContainerLoadLimits,
+} from "../entities/Crate";
 import { DeliveryCapabilities, PackagingRequest } from "../requests/PackagingRequest";
 import { PackagingRules } from "../rules/PackagingRules";
+import type { ClientRuleProfile } from "../rules/ClientRuleProfile";
 import { WeightCalculator } from "../calculations/WeightCalculator";
+import { FreightClassCalculator } from "../calculations/FreightClassCalculator";
+import { PalletLayoutCalculator } from "../calculations/PalletLayoutCalculator";
+import { TruckLoadCalculator, type TruckLoadUnit } from "../calculations/TruckLoadCalculator";
+import { ClearanceCalculator } from "../calculations/ClearanceCalculator";
+import { LtlRateEngine } from "../rates/LtlRateEngine";
+import { getPackagingSpecCatalog, PACKING_MATERIAL_IDS, type PackingMaterialId } from "../catalog/PackagingSpecCatalog";
 import { PackingStrategy } from "../strategies/PackingStrategy";
 import { PackingStrategyFactory } from "../strategies/PackingStrategyFactory";
+import { ParcelPackingStrategy } from "../strategies/ParcelPackingStrategy";
 import {
   PackagingResponse,
   WeightSummary,
@@ -19,6 +34,19 @@ import {
   OversizedItemFlag,
   WorkOrderSummary,
   OversizedPieceDetail,
+  ParcelCartonSummary,
+  BoxContentsDetail,
+  CustomPackagingPlan,
+  ContainerLoadDiagram,
+  ContainerManifestEntry,
+  LoadDiagramItem,
+  MaterialsLine,
+  MaterialsSummary,
+  FreightClassSummary,
+  CostSummary,
+  StrategyCostEstimate,
+  TagTrace,
+  TruckLoadPlan,
 } from "../responses/PackagingResponse";
 
 export interface BoxPackingResult {
@@ -28,13 +56,45 @@ export interface BoxPackingResult {
   unassignedReasons: Record<string, string>;
 }
 
+interface PlannedCustomUnit {
+  art: Art;
+  unit: Crate;
+  method: "crate" | "flat-pack";
+  reason: string;
+}
+
+/**
+ * Boxes moved off pallets that were over the liftgate limits, and the site capability that set them.
+ */
+export interface LiftgateSpill {
+  /** e.g., "the site requires a liftgate". */
+  capability: string;
+  movedBoxes: number;
+  extraPallets: number;
+  limits: ContainerLoadLimits;
+}
+
 export interface ContainerPackingResult {
   containers: Crate[];
   unassignedBoxes: Box[];
+  /** Set when liftgate limits moved boxes to other pallets. */
+  liftgateSpill?: LiftgateSpill;
 }
 
-const MAX_PALLET_HEIGHT_IN = 84;
-const OVERSIZE_PIECES_PER_BOX = 3;
+interface ClientRulePartition {
+  packableArt: Art[];
+  disallowedArt: Art[];
+  crateOnlyArt: Art[];
+}
+
+interface PackedShipment {
+  boxResult: BoxPackingResult;
+  containerResult: ContainerPackingResult;
+  partition: ClientRulePartition;
+  customPackaging: PlannedCustomUnit[];
+  /** Unassigned pieces moved into custom crates or flat-packs. */
+  customArt: Art[];
+}
 
 export class PackagingInteractor {
   private packingStrategy: PackingStrategy;
@@ -77,19 +137,7 @@ export class PackagingInteractor {
       const quantityForThisSplit = Math.min(remaining, effectiveMax);
       
       // Create a new Art object with the split quantity
-      const splitArt = new Art({
-        id: `${art.getId()}-split-${splitIndex}`,
-        productType: art.getProductType(),
-        material: art.getMaterial(),
-        dimensions: art.getRawDimensions(),
-        quantity: quantityForThisSplit,
-        specialHandlingFlags: art.getSpecialHandlingFlags(),
-        description: art.getDescription(),
-        finalMediumLabel: art.getFinalMediumLabel(),
-        glazingLabel: art.getGlazingLabel(),
-        hardwareLabel: art.getHardwareLabel(),
-        hardwarePiecesPerItem: art.getHardwarePiecesPerItem(),
-      });
+      const splitArt = cloneArt(art, { id: `${art.getId()}-split-${splitIndex}`, quantity: quantityForThisSplit });
 
       splits.push(splitArt);
       remaining -= quantityForThisSplit;
@@ -106,7 +154,7 @@ export class PackagingInteractor {
     }
 
     if (PackagingRules.requiresOversizeBox(art)) {
-      return OVERSIZE_PIECES_PER_BOX;
+      return getPackagingSpecCatalog().maxOversizedPiecesPerBox;
     }
 
     const tempBox = new Box({ type: preferredType });
@@ -118,9 +166,9 @@ export class PackagingInteractor {
     return 1;
   }
 
-  public packBoxes(artCollection: Art[]): BoxPackingResult {
+  public packBoxes(artCollection: Art[], boxOptions?: BoxOptions): BoxPackingResult {
     // Delegate to the selected packing strategy
-    return this.packingStrategy.packBoxes(artCollection);
+    return this.packingStrategy.packBoxes(artCollection, boxOptions);
   }
 
   private packArtIntoCrates(artItems: Art[]): { crates: Crate[]; unassignedArt: Art[] } {
@@ -200,13 +248,7 @@ export class PackagingInteractor {
         // Consolidate all into one crate
         const crate = new Crate({ type: CrateType.StandardCrate });
         for (const item of group) {
-          const artForCrate = new Art({
-            id: `${item.art.getId()}-crate-${crates.length}`,
-            productType: item.art.getProductType(),
-            material: item.art.getMaterial(),
-            dimensions: item.art.getRawDimensions(),
-            quantity: item.quantity,
-          });
+          const artForCrate = cloneArt(item.art, { id: `${item.art.getId()}-crate-${crates.length}`, quantity: item.quantity });
           crate.addArt(artForCrate);
         }
         crates.push(crate);
@@ -239,13 +281,7 @@ export class PackagingInteractor {
               
               const qtyToPack = Math.min(remainingQty, currentCrateSpace);
               
-              const artForCrate = new Art({
-                id: `${item.art.getId()}-crate-${crates.length}`,
-                productType: item.art.getProductType(),
-                material: item.art.getMaterial(),
-                dimensions: item.art.getRawDimensions(),
-                quantity: qtyToPack,
-              });
+              const artForCrate = cloneArt(item.art, { id: `${item.art.getId()}-crate-${crates.length}`, quantity: qtyToPack });
               
               currentCrate.addArt(artForCrate);
               remainingQty -= qtyToPack;
@@ -263,24 +299,67 @@ export class PackagingInteractor {
     return { crates, unassignedArt };
   }
 
-  public packContainers(boxes: Box[], capabilities: DeliveryCapabilities): ContainerPackingResult {
+  /**
+   * Gives every custom-packaging piece a unit built to its size. Glass, mirrors and the client's
+   * crate-only mediums get a crate holding the whole line; anything else is flat-packed one piece per pack.
+   */
+  private planCustomPackaging(customArt: Art[], crateOnlyArt: Art[] = []): PlannedCustomUnit[] {
+    const planned: PlannedCustomUnit[] = [];
+
+    for (const art of customArt) {
+      const isFragile =
+        art.getMaterial() === ArtMaterial.Glass || art.getMaterial() === ArtMaterial.Mirror || art.getProductType() === ArtType.Mirror;
+      const isCrateOnly = crateOnlyArt.includes(art);
+
+      if (isFragile || isCrateOnly) {
+        const crate = new Crate({ type: CrateType.StandardCrate });
+        crate.addArt(art);
+        planned.push({
+          art,
+          unit: crate,
+          method: "crate",
+          reason: isFragile ? `${art.getMaterialLabel()} needs a crate` : `Client ships ${art.getProductTypeLabel()} crate-only`,
+        });
+        continue;
+      }
+
+      for (let piece = 1; piece <= art.getQuantity(); piece++) {
+        const flatPack = new Crate({ type: CrateType.FlatPack });
+        flatPack.addArt(cloneArt(art, { id: art.getQuantity() > 1 ? `${art.getId()}-${piece}` : art.getId(), quantity: 1 }));
+        planned.push({ art, unit: flatPack, method: "flat-pack", reason: `${art.getMaterialLabel()} can be flat-packed` });
+      }
+    }
+
+    return planned;
+  }
+
+  public packContainers(
+    boxes: Box[],
+    capabilities: DeliveryCapabilities,
+    requiredPalletType?: CrateType,
+  ): ContainerPackingResult {
     const containers: Crate[] = [];
     const unassignedBoxes: Box[] = [];
 
-    // Optimize pallet selection when pallets are accepted
-    if (capabilities.acceptsPallets && boxes.length > 0) {
+    if (capabilities.acceptsPallets && requiredPalletType !== undefined) {
+      // Client requires one pallet type, so skip the standard/oversize mix optimization
+      for (const box of boxes) {
+        this.placeBoxInContainer(box, requiredPalletType, containers, unassignedBoxes);
+      }
+    } else if (capabilities.acceptsPallets && boxes.length > 0) {
+      // Optimize pallet selection when pallets are accepted
       // Separate boxes by type
       const standardBoxes = boxes.filter(b => b.getType() === BoxType.Standard);
       const largeBoxes = boxes.filter(b => b.getType() === BoxType.Large);
       
       // STRATEGY: Global optimization approach
-      // 1. Pack all large boxes first onto standard pallets (3 per pallet)
+      // 1. Pack all large boxes first onto standard pallets (as many as the deck layout holds)
       // 2. Optimize remaining standard boxes by choosing between:
-      //    - Standard pallets (4 boxes, 60 lbs)
-      //    - Oversized pallets (5 boxes, 75 lbs)
+      //    - Standard pallets (48x40, 60 lbs)
+      //    - Oversized pallets (60x40, 75 lbs)
       //    Choose based on which minimizes total weight
       
-      // Step 1: Pack large boxes onto standard pallets (3 per pallet)
+      // Step 1: Pack large boxes onto standard pallets
       for (let i = 0; i < largeBoxes.length; i++) {
         const box = largeBoxes[i];
         
@@ -325,13 +404,15 @@ export class PackagingInteractor {
       
       // Step 3: Pack remaining standard boxes using optimal mix
       if (standardBoxesRemaining.length > 0) {
-        const optimalMix = this.findOptimalPalletMix(standardBoxesRemaining.length);
+        const standardCapacity = this.countBoxesPerPallet(CrateType.StandardPallet, standardBoxesRemaining);
+        const oversizeCapacity = this.countBoxesPerPallet(CrateType.OversizePallet, standardBoxesRemaining);
+        const optimalMix = this.findOptimalPalletMix(standardBoxesRemaining.length, standardCapacity, oversizeCapacity);
         let boxIndex = 0;
         
         // Pack boxes onto standard pallets first
         for (let i = 0; i < optimalMix.standard && boxIndex < standardBoxesRemaining.length; i++) {
           const container = new Crate({ type: CrateType.StandardPallet });
-          for (let j = 0; j < 4 && boxIndex < standardBoxesRemaining.length; j++) {
+          for (let j = 0; j < standardCapacity && boxIndex < standardBoxesRemaining.length; j++) {
             const box = standardBoxesRemaining[boxIndex];
             if (container.canAccommodate(box) && container.addBox(box)) {
               boxIndex++;
@@ -347,7 +428,7 @@ export class PackagingInteractor {
         // Pack remaining boxes onto oversized pallets (exactly optimalMix.oversized pallets)
         for (let i = 0; i < optimalMix.oversized && boxIndex < standardBoxesRemaining.length; i++) {
           const container = new Crate({ type: CrateType.OversizePallet });
-          for (let j = 0; j < 5 && boxIndex < standardBoxesRemaining.length; j++) {
+          for (let j = 0; j < oversizeCapacity && boxIndex < standardBoxesRemaining.length; j++) {
             const box = standardBoxesRemaining[boxIndex];
             if (container.canAccommodate(box) && container.addBox(box)) {
               boxIndex++;
@@ -360,10 +441,8 @@ export class PackagingInteractor {
           containers.push(container);
         }
         
-        // If there are still boxes remaining (shouldn't happen with correct optimal mix), pack them
-        if (boxIndex < standardBoxesRemaining.length) {
-          console.warn(`Warning: ${standardBoxesRemaining.length - boxIndex} boxes remaining after optimal pallet mix`);
-        }
+        // Boxes too big for either deck are left for the caller to report
+        unassignedBoxes.push(...standardBoxesRemaining.slice(boxIndex));
       }
     } else {
       // Original logic for crates or when pallets not accepted
@@ -375,37 +454,226 @@ export class PackagingInteractor {
           continue;
         }
 
-        let container = containers.find((crate) => crate.getType() === targetContainerType && crate.canAccommodate(box));
-
-        if (!container) {
-          container = new Crate({ type: targetContainerType });
-          if (!container.canAccommodate(box) || !container.addBox(box)) {
-            unassignedBoxes.push(box);
-            continue;
-          }
-          containers.push(container);
-        } else if (!container.addBox(box)) {
-          unassignedBoxes.push(box);
-        }
+        this.placeBoxInContainer(box, targetContainerType, containers, unassignedBoxes);
       }
     }
 
+    const liftgateSpill = this.applyLiftgateLimits(containers, unassignedBoxes, capabilities);
+
     return {
       containers,
       unassignedBoxes,
+      ...(liftgateSpill && { liftgateSpill }),
+    };
+  }
+
+  /**
+   * When the site requires a liftgate, pallets come off the truck on it. Each pallet is reloaded under the
+   * catalog's liftgate weight and height, and the boxes that no longer fit move to other or new pallets.
+   */
+  private applyLiftgateLimits(
+    containers: Crate[],
+    unassignedBoxes: Box[],
+    capabilities: DeliveryCapabilities,
+  ): LiftgateSpill | undefined {
+    // A site without a dock that doesn't book a liftgate unloads some other way, so its pallets are left alone
+    if (!capabilities.requiresLiftgate) {
+      return undefined;
+    }
+    const capability = "the site requires a liftgate";
+
+    const { maxLoadLbs, maxLoadHeightInches } = getPackagingSpecCatalog().liftgate;
+    const limits: ContainerLoadLimits = { maxWeightLbs: maxLoadLbs, maxHeightInches: maxLoadHeightInches };
+    const isPallet = (container: Crate) => container.getContainerKind() === ContainerKind.Pallet;
+    const palletsBefore = containers.filter(isPallet).length;
+
+    const moved: Array<{ box: Box; type: CrateType }> = [];
+    containers.forEach((container, index) => {
+      if (!isPallet(container)) {
+        return;
+      }
+      const limited = new Crate({ type: container.getType(), loadLimits: limits });
+      for (const box of container.getContents()) {
+        if (!limited.addBox(box)) {
+          moved.push({ box, type: container.getType() });
+        }
+      }
+      containers[index] = limited;
+    });
+    if (moved.length === 0) {
+      return undefined;
+    }
+
+    // A box over the limits on its own leaves an empty pallet behind
+    containers.splice(0, containers.length, ...containers.filter((container) => container.getContents().length > 0 || !isPallet(container)));
+    for (const { box, type } of moved) {
+      this.placeBoxInContainer(box, type, containers, unassignedBoxes, limits);
+    }
+
+    return {
+      capability,
+      movedBoxes: moved.length,
+      extraPallets: containers.filter(isPallet).length - palletsBefore,
+      limits,
     };
   }
 
+  /**
+   * Adds the box to the first container of the given type with room, opening a new one if needed.
+   */
+  private placeBoxInContainer(
+    box: Box,
+    type: CrateType,
+    containers: Crate[],
+    unassignedBoxes: Box[],
+    loadLimits?: ContainerLoadLimits,
+  ): void {
+    const existing = containers.find((crate) => crate.getType() === type && crate.canAccommodate(box));
+    if (existing) {
+      if (!existing.addBox(box)) {
+        unassignedBoxes.push(box);
+      }
+      return;
+    }
+
+    const container = new Crate({ type, loadLimits });
+    if (!container.canAccommodate(box) || !container.addBox(box)) {
+      unassignedBoxes.push(box);
+      return;
+    }
+    containers.push(container);
+  }
+
   public packageEverything(request: PackagingRequest): PackagingResponse {
     const processingStart = Date.now();
+    const specCatalog = getPackagingSpecCatalog();
+    const clientRules = request.clientRules;
+    const isParcel = request.shippingMode === "parcel";
+    const strategy = isParcel
+      ? new ParcelPackingStrategy()
+      : clientRules?.forcedStrategy
+        ? PackingStrategyFactory.getStrategy(clientRules.forcedStrategy)
+        : this.packingStrategy;
+    const { boxResult, containerResult, partition, customPackaging, customArt } = this.packShipment(request, strategy);
+    const { packableArt, disallowedArt, crateOnlyArt } = partition;
+
+    const clientRulesApplied = this.describeAppliedClientRules(
+      clientRules,
+      strategy,
+      { packableArt, disallowedArt, crateOnlyArt: isParcel ? [] : crateOnlyArt },
+      boxResult,
+      containerResult,
+    );
+
+    const dimensionalWeightDivisor = WeightCalculator.getDimensionalWeightDivisor(isParcel ? "parcel" : "freight");
+    const workOrderSummary = this.buildWorkOrderSummary(request.artItems);
+    const packingSummary = this.buildPackingSummary(boxResult, containerResult, dimensionalWeightDivisor);
+    if (isParcel) {
+      packingSummary.parcelCartons = this.buildParcelCartons(boxResult.boxes, dimensionalWeightDivisor);
+    }
+    packingSummary.tagTrace = this.buildTagTrace(request.artItems, boxResult, containerResult);
+    if (customPackaging.length > 0) {
+      packingSummary.customPackaging = this.buildCustomPackagingPlans(customPackaging, containerResult.containers);
+    }
+    // Carriers bill per shipping unit: each carton for parcel, each pallet or crate for freight
+    const weightSummary = this.buildWeightSummary(
+      request.artItems,
+      containerResult,
+      packingSummary.parcelCartons ?? packingSummary.packedContainerDimensions,
+      dimensionalWeightDivisor,
+      boxResult.boxes,
+      customArt,
+    );
+    const businessIntelligence = this.buildBusinessIntelligence(request, boxResult, clientRulesApplied, customArt);
+    let freightExport: FreightExportSummary;
+    if (packingSummary.parcelCartons) {
+      freightExport = this.buildParcelExport(request, packingSummary.parcelCartons);
+    } else {
+      freightExport = this.buildFreightExport(request, containerResult, weightSummary.finalShipmentWeightLbs);
+    }
+
+    const warnings = this.buildWarnings(boxResult.boxes);
+    if (isParcel && boxResult.unassignedArt.length > 0) {
+      warnings.push(`${boxResult.unassignedArt.length} item(s) cannot ship UPS parcel and need a freight shipment.`);
+    } else if (crateOnlyArt.length > 0 && !request.deliveryCapabilities.acceptsCrates) {
+      warnings.push(`${request.clientName} requires crates for some mediums, but the job site does not accept crates.`);
+    }
+    const customCrates = customPackaging.filter(({ method }) => method === "crate").length;
+    if (customCrates > 0 && !request.deliveryCapabilities.acceptsCrates) {
+      warnings.push(`${customCrates} custom piece(s) need a crate, but the job site does not accept crates.`);
+    }
+
+    const unknownMouldings = this.buildUnknownMouldingWarning(request.artItems);
+    if (unknownMouldings) {
+      warnings.push(unknownMouldings);
+    }
+
+    const liftgateSpill = containerResult.liftgateSpill;
+    if (liftgateSpill) {
+      const { maxWeightLbs, maxHeightInches } = liftgateSpill.limits;
+      warnings.push(
+        `${liftgateSpill.movedBoxes} box(es) moved to keep each pallet under the ${maxWeightLbs} lb, ${maxHeightInches}" liftgate limits ` +
+          `because ${liftgateSpill.capability}; that took ${liftgateSpill.extraPallets} extra pallet(s).`,
+      );
+    }
+
+    const truckLoadPlan = packingSummary.truckLoadPlan;
+    if (truckLoadPlan && !truckLoadPlan.recommendedVehicle) {
+      const largest = truckLoadPlan.vehicles[truckLoadPlan.vehicles.length - 1];
+      warnings.push(`The load does not fit one ${largest.description}: ${largest.problems.join("; ")}.`);
+    }
+
+    const metadata: PackagingResponseMetadata = {
+      warnings,
+      errors: [
+        ...this.buildErrorMessages(boxResult, containerResult),
+        ...this.buildClearanceErrors(request, boxResult.boxes, containerResult.containers),
+      ],
+      algorithmUsed: strategy.getMetadata().algorithmName,
+      specCatalogVersion: specCatalog.version,
+      processingTimeMs: Date.now() - processingStart,
+      timestamp: new Date().toISOString(),
+    };
+
+    const response: PackagingResponse = {
+      workOrderSummary,
+      weightSummary,
+      packingSummary,
+      businessIntelligence,
+      freightExport,
+      metadata,
+    };
+    if (request.rateTables && !isParcel) {
+      response.costSummary = this.buildCostSummary(request, strategy, packingSummary);
+    }
+    return response;
+  }
+
+  /**
+   * Packs the work order into boxes, pallets, crates and custom units with one strategy.
+   * The cost comparison reuses it to rate the other strategies without building their reports.
+   */
+  private packShipment(request: PackagingRequest, strategy: PackingStrategy): PackedShipment {
+    const clientRules = request.clientRules;
+    const isParcel = request.shippingMode === "parcel";
+    const boxOptions: BoxOptions = { maxPiecesPerProductOverride: clientRules?.maxPiecesPerProductOverride };
+    const partition = this.partitionByClientRules(request.artItems, clientRules);
+    const { packableArt, disallowedArt, crateOnlyArt } = partition;
 
     // If client accepts crates, pack directly into crates instead of boxes
     let boxResult: BoxPackingResult;
     let crateResult: { crates: Crate[]; unassignedArt: Art[] } = { crates: [], unassignedArt: [] };
     
-    if (request.deliveryCapabilities.acceptsCrates) {
+    if (isParcel) {
+      // UPS cartons only: no crates or pallets, so crate-only mediums have to go freight
+      boxResult = strategy.packBoxes(packableArt, boxOptions);
+      for (const art of crateOnlyArt) {
+        boxResult.unassignedArt.push(art);
+        boxResult.unassignedReasons[art.getId()] = `${request.clientName} ships ${art.getProductTypeLabel()} crate-only`;
+      }
+    } else if (request.deliveryCapabilities.acceptsCrates) {
       // Pack directly into crates, skip boxing
-      crateResult = this.packArtIntoCrates(request.artItems);
+      crateResult = this.packArtIntoCrates([...packableArt, ...crateOnlyArt]);
       // Create empty box result
       boxResult = {
         boxes: [],
@@ -414,37 +682,164 @@ export class PackagingInteractor {
         unassignedReasons: {},
       };
     } else {
-      // Normal boxing workflow
-      boxResult = this.packBoxes(request.artItems);
+      // Normal boxing workflow; crate-only mediums still go straight into crates
+      boxResult = strategy.packBoxes(packableArt, boxOptions);
+      if (crateOnlyArt.length > 0) {
+        crateResult = this.packArtIntoCrates(crateOnlyArt);
+        boxResult.unassignedArt.push(...crateResult.unassignedArt);
+      }
+    }
+
+    // Custom-size pieces ship in their own built crate or flat-pack instead of staying unassigned
+    const customArt = isParcel ? [] : boxResult.unassignedArt.filter((art) => PackagingRules.needsCustomPackaging(art));
+    const customPackaging = this.planCustomPackaging(customArt, crateOnlyArt);
+    boxResult.unassignedArt = boxResult.unassignedArt.filter((art) => !customArt.includes(art));
+    for (const art of customArt) {
+      delete boxResult.unassignedReasons[art.getId()];
+    }
+
+    // Items the client won't accept are held back for manual review
+    for (const art of disallowedArt) {
+      boxResult.unassignedArt.push(art);
+      boxResult.unassignedReasons[art.getId()] = `${art.getProductTypeLabel()} is not accepted by ${request.clientName}`;
     }
     
-    const containerResult = this.packContainers(boxResult.boxes, request.deliveryCapabilities);
+    const containerResult: ContainerPackingResult = isParcel
+      ? { containers: [], unassignedBoxes: [] }
+      : this.packContainers(boxResult.boxes, request.deliveryCapabilities, clientRules?.requiredPalletType);
     
-    // Merge crates from direct art packing with crates from box packing
-    containerResult.containers.push(...crateResult.crates);
+    // Merge crates from direct art packing and custom-piece units with crates from box packing
+    containerResult.containers.push(...crateResult.crates, ...customPackaging.map(({ unit }) => unit));
 
-    const workOrderSummary = this.buildWorkOrderSummary(request.artItems);
-    const weightSummary = this.buildWeightSummary(request.artItems, containerResult);
-    const packingSummary = this.buildPackingSummary(boxResult, containerResult);
-    const businessIntelligence = this.buildBusinessIntelligence(request, boxResult);
-    const freightExport = this.buildFreightExport(request, containerResult, weightSummary.finalShipmentWeightLbs);
+    return { boxResult, containerResult, partition, customPackaging, customArt };
+  }
 
-    const metadata: PackagingResponseMetadata = {
-      warnings: this.buildWarnings(boxResult.boxes),
-      errors: this.buildErrorMessages(boxResult, containerResult),
-      algorithmUsed: this.packingStrategy.getMetadata().algorithmName,
-      processingTimeMs: Date.now() - processingStart,
-      timestamp: new Date().toISOString(),
-    };
+  /**
+   * Rates the shipment as packed by every strategy so the cheapest option is visible.
+   * The other strategies are only packed into containers, not reported; a client's forced strategy is lifted for them.
+   */
+  private buildCostSummary(
+    request: PackagingRequest,
+    selectedStrategy: PackingStrategy,
+    packingSummary: PackingSummary,
+  ): CostSummary {
+    const rateTables = request.rateTables!;
+    const selectedId = selectedStrategy.getMetadata().id;
+    const dimensionalWeightDivisor = WeightCalculator.getDimensionalWeightDivisor("freight");
+
+    const estimates: StrategyCostEstimate[] = [];
+    const notes = new Set<string>();
+    let destinationZone: string | undefined;
+
+    for (const metadata of PackingStrategyFactory.getAllStrategyMetadata()) {
+      const units = metadata.id === selectedId
+        ? packingSummary.packedContainerDimensions
+        : this.buildContainerDimensions(
+            this.packShipment(request, PackingStrategyFactory.getStrategy(metadata.id)).containerResult.containers,
+            dimensionalWeightDivisor,
+          );
+
+      try {
+        const quote = LtlRateEngine.quote(rateTables, units, request.deliveryCapabilities, request.jobSiteLocation);
+        destinationZone = quote.destinationZone;
+        quote.notes.forEach((note) => notes.add(note));
+        estimates.push({
+          strategyId: metadata.id,
+          strategyName: metadata.name,
+          selected: metadata.id === selectedId,
+          handlingUnits: units.length,
+          weightLbs: quote.weightLbs,
+          linehaul: quote.linehaul,
+          minimumApplied: quote.minimumApplied,
+          fuelSurcharge: quote.fuelSurcharge,
+          accessorials: quote.accessorials,
+          total: quote.total,
+        });
+      } catch (error) {
+        notes.add(error instanceof Error ? error.message : "Rate lookup failed.");
+      }
+    }
 
     return {
-      workOrderSummary,
-      weightSummary,
-      packingSummary,
-      businessIntelligence,
-      freightExport,
-      metadata,
+      currency: "USD",
+      originZone: rateTables.originZone,
+      destinationZone,
+      estimates,
+      notes: Array.from(notes),
+    };
+  }
+
+  /**
+   * Splits the work order into art to pack normally, art the client won't accept,
+   * and art the client wants crated.
+   */
+  private partitionByClientRules(artItems: Art[], clientRules?: ClientRuleProfile): ClientRulePartition {
+    const disallowed = new Set(clientRules?.disallowedProductTypes ?? []);
+    const crateOnly = new Set(clientRules?.crateOnlyProductTypes ?? []);
+    const partition: ClientRulePartition = { packableArt: [], disallowedArt: [], crateOnlyArt: [] };
+
+    for (const art of artItems) {
+      if (disallowed.has(art.getProductType())) {
+        partition.disallowedArt.push(art);
+      } else if (crateOnly.has(art.getProductType())) {
+        partition.crateOnlyArt.push(art);
+      } else {
+        partition.packableArt.push(art);
+      }
+    }
+
+    return partition;
+  }
+
+  /**
+   * Lists the client rules that changed this packing run. Rules that had nothing to act on are left out.
+   */
+  private describeAppliedClientRules(
+    clientRules: ClientRuleProfile | undefined,
+    strategy: PackingStrategy,
+    partition: ClientRulePartition,
+    boxResult: BoxPackingResult,
+    containerResult: ContainerPackingResult,
+  ): string[] {
+    if (!clientRules) {
+      return [];
+    }
+
+    const applied: string[] = [];
+    const countPieces = (items: Art[]) => {
+      const counts = new Map<string, number>();
+      for (const art of items) {
+        counts.set(art.getProductTypeLabel(), (counts.get(art.getProductTypeLabel()) ?? 0) + art.getQuantity());
+      }
+      return counts;
     };
+
+    if (clientRules.forcedStrategy && clientRules.forcedStrategy === strategy.getMetadata().id) {
+      applied.push(`Packing strategy set by client profile: ${strategy.getMetadata().name}`);
+    }
+
+    const boxedTypes = new Set(boxResult.boxes.flatMap((box) => box.getContents().map((art) => art.getProductType())));
+    for (const [type, limit] of Object.entries(clientRules.maxPiecesPerProductOverride ?? {})) {
+      const productType = Number(type) as ArtType;
+      if (boxedTypes.has(productType)) {
+        applied.push(`Box capacity for ${getArtTypeLabel(productType)}: ${limit} per box`);
+      }
+    }
+
+    for (const [label, pieces] of countPieces(partition.disallowedArt)) {
+      applied.push(`${label} not accepted by client: ${pieces} piece(s) held for review`);
+    }
+
+    for (const [label, pieces] of countPieces(partition.crateOnlyArt)) {
+      applied.push(`${label} ships crate-only: ${pieces} piece(s) crated`);
+    }
+
+    const requiredPalletType = clientRules.requiredPalletType;
+    if (requiredPalletType !== undefined && containerResult.containers.some((c) => c.getType() === requiredPalletType)) {
+      applied.push(`Required pallet type: ${this.describeContainerType(requiredPalletType)}`);
+    }
+
+    return applied;
   }
 
   private findBoxForArt(boxes: Box[], art: Art, preferredType: BoxType): Box | undefined {
@@ -483,34 +878,42 @@ export class PackagingInteractor {
    * Compares standard pallets (4 boxes, 60 lbs) vs oversize pallets (5 boxes, 75 lbs)
    * and chooses the option with lower total weight
    * If weights are equal, prefers the option with fewer pallets
+   * Capacities and tares come from the packaging spec catalog; the figures above are the current values.
    */
-  private findOptimalPalletMix(boxCount: number): { standard: number; oversized: number } {
-    // Try to find the optimal mix of standard and oversized pallets
-    // Standard: 4 boxes, 60 lbs
-    // Oversized: 5 boxes, 75 lbs
+  private findOptimalPalletMix(
+    boxCount: number,
+    standardCapacity: number,
+    oversizeCapacity: number,
+  ): { standard: number; oversized: number } {
+    const standardPallet = getCrateSpecification(CrateType.StandardPallet);
+    const oversizePallet = getCrateSpecification(CrateType.OversizePallet);
     
     let bestWeight = Infinity;
     let bestConfig = { standard: 0, oversized: 0 };
+    const maxStandardPallets = standardCapacity > 0 ? Math.ceil(boxCount / standardCapacity) : 0;
     
     // Try different combinations
-    for (let standardCount = 0; standardCount <= Math.ceil(boxCount / 4); standardCount++) {
+    for (let standardCount = 0; standardCount <= maxStandardPallets; standardCount++) {
       // Calculate how many boxes can fit on standard pallets (up to capacity)
-      const maxBoxesOnStandard = standardCount * 4;
+      const maxBoxesOnStandard = standardCount * standardCapacity;
       
       // If standard pallets can hold all boxes, no oversized pallets needed
       if (maxBoxesOnStandard >= boxCount) {
-        const totalWeight = standardCount * 60;
+        const totalWeight = standardCount * standardPallet.tareWeight;
         if (totalWeight < bestWeight) {
           bestWeight = totalWeight;
           bestConfig = { standard: standardCount, oversized: 0 };
         }
         continue; // No need to add oversized pallets
       }
+      if (oversizeCapacity === 0) {
+        continue;
+      }
       
       // Otherwise, calculate how many oversized pallets needed for remaining boxes
       const remainingBoxes = boxCount - maxBoxesOnStandard;
-      const oversizedCount = Math.ceil(remainingBoxes / 5);
-      const totalWeight = (standardCount * 60) + (oversizedCount * 75);
+      const oversizedCount = Math.ceil(remainingBoxes / oversizeCapacity);
+      const totalWeight = (standardCount * standardPallet.tareWeight) + (oversizedCount * oversizePallet.tareWeight);
       
       if (totalWeight < bestWeight) {
         bestWeight = totalWeight;
@@ -521,8 +924,20 @@ export class PackagingInteractor {
     return bestConfig;
   }
 
-  private selectOptimalPalletType(boxCount: number): CrateType {
-    const mix = this.findOptimalPalletMix(boxCount);
+  /**
+   * How many of the boxes, in order, one pallet of this type holds by deck layout.
+   */
+  private countBoxesPerPallet(type: CrateType, boxes: Box[]): number {
+    const deck = getCrateSpecification(type).deck;
+    return deck ? PalletLayoutCalculator.countBoxesThatFit(boxes, deck) : 0;
+  }
+
+  private selectOptimalPalletType(boxes: Box[]): CrateType {
+    const mix = this.findOptimalPalletMix(
+      boxes.length,
+      this.countBoxesPerPallet(CrateType.StandardPallet, boxes),
+      this.countBoxesPerPallet(CrateType.OversizePallet, boxes),
+    );
     // If mix uses only one type, return that type
     if (mix.standard === 0) return CrateType.OversizePallet;
     if (mix.oversized === 0) return CrateType.StandardPallet;
@@ -617,7 +1032,14 @@ export class PackagingInteractor {
     };
   }
 
-  private buildWeightSummary(artItems: Art[], containerResult: ContainerPackingResult): WeightSummary {
+  private buildWeightSummary(
+    artItems: Art[],
+    containerResult: ContainerPackingResult,
+    shippingUnits: Array<{ dimensionalWeightLbs: number; billableWeightLbs: number }> = [],
+    dimensionalWeightDivisor: number = WeightCalculator.getDimensionalWeightDivisor("freight"),
+    boxes: Box[] = [],
+    plannedCustomArt: Art[] = [],
+  ): WeightSummary {
     // Exclude custom pieces from artwork weight as per stress test requirements
     const totalArtworkWeight = artItems
       .filter((art) => !PackagingRules.needsCustomPackaging(art))
@@ -632,11 +1054,17 @@ export class PackagingInteractor {
 
     const pallets = containerResult.containers.filter((container) => container.getContainerKind() === ContainerKind.Pallet);
     const crates = containerResult.containers.filter((container) => container.getContainerKind() === ContainerKind.Crate);
+    const flatPacks = containerResult.containers.filter((container) => container.getContainerKind() === ContainerKind.FlatPack);
 
     const palletWeight = pallets.reduce((sum, pallet) => sum + pallet.getTareWeight(), 0);
     const crateWeight = crates.reduce((sum, crate) => sum + crate.getTareWeight(), 0);
+    const flatPackWeight = flatPacks.reduce((sum, flatPack) => sum + flatPack.getTareWeight(), 0);
+    const customPieceWeight = plannedCustomArt.reduce((sum, art) => sum + WeightCalculator.calculateWeight(art), 0);
+
+    const cartonWeight = boxes.reduce((sum, box) => sum + box.getSpecification().tareWeight, 0);
+    const cartonTareIncluded = getPackagingSpecCatalog().weightPolicy.includeCartonTare;
 
-    const packagingWeight = palletWeight + crateWeight;
+    const packagingWeight = palletWeight + crateWeight + flatPackWeight + (cartonTareIncluded ? cartonWeight : 0);
 
     return {
       totalArtworkWeightLbs: totalArtworkWeight,
@@ -652,39 +1080,320 @@ export class PackagingInteractor {
           count: crates.length,
           totalWeight: crateWeight,
         },
+        cartons: {
+          count: boxes.length,
+          totalWeight: cartonWeight,
+        },
+        cartonTareIncluded,
+        flatPacks: {
+          count: flatPacks.length,
+          totalWeight: flatPackWeight,
+        },
       },
-      finalShipmentWeightLbs: totalArtworkWeight + packagingWeight,
+      customPieceWeightLbs: customPieceWeight,
+      finalShipmentWeightLbs: totalArtworkWeight + packagingWeight + customPieceWeight,
+      dimensionalWeightDivisor,
+      dimensionalWeightLbs: shippingUnits.reduce((sum, unit) => sum + unit.dimensionalWeightLbs, 0),
+      billableWeightLbs: shippingUnits.reduce((sum, unit) => sum + unit.billableWeightLbs, 0),
+      artworkWeights: artItems.map((art) => {
+        const weightLbs = WeightCalculator.calculateWeight(art);
+        return {
+          tag: art.getId(),
+          productType: art.getProductTypeLabel(),
+          pieces: art.getQuantity(),
+          weightPerPieceLbs: weightLbs / art.getQuantity(),
+          weightLbs,
+          source: art.getMeasuredWeightLbs() === undefined ? "estimated" : "measured",
+        };
+      }),
     };
   }
 
   private buildPackingSummary(
     boxResult: BoxPackingResult,
     containerResult: ContainerPackingResult,
+    dimensionalWeightDivisor: number = WeightCalculator.getDimensionalWeightDivisor("freight"),
   ): PackingSummary {
     const boxRequirements: BoxRequirementSummary[] = this.summarizeBoxes(boxResult.boxes);
     const containerRequirements: ContainerRequirementSummary[] = this.summarizeContainers(containerResult.containers);
-    const packedContainerDimensions: PackedContainerDimension[] = this.buildContainerDimensions(containerResult.containers);
+    const packedContainerDimensions: PackedContainerDimension[] = this.buildContainerDimensions(
+      containerResult.containers,
+      dimensionalWeightDivisor,
+    );
     const hardware = this.summarizeHardware(boxResult);
-    const boxContents = this.buildBoxContents(boxResult.boxes);
+    const boxContents = this.buildBoxContents(boxResult.boxes, dimensionalWeightDivisor);
+    const materials = this.buildMaterialsSummary(boxResult.boxes, containerResult.containers);
 
-    return {
+    const summary: PackingSummary = {
       boxRequirements,
       containerRequirements,
       packedContainerDimensions,
       hardware,
       boxContents,
+      materials,
+    };
+    if (containerResult.containers.length > 0) {
+      summary.freightClassSummary = this.buildFreightClassSummary(containerResult.containers);
+      summary.containerManifest = this.buildContainerManifest(containerResult.containers, boxResult.boxes);
+      summary.truckLoadPlan = this.buildTruckLoadPlan(containerResult.containers);
+      summary.loadDiagrams = this.buildLoadDiagrams(containerResult.containers, boxResult.boxes);
+    }
+    return summary;
+  }
+
+  /**
+   * Which boxes and art tags go on each pallet or in each crate, for the loaders.
+   */
+  private buildContainerManifest(containers: Crate[], boxes: Box[]): ContainerManifestEntry[] {
+    return containers.map((container, index) => {
+      const manifestBoxes = container
+        .getContents()
+        .map((box) => ({
+          boxNumber: boxes.indexOf(box) + 1,
+          boxType: this.describeBoxType(box.getType()),
+          artTags: this.toArtTags(box.getContents()),
+          pieces: box.getTotalPieces(),
+          weightLbs: box.getTotalWeight(),
+        }))
+        .sort((a, b) => a.boxNumber - b.boxNumber);
+      const looseArt = container.getLooseArt();
+
+      return {
+        // Same numbering as buildContainerDimensions
+        containerId: `${this.describeContainerType(container.getType())} ${index + 1}`,
+        boxes: manifestBoxes,
+        looseArtTags: this.toArtTags(looseArt),
+        pieceCount:
+          manifestBoxes.reduce((sum, box) => sum + box.pieces, 0) + looseArt.reduce((sum, art) => sum + art.getQuantity(), 0),
+        weightLbs: container.getTotalWeight(),
+      };
+    });
+  }
+
+  /**
+   * Plans the truck for the pallets, crates and flat-packs and recommends the smallest vehicle that takes them.
+   */
+  private buildTruckLoadPlan(containers: Crate[]): TruckLoadPlan {
+    const units = containers.map((container, index) => this.measureTruckLoadUnit(container, index));
+    const loads = TruckLoadCalculator.planAll(units);
+    const chosen = TruckLoadCalculator.recommend(loads) ?? loads[loads.length - 1];
+
+    return {
+      ...(chosen.fits && { recommendedVehicle: chosen.vehicle.description }),
+      linearFeet: chosen.linearFeet,
+      totalWeightLbs: chosen.weightLbs,
+      vehicles: loads.map((load) => ({
+        vehicleId: load.vehicleId,
+        description: load.vehicle.description,
+        fits: load.fits,
+        linearFeet: load.linearFeet,
+        payloadLbs: load.vehicle.payloadLbs,
+        problems: load.problems,
+      })),
+      loadingSequence: chosen.placements.map((placement, index) => ({
+        step: index + 1,
+        containerId: placement.unit.id,
+        row: placement.row,
+        x: placement.x,
+        y: placement.y,
+        z: placement.z,
+        length: placement.length,
+        width: placement.width,
+        height: placement.unit.height,
+        weightLbs: placement.unit.weightLbs,
+        ...(placement.stackedOn && { stackedOn: placement.stackedOn.id }),
+      })),
+    };
+  }
+
+  /**
+   * Floor footprint and height of a loaded unit, as measured for the reports. Boxes hanging over a
+   * pallet deck widen the footprint.
+   */
+  private measureTruckLoadUnit(container: Crate, index: number): TruckLoadUnit {
+    const { length, width, height, weightLbs } = this.measureContainerLoad(container);
+    return {
+      // Same numbering as buildContainerDimensions
+      id: `${this.describeContainerType(container.getType())} ${index + 1}`,
+      containerKind: getPackagingSpecCatalog().containers[getCrateTypeLabel(container.getType())].containerKind,
+      length,
+      width,
+      height,
+      weightLbs,
+    };
+  }
+
+  /**
+   * Tag numbers of the given art, once each; split pieces and crate copies carry their original tag.
+   */
+  private toArtTags(art: Art[]): string[] {
+    return Array.from(new Set(art.map((piece) => this.resolveArtTag(piece.getId()))));
+  }
+
+  /**
+   * Undoes the renaming done while packing: `-split-N` for quantity splits, `-crate-N` for crate copies
+   * and, when the result is a known tag, `-N` for one-piece flat-packs.
+   */
+  private resolveArtTag(id: string, knownTags?: Set<string>): string {
+    let tag = id;
+    while (!knownTags?.has(tag)) {
+      const stripped = tag.replace(/-(?:split|crate)-\d+$/, "");
+      if (stripped !== tag) {
+        tag = stripped;
+        continue;
+      }
+      const pieceTag = tag.replace(/-\d+$/, "");
+      if (pieceTag === tag || !knownTags?.has(pieceTag)) {
+        break;
+      }
+      tag = pieceTag;
+    }
+    return tag;
+  }
+
+  /**
+   * Follows every CSV tag to the boxes and containers holding its pieces, so installers can find it by tag number.
+   */
+  private buildTagTrace(artItems: Art[], boxResult: BoxPackingResult, containerResult: ContainerPackingResult): TagTrace[] {
+    const knownTags = new Set(artItems.map((art) => art.getId()));
+    const traces = new Map<string, TagTrace>();
+    for (const art of artItems) {
+      const trace = traces.get(art.getId());
+      if (trace) {
+        trace.pieces += art.getQuantity();
+        continue;
+      }
+      traces.set(art.getId(), {
+        tag: art.getId(),
+        productType: art.getProductTypeLabel(),
+        pieces: art.getQuantity(),
+        locations: [],
+        unpackedPieces: 0,
+      });
+    }
+
+    const place = (art: Art, boxNumber: number | undefined, containerId: string | undefined) => {
+      const trace = traces.get(this.resolveArtTag(art.getId(), knownTags));
+      if (!trace) {
+        return;
+      }
+      const existing = trace.locations.find(
+        (location) => location.boxNumber === boxNumber && location.containerId === containerId,
+      );
+      if (existing) {
+        existing.pieces += art.getQuantity();
+      } else {
+        trace.locations.push({ ...(boxNumber !== undefined && { boxNumber }), ...(containerId && { containerId }), pieces: art.getQuantity() });
+      }
     };
+
+    // Same numbering as buildContainerDimensions and buildBoxContents
+    const containerIdByBox = new Map<Box, string>();
+    containerResult.containers.forEach((container, index) => {
+      const containerId = `${this.describeContainerType(container.getType())} ${index + 1}`;
+      container.getContents().forEach((box) => containerIdByBox.set(box, containerId));
+      container.getLooseArt().forEach((art) => place(art, undefined, containerId));
+    });
+    boxResult.boxes.forEach((box, index) => {
+      box.getContents().forEach((art) => place(art, index + 1, containerIdByBox.get(box)));
+    });
+
+    for (const art of boxResult.unassignedArt) {
+      const trace = traces.get(this.resolveArtTag(art.getId(), knownTags));
+      if (trace) {
+        trace.unpackedPieces += art.getQuantity();
+        trace.unpackedReason = boxResult.unassignedReasons[art.getId()] ?? "Needs custom handling";
+      }
+    }
+
+    return Array.from(traces.values()).map((trace) => ({
+      ...trace,
+      locations: trace.locations.sort(
+        (a, b) => (a.boxNumber ?? Infinity) - (b.boxNumber ?? Infinity) || (a.containerId ?? "").localeCompare(b.containerId ?? ""),
+      ),
+    }));
+  }
+
+  /**
+   * Load diagram data for every pallet, crate and flat-pack. Pallets use their deck layout; crates
+   * stack boxes flat with loose art standing on top, and flat-packs hold their piece lying flat.
+   */
+  private buildLoadDiagrams(containers: Crate[], boxes: Box[]): ContainerLoadDiagram[] {
+    return containers.map((container, index) => {
+      // Same numbering as buildContainerDimensions
+      const containerId = `${this.describeContainerType(container.getType())} ${index + 1}`;
+      const describeBox = (box: Box) => {
+        const boxNumber = boxes.indexOf(box) + 1;
+        return { boxNumber, label: `#${boxNumber}`, weightLbs: box.getTotalWeight() };
+      };
+
+      let items: LoadDiagramItem[] = [];
+      let base: { length: number; width: number };
+      let baseHeightInches = 0;
+
+      const layout = container.getPalletLayout();
+      if (layout) {
+        base = layout.deck;
+        baseHeightInches = getPackagingSpecCatalog().palletLayout.deckHeightInches;
+        items = layout.placements.map(({ box, layer, x, y, z, length, width, height }) => ({
+          ...describeBox(box),
+          layer,
+          x,
+          y,
+          z,
+          length,
+          width,
+          height,
+        }));
+      } else {
+        const interior = container.getInteriorDimensions() ?? { length: 0, width: 0, height: 0 };
+        const isFlatPack = container.getContainerKind() === ContainerKind.FlatPack;
+        const catalog = getPackagingSpecCatalog();
+        const padding = isFlatPack ? catalog.flatPackConstruction.paddingInches : catalog.crateConstruction.foamPaddingInches;
+        base = { length: interior.length, width: interior.width };
+
+        let z = padding;
+        for (const box of container.getContents()) {
+          const dims = box.getRequiredDimensions();
+          items.push({ ...describeBox(box), layer: items.length + 1, x: padding, y: padding, z, ...dims });
+          z += dims.height;
+        }
+
+        const looseArt = container.getLooseArt();
+        if (looseArt.length > 0) {
+          const longSide = Math.max(...looseArt.map((art) => Math.max(art.getDimensions().length, art.getDimensions().width)));
+          const shortSide = Math.max(...looseArt.map((art) => Math.min(art.getDimensions().length, art.getDimensions().width)));
+          const depth = looseArt.reduce((sum, art) => sum + art.getDimensions().height * art.getQuantity(), 0);
+          items.push({
+            label: looseArt.map((art) => art.getId()).join(", "),
+            layer: items.length + 1,
+            x: padding,
+            y: padding,
+            z,
+            length: longSide,
+            // Flat-packed pieces lie flat; crated pieces stand on their long edge side by side
+            width: isFlatPack ? shortSide : depth,
+            height: isFlatPack ? depth : shortSide,
+            weightLbs: Math.ceil(looseArt.reduce((sum, art) => sum + WeightCalculator.calculateWeight(art), 0)),
+          });
+        }
+      }
+
+      const layerNumbers = Array.from(new Set(items.map((item) => item.layer))).sort((a, b) => a - b);
+      const layers = layerNumbers.map((layer) => {
+        const layerItems = items.filter((item) => item.layer === layer);
+        return {
+          layer,
+          labels: layerItems.map((item) => item.label),
+          weightLbs: layerItems.reduce((sum, item) => sum + item.weightLbs, 0),
+        };
+      });
+
+      return { containerId, base, baseHeightInches, items, layers };
+    });
   }
 
-  private buildBoxContents(boxes: Box[]): Array<{
-    boxNumber: number;
-    boxType: string;
-    contents: Array<{ productType: string; quantity: number; itemIds: string[] }>;
-    totalPieces: number;
-    specialHandling: string[];
-    packingInstructions: string[];
-    label: string;
-  }> {
+  private buildBoxContents(boxes: Box[], dimensionalWeightDivisor: number): BoxContentsDetail[] {
     return boxes.map((box, index) => {
       const contents = box.getContents();
       const contentsSummary = new Map<string, { quantity: number; itemIds: string[] }>();
@@ -714,6 +1423,10 @@ export class PackagingInteractor {
         }
       }
       
+      if (box.isTeamLift()) {
+        specialHandling.push(`TEAM LIFT - ${box.getTotalWeight()} lbs, over the ${getPackagingSpecCatalog().maxGrossBoxWeightLbs} lb box limit`);
+      }
+
       // Generate packing instructions
       const isMixed = contentsSummary.size > 1;
       if (isMixed) {
@@ -743,6 +1456,8 @@ export class PackagingInteractor {
         specialHandling,
         packingInstructions,
         label,
+        weightLbs: box.getTotalWeight(),
+        ...this.measureBillableWeight(box.getRequiredDimensions(), box.getTotalWeight(), dimensionalWeightDivisor),
       };
     });
   }
@@ -789,18 +1504,182 @@ export class PackagingInteractor {
     return Array.from(groups.values());
   }
 
-  private buildContainerDimensions(containers: Crate[]): PackedContainerDimension[] {
+  private buildContainerDimensions(containers: Crate[], dimensionalWeightDivisor: number): PackedContainerDimension[] {
     return containers.map((container, index) => {
-      const boxes = container.getContents();
-      const footprint = this.calculateCrateFootprint(boxes);
+      const load = this.measureContainerLoad(container);
       return {
         containerId: `${this.describeContainerType(container.getType())} ${index + 1}`,
-        dimensions: `${footprint.length}\"x${footprint.width}\"x${Math.min(footprint.height, MAX_PALLET_HEIGHT_IN)}\"`,
-        weightLbs: container.getTotalWeight(),
+        dimensions: `${load.length}\"x${load.width}\"x${load.height}\"`,
+        weightLbs: load.weightLbs,
+        ...this.measureBillableWeight(load, load.weightLbs, dimensionalWeightDivisor),
+        densityLbPerCuFt: load.densityLbPerCuFt,
+        freightClass: load.freightClass,
       };
     });
   }
 
+  /**
+   * Loaded size, weight, density and suggested NMFC class of one pallet or crate.
+   * Crates report their built exterior size and pallets their deck layout, the same size the truck plan
+   * and clearance checks use. Without a layout, the stacked boxes are measured, capped at the stack limit.
+   */
+  private measureContainerLoad(container: Crate): {
+    length: number;
+    width: number;
+    height: number;
+    weightLbs: number;
+    densityLbPerCuFt: number;
+    freightClass: number;
+  } {
+    const exterior = container.getExteriorDimensions();
+    const layout = exterior ? null : container.getPalletLayout();
+    let dimensions = exterior ?? (layout && PalletLayoutCalculator.measure(layout));
+    if (!dimensions) {
+      const footprint = this.calculateCrateFootprint(container.getContents());
+      dimensions = {
+        length: footprint.length,
+        width: footprint.width,
+        height: Math.min(footprint.height, getPackagingSpecCatalog().maxStackHeightInches),
+      };
+    }
+    const weightLbs = container.getTotalWeight();
+    const densityLbPerCuFt = FreightClassCalculator.calculateDensity(dimensions, weightLbs);
+    return {
+      ...dimensions,
+      weightLbs,
+      densityLbPerCuFt,
+      freightClass: FreightClassCalculator.classifyDensity(densityLbPerCuFt),
+    };
+  }
+
+  private buildFreightClassSummary(containers: Crate[]): FreightClassSummary {
+    const loads = containers.map((container) => this.measureContainerLoad(container));
+    const byClass = new Map<number, { freightClass: number; units: number; weightLbs: number }>();
+    let totalWeight = 0;
+    let totalCubicInches = 0;
+
+    for (const load of loads) {
+      const line = byClass.get(load.freightClass) ?? { freightClass: load.freightClass, units: 0, weightLbs: 0 };
+      line.units += 1;
+      line.weightLbs += load.weightLbs;
+      byClass.set(load.freightClass, line);
+      totalWeight += load.weightLbs;
+      totalCubicInches += load.length * load.width * load.height;
+    }
+
+    const shipmentDensityLbPerCuFt = FreightClassCalculator.calculateDensityFromVolume(totalCubicInches, totalWeight);
+
+    return {
+      shipmentDensityLbPerCuFt,
+      shipmentFreightClass: FreightClassCalculator.classifyDensity(shipmentDensityLbPerCuFt),
+      byClass: Array.from(byClass.values()).sort((a, b) => a.freightClass - b.freightClass),
+    };
+  }
+
+  private measureBillableWeight(
+    dimensions: { length: number; width: number; height: number },
+    actualWeightLbs: number,
+    dimensionalWeightDivisor: number,
+  ): { dimensionalWeightLbs: number; billableWeightLbs: number } {
+    const dimensionalWeightLbs = WeightCalculator.calculateDimensionalWeight(dimensions, dimensionalWeightDivisor);
+    return {
+      dimensionalWeightLbs,
+      billableWeightLbs: WeightCalculator.calculateBillableWeight(actualWeightLbs, dimensionalWeightLbs),
+    };
+  }
+
+  /**
+   * Bill of materials for the packed shipment: every box, pallet and crate, plus the
+   * extensions, corner protectors, foam, bubble wrap and stretch wrap the catalog usage rates call for.
+   */
+  private buildMaterialsSummary(boxes: Box[], containers: Crate[]): MaterialsSummary {
+    const catalog = getPackagingSpecCatalog();
+    const usage = catalog.materialUsage;
+    const lines: MaterialsLine[] = [];
+
+    const addLine = (
+      materialId: string,
+      material: { description: string; unit: string; unitCost: number; unitWeightLbs: number },
+      quantity: number,
+    ) => {
+      if (quantity <= 0) {
+        return;
+      }
+      lines.push({
+        materialId,
+        ...material,
+        quantity,
+        totalCost: Math.round(quantity * material.unitCost * 100) / 100,
+        totalWeightLbs: Math.round(quantity * material.unitWeightLbs * 100) / 100,
+      });
+    };
+
+    const boxCounts = new Map<BoxType, number>();
+    for (const box of boxes) {
+      boxCounts.set(box.getType(), (boxCounts.get(box.getType()) ?? 0) + 1);
+    }
+    for (const [type, count] of boxCounts) {
+      const spec = catalog.boxes[getBoxTypeLabel(type)];
+      addLine(`${getBoxTypeLabel(type)}_BOX`, {
+        description: this.describeBoxType(type),
+        unit: "each",
+        unitCost: spec.unitCost,
+        unitWeightLbs: spec.tareWeight,
+      }, count);
+    }
+
+    // Crates are built to their contents, so their line carries the average built tare
+    const containerGroups = new Map<CrateType, { count: number; tareWeight: number }>();
+    for (const container of containers) {
+      const group = containerGroups.get(container.getType()) ?? { count: 0, tareWeight: 0 };
+      group.count += 1;
+      group.tareWeight += container.getTareWeight();
+      containerGroups.set(container.getType(), group);
+    }
+    for (const [type, group] of containerGroups) {
+      addLine(getCrateTypeLabel(type), {
+        description: this.describeContainerType(type),
+        unit: "each",
+        unitCost: catalog.containers[getCrateTypeLabel(type)].unitCost,
+        unitWeightLbs: Math.round((group.tareWeight / group.count) * 100) / 100,
+      }, group.count);
+    }
+
+    const packedArt = [...boxes.flatMap((box) => box.getContents()), ...containers.flatMap((container) => container.getLooseArt())];
+    const framedMaterials = new Set([
+      ArtMaterial.Glass,
+      ArtMaterial.Acrylic,
+      ArtMaterial.Mirror,
+      ArtMaterial.CanvasFramed,
+      ArtMaterial.AcousticPanelFramed,
+    ]);
+    const framedPieces = packedArt
+      .filter((art) => framedMaterials.has(art.getMaterial()))
+      .reduce((sum, art) => sum + art.getQuantity(), 0);
+    const faceAreaSqIn = packedArt.reduce((sum, art) => {
+      const dims = art.getDimensions();
+      return sum + dims.length * dims.width * art.getQuantity();
+    }, 0);
+    const pallets = containers.filter((container) => container.getContainerKind() === ContainerKind.Pallet).length;
+
+    const quantities: Record<PackingMaterialId, number> = {
+      TELESCOPING_EXTENSION: boxes.filter((box) => box.getTelescopingLength() !== null).length,
+      CORNER_PROTECTOR: framedPieces * usage.cornerProtectorsPerFramedPiece,
+      FOAM_SHEET: boxes.length * usage.foamSheetsPerBox,
+      BUBBLE_WRAP: Math.ceil((faceAreaSqIn * usage.bubbleWrapLayersPerPiece) / 144),
+      STRETCH_WRAP: pallets * usage.stretchWrapFeetPerPallet,
+    };
+    for (const id of PACKING_MATERIAL_IDS) {
+      addLine(id, catalog.packingMaterials[id], quantities[id]);
+    }
+
+    return {
+      lines,
+      totalCost: Math.round(lines.reduce((sum, line) => sum + line.totalCost, 0) * 100) / 100,
+      totalWeightLbs: Math.round(lines.reduce((sum, line) => sum + line.totalWeightLbs, 0) * 100) / 100,
+    };
+  }
+
   private summarizeHardware(boxResult: BoxPackingResult) {
     const hardwareLineItems = new Map<string, { totalPieces: number; artQuantity: number }>();
 
@@ -852,12 +1731,16 @@ export class PackagingInteractor {
   private buildBusinessIntelligence(
     request: PackagingRequest,
     boxResult: BoxPackingResult,
+    clientRulesApplied: string[] = [],
+    plannedCustomArt: Art[] = [],
   ): BusinessIntelligenceSummary {
-    const oversizeFlags = this.buildOversizeFlags(boxResult.boxes, boxResult.unassignedArt);
+    const oversizeFlags = this.buildOversizeFlags(boxResult.boxes, [...boxResult.unassignedArt, ...plannedCustomArt]);
     const mediumsToFlag = this.identifyMediumsToFlag(boxResult);
 
     return {
-      clientRulesApplied: ["Standard packing (no client restrictions)"],
+      clientRulesApplied: clientRulesApplied.length > 0
+        ? clientRulesApplied
+        : ["Standard packing (no client restrictions)"],
       oversizedItems: oversizeFlags,
       mediumsToFlag,
       alternativeRecommendations: [
@@ -930,8 +1813,11 @@ export class PackagingInteractor {
       box.getContents().some((art) => art.getProductType() === ArtType.Mirror),
     );
 
+    // Same numbering as buildBoxContents
+    const teamLiftBoxes = boxResult.boxes.flatMap((box, index) => (box.isTeamLift() ? [index + 1] : []));
+
     const flags: string[] = [];
-    if (!hasGlass && !hasMirrors) {
+    if (!hasGlass && !hasMirrors && teamLiftBoxes.length === 0) {
       flags.push("No high-risk items detected");
     } else {
       if (hasGlass) {
@@ -940,6 +1826,11 @@ export class PackagingInteractor {
       if (hasMirrors) {
         flags.push("Mirror items require crate review");
       }
+      if (teamLiftBoxes.length > 0) {
+        flags.push(
+          `Team lift: box(es) ${teamLiftBoxes.join(", ")} hold a single piece over the ${getPackagingSpecCatalog().maxGrossBoxWeightLbs} lb box limit`,
+        );
+      }
     }
 
     return flags;
@@ -951,15 +1842,15 @@ export class PackagingInteractor {
     finalShipmentWeight: number,
   ): FreightExportSummary {
     const containerLines = containerResult.containers.map((container) => {
-      const footprint = this.calculateCrateFootprint(container.getContents());
-      return `${footprint.length}\"x${footprint.width}\"x${Math.min(footprint.height, MAX_PALLET_HEIGHT_IN)}\" @ ${container.getTotalWeight()} lbs`;
+      const load = this.measureContainerLoad(container);
+      return `${load.length}\"x${load.width}\"x${load.height}\" @ ${load.weightLbs} lbs (Class ${load.freightClass})`;
     });
 
     return {
       subject: `Quote Request - ${request.clientName} - ${request.jobSiteLocation}`,
       shipmentDetails: [
         `Total Weight: ${finalShipmentWeight} lbs`,
-        `Pieces: ${containerResult.containers.length} pallets`,
+        `Pieces: ${this.countHandlingUnits(containerResult.containers)}`,
         `Dimensions: ${containerLines.join(", ")}`,
         `Pickup: ARCH Design, St. Louis, MO`,
         `Delivery: ${request.jobSiteLocation}`,
@@ -968,19 +1859,110 @@ export class PackagingInteractor {
     };
   }
 
+  /**
+   * Handling units by kind for the quote, e.g. "2 pallets, 1 crate, 1 flat-pack"; built-to-size crates and
+   * flat-packs ride with the pallets and must not be counted as pallets.
+   */
+  private countHandlingUnits(containers: Crate[]): string {
+    const kinds: Array<[ContainerKind, string, string]> = [
+      [ContainerKind.Pallet, "pallet", "pallets"],
+      [ContainerKind.Crate, "crate", "crates"],
+      [ContainerKind.FlatPack, "flat-pack", "flat-packs"],
+    ];
+    const counts = kinds
+      .map(([kind, singular, plural]) => {
+        const count = containers.filter((container) => container.getContainerKind() === kind).length;
+        return { count, label: `${count} ${count === 1 ? singular : plural}` };
+      })
+      .filter(({ count }) => count > 0)
+      .map(({ label }) => label);
+    return counts.length > 0 ? counts.join(", ") : "0 pallets";
+  }
+
+  private buildCustomPackagingPlans(planned: PlannedCustomUnit[], containers: Crate[]): CustomPackagingPlan[] {
+    return planned.map(({ art, unit, method, reason }) => {
+      const load = this.measureContainerLoad(unit);
+      const artWeightLbs = unit.getLooseArt().reduce((sum, piece) => sum + WeightCalculator.calculateWeight(piece), 0);
+      return {
+        artId: art.getId(),
+        pieces: unit.getLooseArt().reduce((sum, piece) => sum + piece.getQuantity(), 0),
+        method,
+        reason,
+        // Same numbering as buildContainerDimensions
+        containerId: `${this.describeContainerType(unit.getType())} ${containers.indexOf(unit) + 1}`,
+        dimensions: `${load.length}\"x${load.width}\"x${load.height}\"`,
+        tareWeightLbs: unit.getTareWeight(),
+        artWeightLbs,
+        weightLbs: load.weightLbs,
+      };
+    });
+  }
+
+  private buildParcelCartons(boxes: Box[], dimensionalWeightDivisor: number): ParcelCartonSummary[] {
+    return boxes.map((box, index) => {
+      const spec = box.getSpecification();
+      return {
+        cartonNumber: index + 1,
+        cartonType: this.describeBoxType(box.getType()),
+        dimensions: `${spec.innerLength}\"x${spec.innerWidth}\"x${spec.innerHeight}\"`,
+        weightLbs: box.getTotalWeight(),
+        ...this.measureBillableWeight(box.getRequiredDimensions(), box.getTotalWeight(), dimensionalWeightDivisor),
+        pieces: box.getTotalPieces(),
+      };
+    });
+  }
+
+  /**
+   * Parcel counterpart of the freight quote export: one line per carton instead of per pallet.
+   */
+  private buildParcelExport(request: PackagingRequest, cartons: ParcelCartonSummary[]): FreightExportSummary {
+    const totalWeight = cartons.reduce((sum, carton) => sum + carton.weightLbs, 0);
+    const cartonLines = cartons.map((carton) => `${carton.dimensions} @ ${carton.weightLbs} lbs`);
+
+    return {
+      subject: `UPS Shipment - ${request.clientName} - ${request.jobSiteLocation}`,
+      shipmentDetails: [
+        `Total Weight: ${totalWeight} lbs`,
+        `Pieces: ${cartons.length} UPS cartons`,
+        `Dimensions: ${cartonLines.join(", ")}`,
+        `Pickup: ARCH Design, St. Louis, MO`,
+        `Delivery: ${request.jobSiteLocation}`,
+      ],
+    };
+  }
+
   private buildWarnings(boxes: Box[]): string[] {
     const warnings: string[] = [];
 
     boxes.forEach((box, index) => {
       const telescopingLength = box.getTelescopingLength();
       if (telescopingLength !== null) {
-        warnings.push(`Box ${index + 1} telescoped to ${telescopingLength}\" (max ${MAX_PALLET_HEIGHT_IN}\")`);
+        warnings.push(`Box ${index + 1} telescoped to ${telescopingLength}\" (max ${getPackagingSpecCatalog().maxStackHeightInches}\")`);
       }
     });
 
     return warnings;
   }
 
+  /**
+   * Names the moulding codes missing from the catalog and the tags that use them, e.g.
+   * `Unknown frame moulding(s) 26930-BX (tags 3, 4); frame weight and depth are estimated without them.`
+   */
+  private buildUnknownMouldingWarning(artItems: Art[]): string | undefined {
+    const tagsByCode = new Map<string, string[]>();
+    for (const art of artItems) {
+      const code = art.getFrameMouldingLabel();
+      if (code !== undefined && art.hasUnknownFrameMoulding()) {
+        tagsByCode.set(code, [...(tagsByCode.get(code) ?? []), art.getId()]);
+      }
+    }
+    if (tagsByCode.size === 0) {
+      return undefined;
+    }
+    const codes = Array.from(tagsByCode, ([code, tags]) => `${code} (${tags.length === 1 ? "tag" : "tags"} ${tags.join(", ")})`);
+    return `Unknown frame moulding(s) ${codes.join(", ")}; frame weight and depth are estimated without them.`;
+  }
+
   private buildErrorMessages(boxResult: BoxPackingResult, containerResult: ContainerPackingResult): string[] {
     const errors: string[] = [];
 
@@ -995,6 +1977,44 @@ export class PackagingInteractor {
     return errors;
   }
 
+  /**
+   * For inside delivery, checks every box, pallet, crate and flat-pack against the site's doors, hallways,
+   * elevator and stairs, and says how to get each blocked one in.
+   */
+  private buildClearanceErrors(request: PackagingRequest, boxes: Box[], containers: Crate[]): string[] {
+    const clearances = request.siteClearances;
+    if (!clearances || !request.deliveryCapabilities.needsInsideDelivery) {
+      return [];
+    }
+
+    const suggestions: Record<string, string> = {
+      PALLET: "Break the pallet down at the door and carry its boxes in.",
+      CRATE: "Uncrate at the door and carry the pieces in, or re-box them in cartons.",
+      FLAT_PACK: "Plan another entrance or a rigging crew for this piece.",
+    };
+    const errors: string[] = [];
+    const report = (id: string, size: { length: number; width: number; height: number }, weightLbs: number, problems: string[], suggestion: string) => {
+      if (problems.length > 0) {
+        errors.push(`${id} (${size.length}"x${size.width}"x${size.height}", ${weightLbs} lbs) ${problems.join(" and ")}. ${suggestion}`);
+      }
+    };
+
+    containers.forEach((container, index) => {
+      const unit = this.measureTruckLoadUnit(container, index);
+      const problems = ClearanceCalculator.check({ ...unit, upright: unit.containerKind !== "FLAT_PACK" }, clearances);
+      report(unit.id, unit, unit.weightLbs, problems, suggestions[unit.containerKind]);
+    });
+    boxes.forEach((box, index) => {
+      const size = box.getRequiredDimensions();
+      const weightLbs = box.getTotalWeight();
+      const problems = ClearanceCalculator.check({ ...size, weightLbs, upright: false }, clearances);
+      // Same numbering as buildBoxContents
+      report(`Box ${index + 1}`, size, weightLbs, problems, "Re-box the pieces in smaller cartons or carry them in unboxed.");
+    });
+
+    return errors;
+  }
+
   private calculateCrateFootprint(boxes: Box[]): { length: number; width: number; height: number } {
     if (boxes.length === 0) {
       return { length: 0, width: 0, height: 0 };
@@ -1039,20 +2059,21 @@ export class PackagingInteractor {
         return "Glass pallet";
       case CrateType.StandardCrate:
         return "Standard crate";
+      case CrateType.FlatPack:
+        return "Flat-pack";
       default:
         return "Container";
     }
   }
 
   private describeContainerDimensions(type: CrateType): string {
+    const deck = getCrateSpecification(type).deck;
+    if (deck) {
+      return `${deck.length}\"x${deck.width}\"`;
+    }
     switch (type) {
-      case CrateType.StandardPallet:
-        return "48\"x40\"";
-      case CrateType.OversizePallet:
-        return "60\"x40\"";
-      case CrateType.GlassPallet:
-        return "43\"x35\"";
       case CrateType.StandardCrate:
+      case CrateType.FlatPack:
         return "Custom";
       default:
         return "Unknown";
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi } from 'vitest'
-import { ArtTranslator } from './ArtTranslator'
+import { ArtTranslator, UnknownMediumError } from './ArtTranslator'
 import { Art, ArtType, ArtMaterial } from '../entities/Art'
 
 describe('ArtTranslator', () => {
@@ -251,6 +251,32 @@ describe('ArtTranslator', () => {
       expect(() => ArtTranslator.fromCsvRow(csvRow)).toThrow('Unknown final medium')
     })
 
+    it('should name the closest catalog mediums for an unknown final medium', () => {
+      const csvRow = { ...baseCsvRow, finalMedium: 'Canvas - Galery Wrap' }
+
+      let thrown: unknown
+      try {
+        ArtTranslator.fromCsvRow(csvRow)
+      } catch (error) {
+        thrown = error
+      }
+
+      expect(thrown).toBeInstanceOf(UnknownMediumError)
+      expect((thrown as UnknownMediumError).label).toBe('Canvas - Galery Wrap')
+      expect((thrown as UnknownMediumError).suggestions[0]).toBe('Canvas - Gallery')
+      expect((thrown as Error).message).toMatch(/^Unknown final medium 'Canvas - Galery Wrap'; closest catalog mediums: Canvas - Gallery/)
+    })
+
+    it('should use the medium material for no-glazing and unknown glazing labels', () => {
+      const testCases = ['No Glass', 'N/A', 'UV Filter Pane']
+
+      testCases.forEach((glazing) => {
+        const art = ArtTranslator.fromCsvRow({ ...baseCsvRow, finalMedium: 'Canvas - Gallery', glazing })
+
+        expect(art.getMaterial()).toBe(ArtMaterial.CanvasGallery)
+      })
+    })
+
     it('should throw error for invalid dimensions', () => {
       const testCases = [
         { outsideWidth: 'invalid', outsideHeight: '45.3750' },
@@ -266,6 +292,66 @@ describe('ArtTranslator', () => {
       })
     })
 
+    it('should read fractional, feet and metric sizes and keep the original text', () => {
+      const art = ArtTranslator.fromCsvRow({ ...baseCsvRow, outsideWidth: '33-1/2"', outsideHeight: '85 cm' })
+
+      expect(art.getRawDimensions()).toMatchObject({ length: 33.5, width: 33.4646 })
+      expect(art.getSourceDimensions()).toEqual({ width: '33-1/2"', height: '85 cm' })
+    })
+
+    it('should name each dimension cell that cannot be read', () => {
+      const csvRow = { ...baseCsvRow, outsideWidth: '33 yd', outsideHeight: '' }
+
+      expect(() => ArtTranslator.fromCsvRow(csvRow)).toThrow(
+        "Invalid dimensions for 'Paper Print - Framed': " +
+          'Outside Size Width "33 yd" is not a size in inches, feet, cm or mm (e.g., 33.5, 33 1/2, 33-1/2", 2\' 9", 85 cm, 850mm); ' +
+          'Outside Size Height is empty (e.g., 33.5, 33 1/2, 33-1/2", 2\' 9", 85 cm, 850mm)'
+      )
+    })
+
+    it('should read optional depth and measured weight columns', () => {
+      const art = ArtTranslator.fromCsvRow({ ...baseCsvRow, depth: '1 1/2"', weight: '12.5 lbs' })
+
+      expect(art.getRawDimensions().height).toBe(1.5)
+      expect(art.getMeasuredWeightLbs()).toBe(12.5)
+      expect(ArtTranslator.fromCsvRow({ ...baseCsvRow, weight: '5 kg' }).getMeasuredWeightLbs()).toBe(11.02)
+
+      // Empty cells fall back to the medium's depth and the estimated weight
+      const estimated = ArtTranslator.fromCsvRow({ ...baseCsvRow, depth: '', weight: ' ' })
+      expect(estimated.getRawDimensions().height).toBe(1.83334)
+      expect(estimated.getMeasuredWeightLbs()).toBeUndefined()
+    })
+
+    it('should reject unreadable depth and weight cells', () => {
+      expect(() => ArtTranslator.fromCsvRow({ ...baseCsvRow, depth: '0' })).toThrow(
+        "Invalid dimensions for 'Paper Print - Framed': Depth \"0\" must be more than zero"
+      )
+      expect(() => ArtTranslator.fromCsvRow({ ...baseCsvRow, weight: 'heavy' })).toThrow(
+        "Invalid weight for 'Paper Print - Framed': Weight \"heavy\" is not a weight in lbs or kg (e.g., 12.5, 12.5 lbs, 5.7 kg)"
+      )
+      expect(() => ArtTranslator.fromCsvRow({ ...baseCsvRow, weight: '0' })).toThrow('Weight "0" must be more than zero')
+    })
+
+    it('should look up the frame moulding for its weight and depth', () => {
+      const framed = ArtTranslator.fromCsvRow({ ...baseCsvRow, frameMoulding: 'hw-300-wal' })
+
+      expect(framed.getFrameMouldingLabel()).toBe('hw-300-wal')
+      expect(framed.getFrameMoulding()).toEqual({ code: 'HW-300-WAL', weightLbPerLinearInch: 0.035, profileDepthInches: 2.25 })
+      expect(framed.getRawDimensions().height).toBe(2.25)
+      expect(ArtTranslator.fromCsvRow({ ...baseCsvRow, frameMoulding: 'HW-300-WAL', depth: '2' }).getRawDimensions().height).toBe(2)
+    })
+
+    it('should mark mouldings missing from the catalog and skip empty ones', () => {
+      const unknown = ArtTranslator.fromCsvRow(baseCsvRow)
+      expect(unknown.getFrameMoulding()).toBeUndefined()
+      expect(unknown.hasUnknownFrameMoulding()).toBe(true)
+      expect(unknown.getRawDimensions().height).toBe(1.83334)
+
+      const unframed = ArtTranslator.fromCsvRow({ ...baseCsvRow, frameMoulding: 'N/A' })
+      expect(unframed.getFrameMouldingLabel()).toBeUndefined()
+      expect(unframed.hasUnknownFrameMoulding()).toBe(false)
+    })
+
     it('should handle whitespace in all fields', () => {
       const csvRow = {
         lineNumber: '  1  ',
@@ -1,58 +1,36 @@
-import { Art, ArtType, ArtMaterial, SpecialHandlingFlag, ArtCreationOptions } from "../entities/Art";
+import { Art, ArtCreationOptions, FrameMoulding } from "../entities/Art";
+import { getPackagingSpecCatalog } from "../catalog/PackagingSpecCatalog";
+import { findGlazing, findMedium, normalizeCatalogLabel, suggestMediums } from "../catalog/MediumCatalog";
+import { parseDimension } from "./DimensionParser";
+
+const KG_TO_LBS = 2.20462;
+
+// Moulding cells that mean the piece has no frame
+const NO_MOULDING_VALUES = ["", "n/a", "na", "none", "-"];
+
+/**
+ * Thrown for a Final Medium that is not in the medium catalog, with the closest catalog mediums.
+ */
+export class UnknownMediumError extends Error {
+  constructor(
+    readonly label: string,
+    readonly suggestions: string[],
+  ) {
+    super(`Unknown final medium '${label}'${suggestions.length > 0 ? `; closest catalog mediums: ${suggestions.join(", ")}` : ""}`);
+    this.name = "UnknownMediumError";
+  }
+}
 
 /**
  * ArtTranslator handles the translation from CSV row data to Art entities.
  * This separates CSV parsing concerns from the domain entity.
  */
 export class ArtTranslator {
-  private static readonly FINAL_MEDIUM_MAP: Record<string, { type: ArtType; material: ArtMaterial; defaultFlags?: SpecialHandlingFlag[]; }> = {
-    "paper print - framed": { type: ArtType.PaperPrint, material: ArtMaterial.Glass },
-    "print - framed with title plate": { type: ArtType.PaperPrintWithTitlePlate, material: ArtMaterial.Glass },
-    "canvas - float frame": { type: ArtType.CanvasFloatFrame, material: ArtMaterial.CanvasFramed },
-    "canvas - framed": { type: ArtType.CanvasFloatFrame, material: ArtMaterial.CanvasFramed },
-    "canvas - gallery": { type: ArtType.CanvasFloatFrame, material: ArtMaterial.CanvasGallery },
-    "canvas": { type: ArtType.CanvasFloatFrame, material: ArtMaterial.CanvasFramed },
-    "wall decor": { type: ArtType.WallDecor, material: ArtMaterial.Unknown },
-    "wall décor": { type: ArtType.WallDecor, material: ArtMaterial.Unknown },
-    "metal print": { type: ArtType.MetalPrint, material: ArtMaterial.Acrylic },
-    "mirror": { type: ArtType.Mirror, material: ArtMaterial.Mirror },
-    "acoustic panel": { type: ArtType.AcousticPanel, material: ArtMaterial.AcousticPanel },
-    "acoustic panels": { type: ArtType.AcousticPanel, material: ArtMaterial.AcousticPanel },
-    "acoustic panel - framed": { type: ArtType.AcousticPanelFramed, material: ArtMaterial.AcousticPanelFramed },
-    "acoustic panels - framed": { type: ArtType.AcousticPanelFramed, material: ArtMaterial.AcousticPanelFramed },
-    "patient board": { type: ArtType.PatientBoard, material: ArtMaterial.PatientBoard },
-    // Print variations with raised mounting
-    "print - raised mat": { type: ArtType.PaperPrint, material: ArtMaterial.Glass, defaultFlags: [SpecialHandlingFlag.RaisedFloat] },
-    "print - raised float mount": { type: ArtType.PaperPrint, material: ArtMaterial.Glass, defaultFlags: [SpecialHandlingFlag.RaisedFloat] },
-    "print - raised float mount with title plate": { type: ArtType.PaperPrintWithTitlePlate, material: ArtMaterial.Glass, defaultFlags: [SpecialHandlingFlag.RaisedFloat] },
-    "print - raised float mount and raised mat": { type: ArtType.PaperPrint, material: ArtMaterial.Glass, defaultFlags: [SpecialHandlingFlag.RaisedFloat] },
-    "print - raised float mount and deckled edge": { type: ArtType.PaperPrint, material: ArtMaterial.Glass, defaultFlags: [SpecialHandlingFlag.RaisedFloat] },
-  };
-
-  private static readonly GLAZING_MAP: Record<string, ArtMaterial> = {
-    "regular glass": ArtMaterial.Glass,
-    "glass": ArtMaterial.Glass,
-    "acrylic": ArtMaterial.Acrylic,
-    // Additional glass types
-    "consv clear glass": ArtMaterial.Glass,
-    "museum glass": ArtMaterial.Glass,
-    "reflection control glass": ArtMaterial.Glass,
-    // Additional acrylic types
-    "regular acrylic": ArtMaterial.Acrylic,
-    "non-glare acrylic": ArtMaterial.Acrylic,
-    "mercy non-glare acrylic": ArtMaterial.Acrylic,
-    // Note: "no glass" is intentionally NOT mapped - it should use the finalMedium's default material
-  };
-
   /**
-   * Normalizes labels for consistent lookup - centralized normalization strategy
+   * Normalizes labels for consistent lookup - the same key the medium catalog uses
    */
   private static normalizeLabel(value: string | undefined): string {
-    return (value ?? "")
-      .trim()
-      .toLowerCase()
-      .normalize("NFD")
-      .replace(/[\u0300-\u036f]/g, "");
+    return normalizeCatalogLabel(value);
   }
 
   /**
@@ -72,26 +50,73 @@ export class ArtTranslator {
     return Number.isFinite(value) ? value : undefined;
   }
 
+  /**
+   * Looks up a moulding code in the packaging spec catalog, ignoring case
+   */
+  private static lookupMoulding(code: string): FrameMoulding | undefined {
+    const mouldings = getPackagingSpecCatalog().mouldings;
+    const catalogCode = Object.keys(mouldings).find((key) => key.toUpperCase() === code.toUpperCase());
+    if (!catalogCode) {
+      return undefined;
+    }
+    const { weightLbPerLinearInch, profileDepthInches } = mouldings[catalogCode];
+    return { code: catalogCode, weightLbPerLinearInch, profileDepthInches };
+  }
+
+  /**
+   * Parses a measured per-piece weight in lbs (the default) or kg. Empty cells mean the weight is estimated.
+   */
+  private static parseWeight(value: string | undefined, finalMedium: string | undefined): number | undefined {
+    const text = (value ?? "").trim();
+    if (!text) {
+      return undefined;
+    }
+
+    const match = text.toLowerCase().match(/^(\d+(?:\.\d+)?|\.\d+)\s*(lbs?|pounds?|#|kgs?|kilograms?)?\.?$/);
+    const weight = match ? Number(match[1]) : 0;
+    if (!match || weight === 0) {
+      const problem = match ? "must be more than zero" : "is not a weight in lbs or kg (e.g., 12.5, 12.5 lbs, 5.7 kg)";
+      throw new Error(`Invalid weight for '${finalMedium ?? ""}': Weight "${text}" ${problem}`);
+    }
+    return match[2]?.startsWith("k") ? Math.round(weight * KG_TO_LBS * 100) / 100 : weight;
+  }
+
   /**
    * Translates a CSV row into an Art entity
    */
   public static fromCsvRow(row: Record<string, string>): Art {
     const mediumKey = this.normalizeLabel(row.finalMedium);
-    const mediumInfo = this.FINAL_MEDIUM_MAP[mediumKey];
+    const mediumInfo = mediumKey ? findMedium(mediumKey) : undefined;
     if (!mediumInfo) {
-      throw new Error(`Unknown final medium '${row.finalMedium ?? ""}'`);
+      const label = row.finalMedium?.trim() ?? "";
+      throw new UnknownMediumError(label, mediumKey ? suggestMediums(label) : []);
     }
 
-    const glazingKey = this.normalizeLabel(row.glazing);
-    const glazingMaterial = glazingKey ? this.GLAZING_MAP[glazingKey] : undefined;
-    const material = glazingMaterial ?? mediumInfo.material;
-
-    const rawWidth = Number(row.outsideWidth ?? row.width);
-    const rawHeight = Number(row.outsideHeight ?? row.length);
+    // Unknown and no-glazing labels keep the medium's own material
+    const material = findGlazing(row.glazing)?.material ?? mediumInfo.material;
+
+    const dimensionProblems: string[] = [];
+    const readDimension = (column: string, value: string | undefined) => {
+      try {
+        return parseDimension(value ?? "");
+      } catch (error) {
+        dimensionProblems.push(`${column} ${error instanceof Error ? error.message : "is not a size"}`);
+        return undefined;
+      }
+    };
+    const parsedWidth = readDimension("Outside Size Width", row.outsideWidth ?? row.width);
+    const parsedHeight = readDimension("Outside Size Height", row.outsideHeight ?? row.length);
+    // Depth is optional; without it the art falls back to its medium's typical depth
+    const parsedDepth = row.depth?.trim() ? readDimension("Depth", row.depth) : undefined;
+    if (parsedDepth && parsedDepth.inches === 0) {
+      dimensionProblems.push(`Depth "${parsedDepth.originalText}" must be more than zero`);
+    }
 
-    if (!Number.isFinite(rawWidth) || !Number.isFinite(rawHeight)) {
-      throw new Error(`Invalid dimensions for '${row.finalMedium ?? ""}'`);
+    if (!parsedWidth || !parsedHeight || dimensionProblems.length > 0) {
+      throw new Error(`Invalid dimensions for '${row.finalMedium ?? ""}': ${dimensionProblems.join("; ")}`);
     }
+    const rawWidth = parsedWidth.inches;
+    const rawHeight = parsedHeight.inches;
 
     const quantity = Number(row.quantity ?? "1");
     const finalQuantity = Number.isFinite(quantity) && quantity > 0 ? quantity : 1;
@@ -99,6 +124,12 @@ export class ArtTranslator {
     const length = Math.max(rawWidth, rawHeight);
     const width = Math.min(rawWidth, rawHeight);
 
+    const measuredWeightLbs = this.parseWeight(row.weight, row.finalMedium);
+
+    const mouldingCell = row.frameMoulding?.trim() ?? "";
+    const frameMouldingLabel = NO_MOULDING_VALUES.includes(mouldingCell.toLowerCase()) ? undefined : mouldingCell;
+    const frameMoulding = frameMouldingLabel ? this.lookupMoulding(frameMouldingLabel) : undefined;
+
     const hardwareLabel = row.hardware?.trim();
     const hardwarePiecesPerItem = this.parseHardwarePieces(hardwareLabel);
 
@@ -106,19 +137,25 @@ export class ArtTranslator {
 
     const options: ArtCreationOptions = {
       id,
-      productType: mediumInfo.type,
+      productType: mediumInfo.productType,
       material,
       dimensions: {
         length,
         width,
+        // A measured depth wins over the moulding's profile
+        height: parsedDepth?.inches ?? frameMoulding?.profileDepthInches,
       },
       quantity: finalQuantity,
-      specialHandlingFlags: mediumInfo.defaultFlags,
+      specialHandlingFlags: mediumInfo.flags,
       description: row.finalMedium,
       finalMediumLabel: row.finalMedium,
       glazingLabel: row.glazing,
       hardwareLabel,
       hardwarePiecesPerItem,
+      sourceDimensions: { width: parsedWidth.originalText, height: parsedHeight.originalText },
+      measuredWeightLbs,
+      frameMouldingLabel,
+      frameMoulding,
     };
 
     return new Art(options);
@@ -1,13 +1,18 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
-import { parse, parseWithDiagnostics, validateCsvStructure, type ParseResult, type ParseError } from './CsvParser'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { parse, parseWithDiagnostics, validateCsvStructure, collectUnknownLabels, type ParseResult, type ParseError } from './CsvParser'
 import { Art, ArtType, ArtMaterial } from '../entities/Art'
+import { resetMediumCatalogCache } from '../catalog/MediumCatalog'
 
 // Mock fs modules
 vi.mock('node:fs/promises', () => ({
   readFile: vi.fn()
 }))
 
-vi.mock('node:fs', () => ({
+// Only the CSV stream is mocked; the medium catalog still reads its files (saved aliases point at a missing file below)
+vi.mock('node:fs', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('node:fs')>()),
   createReadStream: vi.fn()
 }))
 
@@ -22,6 +27,9 @@ describe('CsvParser', () => {
 
   beforeEach(async () => {
     vi.clearAllMocks()
+    // Aliases saved on the developer's machine must not change which mediums parse
+    process.env.MEDIUM_ALIASES_PATH = join(tmpdir(), 'csv-parser-test', 'missing-medium-aliases.json')
+    resetMediumCatalogCache()
     mockReadFile = vi.mocked((await import('node:fs/promises')).readFile)
     mockCreateReadStream = vi.mocked((await import('node:fs')).createReadStream)
     mockCsvParse = vi.mocked((await import('csv-parser')).default)
@@ -29,6 +37,8 @@ describe('CsvParser', () => {
 
   afterEach(() => {
     vi.restoreAllMocks()
+    delete process.env.MEDIUM_ALIASES_PATH
+    resetMediumCatalogCache()
   })
 
   describe('parse', () => {
@@ -286,6 +296,65 @@ describe('CsvParser', () => {
       expect(result.errors).toHaveLength(1)
       expect(result.errors[0].error).toContain('Unknown final medium')
     })
+
+    it('should suggest catalog entries for unknown mediums and glazings', async () => {
+      const csvFilePath = 'test.csv'
+      mockReadFile.mockResolvedValue('header,data')
+
+      const mockStream = {
+        pipe: vi.fn().mockReturnThis(),
+        on: vi.fn()
+      }
+      mockCreateReadStream.mockReturnValue(mockStream as any)
+      mockCsvParse.mockReturnValue(mockStream as any)
+
+      const baseRow = {
+        lineNumber: '1',
+        quantity: '1',
+        finalMedium: 'Paper Print - Framed',
+        outsideWidth: '31.3750',
+        outsideHeight: '45.3750',
+        glazing: 'Regular Glass',
+        frameMoulding: 'N/A',
+        hardware: '4 pt Sec'
+      }
+      const onCall = mockStream.on as any
+      onCall.mockImplementation((event: string, callback: Function) => {
+        if (event === 'data') {
+          callback({ ...baseRow, tagNumber: '1', finalMedium: 'Print - Float Mount w/ Spacer' })
+          callback({ ...baseRow, tagNumber: '2', glazing: 'Museum Glas' })
+          callback({ ...baseRow, tagNumber: '3', finalMedium: 'print - float mount w/ spacer' })
+          callback({ ...baseRow, tagNumber: '4', glazing: 'N/A' })
+        } else if (event === 'end') {
+          callback()
+        }
+        return mockStream
+      })
+
+      const result = await parseWithDiagnostics(csvFilePath)
+
+      expect(result.artItems).toHaveLength(2)
+      expect(result.errors[0]).toMatchObject({
+        row: 1,
+        unknownMedium: 'Print - Float Mount w/ Spacer',
+        error: expect.stringContaining("Unknown final medium 'Print - Float Mount w/ Spacer'; closest catalog mediums: Print - Raised Float Mount")
+      })
+      expect(result.errors[0].suggestions![0]).toBe('Print - Raised Float Mount')
+      expect(result.warnings).toEqual([
+        {
+          row: 2,
+          warning: "Unknown glazing 'Museum Glas'; the medium's own material is used; closest catalog glazings: Museum Glass",
+          unknownGlazing: 'Museum Glas',
+          suggestions: ['Museum Glass']
+        }
+      ])
+      expect(result.artItems[0].getMaterial()).toBe(ArtMaterial.Glass)
+
+      expect(collectUnknownLabels(result)).toEqual([
+        { kind: 'medium', label: 'Print - Float Mount w/ Spacer', rows: [1, 3], suggestions: result.errors[0].suggestions },
+        { kind: 'glazing', label: 'Museum Glas', rows: [2], suggestions: result.warnings[0].suggestions }
+      ])
+    })
   })
 
   describe('validateCsvStructure', () => {
@@ -2,7 +2,8 @@ import { readFile } from "node:fs/promises";
 import { createReadStream } from "node:fs";
 import csvParse from "csv-parser";
 import { Art } from "../entities/Art";
-import { ArtTranslator } from "./ArtTranslator";
+import { ArtTranslator, UnknownMediumError } from "./ArtTranslator";
+import { findGlazing, isNoGlazing, normalizeCatalogLabel, suggestGlazings, type MediumAliasKind } from "../catalog/MediumCatalog";
 
 const HEADER_ALIASES: Record<string, string> = {
   "line number": "lineNumber",
@@ -21,9 +22,17 @@ const HEADER_ALIASES: Record<string, string> = {
   "frame 1 moulding": "frameMoulding",
   "frame1moulding": "frameMoulding",
   hardware: "hardware",
+  // Optional measured columns
+  depth: "depth",
+  "outside size depth": "depth",
+  "outsidesizedepth": "depth",
+  weight: "weight",
+  "weight (lbs)": "weight",
+  "piece weight": "weight",
+  "actual weight": "weight",
 };
 
-const REQUIRED_COLUMNS = [
+export const REQUIRED_COLUMNS = [
   "lineNumber",
   "quantity",
   "tagNumber",
@@ -35,10 +44,64 @@ const REQUIRED_COLUMNS = [
   "hardware",
 ];
 
+/**
+ * Every work-order field a column can be mapped to: the required columns, then the optional ones.
+ */
+export const WORK_ORDER_FIELDS = [...REQUIRED_COLUMNS, "depth", "weight"];
+
+/**
+ * How a foreign CSV layout maps onto the work-order fields.
+ */
+export interface ColumnMapping {
+  /** Source header → work-order field, e.g. { "Qty": "quantity", "W": "outsideWidth" }. Headers match ignoring case. */
+  columns: Record<string, string>;
+  /** Values for fields the file has no column for, e.g. { "glazing": "N/A" }. */
+  defaults?: Record<string, string>;
+}
+
+/**
+ * The first rows of a CSV as they will be imported.
+ */
+export interface CsvPreview {
+  /** Each source header and the work-order field it maps to; no field means the column is ignored. */
+  columns: Array<{ header: string; field?: string }>;
+  /** The first rows keyed by work-order field, with defaults filled in. */
+  rows: Array<Record<string, string>>;
+  /** Required fields that no column or default supplies. */
+  missingFields: string[];
+}
+
+/**
+ * Maps a source header to its field name: the mapping's columns first, then the known work-order headers.
+ */
+function mapHeader(header: string, mapping?: ColumnMapping): string {
+  const cleaned = header.trim().replace(/"/g, "");
+  const normalized = cleaned.toLowerCase();
+  const mappedHeader = mapping && Object.keys(mapping.columns).find((source) => source.trim().toLowerCase() === normalized);
+  if (mappedHeader !== undefined) {
+    return mapping!.columns[mappedHeader];
+  }
+  return HEADER_ALIASES[normalized] ?? cleaned.replace(/[^a-zA-Z0-9]+/g, "");
+}
+
+/**
+ * Fills the mapping's default values for fields the row has no column for.
+ */
+function applyDefaults(row: Record<string, string>, mapping?: ColumnMapping): Record<string, string> {
+  const missing = Object.entries(mapping?.defaults ?? {}).filter(([field]) => !(field in row));
+  return missing.length > 0 ? { ...row, ...Object.fromEntries(missing) } : row;
+}
+
+function findMissingFields(fields: string[], mapping?: ColumnMapping): string[] {
+  return REQUIRED_COLUMNS.filter((col) => !fields.includes(col) && mapping?.defaults?.[col] === undefined);
+}
+
 
 export interface ParseResult {
   artItems: Art[];
   errors: ParseError[];
+  /** Rows that parsed but lost detail, such as an unknown frame moulding. */
+  warnings: ParseWarning[];
   totalRows: number;
   validRows: number;
 }
@@ -47,6 +110,28 @@ export interface ParseError {
   row: number;
   error: string;
   data?: Record<string, string>;
+  /** The row's Final Medium when the medium catalog doesn't know it. */
+  unknownMedium?: string;
+  /** Closest catalog entries to the unknown medium or glazing, best first. */
+  suggestions?: string[];
+}
+
+export interface ParseWarning {
+  row: number;
+  warning: string;
+  /** The row's Glazing when the medium catalog doesn't know it. */
+  unknownGlazing?: string;
+  suggestions?: string[];
+}
+
+/**
+ * A medium or glazing label the catalog doesn't know, with the rows that use it.
+ */
+export interface UnknownLabel {
+  kind: MediumAliasKind;
+  label: string;
+  rows: number[];
+  suggestions: string[];
 }
 
 /**
@@ -62,8 +147,8 @@ export interface ParseError {
  * - Consider returning both Art[] and a diagnostics object if partial failures must be
  *   reported upstream. For the initial milestone, returning Art[] is sufficient.
  */
-export async function parse(csvFilePath: string): Promise<Art[]> {
-  const result = await parseWithDiagnostics(csvFilePath);
+export async function parse(csvFilePath: string, mapping?: ColumnMapping): Promise<Art[]> {
+  const result = await parseWithDiagnostics(csvFilePath, mapping);
   
   // For backward compatibility, return just the art items
   // Log errors to stderr for visibility
@@ -73,16 +158,20 @@ export async function parse(csvFilePath: string): Promise<Art[]> {
       console.error(`  Row ${error.row}: ${error.error}`);
     });
   }
+  result.warnings.forEach(warning => {
+    console.error(`Warning: Row ${warning.row}: ${warning.warning}`);
+  });
   
   return result.artItems;
 }
 
 /**
- * Enhanced parse function that returns detailed diagnostics
+ * Enhanced parse function that returns detailed diagnostics. A column mapping reads a foreign CSV layout.
  */
-export async function parseWithDiagnostics(csvFilePath: string): Promise<ParseResult> {
+export async function parseWithDiagnostics(csvFilePath: string, mapping?: ColumnMapping): Promise<ParseResult> {
   const artItems: Art[] = [];
   const errors: ParseError[] = [];
+  const warnings: ParseWarning[] = [];
   let totalRows = 0;
   let validRows = 0;
 
@@ -98,27 +187,22 @@ export async function parseWithDiagnostics(csvFilePath: string): Promise<ParseRe
     
     stream
       .pipe(csvParse({
-        mapHeaders: ({ header }) => {
-          const cleaned = header.trim().replace(/"/g, "");
-          const normalized = cleaned.toLowerCase();
-          return HEADER_ALIASES[normalized] ?? cleaned.replace(/[^a-zA-Z0-9]+/g, "");
-        },
+        mapHeaders: ({ header }) => mapHeader(header, mapping),
       }))
-      .on('data', (row: Record<string, string>) => {
+      .on('data', (sourceRow: Record<string, string>) => {
         // Skip empty rows (all values are empty strings or whitespace)
-        const hasContent = Object.values(row).some(val => val && val.trim() !== '');
+        const hasContent = Object.values(sourceRow).some(val => val && val.trim() !== '');
         if (!hasContent) {
           return;
         }
+        const row = applyDefaults(sourceRow, mapping);
         
         totalRows++;
         
         try {
           // Validate required columns exist - check for case variations
           const rowKeys = Object.keys(row);
-          const missingColumns = REQUIRED_COLUMNS.filter((col) =>
-            !rowKeys.includes(col)
-          );
+          const missingColumns = findMissingFields(rowKeys);
           
           if (missingColumns.length > 0) {
             errors.push({
@@ -133,12 +217,33 @@ export async function parseWithDiagnostics(csvFilePath: string): Promise<ParseRe
           const art = ArtTranslator.fromCsvRow(row);
           artItems.push(art);
           validRows++;
+          if (art.hasUnknownFrameMoulding()) {
+            warnings.push({
+              row: totalRows,
+              warning: `Unknown frame moulding '${art.getFrameMouldingLabel()}'; its weight and depth are not included`,
+            });
+          }
+          const glazing = row.glazing?.trim() ?? "";
+          if (!isNoGlazing(glazing) && !findGlazing(glazing)) {
+            const suggestions = suggestGlazings(glazing);
+            const closest = suggestions.length > 0 ? `; closest catalog glazings: ${suggestions.join(", ")}` : "";
+            warnings.push({
+              row: totalRows,
+              warning: `Unknown glazing '${glazing}'; the medium's own material is used${closest}`,
+              unknownGlazing: glazing,
+              suggestions,
+            });
+          }
           
         } catch (error) {
           errors.push({
             row: totalRows,
             error: error instanceof Error ? error.message : 'Unknown parsing error',
-            data: row
+            data: row,
+            ...(error instanceof UnknownMediumError && {
+              unknownMedium: error.label,
+              suggestions: error.suggestions,
+            }),
           });
         }
       })
@@ -146,6 +251,7 @@ export async function parseWithDiagnostics(csvFilePath: string): Promise<ParseRe
         resolve({
           artItems,
           errors,
+          warnings,
           totalRows,
           validRows
         });
@@ -156,10 +262,39 @@ export async function parseWithDiagnostics(csvFilePath: string): Promise<ParseRe
   });
 }
 
+/**
+ * Groups the unknown mediums and glazings in a parse result by label, in the order they first appear.
+ */
+export function collectUnknownLabels(result: ParseResult): UnknownLabel[] {
+  const labels = new Map<string, UnknownLabel>();
+  const add = (kind: MediumAliasKind, label: string, row: number, suggestions: string[] = []) => {
+    const key = `${kind}:${normalizeCatalogLabel(label)}`;
+    const existing = labels.get(key);
+    if (existing) {
+      existing.rows.push(row);
+    } else {
+      labels.set(key, { kind, label, rows: [row], suggestions });
+    }
+  };
+
+  result.errors.forEach((error) => {
+    if (error.unknownMedium) {
+      add("medium", error.unknownMedium, error.row, error.suggestions);
+    }
+  });
+  result.warnings.forEach((warning) => {
+    if (warning.unknownGlazing) {
+      add("glazing", warning.unknownGlazing, warning.row, warning.suggestions);
+    }
+  });
+
+  return [...labels.values()];
+}
+
 /**
  * Validates CSV file structure and returns column information
  */
-export async function validateCsvStructure(csvFilePath: string): Promise<{
+export async function validateCsvStructure(csvFilePath: string, mapping?: ColumnMapping): Promise<{
   headers: string[];
   isValid: boolean;
   errors: string[];
@@ -171,15 +306,9 @@ export async function validateCsvStructure(csvFilePath: string): Promise<{
     const firstLine = await readFile(csvFilePath, 'utf8').then(content => content.split('\n')[0]);
     headers = firstLine.split(',').map(h => h.trim().replace(/"/g, ''));
     
-    const normalized = headers.map((h) => {
-      const cleaned = h.trim().replace(/"/g, "");
-      const lower = cleaned.toLowerCase();
-      return HEADER_ALIASES[lower] ?? cleaned.replace(/[^a-zA-Z0-9]+/g, "");
-    });
+    const normalized = headers.map((h) => mapHeader(h, mapping));
 
-    const missingColumns = REQUIRED_COLUMNS.filter((col) =>
-      !normalized.includes(col)
-    );
+    const missingColumns = findMissingFields(normalized, mapping);
     
     if (missingColumns.length > 0) {
       errors.push(`Missing required columns: ${missingColumns.join(', ')}`);
@@ -195,3 +324,45 @@ export async function validateCsvStructure(csvFilePath: string): Promise<{
     errors
   };
 }
+
+/**
+ * Reads the header and first rows of a CSV through a column mapping, so a new layout can be checked before import.
+ */
+export async function previewCsv(csvFilePath: string, mapping?: ColumnMapping, rowLimit: number = 5): Promise<CsvPreview> {
+  const columns: CsvPreview["columns"] = [];
+  const rows: CsvPreview["rows"] = [];
+
+  return new Promise((resolve, reject) => {
+    const stream = createReadStream(csvFilePath, { encoding: 'utf8' });
+    const finish = () => {
+      const fields = [...columns.map((column) => column.field ?? ""), ...Object.keys(mapping?.defaults ?? {})];
+      resolve({ columns, rows, missingFields: findMissingFields(fields) });
+    };
+
+    stream
+      .on('error', (error) => reject(new Error(`Cannot read CSV file '${csvFilePath}': ${error.message}`)))
+      .pipe(csvParse({
+        mapHeaders: ({ header }) => {
+          const field = mapHeader(header, mapping);
+          columns.push({
+            header: header.trim().replace(/"/g, ""),
+            field: WORK_ORDER_FIELDS.includes(field) ? field : undefined,
+          });
+          return field;
+        },
+      }))
+      .on('data', (row: Record<string, string>) => {
+        if (rows.length >= rowLimit || !Object.values(row).some((value) => value && value.trim() !== '')) {
+          return;
+        }
+        const mapped = applyDefaults(row, mapping);
+        rows.push(Object.fromEntries(WORK_ORDER_FIELDS.filter((field) => field in mapped).map((field) => [field, mapped[field]])));
+        if (rows.length >= rowLimit) {
+          stream.destroy();
+          finish();
+        }
+      })
+      .on('end', finish)
+      .on('error', (error) => reject(new Error(`CSV parsing failed: ${error.message}`)));
+  });
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import { parseDimension } from './DimensionParser'
+
+describe('DimensionParser', () => {
+  describe('parseDimension', () => {
+    it('should read decimals, fractions and inch marks', () => {
+      const cases: Array<[string, number]> = [
+        ['31.3750', 31.375],
+        ['33 1/2', 33.5],
+        ['33-1/2"', 33.5],
+        ['33.5 in', 33.5],
+        ['33 inches', 33],
+        ['3/4', 0.75],
+        ['33½”', 33.5],
+        ["33 1/2''", 33.5]
+      ]
+
+      cases.forEach(([text, inches]) => {
+        expect(parseDimension(text).inches).toBe(inches)
+      })
+    })
+
+    it('should convert feet and metric sizes to inches', () => {
+      const cases: Array<[string, number]> = [
+        ["2' 9-1/2\"", 33.5],
+        ['2ft 9in', 33],
+        ["3'", 36],
+        ['85 cm', 33.4646],
+        ['850mm', 33.4646],
+        ['1.2 M', 47.2441]
+      ]
+
+      cases.forEach(([text, inches]) => {
+        expect(parseDimension(text).inches).toBe(inches)
+      })
+    })
+
+    it('should keep the original text', () => {
+      expect(parseDimension('  33-1/2"  ')).toEqual({ inches: 33.5, originalText: '33-1/2"' })
+    })
+
+    it('should reject text that is not a single size', () => {
+      const rejected = ['', 'invalid', 'NaN', '33 x 40', '33 yd', '33 1', '1/0', '85 cm 2 mm', '-5']
+
+      rejected.forEach((text) => {
+        expect(() => parseDimension(text)).toThrow()
+      })
+      expect(() => parseDimension('33 yd')).toThrow(
+        `"33 yd" is not a size in inches, feet, cm or mm (e.g., 33.5, 33 1/2, 33-1/2", 2' 9", 85 cm, 850mm)`
+      )
+      expect(() => parseDimension('  ')).toThrow('is empty')
+    })
+  })
+})
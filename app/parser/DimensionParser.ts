@@ -0,0 +1,109 @@
+/**
+ * A size read from a work-order cell, converted to inches.
+ */
+export interface ParsedDimension {
+  inches: number;
+  /** The cell text as written, e.g. `33-1/2"` or `85 cm`. */
+  originalText: string;
+}
+
+export const DIMENSION_FORMAT_HINT = `e.g., 33.5, 33 1/2, 33-1/2", 2' 9", 85 cm, 850mm`;
+
+const INCHES_PER_UNIT: Record<string, number> = {
+  '"': 1,
+  in: 1,
+  inch: 1,
+  inches: 1,
+  "'": 12,
+  ft: 12,
+  foot: 12,
+  feet: 12,
+  mm: 1 / 25.4,
+  cm: 1 / 2.54,
+  m: 100 / 2.54,
+};
+
+const FEET_UNITS = ["'", "ft", "foot", "feet"];
+const INCH_UNITS = ['"', "in", "inch", "inches"];
+
+const UNICODE_FRACTIONS: Record<string, string> = {
+  "¼": "1/4",
+  "½": "1/2",
+  "¾": "3/4",
+  "⅛": "1/8",
+  "⅜": "3/8",
+  "⅝": "5/8",
+  "⅞": "7/8",
+};
+
+/**
+ * One number with an optional fraction and unit: `33`, `33.5`, `33 1/2`, `33-1/2"`, `1/2`, `85cm`, `2'`.
+ */
+const SEGMENT = /\s*(\d+(?:\.\d+)?|\.\d+)(?:(?:\s+|\s*-\s*)(\d+)\s*\/\s*(\d+)|\s*\/\s*(\d+))?\s*(mm|cm|m|inches|inch|in|feet|foot|ft|"|')?/y;
+
+/**
+ * Straightens typographic quotes and spells out fraction characters so `33½”` reads like `33 1/2"`.
+ */
+function normalize(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/[″”“]|''/g, '"')
+    .replace(/[′’‘]/g, "'")
+    .replace(/[¼½¾⅛⅜⅝⅞]/g, (fraction) => ` ${UNICODE_FRACTIONS[fraction]}`);
+}
+
+/**
+ * Reads a size in inches (the default), feet and inches, or metric units, and converts it to inches
+ * rounded to four decimals. Throws when the text is not a single size.
+ */
+export function parseDimension(text: string): ParsedDimension {
+  const originalText = text.trim();
+  const normalized = normalize(text);
+  const invalid = new Error(`"${originalText}" is not a size in inches, feet, cm or mm (${DIMENSION_FORMAT_HINT})`);
+  if (!normalized) {
+    throw new Error(`is empty (${DIMENSION_FORMAT_HINT})`);
+  }
+
+  const segments: Array<{ value: number; unit?: string }> = [];
+  let position = 0;
+  while (position < normalized.length) {
+    SEGMENT.lastIndex = position;
+    const match = SEGMENT.exec(normalized);
+    if (!match || match[0].length === 0) {
+      throw invalid;
+    }
+    const [, whole, numerator, mixedDenominator, denominator, unit] = match;
+    let value = Number(whole);
+    if (numerator !== undefined) {
+      if (Number(mixedDenominator) === 0) {
+        throw invalid;
+      }
+      value += Number(numerator) / Number(mixedDenominator);
+    } else if (denominator !== undefined) {
+      if (Number(denominator) === 0) {
+        throw invalid;
+      }
+      value /= Number(denominator);
+    }
+    segments.push({ value, unit });
+    position = SEGMENT.lastIndex;
+  }
+
+  let inches: number;
+  if (segments.length === 1) {
+    const [{ value, unit }] = segments;
+    inches = value * (unit ? INCHES_PER_UNIT[unit] : 1);
+  } else if (
+    segments.length === 2 &&
+    FEET_UNITS.includes(segments[0].unit ?? "") &&
+    (segments[1].unit === undefined || INCH_UNITS.includes(segments[1].unit))
+  ) {
+    // Feet and inches, as in 2' 9-1/2"
+    inches = segments[0].value * 12 + segments[1].value;
+  } else {
+    throw invalid;
+  }
+
+  return { inches: Math.round(inches * 10000) / 10000, originalText };
+}
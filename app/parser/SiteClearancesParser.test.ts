@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import { parseSiteClearances, formatSiteClearances } from './SiteClearancesParser'
+
+describe('SiteClearancesParser', () => {
+  describe('parseSiteClearances', () => {
+    it('should read doors, hallways, elevators and stairs', () => {
+      expect(
+        parseSiteClearances('door=36x80, hallway=44, elevator=54 x 80 x 96, elevator-door=42, elevator-limit=2500, stairs=yes')
+      ).toEqual({
+        doorWidthInches: 36,
+        doorHeightInches: 80,
+        hallwayWidthInches: 44,
+        elevator: { cabWidthInches: 54, cabDepthInches: 80, cabHeightInches: 96, doorWidthInches: 42, weightLimitLbs: 2500 },
+        hasStairs: true
+      })
+    })
+
+    it('should accept an empty spec and partial specs', () => {
+      expect(parseSiteClearances('')).toEqual({})
+      expect(parseSiteClearances('Stairs=no')).toEqual({ hasStairs: false })
+    })
+
+    it('should list every problem in one error', () => {
+      expect(() => parseSiteClearances('door=36, hallway=wide, ramp=1:12, stairs=maybe')).toThrow(
+        'Invalid site clearances: door must be width x height in inches (e.g., 36x80), got "36"; ' +
+          'hallway must be a width in inches, got "wide"; ' +
+          'unknown clearance "ramp" (expected door, hallway, elevator, elevator-door, elevator-limit, stairs); ' +
+          'stairs must be yes or no, got "maybe"'
+      )
+    })
+
+    it('should require both an elevator cab and a weight limit', () => {
+      expect(() => parseSiteClearances('elevator=54x80x96')).toThrow(
+        'elevator needs both a cab size (elevator=WxDxH) and a weight limit (elevator-limit=LBS)'
+      )
+      expect(() => parseSiteClearances('elevator-limit=2500')).toThrow('elevator needs both')
+    })
+  })
+
+  describe('formatSiteClearances', () => {
+    it('should write a spec that parses back to the same clearances', () => {
+      const spec = 'door=36x80, hallway=44, elevator=54x80x96, elevator-limit=2500, stairs=no'
+
+      expect(formatSiteClearances(parseSiteClearances(spec))).toBe(spec)
+      expect(formatSiteClearances({})).toBe('')
+    })
+  })
+})
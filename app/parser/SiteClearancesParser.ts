@@ -0,0 +1,129 @@
+import type { SiteClearances } from "../requests/PackagingRequest";
+
+const YES_VALUES = ["y", "yes", "true", "1"];
+const NO_VALUES = ["n", "no", "false", "0"];
+
+const CLEARANCE_KEYS = ["door", "hallway", "elevator", "elevator-door", "elevator-limit", "stairs"];
+
+/**
+ * Reads `WxH` style sizes in inches; returns undefined unless there are exactly `count` positive numbers.
+ */
+function parseSize(value: string, count: number): number[] | undefined {
+  const parts = value.split(/\s*[x×]\s*/i).map((part) => Number(part.trim()));
+  if (parts.length !== count || parts.some((part) => !Number.isFinite(part) || part <= 0)) {
+    return undefined;
+  }
+  return parts;
+}
+
+/**
+ * Parses a site clearance spec such as
+ * `door=36x80, hallway=44, elevator=54x80x96, elevator-door=42, elevator-limit=2500, stairs=no`.
+ * Sizes are inches (door is width x height, elevator is cab width x depth x height) and the limit is lbs.
+ * Every part is optional, but an elevator needs both its cab size and weight limit. Throws with every problem listed.
+ */
+export function parseSiteClearances(spec: string): SiteClearances {
+  const errors: string[] = [];
+  const clearances: SiteClearances = {};
+  let elevatorCab: number[] | undefined;
+  let elevatorDoor: number | undefined;
+  let elevatorLimit: number | undefined;
+
+  for (const part of spec.split(",").map((entry) => entry.trim()).filter(Boolean)) {
+    const [rawKey, ...rest] = part.split("=");
+    const key = rawKey.trim().toLowerCase();
+    const value = rest.join("=").trim();
+
+    switch (key) {
+      case "door": {
+        const size = parseSize(value, 2);
+        if (size) {
+          [clearances.doorWidthInches, clearances.doorHeightInches] = size;
+        } else {
+          errors.push(`door must be width x height in inches (e.g., 36x80), got "${value}"`);
+        }
+        break;
+      }
+      case "hallway": {
+        const size = parseSize(value, 1);
+        if (size) {
+          [clearances.hallwayWidthInches] = size;
+        } else {
+          errors.push(`hallway must be a width in inches, got "${value}"`);
+        }
+        break;
+      }
+      case "elevator":
+        elevatorCab = parseSize(value, 3);
+        if (!elevatorCab) {
+          errors.push(`elevator must be cab width x depth x height in inches (e.g., 54x80x96), got "${value}"`);
+        }
+        break;
+      case "elevator-door":
+        elevatorDoor = parseSize(value, 1)?.[0];
+        if (elevatorDoor === undefined) {
+          errors.push(`elevator-door must be a width in inches, got "${value}"`);
+        }
+        break;
+      case "elevator-limit":
+        elevatorLimit = parseSize(value, 1)?.[0];
+        if (elevatorLimit === undefined) {
+          errors.push(`elevator-limit must be a weight in lbs, got "${value}"`);
+        }
+        break;
+      case "stairs": {
+        const normalized = value.toLowerCase();
+        if (YES_VALUES.includes(normalized) || NO_VALUES.includes(normalized)) {
+          clearances.hasStairs = YES_VALUES.includes(normalized);
+        } else {
+          errors.push(`stairs must be yes or no, got "${value}"`);
+        }
+        break;
+      }
+      default:
+        errors.push(`unknown clearance "${rawKey.trim()}" (expected ${CLEARANCE_KEYS.join(", ")})`);
+    }
+  }
+
+  if (elevatorCab && elevatorLimit !== undefined) {
+    const [cabWidthInches, cabDepthInches, cabHeightInches] = elevatorCab;
+    clearances.elevator = { cabWidthInches, cabDepthInches, cabHeightInches, weightLimitLbs: elevatorLimit };
+    if (elevatorDoor !== undefined) {
+      clearances.elevator.doorWidthInches = elevatorDoor;
+    }
+  } else if (elevatorCab || elevatorLimit !== undefined || elevatorDoor !== undefined) {
+    if (!errors.some((error) => error.startsWith("elevator"))) {
+      errors.push("elevator needs both a cab size (elevator=WxDxH) and a weight limit (elevator-limit=LBS)");
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid site clearances: ${errors.join("; ")}`);
+  }
+  return clearances;
+}
+
+/**
+ * Writes clearances back in the spec format parseSiteClearances reads.
+ */
+export function formatSiteClearances(clearances: SiteClearances): string {
+  const parts: string[] = [];
+  if (clearances.doorWidthInches !== undefined && clearances.doorHeightInches !== undefined) {
+    parts.push(`door=${clearances.doorWidthInches}x${clearances.doorHeightInches}`);
+  }
+  if (clearances.hallwayWidthInches !== undefined) {
+    parts.push(`hallway=${clearances.hallwayWidthInches}`);
+  }
+  const elevator = clearances.elevator;
+  if (elevator) {
+    parts.push(`elevator=${elevator.cabWidthInches}x${elevator.cabDepthInches}x${elevator.cabHeightInches}`);
+    if (elevator.doorWidthInches !== undefined) {
+      parts.push(`elevator-door=${elevator.doorWidthInches}`);
+    }
+    parts.push(`elevator-limit=${elevator.weightLimitLbs}`);
+  }
+  if (clearances.hasStairs !== undefined) {
+    parts.push(`stairs=${clearances.hasStairs ? "yes" : "no"}`);
+  }
+  return parts.join(", ");
+}
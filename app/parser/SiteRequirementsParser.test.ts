@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest'
+import { writeFile, unlink } from 'node:fs/promises'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import {
+  parseSiteRequirements,
+  selectSiteRequirements,
+  fromSiteRow,
+  DEFAULT_SITE_CAPABILITIES,
+} from './SiteRequirementsParser'
+
+const HEADER = 'Location,Client,Accepts pallets,Accepts crates,LD Access,LG required,Inside Delivery,Service type'
+
+async function withTempCsv<T>(content: string, run: (path: string) => Promise<T>): Promise<T> {
+  const tempPath = join(tmpdir(), `site-req-${Date.now()}-${Math.random()}.csv`)
+  await writeFile(tempPath, content)
+  try {
+    return await run(tempPath)
+  } finally {
+    await unlink(tempPath).catch(() => {})
+  }
+}
+
+describe('SiteRequirementsParser', () => {
+  describe('parseSiteRequirements', () => {
+    it('should parse the shipped Site_requirements.csv layout with N/A defaults', async () => {
+      const sites = await withTempCsv(`${HEADER}\nN/A,N/A,Y,N,N/A,N,N/A,N/A`, parseSiteRequirements)
+
+      expect(sites).toHaveLength(1)
+      expect(sites[0]).toEqual({
+        location: undefined,
+        clientName: undefined,
+        serviceType: undefined,
+        deliveryCapabilities: {
+          acceptsPallets: true,
+          acceptsCrates: false,
+          hasLoadingDock: DEFAULT_SITE_CAPABILITIES.hasLoadingDock,
+          requiresLiftgate: false,
+          needsInsideDelivery: DEFAULT_SITE_CAPABILITIES.needsInsideDelivery,
+        },
+      })
+    })
+
+    it('should read client, location and service type when present', async () => {
+      const content = `${HEADER}\n"Chevy Chase, MD",MedStar,N,Y,Y,Y,Y,Delivery Only`
+      const sites = await withTempCsv(content, parseSiteRequirements)
+
+      expect(sites[0]).toEqual({
+        location: 'Chevy Chase, MD',
+        clientName: 'MedStar',
+        serviceType: 'Delivery Only',
+        deliveryCapabilities: {
+          acceptsPallets: false,
+          acceptsCrates: true,
+          hasLoadingDock: true,
+          requiresLiftgate: true,
+          needsInsideDelivery: true,
+        },
+      })
+    })
+
+    it('should skip blank rows and keep one entry per site', async () => {
+      const content = `${HEADER}\nSite A,Client A,Y,N,Y,N,N,Delivery Only\n,,,,,,,\nSite B,Client B,N,Y,N,Y,Y,Delivery + Installation`
+      const sites = await withTempCsv(content, parseSiteRequirements)
+
+      expect(sites.map(site => site.location)).toEqual(['Site A', 'Site B'])
+    })
+
+    it('should reject unrecognized capability values', async () => {
+      await expect(
+        withTempCsv(`${HEADER}\nSite A,Client A,maybe,N,Y,N,N,Delivery Only`, parseSiteRequirements)
+      ).rejects.toThrow('Invalid acceptsPallets value "maybe" on site requirements row 1')
+    })
+
+    it('should reject a sheet without site rows', async () => {
+      await expect(withTempCsv(`${HEADER}\n`, parseSiteRequirements)).rejects.toThrow('has no site rows')
+    })
+
+    it('should fail with a descriptive error when the file is missing', async () => {
+      await expect(parseSiteRequirements('/nonexistent/site.csv')).rejects.toThrow(
+        "Cannot access site requirements file '/nonexistent/site.csv'"
+      )
+    })
+  })
+
+  describe('fromSiteRow', () => {
+    it('should treat blank cells like N/A', () => {
+      const site = fromSiteRow({ location: '', clientName: ' ', acceptsPallets: '', acceptsCrates: 'yes' }, 1)
+
+      expect(site.location).toBeUndefined()
+      expect(site.clientName).toBeUndefined()
+      expect(site.deliveryCapabilities.acceptsPallets).toBe(DEFAULT_SITE_CAPABILITIES.acceptsPallets)
+      expect(site.deliveryCapabilities.acceptsCrates).toBe(true)
+    })
+  })
+
+  describe('selectSiteRequirements', () => {
+    const siteA = { location: 'Site A', deliveryCapabilities: DEFAULT_SITE_CAPABILITIES }
+    const siteB = { location: 'Site B', deliveryCapabilities: DEFAULT_SITE_CAPABILITIES }
+
+    it('should match the location case-insensitively', () => {
+      expect(selectSiteRequirements([siteA, siteB], 'site b')).toBe(siteB)
+    })
+
+    it('should use the only row when the sheet has one site', () => {
+      expect(selectSiteRequirements([siteA], 'Elsewhere')).toBe(siteA)
+      expect(selectSiteRequirements([siteA])).toBe(siteA)
+    })
+
+    it('should require a location when the sheet has several sites', () => {
+      expect(() => selectSiteRequirements([siteA, siteB])).toThrow('specify a job site location')
+      expect(() => selectSiteRequirements([siteA, siteB], 'Site C')).toThrow(
+        "No site requirements row for location 'Site C'. Known locations: Site A, Site B"
+      )
+    })
+  })
+})
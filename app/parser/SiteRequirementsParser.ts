@@ -0,0 +1,183 @@
+import { access, constants } from "node:fs/promises";
+import { createReadStream } from "node:fs";
+import csvParse from "csv-parser";
+import type { DeliveryCapabilities } from "../requests/PackagingRequest";
+
+const SITE_HEADER_ALIASES: Record<string, string> = {
+  location: "location",
+  "job site location": "location",
+  client: "clientName",
+  "client name": "clientName",
+  "accepts pallets": "acceptsPallets",
+  "accepts crates": "acceptsCrates",
+  "ld access": "hasLoadingDock",
+  "loading dock": "hasLoadingDock",
+  "has loading dock": "hasLoadingDock",
+  "lg required": "requiresLiftgate",
+  "liftgate required": "requiresLiftgate",
+  "requires liftgate": "requiresLiftgate",
+  "inside delivery": "needsInsideDelivery",
+  "needs inside delivery": "needsInsideDelivery",
+  "service type": "serviceType",
+};
+
+const CAPABILITY_COLUMNS: ReadonlyArray<keyof DeliveryCapabilities> = [
+  "acceptsPallets",
+  "acceptsCrates",
+  "hasLoadingDock",
+  "requiresLiftgate",
+  "needsInsideDelivery",
+];
+
+const NOT_APPLICABLE_VALUES = ["", "n/a", "na", "-"];
+
+/**
+ * Capability values used when the site sheet says N/A (or leaves the cell blank).
+ * These mirror the GUI form defaults: pallets are accepted, everything else is assumed
+ * unavailable/unneeded until the site tells us otherwise.
+ */
+export const DEFAULT_SITE_CAPABILITIES: DeliveryCapabilities = {
+  acceptsPallets: true,
+  acceptsCrates: false,
+  hasLoadingDock: false,
+  requiresLiftgate: false,
+  needsInsideDelivery: false,
+};
+
+/** Service type assumed when the site sheet does not specify one. */
+export const DEFAULT_SITE_SERVICE_TYPE = "Delivery + Installation";
+
+/** Placeholder used for client/location when neither the sheet nor the caller provides one. */
+export const SITE_NOT_SPECIFIED = "N/A";
+
+/**
+ * SiteRequirements is one row of the Site_requirements.csv sheet.
+ * Text fields are undefined when the sheet says N/A so callers can fall back to their own values.
+ */
+export interface SiteRequirements {
+  location?: string;
+  clientName?: string;
+  serviceType?: string;
+  deliveryCapabilities: DeliveryCapabilities;
+}
+
+function normalizeHeader(header: string): string {
+  const cleaned = header.trim().replace(/"/g, "");
+  return SITE_HEADER_ALIASES[cleaned.toLowerCase()] ?? cleaned.replace(/[^a-zA-Z0-9]+/g, "");
+}
+
+function isNotApplicable(value: string | undefined): boolean {
+  return NOT_APPLICABLE_VALUES.includes((value ?? "").trim().toLowerCase());
+}
+
+function parseText(value: string | undefined): string | undefined {
+  return isNotApplicable(value) ? undefined : value!.trim();
+}
+
+function parseCapability(value: string | undefined, column: keyof DeliveryCapabilities, row: number): boolean {
+  if (isNotApplicable(value)) {
+    return DEFAULT_SITE_CAPABILITIES[column];
+  }
+
+  const normalized = value!.trim().toLowerCase();
+  if (["y", "yes", "true", "1"].includes(normalized)) {
+    return true;
+  }
+  if (["n", "no", "false", "0"].includes(normalized)) {
+    return false;
+  }
+
+  throw new Error(
+    `Invalid ${column} value "${value}" on site requirements row ${row}. Accepted values: Y/N, yes/no, true/false, 1/0, N/A.`,
+  );
+}
+
+/**
+ * Translates a normalized site requirements row into SiteRequirements.
+ */
+export function fromSiteRow(row: Record<string, string>, rowNumber: number): SiteRequirements {
+  const capabilities = {} as Record<keyof DeliveryCapabilities, boolean>;
+  for (const column of CAPABILITY_COLUMNS) {
+    capabilities[column] = parseCapability(row[column], column, rowNumber);
+  }
+
+  return {
+    location: parseText(row.location),
+    clientName: parseText(row.clientName),
+    serviceType: parseText(row.serviceType),
+    deliveryCapabilities: capabilities,
+  };
+}
+
+/**
+ * Reads a site requirements CSV (Location, Client, Accepts pallets, Accepts crates, LD Access,
+ * LG required, Inside Delivery, Service type) and returns one entry per non-empty row.
+ */
+export async function parseSiteRequirements(filePath: string): Promise<SiteRequirements[]> {
+  try {
+    await access(filePath, constants.R_OK);
+  } catch (error) {
+    throw new Error(`Cannot access site requirements file '${filePath}': ${error instanceof Error ? error.message : "Unknown error"}`);
+  }
+
+  return new Promise((resolve, reject) => {
+    const sites: SiteRequirements[] = [];
+    let rowNumber = 0;
+    let failed = false;
+
+    createReadStream(filePath, { encoding: "utf8" })
+      .pipe(csvParse({ mapHeaders: ({ header }) => normalizeHeader(header) }))
+      .on("data", (row: Record<string, string>) => {
+        const hasContent = Object.values(row).some((val) => val && val.trim() !== "");
+        if (!hasContent || failed) {
+          return;
+        }
+
+        rowNumber++;
+        try {
+          sites.push(fromSiteRow(row, rowNumber));
+        } catch (error) {
+          failed = true;
+          reject(error);
+        }
+      })
+      .on("end", () => {
+        if (failed) {
+          return;
+        }
+        if (sites.length === 0) {
+          reject(new Error(`Site requirements file '${filePath}' has no site rows.`));
+          return;
+        }
+        resolve(sites);
+      })
+      .on("error", (error) => {
+        reject(new Error(`Site requirements parsing failed: ${error.message}`));
+      });
+  });
+}
+
+/**
+ * Picks the site row for a job. A row whose Location matches (case-insensitive) wins;
+ * a single-row sheet is used as-is; otherwise the caller must name the location.
+ */
+export function selectSiteRequirements(sites: SiteRequirements[], location?: string): SiteRequirements {
+  if (location) {
+    const wanted = location.trim().toLowerCase();
+    const match = sites.find((site) => site.location?.toLowerCase() === wanted);
+    if (match) {
+      return match;
+    }
+  }
+
+  if (sites.length === 1) {
+    return sites[0];
+  }
+
+  const known = sites.map((site) => site.location ?? "N/A").join(", ");
+  throw new Error(
+    location
+      ? `No site requirements row for location '${location}'. Known locations: ${known}`
+      : `Site requirements file has ${sites.length} rows; specify a job site location. Known locations: ${known}`,
+  );
+}
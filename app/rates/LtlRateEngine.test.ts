@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest'
+import { LtlRateEngine } from './LtlRateEngine'
+import { LtlRateTables, findDestinationZone } from './LtlRateTables'
+import { DeliveryCapabilities } from '../requests/PackagingRequest'
+
+const tables: LtlRateTables = {
+  originZone: 'STL',
+  zones: [
+    { zone: 'MID-ATLANTIC', match: ['MD', 'Maryland', 'DC'] },
+    { zone: 'MIDWEST', match: ['MO', 'IL', 'St. Louis'] }
+  ],
+  lanes: [
+    {
+      originZone: 'STL',
+      destinationZone: 'MID-ATLANTIC',
+      minimumCharge: 200,
+      fuelSurchargePercent: 25,
+      classRates: [
+        { freightClass: 85, weightBreaks: [{ minWeightLbs: 0, ratePerCwt: 60 }, { minWeightLbs: 1000, ratePerCwt: 40 }] },
+        { freightClass: 125, weightBreaks: [{ minWeightLbs: 0, ratePerCwt: 90 }, { minWeightLbs: 1000, ratePerCwt: 70 }] }
+      ]
+    }
+  ],
+  accessorials: { liftgate: 75, insideDelivery: 120 }
+}
+
+const dockSite: DeliveryCapabilities = {
+  acceptsPallets: true,
+  acceptsCrates: false,
+  hasLoadingDock: true,
+  requiresLiftgate: false,
+  needsInsideDelivery: false
+}
+
+describe('LtlRateEngine', () => {
+  it('should match destination zones on whole words in the job site location', () => {
+    expect(findDestinationZone(tables.zones, 'Olney, MD 20832')?.zone).toBe('MID-ATLANTIC')
+    expect(findDestinationZone(tables.zones, '1 Main St, St. Louis')?.zone).toBe('MIDWEST')
+    // "MD" inside another word is not a match
+    expect(findDestinationZone(tables.zones, 'Amdale')).toBeUndefined()
+  })
+
+  it('should charge each class line at the weight break the shipment reaches', () => {
+    const quote = LtlRateEngine.quote(
+      tables,
+      [{ weightLbs: 600, freightClass: 85 }, { weightLbs: 500, freightClass: 125 }],
+      dockSite,
+      'Olney, MD'
+    )
+
+    // 1100 lbs total reaches the 1000 lb break: 6 cwt * 40 + 5 cwt * 70 = 590
+    expect(quote.linehaul).toBe(590)
+    expect(quote.minimumApplied).toBe(false)
+    expect(quote.fuelSurcharge).toBe(147.5)
+    expect(quote.accessorials).toEqual([])
+    expect(quote.total).toBe(737.5)
+  })
+
+  it('should apply the lane minimum and liftgate and inside delivery fees', () => {
+    const quote = LtlRateEngine.quote(
+      tables,
+      [{ weightLbs: 150, freightClass: 85 }],
+      { ...dockSite, requiresLiftgate: true, needsInsideDelivery: true },
+      'Washington, DC'
+    )
+
+    expect(quote.linehaul).toBe(200)
+    expect(quote.minimumApplied).toBe(true)
+    expect(quote.accessorials).toEqual([
+      { name: 'Liftgate', amount: 75 },
+      { name: 'Inside delivery', amount: 120 }
+    ])
+    expect(quote.total).toBe(200 + 50 + 75 + 120)
+  })
+
+  it('should rate a class missing from the table at the next class up', () => {
+    const quote = LtlRateEngine.quote(tables, [{ weightLbs: 400, freightClass: 100 }], dockSite, 'Olney, MD')
+
+    expect(quote.linehaul).toBe(360)
+    expect(quote.notes).toEqual(['Class 100 is not in the STL-MID-ATLANTIC table; rated as class 125.'])
+  })
+
+  it('should explain when no zone, lane or class covers the shipment', () => {
+    expect(() => LtlRateEngine.quote(tables, [], dockSite, 'Austin, TX')).toThrow(
+      "No rate zone matches job site location 'Austin, TX'."
+    )
+    expect(() => LtlRateEngine.quote(tables, [], dockSite, 'Chicago, IL')).toThrow('No rate lane from STL to MIDWEST.')
+    expect(() => LtlRateEngine.quote(tables, [{ weightLbs: 100, freightClass: 250 }], dockSite, 'Olney, MD')).toThrow(
+      'No rate for class 250 or higher from STL to MID-ATLANTIC.'
+    )
+  })
+})
@@ -0,0 +1,125 @@
+import type { DeliveryCapabilities } from "../requests/PackagingRequest";
+import { ClassRate, LtlRateTables, RateLane, findDestinationZone } from "./LtlRateTables";
+
+/**
+ * A pallet or crate to be rated: its weight and the NMFC class suggested for it.
+ */
+export interface RatedHandlingUnit {
+  weightLbs: number;
+  freightClass: number;
+}
+
+export interface LtlAccessorialCharge {
+  name: string;
+  amount: number;
+}
+
+export interface LtlRateQuote {
+  originZone: string;
+  destinationZone: string;
+  weightLbs: number;
+  /** Class-line charges, raised to the lane minimum when below it. */
+  linehaul: number;
+  minimumApplied: boolean;
+  fuelSurcharge: number;
+  accessorials: LtlAccessorialCharge[];
+  total: number;
+  /** Anything the estimate had to assume (e.g., a class rated at the next class up). */
+  notes: string[];
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * LtlRateEngine prices a freight shipment from the local rate tables.
+ * Each class line is charged per hundredweight at the weight break the whole shipment reaches.
+ */
+export class LtlRateEngine {
+  /**
+   * Estimates the cost of shipping the handling units to the job site.
+   * Throws when the tables have no lane or class that covers the shipment.
+   */
+  public static quote(
+    tables: LtlRateTables,
+    units: readonly RatedHandlingUnit[],
+    deliveryCapabilities: DeliveryCapabilities,
+    jobSiteLocation: string,
+  ): LtlRateQuote {
+    const zone = findDestinationZone(tables.zones, jobSiteLocation);
+    if (!zone) {
+      throw new Error(`No rate zone matches job site location '${jobSiteLocation}'.`);
+    }
+
+    const lane = tables.lanes.find(
+      (candidate) => candidate.originZone === tables.originZone && candidate.destinationZone === zone.zone,
+    );
+    if (!lane) {
+      throw new Error(`No rate lane from ${tables.originZone} to ${zone.zone}.`);
+    }
+
+    const notes: string[] = [];
+    const weightLbs = units.reduce((sum, unit) => sum + unit.weightLbs, 0);
+    const weightByClass = new Map<number, number>();
+    for (const unit of units) {
+      weightByClass.set(unit.freightClass, (weightByClass.get(unit.freightClass) ?? 0) + unit.weightLbs);
+    }
+
+    let classCharges = 0;
+    for (const [freightClass, classWeight] of weightByClass) {
+      const classRate = this.findClassRate(lane, freightClass);
+      if (classRate.freightClass !== freightClass) {
+        notes.push(`Class ${freightClass} is not in the ${lane.originZone}-${lane.destinationZone} table; rated as class ${classRate.freightClass}.`);
+      }
+      classCharges += (classWeight / 100) * this.findRatePerCwt(classRate, weightLbs);
+    }
+
+    const minimumApplied = classCharges < lane.minimumCharge;
+    const linehaul = roundCents(Math.max(classCharges, lane.minimumCharge));
+    const fuelSurcharge = roundCents((linehaul * lane.fuelSurchargePercent) / 100);
+
+    const accessorials: LtlAccessorialCharge[] = [];
+    if (deliveryCapabilities.requiresLiftgate && tables.accessorials.liftgate !== undefined) {
+      accessorials.push({ name: "Liftgate", amount: tables.accessorials.liftgate });
+    }
+    if (deliveryCapabilities.needsInsideDelivery && tables.accessorials.insideDelivery !== undefined) {
+      accessorials.push({ name: "Inside delivery", amount: tables.accessorials.insideDelivery });
+    }
+
+    const total = roundCents(linehaul + fuelSurcharge + accessorials.reduce((sum, fee) => sum + fee.amount, 0));
+
+    return {
+      originZone: lane.originZone,
+      destinationZone: lane.destinationZone,
+      weightLbs,
+      linehaul,
+      minimumApplied,
+      fuelSurcharge,
+      accessorials,
+      total,
+      notes,
+    };
+  }
+
+  /**
+   * Exact class when the lane lists it, otherwise the next class up (the conservative price).
+   */
+  private static findClassRate(lane: RateLane, freightClass: number): ClassRate {
+    const candidates = lane.classRates
+      .filter((rate) => rate.freightClass >= freightClass)
+      .sort((a, b) => a.freightClass - b.freightClass);
+    if (candidates.length === 0) {
+      throw new Error(`No rate for class ${freightClass} or higher from ${lane.originZone} to ${lane.destinationZone}.`);
+    }
+    return candidates[0];
+  }
+
+  private static findRatePerCwt(classRate: ClassRate, shipmentWeightLbs: number): number {
+    const reached = classRate.weightBreaks
+      .filter((weightBreak) => shipmentWeightLbs >= weightBreak.minWeightLbs)
+      .sort((a, b) => b.minWeightLbs - a.minWeightLbs);
+    // Store validation guarantees a 0 lb break, so every weight reaches one
+    return reached[0].ratePerCwt;
+  }
+}
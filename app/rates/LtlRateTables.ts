@@ -0,0 +1,60 @@
+/**
+ * Destination zone of the local LTL rate tables, picked by matching the job site location.
+ */
+export interface RateZone {
+  readonly zone: string;
+  /** Words matched case-insensitively against the job site location (state codes, cities, ZIP prefixes). */
+  readonly match: readonly string[];
+}
+
+export interface WeightBreakRate {
+  /** Shipment weight this rate starts at (0 for the base rate). */
+  readonly minWeightLbs: number;
+  /** Dollars per hundred pounds. */
+  readonly ratePerCwt: number;
+}
+
+export interface ClassRate {
+  readonly freightClass: number;
+  readonly weightBreaks: readonly WeightBreakRate[];
+}
+
+/**
+ * Rates for one origin zone → destination zone lane.
+ */
+export interface RateLane {
+  readonly originZone: string;
+  readonly destinationZone: string;
+  readonly minimumCharge: number;
+  readonly fuelSurchargePercent: number;
+  readonly classRates: readonly ClassRate[];
+}
+
+/**
+ * Flat fees added when the job site's delivery capabilities call for them.
+ */
+export interface AccessorialFees {
+  readonly liftgate?: number;
+  readonly insideDelivery?: number;
+}
+
+export interface LtlRateTables {
+  /** Zone our shipments are picked up from. */
+  readonly originZone: string;
+  readonly zones: readonly RateZone[];
+  readonly lanes: readonly RateLane[];
+  readonly accessorials: AccessorialFees;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Returns the first zone with a match word found in the job site location, if any.
+ */
+export function findDestinationZone(zones: readonly RateZone[], jobSiteLocation: string): RateZone | undefined {
+  return zones.find((zone) =>
+    zone.match.some((word) => new RegExp(`(^|[^A-Za-z0-9])${escapeRegExp(word.trim())}($|[^A-Za-z0-9])`, "i").test(jobSiteLocation)),
+  );
+}
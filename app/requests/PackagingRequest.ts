@@ -1,4 +1,6 @@
 import { Art } from "../entities/Art";
+import type { ClientRuleProfile } from "../rules/ClientRuleProfile";
+import type { LtlRateTables } from "../rates/LtlRateTables";
 
 export interface DeliveryCapabilities {
   readonly acceptsPallets: boolean;
@@ -8,6 +10,37 @@ export interface DeliveryCapabilities {
   readonly needsInsideDelivery: boolean;
 }
 
+/**
+ * Freight elevator on the way to the install floor.
+ */
+export interface ElevatorClearance {
+  cabWidthInches: number;
+  cabDepthInches: number;
+  cabHeightInches: number;
+  /** Door opening; the cab width is assumed when omitted. */
+  doorWidthInches?: number;
+  weightLimitLbs: number;
+}
+
+/**
+ * Narrowest points on the route from the truck to the install room. Only checked for inside delivery.
+ */
+export interface SiteClearances {
+  doorWidthInches?: number;
+  doorHeightInches?: number;
+  hallwayWidthInches?: number;
+  elevator?: ElevatorClearance;
+  /** Stairs on the route, so nothing can be rolled on a pallet jack or dolly. */
+  hasStairs?: boolean;
+}
+
+/**
+ * How the shipment leaves the studio: palletized LTL freight, or UPS parcel cartons.
+ */
+export type ShippingMode = "freight" | "parcel";
+
+export const SHIPPING_MODES: readonly ShippingMode[] = ["freight", "parcel"];
+
 /**
  * PackagingRequest captures the normalized input for the packageEverything use case.
  * Implementers updating this interface should keep it in sync with cli/main.ts argument
@@ -26,4 +59,12 @@ export interface PackagingRequest {
   readonly serviceType: string;
   /** Delivery capabilities/constraints communicated by the job site. */
   readonly deliveryCapabilities: DeliveryCapabilities;
+  /** Door, hallway, elevator and stair limits for inside delivery. */
+  readonly siteClearances?: SiteClearances;
+  /** Rule profile matched to the client, when the client has special packing rules. */
+  readonly clientRules?: ClientRuleProfile;
+  /** Shipping mode; freight when omitted. */
+  readonly shippingMode?: ShippingMode;
+  /** Local LTL rate tables; when present, freight responses include a cost estimate per strategy. */
+  readonly rateTables?: LtlRateTables;
 }
@@ -1,3 +1,17 @@
+/**
+ * One work-order line's weight, marked as weighed or estimated from area and material.
+ */
+export interface ArtworkWeightLine {
+  /** CSV tag number. */
+  tag: string;
+  productType: string;
+  pieces: number;
+  weightPerPieceLbs: number;
+  weightLbs: number;
+  /** Measured weights come from the work order's weight column. */
+  source: "measured" | "estimated";
+}
+
 export interface WeightSummary {
   totalArtworkWeightLbs: number;
   glassFramedWeightLbs: number;
@@ -12,8 +26,29 @@ export interface WeightSummary {
       count: number;
       totalWeight: number;
     };
+    /** Empty box weight; only part of the total when the catalog's weight policy includes carton tare. */
+    cartons: {
+      count: number;
+      totalWeight: number;
+    };
+    cartonTareIncluded: boolean;
+    /** Soft packs built around custom pieces. */
+    flatPacks: {
+      count: number;
+      totalWeight: number;
+    };
   };
+  /** Weight of custom pieces shipped in their own crate or flat-pack; not part of totalArtworkWeightLbs. */
+  customPieceWeightLbs: number;
   finalShipmentWeightLbs: number;
+  /** Divisor used for dimensional weight (cubic inches per lb). */
+  dimensionalWeightDivisor: number;
+  /** Dimensional weight summed over the shipping units (containers for freight, cartons for parcel). */
+  dimensionalWeightLbs: number;
+  /** Greater of actual and dimensional weight, per shipping unit, summed. */
+  billableWeightLbs: number;
+  /** Every work-order line, in CSV order. */
+  artworkWeights: ArtworkWeightLine[];
 }
 
 export interface BoxRequirementSummary {
@@ -32,6 +67,25 @@ export interface PackedContainerDimension {
   containerId: string;
   dimensions: string;
   weightLbs: number;
+  dimensionalWeightLbs: number;
+  billableWeightLbs: number;
+  densityLbPerCuFt: number;
+  /** Suggested NMFC class for this handling unit. */
+  freightClass: number;
+}
+
+export interface FreightClassLine {
+  freightClass: number;
+  units: number;
+  weightLbs: number;
+}
+
+export interface FreightClassSummary {
+  /** Density of the whole shipment (total weight over total volume) and the class it suggests. */
+  shipmentDensityLbPerCuFt: number;
+  shipmentFreightClass: number;
+  /** Handling units grouped by class, lowest class first. */
+  byClass: FreightClassLine[];
 }
 
 export interface HardwareBreakdown {
@@ -40,6 +94,27 @@ export interface HardwareBreakdown {
   totalPieces: number;
 }
 
+/**
+ * One line of the packing materials bill: boxes, pallets and crates, then consumables.
+ */
+export interface MaterialsLine {
+  /** Catalog key (e.g., STANDARD_BOX, STANDARD_PALLET, FOAM_SHEET). */
+  materialId: string;
+  description: string;
+  unit: string;
+  quantity: number;
+  unitCost: number;
+  unitWeightLbs: number;
+  totalCost: number;
+  totalWeightLbs: number;
+}
+
+export interface MaterialsSummary {
+  lines: MaterialsLine[];
+  totalCost: number;
+  totalWeightLbs: number;
+}
+
 export interface BoxContentsDetail {
   boxNumber: number;
   boxType: string;
@@ -52,6 +127,170 @@ export interface BoxContentsDetail {
   specialHandling: string[];
   packingInstructions: string[];
   label: string;
+  /** Packed weight including the box itself. */
+  weightLbs: number;
+  dimensionalWeightLbs: number;
+  billableWeightLbs: number;
+}
+
+/**
+ * How one custom-packaging piece (both sides over 43.5" or long side over 88") ships.
+ */
+export interface CustomPackagingPlan {
+  artId: string;
+  pieces: number;
+  method: "crate" | "flat-pack";
+  reason: string;
+  /** Matches the unit's entry in packedContainerDimensions. */
+  containerId: string;
+  /** Outside dimensions of the built unit. */
+  dimensions: string;
+  tareWeightLbs: number;
+  artWeightLbs: number;
+  weightLbs: number;
+}
+
+export interface ManifestBox {
+  /** Matches BoxContentsDetail.boxNumber. */
+  boxNumber: number;
+  boxType: string;
+  /** Tag numbers of the art in the box. */
+  artTags: string[];
+  pieces: number;
+  weightLbs: number;
+}
+
+/**
+ * Which boxes, and which tagged art, go on one pallet or in one crate or flat-pack.
+ */
+export interface ContainerManifestEntry {
+  /** Matches the unit's entry in packedContainerDimensions. */
+  containerId: string;
+  /** Boxes by box number. */
+  boxes: ManifestBox[];
+  /** Tag numbers of art packed straight into a crate or flat-pack. */
+  looseArtTags: string[];
+  pieceCount: number;
+  weightLbs: number;
+}
+
+/**
+ * Where some of a tag's pieces ended up.
+ */
+export interface TagLocation {
+  /** Matches BoxContentsDetail.boxNumber (or the parcel carton number); absent for loose art in a crate or flat-pack. */
+  boxNumber?: number;
+  /** Matches the unit's entry in packedContainerDimensions; absent when the box is not on a pallet or in a crate. */
+  containerId?: string;
+  pieces: number;
+}
+
+/**
+ * One CSV tag number traced through quantity splits and crate copies to its boxes and containers.
+ */
+export interface TagTrace {
+  tag: string;
+  productType: string;
+  pieces: number;
+  locations: TagLocation[];
+  /** Pieces left out of every box and container, with the reason. */
+  unpackedPieces: number;
+  unpackedReason?: string;
+}
+
+/**
+ * One box, or the loose art in a crate or flat-pack, on a load diagram.
+ * Positions are inches from the corner of the pallet deck or crate interior; z is the bottom of the item.
+ */
+export interface LoadDiagramItem {
+  /** Matches BoxContentsDetail.boxNumber; absent for loose art. */
+  boxNumber?: number;
+  label: string;
+  layer: number;
+  x: number;
+  y: number;
+  z: number;
+  length: number;
+  width: number;
+  height: number;
+  weightLbs: number;
+}
+
+export interface LoadDiagramLayer {
+  layer: number;
+  labels: string[];
+  weightLbs: number;
+}
+
+/**
+ * Top and side view data for one pallet, crate or flat-pack, in loading order.
+ */
+export interface ContainerLoadDiagram {
+  /** Matches the unit's entry in packedContainerDimensions. */
+  containerId: string;
+  /** Pallet deck, or the crate's or flat-pack's interior. */
+  base: { length: number; width: number };
+  /** Pallet deck height; 0 for crates and flat-packs. */
+  baseHeightInches: number;
+  items: LoadDiagramItem[];
+  /** Bottom layer first. */
+  layers: LoadDiagramLayer[];
+}
+
+/**
+ * One step of loading the truck, front row first.
+ * Positions are inches from the front wall and the left wall; z is the floor or the top of the unit below.
+ */
+export interface TruckLoadStep {
+  step: number;
+  /** Matches the unit's entry in packedContainerDimensions. */
+  containerId: string;
+  /** 1 is the row against the front wall. */
+  row: number;
+  x: number;
+  y: number;
+  z: number;
+  length: number;
+  width: number;
+  height: number;
+  weightLbs: number;
+  /** Unit this one rides on; absent for units on the floor. */
+  stackedOn?: string;
+}
+
+export interface VehicleOption {
+  vehicleId: string;
+  description: string;
+  fits: boolean;
+  linearFeet: number;
+  payloadLbs: number;
+  /** Why the load does not fit; empty when it does. */
+  problems: string[];
+}
+
+/**
+ * Which truck or trailer the pallets, crates and flat-packs need, and the order to load them.
+ */
+export interface TruckLoadPlan {
+  /** Smallest vehicle the load fits; absent when it needs more than the largest. */
+  recommendedVehicle?: string;
+  linearFeet: number;
+  totalWeightLbs: number;
+  /** Every catalog vehicle, smallest first. */
+  vehicles: VehicleOption[];
+  /** Loading order for the recommended vehicle, or the largest one when nothing fits. */
+  loadingSequence: TruckLoadStep[];
+}
+
+export interface ParcelCartonSummary {
+  cartonNumber: number;
+  cartonType: string;
+  dimensions: string;
+  /** Packed weight including the carton itself. */
+  weightLbs: number;
+  dimensionalWeightLbs: number;
+  billableWeightLbs: number;
+  pieces: number;
 }
 
 export interface PackingSummary {
@@ -60,6 +299,22 @@ export interface PackingSummary {
   packedContainerDimensions: PackedContainerDimension[];
   hardware: HardwareBreakdown;
   boxContents: BoxContentsDetail[];
+  /** Materials the packing crew needs, with catalog costs. */
+  materials: MaterialsSummary;
+  /** NMFC class breakdown of the pallets and crates; absent when nothing ships on them. */
+  freightClassSummary?: FreightClassSummary;
+  /** Built-to-size units for custom pieces; absent when the order has none to plan. */
+  customPackaging?: CustomPackagingPlan[];
+  /** Boxes and art tags per pallet, crate and flat-pack; absent when nothing ships on them. */
+  containerManifest?: ContainerManifestEntry[];
+  /** Box and container for every CSV tag, in CSV order. */
+  tagTrace?: TagTrace[];
+  /** Truck or trailer and loading order; absent when nothing ships on pallets or crates. */
+  truckLoadPlan?: TruckLoadPlan;
+  /** Where each box sits on its pallet or crate; absent when nothing ships on them. */
+  loadDiagrams?: ContainerLoadDiagram[];
+  /** Per-carton weights and dimensions; only present for parcel shipments. */
+  parcelCartons?: ParcelCartonSummary[];
 }
 
 export interface OversizedItemFlag {
@@ -95,10 +350,38 @@ export interface FreightExportSummary {
   shipmentDetails: string[];
 }
 
+export interface StrategyCostEstimate {
+  strategyId: string;
+  strategyName: string;
+  /** True for the strategy this response was packed with. */
+  selected: boolean;
+  handlingUnits: number;
+  weightLbs: number;
+  linehaul: number;
+  minimumApplied: boolean;
+  fuelSurcharge: number;
+  accessorials: Array<{ name: string; amount: number }>;
+  total: number;
+}
+
+/**
+ * Estimated LTL freight cost from the local rate tables, for every packing strategy.
+ */
+export interface CostSummary {
+  currency: "USD";
+  originZone: string;
+  destinationZone?: string;
+  estimates: StrategyCostEstimate[];
+  /** Assumptions and reasons a strategy could not be rated. */
+  notes: string[];
+}
+
 export interface PackagingResponseMetadata {
   warnings: string[];
   errors: string[];
   algorithmUsed: string;
+  /** Version of the packaging spec catalog the run was packed against. */
+  specCatalogVersion: string;
   processingTimeMs: number;
   timestamp: string;
 }
@@ -109,5 +392,7 @@ export interface PackagingResponse {
   packingSummary: PackingSummary;
   businessIntelligence: BusinessIntelligenceSummary;
   freightExport: FreightExportSummary;
+  /** Present for freight shipments when local rate tables are set up. */
+  costSummary?: CostSummary;
   metadata: PackagingResponseMetadata;
 }
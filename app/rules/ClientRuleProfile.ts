@@ -0,0 +1,44 @@
+import { ArtType } from "../entities/Art";
+import { CrateType } from "../entities/Crate";
+
+/**
+ * Packing rules a specific client has asked us to follow.
+ * Every field is optional; anything left out falls back to the standard packing rules.
+ */
+export interface ClientRuleProfile {
+  /** Client name as it appears on work orders (matched case-insensitively). */
+  readonly clientName: string;
+  /** Other spellings of the client name that should pick up this profile. */
+  readonly aliases?: readonly string[];
+  /** Packing strategy id that replaces whatever the user selected. */
+  readonly forcedStrategy?: string;
+  /** Per-product box capacities; passed to boxes as BoxOptions.maxPiecesPerProductOverride. */
+  readonly maxPiecesPerProductOverride?: Partial<Record<ArtType, number>>;
+  /** Product types the client will not accept; these are held back for review instead of packed. */
+  readonly disallowedProductTypes?: readonly ArtType[];
+  /** Product types that must ship in crates even when the site also accepts pallets. */
+  readonly crateOnlyProductTypes?: readonly ArtType[];
+  /** Pallet type every boxed shipment must use. */
+  readonly requiredPalletType?: CrateType;
+}
+
+function normalizeClientName(name: string): string {
+  return name.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Returns the profile whose name or alias matches the client, if any.
+ */
+export function findClientRuleProfile(
+  profiles: readonly ClientRuleProfile[],
+  clientName: string,
+): ClientRuleProfile | undefined {
+  const target = normalizeClientName(clientName ?? "");
+  if (!target) {
+    return undefined;
+  }
+
+  return profiles.find((profile) =>
+    [profile.clientName, ...(profile.aliases ?? [])].some((name) => normalizeClientName(name) === target),
+  );
+}
@@ -1,14 +1,27 @@
 import { Art, ArtType, ArtMaterial } from "../entities/Art";
+import { getPackagingSpecCatalog } from "../catalog/PackagingSpecCatalog";
 
 /**
  * PackagingRules encapsulates business rules for packaging decisions.
  * This separates packaging logic from the Art entity.
  */
 export class PackagingRules {
-  // Box size constants - centralized to avoid magic numbers
-  private static readonly STANDARD_BOX_SIZE = 36.5;
-  private static readonly LARGE_BOX_MAX_SIZE = 43.5;
-  private static readonly TELESCOPING_MAX_LENGTH = 88;
+  // Box size thresholds - read from the active packaging spec catalog
+  private static get STANDARD_BOX_SIZE(): number {
+    return getPackagingSpecCatalog().thresholds.standardBoxMaxShortSideInches;
+  }
+
+  private static get LARGE_BOX_MAX_SIZE(): number {
+    return getPackagingSpecCatalog().thresholds.largeBoxMaxSideInches;
+  }
+
+  private static get TELESCOPING_MAX_LENGTH(): number {
+    return getPackagingSpecCatalog().thresholds.telescopingMaxLengthInches;
+  }
+
+  private static get OVERSIZED_REPORTING_LONG_SIDE(): number {
+    return getPackagingSpecCatalog().thresholds.oversizedReportingLongSideInches;
+  }
 
   /**
    * Determines if an art piece requires special handling
@@ -80,7 +93,7 @@ export class PackagingRules {
     const footprint = this.getPlanarFootprint(art);
     // For reporting: oversized if longSide > 43"
     // This matches the expected output where 43×33 is "standard" but 47×34 and 55×31 are "oversized"
-    return footprint.longSide > 43;
+    return footprint.longSide > this.OVERSIZED_REPORTING_LONG_SIDE;
   }
 
   /**
@@ -1,21 +1,49 @@
 import { existsSync } from "node:fs";
-import { writeFile } from "node:fs/promises";
-import { parse, validateCsvStructure } from "../parser/CsvParser";
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { parse, validateCsvStructure, type ColumnMapping } from "../parser/CsvParser";
 import { PackagingInteractor } from "../interactors/PackagingInteractor";
-import type { PackagingRequest, DeliveryCapabilities } from "../requests/PackagingRequest";
-import type { PackagingResponse } from "../responses/PackagingResponse";
+import { SHIPPING_MODES } from "../requests/PackagingRequest";
+import type { PackagingRequest, DeliveryCapabilities, ShippingMode, SiteClearances } from "../requests/PackagingRequest";
+import type { PackagingResponse, TagTrace } from "../responses/PackagingResponse";
 import { JsonFormatter } from "../formatters/JsonFormatter";
+import { LoadDiagramFormatter } from "../formatters/LoadDiagramFormatter";
+import { ClientRuleStore } from "../storage/ClientRuleStore";
+import { RateTableStore } from "../storage/RateTableStore";
+import type { LtlRateTables } from "../rates/LtlRateTables";
+import {
+  parseSiteRequirements,
+  selectSiteRequirements,
+  DEFAULT_SITE_SERVICE_TYPE,
+  SITE_NOT_SPECIFIED,
+} from "../parser/SiteRequirementsParser";
 
 export interface PackagingJobOptions {
   csvFilePath: string;
+  /**
+   * Reads a CSV whose headers differ from the standard work order (e.g., Qty, W, H).
+   */
+  columnMapping?: ColumnMapping;
   clientName: string;
   jobSiteLocation: string;
   serviceType: string;
   deliveryCapabilities: DeliveryCapabilities;
   /**
-   * Packing algorithm strategy ID (e.g., "first-fit", "balanced", "minimize-boxes")
+   * Door, hallway, elevator and stair limits; checked when the site needs inside delivery.
+   */
+  siteClearances?: SiteClearances;
+  /**
+   * Rate tables for this job; the saved tables (LTL_RATE_TABLES_PATH) are used when omitted.
+   */
+  rateTables?: LtlRateTables;
+  /**
+   * Packing algorithm strategy ID (e.g., "first-fit", "balanced", "minimize-boxes", "by-thickness")
    */
   packingAlgorithm?: string;
+  /**
+   * "parcel" packs into UPS cartons with no pallets; defaults to "freight".
+   */
+  shippingMode?: ShippingMode;
   /**
    * When true, suppresses non-critical log output (useful for automated tests).
    */
@@ -24,6 +52,10 @@ export interface PackagingJobOptions {
    * Optional path to write JSON output file.
    */
   jsonOutputPath?: string;
+  /**
+   * Optional directory to write one SVG load diagram per pallet, crate or flat-pack.
+   */
+  diagramsDir?: string;
 }
 
 export interface PackagingJobResult {
@@ -32,6 +64,16 @@ export interface PackagingJobResult {
   totalPieceCount: number;
 }
 
+/**
+ * Job details resolved from a site requirements sheet, merged with any values the caller typed in.
+ */
+export interface SiteJobDetails {
+  clientName: string;
+  jobSiteLocation: string;
+  serviceType: string;
+  deliveryCapabilities: DeliveryCapabilities;
+}
+
 /**
  * Shared service for packaging operations.
  * Used by both CLI and GUI to avoid code duplication.
@@ -43,26 +85,30 @@ export class PackagingService {
   static async runPackagingJob(options: PackagingJobOptions): Promise<PackagingJobResult> {
     const {
       csvFilePath,
+      columnMapping,
       clientName,
       jobSiteLocation,
       serviceType,
       deliveryCapabilities,
+      siteClearances,
       packingAlgorithm,
+      shippingMode,
       quiet = false,
       jsonOutputPath,
+      diagramsDir,
     } = options;
 
     if (!existsSync(csvFilePath)) {
       throw new Error(`CSV file '${csvFilePath}' does not exist.`);
     }
 
-    const structureValidation = await validateCsvStructure(csvFilePath);
+    const structureValidation = await validateCsvStructure(csvFilePath, columnMapping);
     if (!structureValidation.isValid) {
       const errorMessages = structureValidation.errors.join("\n");
       throw new Error(`CSV file validation failed:\n${errorMessages}`);
     }
 
-    const artItems = await parse(csvFilePath);
+    const artItems = await parse(csvFilePath, columnMapping);
     if (artItems.length === 0) {
       throw new Error("No valid art items found in CSV file.");
     }
@@ -71,12 +117,23 @@ export class PackagingService {
       console.error(`Successfully parsed ${artItems.length} art items from CSV.`);
     }
 
+    const clientRules = await new ClientRuleStore().findForClient(clientName);
+    if (clientRules && !quiet) {
+      console.error(`Applying client rule profile: ${clientRules.clientName}`);
+    }
+
+    const rateTables = options.rateTables ?? (await new RateTableStore().load());
+
     const request: PackagingRequest = {
       artItems,
       clientName,
       jobSiteLocation,
       serviceType,
       deliveryCapabilities,
+      siteClearances,
+      clientRules,
+      shippingMode,
+      rateTables,
     };
 
     const interactor = new PackagingInteractor(packingAlgorithm);
@@ -95,6 +152,17 @@ export class PackagingService {
       }
     }
 
+    if (diagramsDir) {
+      const diagrams = LoadDiagramFormatter.formatResponse(response);
+      await mkdir(diagramsDir, { recursive: true });
+      for (const diagram of diagrams) {
+        await writeFile(join(diagramsDir, diagram.fileName), diagram.svg, "utf-8");
+      }
+      if (!quiet) {
+        console.error(`${diagrams.length} load diagram(s) written to: ${diagramsDir}`);
+      }
+    }
+
     return {
       response,
       artItemCount: artItems.length,
@@ -102,6 +170,54 @@ export class PackagingService {
     };
   }
 
+  /**
+   * Loads a site requirements sheet and resolves the job details for one site.
+   * Explicit overrides (e.g., a client name typed on the CLI) win over the sheet; N/A cells fall
+   * back to the parser defaults.
+   */
+  static async loadSiteRequirements(
+    filePath: string,
+    overrides: { clientName?: string; jobSiteLocation?: string; serviceType?: string } = {},
+  ): Promise<SiteJobDetails> {
+    if (!existsSync(filePath)) {
+      throw new Error(`Site requirements file '${filePath}' does not exist.`);
+    }
+
+    const sites = await parseSiteRequirements(filePath);
+    const site = selectSiteRequirements(sites, overrides.jobSiteLocation);
+
+    return {
+      clientName: overrides.clientName || site.clientName || SITE_NOT_SPECIFIED,
+      jobSiteLocation: overrides.jobSiteLocation || site.location || SITE_NOT_SPECIFIED,
+      serviceType: overrides.serviceType || site.serviceType || DEFAULT_SITE_SERVICE_TYPE,
+      deliveryCapabilities: site.deliveryCapabilities,
+    };
+  }
+
+  /**
+   * Finds a CSV tag number in a packed response (case-insensitive). An empty tag returns every trace.
+   */
+  static findTagTrace(response: PackagingResponse, tag: string): TagTrace[] {
+    const traces = response.packingSummary.tagTrace ?? [];
+    const normalized = tag.trim().toLowerCase();
+    if (!normalized) {
+      return traces;
+    }
+    return traces.filter((trace) => trace.tag.trim().toLowerCase() === normalized);
+  }
+
+  /**
+   * Validates a shipping mode typed by the user (case-insensitive).
+   */
+  static parseShippingMode(value: string): ShippingMode {
+    const normalized = value.trim().toLowerCase();
+    const mode = SHIPPING_MODES.find((candidate) => candidate === normalized);
+    if (!mode) {
+      throw new Error(`Invalid shipping mode: "${value}". Accepted values: ${SHIPPING_MODES.join(", ")}.`);
+    }
+    return mode;
+  }
+
   /**
    * Normalizes human-friendly boolean strings (yes/no, true/false, etc.) into actual booleans.
    */
@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { ClientRuleStore } from './ClientRuleStore'
+import { ArtType } from '../entities/Art'
+import { CrateType } from '../entities/Crate'
+
+describe('ClientRuleStore', () => {
+  let tempDir: string
+  let filePath: string
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'client-rules-'))
+    filePath = join(tempDir, 'client-rules.json')
+  })
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true })
+  })
+
+  it('should return no profiles when the file does not exist', async () => {
+    const store = new ClientRuleStore(filePath)
+
+    expect(await store.list()).toEqual([])
+    expect(await store.findForClient('Anyone')).toBeUndefined()
+  })
+
+  it('should parse labels into product and pallet types', async () => {
+    await writeFile(filePath, JSON.stringify({
+      version: 1,
+      profiles: [{
+        clientName: 'Acme Health',
+        aliases: ['ACME'],
+        forcedStrategy: 'minimize-boxes',
+        maxPiecesPerProduct: { PAPER_PRINT: 4, 'metal print': 3 },
+        disallowedProductTypes: ['WALL_DECOR'],
+        crateOnlyProductTypes: ['mirror'],
+        requiredPalletType: 'OVERSIZE_PALLET',
+      }],
+    }))
+
+    const profile = await new ClientRuleStore(filePath).findForClient('  acme  health ')
+
+    expect(profile).toEqual({
+      clientName: 'Acme Health',
+      aliases: ['ACME'],
+      forcedStrategy: 'minimize-boxes',
+      maxPiecesPerProductOverride: { [ArtType.PaperPrint]: 4, [ArtType.MetalPrint]: 3 },
+      disallowedProductTypes: [ArtType.WallDecor],
+      crateOnlyProductTypes: [ArtType.Mirror],
+      requiredPalletType: CrateType.OversizePallet,
+    })
+  })
+
+  it('should match profiles by alias', async () => {
+    await writeFile(filePath, JSON.stringify({ profiles: [{ clientName: 'Acme Health', aliases: ['ACME'] }] }))
+
+    expect((await new ClientRuleStore(filePath).findForClient('acme'))?.clientName).toBe('Acme Health')
+  })
+
+  it('should list every problem in an invalid profile', () => {
+    expect(() => ClientRuleStore.parseProfile({
+      clientName: 'Acme Health',
+      forcedStrategy: 'fastest',
+      maxPiecesPerProduct: { PAPER_PRINT: 0 },
+      disallowedProductTypes: ['SCULPTURE'],
+      requiredPalletType: 'STANDARD_CRATE',
+    }, 0)).toThrow(
+      'Invalid client rule profile #1 (Acme Health): unknown forcedStrategy "fastest"; ' +
+      'maxPiecesPerProduct.PAPER_PRINT must be a whole number of at least 1; ' +
+      'unknown requiredPalletType "STANDARD_CRATE"; unknown product type "SCULPTURE" in disallowedProductTypes'
+    )
+  })
+
+  it('should fail clearly on a corrupt file', async () => {
+    await writeFile(filePath, '{ nope')
+    await expect(new ClientRuleStore(filePath).list()).rejects.toThrow('is not valid JSON')
+  })
+})
@@ -0,0 +1,177 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { ArtType, getArtTypeLabel } from "../entities/Art";
+import { CrateType, ContainerKind, Crate, getCrateTypeLabel } from "../entities/Crate";
+import { ClientRuleProfile, findClientRuleProfile } from "../rules/ClientRuleProfile";
+import { PackingStrategyFactory } from "../strategies/PackingStrategyFactory";
+
+/**
+ * On-disk shape of a profile. Product and pallet types use their labels (e.g., PAPER_PRINT,
+ * OVERSIZE_PALLET) so the file can be edited by hand.
+ */
+interface ClientRuleProfileRecord {
+  clientName?: unknown;
+  aliases?: unknown;
+  forcedStrategy?: unknown;
+  maxPiecesPerProduct?: unknown;
+  disallowedProductTypes?: unknown;
+  crateOnlyProductTypes?: unknown;
+  requiredPalletType?: unknown;
+}
+
+interface ClientRuleFile {
+  version?: number;
+  profiles?: ClientRuleProfileRecord[];
+}
+
+const ART_TYPES_BY_LABEL = new Map<string, ArtType>(
+  (Object.values(ArtType).filter((value) => typeof value === "number") as ArtType[]).map((type) => [
+    getArtTypeLabel(type),
+    type,
+  ]),
+);
+
+const CRATE_TYPES_BY_LABEL = new Map<string, CrateType>(
+  (Object.values(CrateType).filter((value) => typeof value === "number") as CrateType[]).map((type) => [
+    getCrateTypeLabel(type),
+    type,
+  ]),
+);
+
+function toLabel(value: unknown): string {
+  return String(value).trim().toUpperCase().replace(/[\s-]+/g, "_");
+}
+
+/**
+ * Location of the client rules file. CLIENT_RULES_PATH overrides it.
+ */
+export function getDefaultClientRulesPath(): string {
+  return process.env.CLIENT_RULES_PATH ?? join(process.cwd(), "data", "client-rules.json");
+}
+
+/**
+ * ClientRuleStore reads client rule profiles from a local JSON file.
+ * A missing file simply means no client has special rules.
+ */
+export class ClientRuleStore {
+  constructor(private readonly filePath: string = getDefaultClientRulesPath()) {}
+
+  public async list(): Promise<ClientRuleProfile[]> {
+    let content: string;
+    try {
+      content = await readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw new Error(`Cannot read client rules '${this.filePath}': ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+
+    let parsed: ClientRuleFile;
+    try {
+      parsed = JSON.parse(content) as ClientRuleFile;
+    } catch (error) {
+      throw new Error(`Client rules '${this.filePath}' is not valid JSON: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+
+    const records = Array.isArray(parsed.profiles) ? parsed.profiles : [];
+    return records.map((record, index) => ClientRuleStore.parseProfile(record, index));
+  }
+
+  public async findForClient(clientName: string): Promise<ClientRuleProfile | undefined> {
+    return findClientRuleProfile(await this.list(), clientName);
+  }
+
+  /**
+   * Converts one file entry into a profile. Throws with every problem listed.
+   */
+  public static parseProfile(record: ClientRuleProfileRecord, index: number): ClientRuleProfile {
+    const errors: string[] = [];
+    const clientName = typeof record.clientName === "string" ? record.clientName.trim() : "";
+    if (!clientName) {
+      errors.push("clientName is required");
+    }
+
+    const aliases = Array.isArray(record.aliases)
+      ? record.aliases.filter((alias): alias is string => typeof alias === "string" && alias.trim() !== "")
+      : undefined;
+
+    let forcedStrategy: string | undefined;
+    if (record.forcedStrategy !== undefined) {
+      forcedStrategy = String(record.forcedStrategy).trim();
+      if (!PackingStrategyFactory.isValidStrategyId(forcedStrategy)) {
+        errors.push(`unknown forcedStrategy "${forcedStrategy}"`);
+      }
+    }
+
+    const parseArtTypes = (field: "disallowedProductTypes" | "crateOnlyProductTypes"): ArtType[] | undefined => {
+      const raw = record[field];
+      if (raw === undefined) {
+        return undefined;
+      }
+      if (!Array.isArray(raw)) {
+        errors.push(`${field} must be a list of product types`);
+        return undefined;
+      }
+
+      const types: ArtType[] = [];
+      for (const value of raw) {
+        const type = ART_TYPES_BY_LABEL.get(toLabel(value));
+        if (type === undefined) {
+          errors.push(`unknown product type "${value}" in ${field}`);
+        } else {
+          types.push(type);
+        }
+      }
+      return types;
+    };
+
+    let maxPiecesPerProductOverride: Partial<Record<ArtType, number>> | undefined;
+    if (record.maxPiecesPerProduct !== undefined) {
+      if (typeof record.maxPiecesPerProduct !== "object" || record.maxPiecesPerProduct === null) {
+        errors.push("maxPiecesPerProduct must map product types to piece counts");
+      } else {
+        maxPiecesPerProductOverride = {};
+        for (const [label, limit] of Object.entries(record.maxPiecesPerProduct)) {
+          const type = ART_TYPES_BY_LABEL.get(toLabel(label));
+          if (type === undefined) {
+            errors.push(`unknown product type "${label}" in maxPiecesPerProduct`);
+          } else if (!Number.isInteger(limit) || (limit as number) < 1) {
+            errors.push(`maxPiecesPerProduct.${label} must be a whole number of at least 1`);
+          } else {
+            maxPiecesPerProductOverride[type] = limit as number;
+          }
+        }
+      }
+    }
+
+    let requiredPalletType: CrateType | undefined;
+    if (record.requiredPalletType !== undefined) {
+      requiredPalletType = CRATE_TYPES_BY_LABEL.get(toLabel(record.requiredPalletType));
+      if (
+        requiredPalletType === undefined ||
+        new Crate({ type: requiredPalletType }).getContainerKind() !== ContainerKind.Pallet
+      ) {
+        errors.push(`unknown requiredPalletType "${record.requiredPalletType}"`);
+        requiredPalletType = undefined;
+      }
+    }
+
+    const disallowedProductTypes = parseArtTypes("disallowedProductTypes");
+    const crateOnlyProductTypes = parseArtTypes("crateOnlyProductTypes");
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid client rule profile #${index + 1}${clientName ? ` (${clientName})` : ""}: ${errors.join("; ")}`);
+    }
+
+    return {
+      clientName,
+      aliases,
+      forcedStrategy,
+      maxPiecesPerProductOverride,
+      disallowedProductTypes,
+      crateOnlyProductTypes,
+      requiredPalletType,
+    };
+  }
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, readFile, rm } from 'node:fs/promises'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { ColumnMappingStore, toColumnMappingId, type ColumnMappingInput } from './ColumnMappingStore'
+
+const vendorLayout: ColumnMappingInput = {
+  name: '  Acme Frames  ',
+  columns: { Qty: 'quantity', W: 'outsideWidth', H: 'outsideHeight', Medium: 'finalMedium' },
+  defaults: { glazing: 'N/A' },
+}
+
+describe('ColumnMappingStore', () => {
+  let tempDir: string
+  let filePath: string
+  let store: ColumnMappingStore
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'column-mappings-'))
+    filePath = join(tempDir, 'nested', 'column-mappings.json')
+    store = new ColumnMappingStore(filePath)
+  })
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true })
+  })
+
+  it('should return an empty list when the file does not exist yet', async () => {
+    expect(await store.list()).toEqual([])
+  })
+
+  it('should save a profile under a slug of its name', async () => {
+    const saved = await store.save(vendorLayout)
+
+    expect(saved).toMatchObject({ id: 'acme-frames', name: 'Acme Frames', defaults: { glazing: 'N/A' } })
+    expect(await store.get('acme-frames')).toEqual(saved)
+    const file = JSON.parse(await readFile(filePath, 'utf8'))
+    expect(file.version).toBe(1)
+    expect(file.profiles).toHaveLength(1)
+  })
+
+  it('should replace the profile with the same name', async () => {
+    await store.save(vendorLayout)
+    await store.save({ name: 'acme frames', columns: { Quantity: 'quantity' } })
+
+    const profiles = await store.list()
+    expect(profiles).toHaveLength(1)
+    expect(profiles[0].columns).toEqual({ Quantity: 'quantity' })
+    expect(profiles[0].defaults).toBeUndefined()
+  })
+
+  it('should list every problem in an invalid profile', () => {
+    expect(() =>
+      ColumnMappingStore.validate({
+        name: ' ',
+        columns: { Qty: 'qty' },
+        defaults: { color: 'red', glazing: 5 as unknown as string },
+      })
+    ).toThrow(
+      'Invalid column mapping: name is required; columns.Qty must be one of lineNumber, quantity, tagNumber, finalMedium, ' +
+        'outsideWidth, outsideHeight, glazing, frameMoulding, hardware, depth, weight; defaults.color is not a work-order field ' +
+        '(lineNumber, quantity, tagNumber, finalMedium, outsideWidth, outsideHeight, glazing, frameMoulding, hardware, depth, weight); ' +
+        'defaults.glazing must be text'
+    )
+    expect(() => ColumnMappingStore.validate({ name: 'Empty', columns: {} })).toThrow('columns must map at least one header')
+  })
+
+  it('should remove a profile', async () => {
+    await store.save(vendorLayout)
+
+    expect(await store.remove('acme-frames')).toBe(true)
+    expect(await store.remove('acme-frames')).toBe(false)
+    expect(await store.list()).toEqual([])
+  })
+
+  it('should build ids from names', () => {
+    expect(toColumnMappingId('  Décor Vendor #2 ')).toBe('decor-vendor-2')
+  })
+})
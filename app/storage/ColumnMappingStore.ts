@@ -0,0 +1,164 @@
+import { readFile, writeFile, mkdir } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { WORK_ORDER_FIELDS, type ColumnMapping } from "../parser/CsvParser";
+
+/**
+ * A saved column mapping for one vendor's CSV layout.
+ */
+export interface ColumnMappingProfile extends ColumnMapping {
+  /** Slug derived from the profile name. */
+  id: string;
+  name: string;
+  updatedAt: string;
+}
+
+export type ColumnMappingInput = Omit<ColumnMappingProfile, "id" | "updatedAt">;
+
+interface ColumnMappingFile {
+  version: number;
+  profiles: ColumnMappingProfile[];
+}
+
+const COLUMN_MAPPING_FILE_VERSION = 1;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Location of the column-mapping profiles file. COLUMN_MAPPINGS_PATH overrides it.
+ */
+export function getDefaultColumnMappingsPath(): string {
+  return process.env.COLUMN_MAPPINGS_PATH ?? join(process.cwd(), "data", "column-mappings.json");
+}
+
+/**
+ * Builds the id for a profile name: lowercase, alphanumerics joined by dashes.
+ */
+export function toColumnMappingId(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * ColumnMappingStore persists column-mapping profiles to a local JSON file,
+ * shared by the CLI (--mapping), the API routes and the GUI.
+ */
+export class ColumnMappingStore {
+  constructor(private readonly filePath: string = getDefaultColumnMappingsPath()) {}
+
+  public async list(): Promise<ColumnMappingProfile[]> {
+    const profiles = await this.load();
+    return profiles.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  public async get(id: string): Promise<ColumnMappingProfile | undefined> {
+    const profiles = await this.load();
+    return profiles.find((profile) => profile.id === id);
+  }
+
+  /**
+   * Saves a profile, replacing any profile with the same name.
+   */
+  public async save(input: ColumnMappingInput): Promise<ColumnMappingProfile> {
+    const validated = ColumnMappingStore.validate(input);
+    const profiles = await this.load();
+
+    const id = toColumnMappingId(validated.name);
+    const profile: ColumnMappingProfile = { id, ...validated, updatedAt: new Date().toISOString() };
+    await this.write([...profiles.filter((existing) => existing.id !== id), profile]);
+    return profile;
+  }
+
+  public async remove(id: string): Promise<boolean> {
+    const profiles = await this.load();
+    const remaining = profiles.filter((profile) => profile.id !== id);
+    if (remaining.length === profiles.length) {
+      return false;
+    }
+
+    await this.write(remaining);
+    return true;
+  }
+
+  /**
+   * Checks the name and that every column and default names a work-order field. Throws with every problem listed.
+   */
+  public static validate(input: ColumnMappingInput): ColumnMappingInput {
+    const errors: string[] = [];
+    const name = typeof input.name === "string" ? input.name.trim() : "";
+    const fieldList = WORK_ORDER_FIELDS.join(", ");
+
+    if (!name || !toColumnMappingId(name)) {
+      errors.push("name is required");
+    }
+
+    const columns: Record<string, string> = {};
+    if (!isRecord(input.columns) || Object.keys(input.columns).length === 0) {
+      errors.push("columns must map at least one header");
+    }
+    for (const [header, field] of Object.entries(isRecord(input.columns) ? input.columns : {})) {
+      if (!header.trim()) {
+        errors.push("columns has an empty header");
+      } else if (typeof field !== "string" || !WORK_ORDER_FIELDS.includes(field)) {
+        errors.push(`columns.${header} must be one of ${fieldList}`);
+      } else {
+        columns[header.trim()] = field;
+      }
+    }
+
+    const defaults: Record<string, string> = {};
+    if (input.defaults !== undefined && !isRecord(input.defaults)) {
+      errors.push("defaults must be an object");
+    }
+    for (const [field, value] of Object.entries(isRecord(input.defaults) ? input.defaults : {})) {
+      if (!WORK_ORDER_FIELDS.includes(field)) {
+        errors.push(`defaults.${field} is not a work-order field (${fieldList})`);
+      } else if (typeof value !== "string") {
+        errors.push(`defaults.${field} must be text`);
+      } else {
+        defaults[field] = value;
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid column mapping: ${errors.join("; ")}`);
+    }
+
+    return {
+      name,
+      columns,
+      ...(Object.keys(defaults).length > 0 && { defaults }),
+    };
+  }
+
+  private async load(): Promise<ColumnMappingProfile[]> {
+    let content: string;
+    try {
+      content = await readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw new Error(`Cannot read column mappings '${this.filePath}': ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+
+    try {
+      const parsed = JSON.parse(content) as ColumnMappingFile;
+      return Array.isArray(parsed.profiles) ? parsed.profiles : [];
+    } catch (error) {
+      throw new Error(`Column mappings '${this.filePath}' is not valid JSON: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+  }
+
+  private async write(profiles: ColumnMappingProfile[]): Promise<void> {
+    const payload: ColumnMappingFile = { version: COLUMN_MAPPING_FILE_VERSION, profiles };
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await writeFile(this.filePath, `${JSON.stringify(payload, null, 2)}\n`, "utf8");
+  }
+}
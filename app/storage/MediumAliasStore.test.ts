@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, readFile, rm } from 'node:fs/promises'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { MediumAliasStore } from './MediumAliasStore'
+import { findGlazing, findMedium, resetMediumCatalogCache } from '../catalog/MediumCatalog'
+
+describe('MediumAliasStore', () => {
+  let tempDir: string
+  let filePath: string
+  let store: MediumAliasStore
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'medium-aliases-'))
+    filePath = join(tempDir, 'nested', 'medium-aliases.json')
+    // The catalog reads saved aliases from the same file
+    process.env.MEDIUM_ALIASES_PATH = filePath
+    resetMediumCatalogCache()
+    store = new MediumAliasStore()
+  })
+
+  afterEach(async () => {
+    delete process.env.MEDIUM_ALIASES_PATH
+    resetMediumCatalogCache()
+    await rm(tempDir, { recursive: true, force: true })
+  })
+
+  it('should return an empty list when the file does not exist yet', async () => {
+    expect(await store.list()).toEqual([])
+  })
+
+  it('should save an alias that later lookups use right away', async () => {
+    expect(findMedium('Print - Float Mount w/ Spacer')).toBeUndefined()
+
+    const saved = await store.save({ kind: 'medium', alias: ' Print - Float Mount w/ Spacer ', target: 'print - raised float mount' })
+
+    expect(saved).toMatchObject({ kind: 'medium', alias: 'Print - Float Mount w/ Spacer', target: 'Print - Raised Float Mount' })
+    expect(findMedium('Print - Float Mount w/ Spacer')?.label).toBe('Print - Raised Float Mount')
+    const file = JSON.parse(await readFile(filePath, 'utf8'))
+    expect(file.version).toBe(1)
+    expect(file.aliases).toHaveLength(1)
+  })
+
+  it('should re-point a saved alias instead of adding a second one', async () => {
+    await store.save({ kind: 'glazing', alias: 'UV Glass', target: 'Regular Glass' })
+    await store.save({ kind: 'glazing', alias: 'uv glass', target: 'Museum Glass' })
+
+    expect(await store.list()).toHaveLength(1)
+    expect(findGlazing('UV Glass')?.label).toBe('Museum Glass')
+  })
+
+  it('should reject aliases for unknown targets and labels already in the catalog', async () => {
+    await expect(store.save({ kind: 'medium', alias: 'Tapestry', target: 'Woven Art' })).rejects.toThrow(
+      "Invalid medium alias: target 'Woven Art' is not a catalog medium"
+    )
+    await expect(store.save({ kind: 'medium', alias: 'canvas', target: 'Canvas - Gallery' })).rejects.toThrow(
+      "'canvas' is already the catalog medium 'Canvas - Float Frame'"
+    )
+    await expect(store.save({ kind: 'glazing', alias: 'N/A', target: 'Acrylic' })).rejects.toThrow("'N/A' already means no glazing")
+    await expect(store.save({ kind: 'frame' as 'medium', alias: '', target: 'Mirror' })).rejects.toThrow(
+      'Invalid medium alias: kind must be medium or glazing; alias is required'
+    )
+  })
+
+  it('should remove a saved alias', async () => {
+    await store.save({ kind: 'medium', alias: 'Tapestry', target: 'Wall Decor' })
+
+    expect(await store.remove('medium', 'TAPESTRY')).toBe(true)
+    expect(await store.remove('medium', 'Tapestry')).toBe(false)
+    expect(findMedium('Tapestry')).toBeUndefined()
+  })
+})
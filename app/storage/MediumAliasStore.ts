@@ -0,0 +1,95 @@
+import { writeFile, mkdir } from "node:fs/promises";
+import { dirname } from "node:path";
+import {
+  findGlazing,
+  findMedium,
+  getMediumAliasesPath,
+  isNoGlazing,
+  normalizeCatalogLabel,
+  readMediumAliasFile,
+  resetMediumCatalogCache,
+  type MediumAliasFile,
+  type MediumAliasKind,
+  type SavedMediumAlias,
+} from "../catalog/MediumCatalog";
+
+export type MediumAliasInput = Omit<SavedMediumAlias, "savedAt">;
+
+const MEDIUM_ALIAS_FILE_VERSION = 1;
+
+function sameAlias(a: MediumAliasInput, b: MediumAliasInput): boolean {
+  return a.kind === b.kind && normalizeCatalogLabel(a.alias) === normalizeCatalogLabel(b.alias);
+}
+
+/**
+ * MediumAliasStore saves work-order labels as aliases of catalog mediums and glazings.
+ * The medium catalog reads the same file, so a saved alias applies to every later job.
+ */
+export class MediumAliasStore {
+  constructor(private readonly filePath: string = getMediumAliasesPath()) {}
+
+  public async list(): Promise<SavedMediumAlias[]> {
+    const { aliases } = readMediumAliasFile(this.filePath);
+    return aliases.sort((a, b) => a.kind.localeCompare(b.kind) || a.alias.localeCompare(b.alias));
+  }
+
+  /**
+   * Saves an alias, replacing any earlier alias for the same label. Throws with every problem listed.
+   */
+  public async save(input: MediumAliasInput): Promise<SavedMediumAlias> {
+    const aliases = await this.list();
+    const errors: string[] = [];
+    const kind: MediumAliasKind | undefined = input.kind === "medium" || input.kind === "glazing" ? input.kind : undefined;
+    const alias = input.alias?.trim() ?? "";
+
+    if (!kind) {
+      errors.push("kind must be medium or glazing");
+    }
+    if (!alias) {
+      errors.push("alias is required");
+    }
+
+    const target = kind === "glazing" ? findGlazing(input.target)?.label : findMedium(input.target)?.label;
+    if (kind && !target) {
+      errors.push(`target '${input.target ?? ""}' is not a catalog ${kind}`);
+    }
+
+    // Catalog labels can't be re-pointed; earlier saved aliases can
+    const previouslySaved = kind !== undefined && aliases.some((existing) => sameAlias(existing, { kind, alias, target: "" }));
+    if (kind && alias && !previouslySaved) {
+      const existing = kind === "medium" ? findMedium(alias) : findGlazing(alias);
+      if (existing) {
+        errors.push(`'${alias}' is already the catalog ${kind} '${existing.label}'`);
+      } else if (kind === "glazing" && isNoGlazing(alias)) {
+        errors.push(`'${alias}' already means no glazing`);
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid medium alias: ${errors.join("; ")}`);
+    }
+
+    const saved: SavedMediumAlias = { kind: kind!, alias, target: target!, savedAt: new Date().toISOString() };
+    await this.write([...aliases.filter((existing) => !sameAlias(existing, saved)), saved]);
+    return saved;
+  }
+
+  public async remove(kind: MediumAliasKind, alias: string): Promise<boolean> {
+    const aliases = await this.list();
+    const remaining = aliases.filter((existing) => !sameAlias(existing, { kind, alias, target: "" }));
+    if (remaining.length === aliases.length) {
+      return false;
+    }
+
+    await this.write(remaining);
+    return true;
+  }
+
+  private async write(aliases: SavedMediumAlias[]): Promise<void> {
+    const payload: MediumAliasFile = { version: MEDIUM_ALIAS_FILE_VERSION, aliases };
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await writeFile(this.filePath, `${JSON.stringify(payload, null, 2)}\n`, "utf8");
+    // The next parse picks up the new aliases
+    resetMediumCatalogCache();
+  }
+}
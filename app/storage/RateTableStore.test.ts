@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { RateTableStore } from './RateTableStore'
+
+const validTables = {
+  originZone: 'STL',
+  zones: [{ zone: 'MID-ATLANTIC', match: ['MD'] }],
+  lanes: [{
+    originZone: 'STL',
+    destinationZone: 'MID-ATLANTIC',
+    minimumCharge: 200,
+    fuelSurchargePercent: 25,
+    classRates: [{ freightClass: 85, weightBreaks: [{ minWeightLbs: 0, ratePerCwt: 60 }] }]
+  }],
+  accessorials: { liftgate: 75 }
+}
+
+describe('RateTableStore', () => {
+  let tempDir: string
+  let filePath: string
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'rate-tables-'))
+    filePath = join(tempDir, 'ltl-rate-tables.json')
+  })
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true })
+  })
+
+  it('should return no tables when the file does not exist', async () => {
+    expect(await new RateTableStore(filePath).load()).toBeUndefined()
+  })
+
+  it('should load valid rate tables', async () => {
+    await writeFile(filePath, JSON.stringify(validTables))
+
+    const tables = await new RateTableStore(filePath).load()
+
+    expect(tables?.originZone).toBe('STL')
+    expect(tables?.lanes[0].classRates[0].freightClass).toBe(85)
+    expect(tables?.accessorials).toEqual({ liftgate: 75, insideDelivery: undefined })
+  })
+
+  it('should reject invalid JSON', async () => {
+    await writeFile(filePath, '{ not json')
+
+    await expect(new RateTableStore(filePath).load()).rejects.toThrow('is not valid JSON')
+  })
+
+  it('should parse uploaded JSON under the upload name', () => {
+    expect(RateTableStore.fromJson(JSON.stringify(validTables), 'acme-ltl.json').originZone).toBe('STL')
+    expect(() => RateTableStore.fromJson('{ not json', 'acme-ltl.json')).toThrow("Rate tables 'acme-ltl.json' is not valid JSON")
+  })
+
+  it('should list every problem in the tables', () => {
+    const broken = structuredClone(validTables) as any
+    broken.zones[0].match = []
+    broken.lanes[0].fuelSurchargePercent = -5
+    broken.lanes[0].classRates[0].weightBreaks = [{ minWeightLbs: 500, ratePerCwt: 40 }]
+    broken.accessorials.insideDelivery = 'free'
+
+    expect(() => RateTableStore.parseRateTables(broken, 'rates.json')).toThrow(
+      "Invalid rate tables 'rates.json': " +
+        'zones[0].match must list at least one word; ' +
+        'lanes[0].fuelSurchargePercent must be zero or more; ' +
+        'lanes[0].classRates[0].weightBreaks needs a break at minWeightLbs 0; ' +
+        'accessorials.insideDelivery must be zero or more'
+    )
+  })
+})
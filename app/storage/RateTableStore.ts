@@ -0,0 +1,145 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { LtlRateTables, RateLane, RateZone } from "../rates/LtlRateTables";
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNonNegative(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+function isText(value: unknown): value is string {
+  return typeof value === "string" && value.trim() !== "";
+}
+
+/**
+ * Location of the LTL rate tables file. LTL_RATE_TABLES_PATH overrides it.
+ */
+export function getDefaultRateTablesPath(): string {
+  return process.env.LTL_RATE_TABLES_PATH ?? join(process.cwd(), "data", "ltl-rate-tables.json");
+}
+
+/**
+ * RateTableStore reads the local LTL rate tables.
+ * A missing file means no rates are set up, so responses carry no cost estimate.
+ */
+export class RateTableStore {
+  constructor(private readonly filePath: string = getDefaultRateTablesPath()) {}
+
+  public async load(): Promise<LtlRateTables | undefined> {
+    let content: string;
+    try {
+      content = await readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      throw new Error(`Cannot read rate tables '${this.filePath}': ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+
+    return RateTableStore.fromJson(content, this.filePath);
+  }
+
+  /**
+   * Parses rate tables from JSON text, e.g. a file uploaded for one job.
+   */
+  public static fromJson(content: string, source: string): LtlRateTables {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch (error) {
+      throw new Error(`Rate tables '${source}' is not valid JSON: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+
+    return RateTableStore.parseRateTables(parsed, source);
+  }
+
+  /**
+   * Checks the file contents and returns the rate tables. Throws with every problem listed.
+   */
+  public static parseRateTables(raw: unknown, source: string): LtlRateTables {
+    const errors: string[] = [];
+    const record = isRecord(raw) ? raw : {};
+
+    if (!isText(record.originZone)) {
+      errors.push("originZone is required");
+    }
+
+    const zones = Array.isArray(record.zones) ? record.zones : [];
+    if (zones.length === 0) {
+      errors.push("zones must list at least one zone");
+    }
+    zones.forEach((zone, index) => {
+      if (!isRecord(zone) || !isText(zone.zone)) {
+        errors.push(`zones[${index}].zone is required`);
+      }
+      if (!isRecord(zone) || !Array.isArray(zone.match) || zone.match.length === 0 || !zone.match.every(isText)) {
+        errors.push(`zones[${index}].match must list at least one word`);
+      }
+    });
+
+    const lanes = Array.isArray(record.lanes) ? record.lanes : [];
+    if (lanes.length === 0) {
+      errors.push("lanes must list at least one lane");
+    }
+    lanes.forEach((lane, index) => {
+      const where = `lanes[${index}]`;
+      if (!isRecord(lane)) {
+        errors.push(`${where} must be an object`);
+        return;
+      }
+      if (!isText(lane.originZone) || !isText(lane.destinationZone)) {
+        errors.push(`${where} needs originZone and destinationZone`);
+      }
+      if (!isNonNegative(lane.minimumCharge)) {
+        errors.push(`${where}.minimumCharge must be zero or more`);
+      }
+      if (!isNonNegative(lane.fuelSurchargePercent)) {
+        errors.push(`${where}.fuelSurchargePercent must be zero or more`);
+      }
+
+      const classRates = Array.isArray(lane.classRates) ? lane.classRates : [];
+      if (classRates.length === 0) {
+        errors.push(`${where}.classRates must list at least one class`);
+      }
+      classRates.forEach((classRate, classIndex) => {
+        const classWhere = `${where}.classRates[${classIndex}]`;
+        if (!isRecord(classRate) || !isNonNegative(classRate.freightClass) || classRate.freightClass === 0) {
+          errors.push(`${classWhere}.freightClass must be a positive number`);
+        }
+        const weightBreaks = isRecord(classRate) && Array.isArray(classRate.weightBreaks) ? classRate.weightBreaks : [];
+        if (!weightBreaks.some((weightBreak) => isRecord(weightBreak) && weightBreak.minWeightLbs === 0)) {
+          errors.push(`${classWhere}.weightBreaks needs a break at minWeightLbs 0`);
+        }
+        weightBreaks.forEach((weightBreak, breakIndex) => {
+          if (!isRecord(weightBreak) || !isNonNegative(weightBreak.minWeightLbs) || !isNonNegative(weightBreak.ratePerCwt)) {
+            errors.push(`${classWhere}.weightBreaks[${breakIndex}] needs minWeightLbs and ratePerCwt of zero or more`);
+          }
+        });
+      });
+    });
+
+    const accessorials = isRecord(record.accessorials) ? record.accessorials : {};
+    for (const fee of ["liftgate", "insideDelivery"]) {
+      if (accessorials[fee] !== undefined && !isNonNegative(accessorials[fee])) {
+        errors.push(`accessorials.${fee} must be zero or more`);
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid rate tables '${source}': ${errors.join("; ")}`);
+    }
+
+    return {
+      originZone: (record.originZone as string).trim(),
+      zones: zones as RateZone[],
+      lanes: lanes as RateLane[],
+      accessorials: {
+        liftgate: accessorials.liftgate as number | undefined,
+        insideDelivery: accessorials.insideDelivery as number | undefined,
+      },
+    };
+  }
+}
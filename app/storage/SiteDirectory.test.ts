@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { SiteDirectory, toSiteId, toPackagingFields, type JobSiteInput } from './SiteDirectory'
+
+const hospital: JobSiteInput = {
+  name: 'MedStar Montgomery',
+  address: '18101 Prince Philip Dr, Olney, MD',
+  serviceType: 'Delivery + Installation',
+  deliveryCapabilities: {
+    acceptsPallets: true,
+    acceptsCrates: false,
+    hasLoadingDock: true,
+    requiresLiftgate: false,
+    needsInsideDelivery: true,
+  },
+  dockNotes: 'Dock closes at 2pm',
+  doorNotes: '  ',
+}
+
+describe('SiteDirectory', () => {
+  let tempDir: string
+  let filePath: string
+  let directory: SiteDirectory
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'site-directory-'))
+    filePath = join(tempDir, 'nested', 'sites.json')
+    directory = new SiteDirectory(filePath)
+  })
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true })
+  })
+
+  it('should return an empty list when the file does not exist yet', async () => {
+    expect(await directory.list()).toEqual([])
+  })
+
+  it('should create a site with a slug id and persist it', async () => {
+    const site = await directory.create(hospital)
+
+    expect(site.id).toBe('medstar-montgomery')
+    expect(site.dockNotes).toBe('Dock closes at 2pm')
+    expect(site.doorNotes).toBeUndefined()
+
+    const saved = JSON.parse(await readFile(filePath, 'utf8'))
+    expect(saved.version).toBe(1)
+    expect(saved.sites).toHaveLength(1)
+    expect(await new SiteDirectory(filePath).get('medstar-montgomery')).toEqual(site)
+  })
+
+  it('should reject duplicate names', async () => {
+    await directory.create(hospital)
+    await expect(directory.create({ ...hospital, name: 'medstar  montgomery' })).rejects.toThrow('already exists')
+  })
+
+  it('should list every validation problem at once', async () => {
+    const invalid = { name: ' ', address: '', serviceType: 'Delivery Only', deliveryCapabilities: { acceptsPallets: 'yes' } }
+    await expect(directory.create(invalid as unknown as JobSiteInput)).rejects.toThrow(
+      'Invalid job site: name is required; address is required; deliveryCapabilities.acceptsPallets must be true or false'
+    )
+  })
+
+  it('should update fields and capabilities without changing the id', async () => {
+    await directory.create(hospital)
+    const updated = await directory.update('medstar-montgomery', {
+      name: 'MedStar Montgomery Medical Center',
+      deliveryCapabilities: { requiresLiftgate: true } as JobSiteInput['deliveryCapabilities'],
+      dockNotes: '',
+    })
+
+    expect(updated?.id).toBe('medstar-montgomery')
+    expect(updated?.name).toBe('MedStar Montgomery Medical Center')
+    expect(updated?.deliveryCapabilities.requiresLiftgate).toBe(true)
+    expect(updated?.deliveryCapabilities.hasLoadingDock).toBe(true)
+    expect(updated?.dockNotes).toBeUndefined()
+  })
+
+  it('should clear notes and clearances given as null or an empty string', async () => {
+    const created = await directory.create({
+      ...hospital,
+      doorNotes: 'Freight door on Elm St',
+      clearances: { doorWidthInches: 36, doorHeightInches: 80 },
+    })
+    expect(created.clearances).toEqual({ doorWidthInches: 36, doorHeightInches: 80 })
+
+    const updated = await directory.update('medstar-montgomery', { dockNotes: '', doorNotes: null, clearances: null })
+    expect(updated?.dockNotes).toBeUndefined()
+    expect(updated?.doorNotes).toBeUndefined()
+    expect(updated?.clearances).toBeUndefined()
+
+    const untouched = await directory.update('medstar-montgomery', { address: '18101 Prince Philip Dr' })
+    expect(untouched?.address).toBe('18101 Prince Philip Dr')
+  })
+
+  it('should reject a rename onto another site\'s name', async () => {
+    await directory.create(hospital)
+    await directory.create({ ...hospital, name: 'MedStar Olney' })
+
+    await expect(directory.update('medstar-olney', { name: 'Medstar  Montgomery' })).rejects.toThrow(
+      "A site named 'Medstar  Montgomery' already exists (id: medstar-montgomery)."
+    )
+    expect((await directory.get('medstar-olney'))?.name).toBe('MedStar Olney')
+  })
+
+  it('should report missing sites on update and remove', async () => {
+    expect(await directory.update('nowhere', { name: 'x' })).toBeUndefined()
+    expect(await directory.remove('nowhere')).toBe(false)
+  })
+
+  it('should remove a site', async () => {
+    await directory.create(hospital)
+    expect(await directory.remove('medstar-montgomery')).toBe(true)
+    expect(await directory.list()).toEqual([])
+  })
+
+  it('should fail clearly on a corrupt directory file', async () => {
+    await directory.create(hospital)
+    await writeFile(filePath, '{ not json')
+    await expect(directory.list()).rejects.toThrow('is not valid JSON')
+  })
+})
+
+describe('toSiteId', () => {
+  it('should slugify names', () => {
+    expect(toSiteId('  Café Hospital #2 ')).toBe('cafe-hospital-2')
+  })
+})
+
+describe('toPackagingFields', () => {
+  it('should map a saved site onto the request fields', () => {
+    const fields = toPackagingFields({ ...hospital, id: 'medstar-montgomery', updatedAt: '' })
+    expect(fields).toEqual({
+      jobSiteLocation: hospital.address,
+      serviceType: hospital.serviceType,
+      deliveryCapabilities: hospital.deliveryCapabilities,
+    })
+  })
+})
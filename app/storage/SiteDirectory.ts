@@ -0,0 +1,249 @@
+import { readFile, writeFile, mkdir } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import type { DeliveryCapabilities, SiteClearances } from "../requests/PackagingRequest";
+import { formatSiteClearances, parseSiteClearances } from "../parser/SiteClearancesParser";
+
+/**
+ * A job site we ship to repeatedly, saved so its delivery profile doesn't have to be re-entered.
+ */
+export interface SavedJobSite {
+  /** Slug derived from the site name; stable across edits. */
+  id: string;
+  name: string;
+  /** Street address; used as the request's jobSiteLocation. */
+  address: string;
+  /** Service type the site usually books (e.g., Delivery + Installation). */
+  serviceType: string;
+  deliveryCapabilities: DeliveryCapabilities;
+  dockNotes?: string;
+  doorNotes?: string;
+  /** Door, hallway, elevator and stair limits for inside delivery. */
+  clearances?: SiteClearances;
+  updatedAt: string;
+}
+
+export type JobSiteInput = Omit<SavedJobSite, "id" | "updatedAt">;
+
+/**
+ * Changes to a saved site. Fields left out are kept; an empty string or null clears the optional ones.
+ */
+export type JobSiteChanges = Partial<Omit<JobSiteInput, "dockNotes" | "doorNotes" | "clearances">> & {
+  dockNotes?: string | null;
+  doorNotes?: string | null;
+  clearances?: SiteClearances | null;
+};
+
+interface SiteDirectoryFile {
+  version: number;
+  sites: SavedJobSite[];
+}
+
+const SITE_DIRECTORY_FILE_VERSION = 1;
+
+const CAPABILITY_KEYS: ReadonlyArray<keyof DeliveryCapabilities> = [
+  "acceptsPallets",
+  "acceptsCrates",
+  "hasLoadingDock",
+  "requiresLiftgate",
+  "needsInsideDelivery",
+];
+
+/**
+ * Location of the local directory file. SITE_DIRECTORY_PATH overrides it (e.g., for the desktop app).
+ */
+export function getDefaultSiteDirectoryPath(): string {
+  return process.env.SITE_DIRECTORY_PATH ?? join(process.cwd(), "data", "site-directory.json");
+}
+
+/**
+ * Builds the id for a site name: lowercase, alphanumerics joined by dashes.
+ */
+export function toSiteId(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Keeps the current value when a change leaves the field out; null clears it.
+ */
+function applyChange<T>(change: T | null | undefined, current: T | undefined): T | undefined {
+  return change === undefined ? current : change ?? undefined;
+}
+
+/**
+ * Fills the PackagingRequest fields a saved site knows about.
+ */
+export function toPackagingFields(site: SavedJobSite): {
+  jobSiteLocation: string;
+  serviceType: string;
+  deliveryCapabilities: DeliveryCapabilities;
+  siteClearances?: SiteClearances;
+} {
+  return {
+    jobSiteLocation: site.address,
+    serviceType: site.serviceType,
+    deliveryCapabilities: { ...site.deliveryCapabilities },
+    ...(site.clearances && { siteClearances: { ...site.clearances } }),
+  };
+}
+
+/**
+ * SiteDirectory persists saved job sites to a local JSON file.
+ * Reads go to disk every time so the CLI, API routes and GUI all see the same data.
+ */
+export class SiteDirectory {
+  constructor(private readonly filePath: string = getDefaultSiteDirectoryPath()) {}
+
+  public async list(): Promise<SavedJobSite[]> {
+    const sites = await this.load();
+    return sites.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  public async get(id: string): Promise<SavedJobSite | undefined> {
+    const sites = await this.load();
+    return sites.find((site) => site.id === id);
+  }
+
+  public async create(input: JobSiteInput): Promise<SavedJobSite> {
+    const validated = SiteDirectory.validate(input);
+    const sites = await this.load();
+
+    const id = toSiteId(validated.name);
+    if (sites.some((site) => site.id === id)) {
+      throw new Error(`A site named '${validated.name}' already exists (id: ${id}).`);
+    }
+
+    const site: SavedJobSite = { id, ...validated, updatedAt: new Date().toISOString() };
+    sites.push(site);
+    await this.save(sites);
+    return site;
+  }
+
+  public async update(id: string, changes: JobSiteChanges): Promise<SavedJobSite | undefined> {
+    const sites = await this.load();
+    const index = sites.findIndex((site) => site.id === id);
+    if (index === -1) {
+      return undefined;
+    }
+
+    const current = sites[index];
+    const merged = SiteDirectory.validate({
+      name: changes.name ?? current.name,
+      address: changes.address ?? current.address,
+      serviceType: changes.serviceType ?? current.serviceType,
+      deliveryCapabilities: { ...current.deliveryCapabilities, ...changes.deliveryCapabilities },
+      dockNotes: applyChange(changes.dockNotes, current.dockNotes),
+      doorNotes: applyChange(changes.doorNotes, current.doorNotes),
+      clearances: applyChange(changes.clearances, current.clearances),
+    });
+
+    // The id stays put on rename so saved references keep working, but the new name must not collide with another site
+    const renamedId = toSiteId(merged.name);
+    if (renamedId !== id && sites.some((site) => site.id === renamedId)) {
+      throw new Error(`A site named '${merged.name}' already exists (id: ${renamedId}).`);
+    }
+
+    const updated: SavedJobSite = { id, ...merged, updatedAt: new Date().toISOString() };
+    sites[index] = updated;
+    await this.save(sites);
+    return updated;
+  }
+
+  public async remove(id: string): Promise<boolean> {
+    const sites = await this.load();
+    const remaining = sites.filter((site) => site.id !== id);
+    if (remaining.length === sites.length) {
+      return false;
+    }
+
+    await this.save(remaining);
+    return true;
+  }
+
+  /**
+   * Checks required fields and normalizes strings. Throws with every problem listed.
+   */
+  public static validate(input: JobSiteInput): JobSiteInput {
+    const errors: string[] = [];
+    const name = input.name?.trim() ?? "";
+    const address = input.address?.trim() ?? "";
+    const serviceType = input.serviceType?.trim() ?? "";
+
+    if (!name || !toSiteId(name)) {
+      errors.push("name is required");
+    }
+    if (!address) {
+      errors.push("address is required");
+    }
+    if (!serviceType) {
+      errors.push("serviceType is required");
+    }
+
+    const capabilities = input.deliveryCapabilities ?? ({} as DeliveryCapabilities);
+    for (const key of CAPABILITY_KEYS) {
+      if (typeof capabilities[key] !== "boolean") {
+        errors.push(`deliveryCapabilities.${key} must be true or false`);
+      }
+    }
+
+    // Round-trip through the spec format so saved clearances get the same checks as typed ones
+    let clearances: SiteClearances | undefined;
+    if (input.clearances) {
+      try {
+        clearances = parseSiteClearances(formatSiteClearances(input.clearances));
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : "clearances are invalid");
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid job site: ${errors.join("; ")}`);
+    }
+
+    return {
+      name,
+      address,
+      serviceType,
+      deliveryCapabilities: {
+        acceptsPallets: capabilities.acceptsPallets,
+        acceptsCrates: capabilities.acceptsCrates,
+        hasLoadingDock: capabilities.hasLoadingDock,
+        requiresLiftgate: capabilities.requiresLiftgate,
+        needsInsideDelivery: capabilities.needsInsideDelivery,
+      },
+      dockNotes: input.dockNotes?.trim() || undefined,
+      doorNotes: input.doorNotes?.trim() || undefined,
+      clearances: clearances && Object.keys(clearances).length > 0 ? clearances : undefined,
+    };
+  }
+
+  private async load(): Promise<SavedJobSite[]> {
+    let content: string;
+    try {
+      content = await readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw new Error(`Cannot read site directory '${this.filePath}': ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+
+    try {
+      const parsed = JSON.parse(content) as SiteDirectoryFile;
+      return Array.isArray(parsed.sites) ? parsed.sites : [];
+    } catch (error) {
+      throw new Error(`Site directory '${this.filePath}' is not valid JSON: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+  }
+
+  private async save(sites: SavedJobSite[]): Promise<void> {
+    const payload: SiteDirectoryFile = { version: SITE_DIRECTORY_FILE_VERSION, sites };
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await writeFile(this.filePath, `${JSON.stringify(payload, null, 2)}\n`, "utf8");
+  }
+}
@@ -1,10 +1,9 @@
-import { Art } from "../entities/Art";
-import { Box, BoxType, getDefaultMaxPiecesPerProduct, PackingMode } from "../entities/Box";
+import { Art, cloneArt } from "../entities/Art";
+import { Box, BoxOptions, BoxType, getDefaultMaxPiecesPerProduct, PackingMode } from "../entities/Box";
 import { PackagingRules } from "../rules/PackagingRules";
+import { getPackagingSpecCatalog } from "../catalog/PackagingSpecCatalog";
 import { PackingStrategy, BoxPackingResult, PackingStrategyMetadata } from "./PackingStrategy";
 
-const OVERSIZE_PIECES_PER_BOX = 3;
-
 /**
  * Pack By Strictest Constraint Strategy
  * 
@@ -23,7 +22,7 @@ export class BalancedPackingStrategy implements PackingStrategy {
     };
   }
 
-  packBoxes(artCollection: Art[]): BoxPackingResult {
+  packBoxes(artCollection: Art[], boxOptions: BoxOptions = {}): BoxPackingResult {
     const boxes: Box[] = [];
     const unassignedArt: Art[] = [];
     const assignments = new Map<string, { art: Art; box: Box }>();
@@ -66,14 +65,17 @@ export class BalancedPackingStrategy implements PackingStrategy {
         targetBox.addArt(art);
         assignments.set(art.getId(), { art, box: targetBox });
       } else {
-        const tempBox = new Box({ type: preferredType, packingMode: PackingMode.ByStrictestConstraint });
+        const tempBox = new Box({ ...boxOptions, type: preferredType, packingMode: PackingMode.ByStrictestConstraint });
         
         if (tempBox.canAccommodate(art)) {
           tempBox.addArt(art);
           boxes.push(tempBox);
           assignments.set(art.getId(), { art, box: tempBox });
         } else {
-          const maxQuantity = this.determineMaxPiecesPerBox(art, preferredType);
+          const maxQuantity = Math.min(
+            this.determineMaxPiecesPerBox(art, preferredType, boxOptions),
+            tempBox.getMaxPiecesByWeight(art),
+          );
           const splits = this.splitArtByQuantity(art, maxQuantity);
           
           for (const splitArt of splits) {
@@ -83,7 +85,7 @@ export class BalancedPackingStrategy implements PackingStrategy {
             }
             
             if (!splitBox) {
-              splitBox = new Box({ type: preferredType, packingMode: PackingMode.ByStrictestConstraint });
+              splitBox = new Box({ ...boxOptions, type: preferredType, packingMode: PackingMode.ByStrictestConstraint });
               if (!splitBox.canAccommodate(splitArt) || !splitBox.addArt(splitArt)) {
                 unassignedArt.push(splitArt);
                 unassignedReasons[splitArt.getId()] = "Cannot accommodate even after splitting";
@@ -92,7 +94,7 @@ export class BalancedPackingStrategy implements PackingStrategy {
               boxes.push(splitBox);
             } else {
               if (!splitBox.addArt(splitArt)) {
-                splitBox = new Box({ type: preferredType, packingMode: PackingMode.ByStrictestConstraint });
+                splitBox = new Box({ ...boxOptions, type: preferredType, packingMode: PackingMode.ByStrictestConstraint });
                 if (!splitBox.canAccommodate(splitArt) || !splitBox.addArt(splitArt)) {
                   unassignedArt.push(splitArt);
                   unassignedReasons[splitArt.getId()] = "Cannot accommodate even after splitting";
@@ -173,19 +175,7 @@ export class BalancedPackingStrategy implements PackingStrategy {
     while (remaining > 0) {
       const quantityForThisSplit = Math.min(remaining, effectiveMax);
       
-      const splitArt = new Art({
-        id: `${art.getId()}-split-${splitIndex}`,
-        productType: art.getProductType(),
-        material: art.getMaterial(),
-        dimensions: art.getRawDimensions(),
-        quantity: quantityForThisSplit,
-        specialHandlingFlags: art.getSpecialHandlingFlags(),
-        description: art.getDescription(),
-        finalMediumLabel: art.getFinalMediumLabel(),
-        glazingLabel: art.getGlazingLabel(),
-        hardwareLabel: art.getHardwareLabel(),
-        hardwarePiecesPerItem: art.getHardwarePiecesPerItem(),
-      });
+      const splitArt = cloneArt(art, { id: `${art.getId()}-split-${splitIndex}`, quantity: quantityForThisSplit });
 
       splits.push(splitArt);
       remaining -= quantityForThisSplit;
@@ -195,17 +185,18 @@ export class BalancedPackingStrategy implements PackingStrategy {
     return splits;
   }
 
-  private determineMaxPiecesPerBox(art: Art, preferredType: BoxType): number {
-    const typeLimit = getDefaultMaxPiecesPerProduct(art.getProductType());
+  private determineMaxPiecesPerBox(art: Art, preferredType: BoxType, boxOptions: BoxOptions = {}): number {
+    const typeLimit = boxOptions.maxPiecesPerProductOverride?.[art.getProductType()]
+      ?? getDefaultMaxPiecesPerProduct(art.getProductType());
     if (typeLimit !== undefined) {
       return typeLimit;
     }
 
     if (PackagingRules.requiresOversizeBox(art)) {
-      return OVERSIZE_PIECES_PER_BOX;
+      return getPackagingSpecCatalog().maxOversizedPiecesPerBox;
     }
 
-    const tempBox = new Box({ type: preferredType });
+    const tempBox = new Box({ ...boxOptions, type: preferredType });
     const nominal = tempBox.getNominalCapacity();
     if (Number.isFinite(nominal) && nominal > 0) {
       return nominal;
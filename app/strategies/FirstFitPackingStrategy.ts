@@ -1,10 +1,9 @@
-import { Art } from "../entities/Art";
-import { Box, BoxType, getDefaultMaxPiecesPerProduct, PackingMode } from "../entities/Box";
+import { Art, cloneArt } from "../entities/Art";
+import { Box, BoxOptions, BoxType, getDefaultMaxPiecesPerProduct, PackingMode } from "../entities/Box";
 import { PackagingRules } from "../rules/PackagingRules";
+import { getPackagingSpecCatalog } from "../catalog/PackagingSpecCatalog";
 import { PackingStrategy, BoxPackingResult, PackingStrategyMetadata } from "./PackingStrategy";
 
-const OVERSIZE_PIECES_PER_BOX = 3;
-
 /**
  * Pack By Medium Strategy
  * 
@@ -23,7 +22,7 @@ export class FirstFitPackingStrategy implements PackingStrategy {
     };
   }
 
-  packBoxes(artCollection: Art[]): BoxPackingResult {
+  packBoxes(artCollection: Art[], boxOptions: BoxOptions = {}): BoxPackingResult {
     const boxes: Box[] = [];
     const unassignedArt: Art[] = [];
     const assignments = new Map<string, { art: Art; box: Box }>();
@@ -60,21 +59,24 @@ export class FirstFitPackingStrategy implements PackingStrategy {
         targetBox.addArt(art);
         assignments.set(art.getId(), { art, box: targetBox });
       } else {
-        const tempBox = new Box({ type: preferredType, packingMode: PackingMode.ByMedium });
+        const tempBox = new Box({ ...boxOptions, type: preferredType, packingMode: PackingMode.ByMedium });
         
         if (tempBox.canAccommodate(art)) {
           tempBox.addArt(art);
           boxes.push(tempBox);
           assignments.set(art.getId(), { art, box: tempBox });
         } else {
-          const maxQuantity = this.determineMaxPiecesPerBox(art, preferredType);
+          const maxQuantity = Math.min(
+            this.determineMaxPiecesPerBox(art, preferredType, boxOptions),
+            tempBox.getMaxPiecesByWeight(art),
+          );
           const splits = this.splitArtByQuantity(art, maxQuantity);
           
           for (const splitArt of splits) {
             let splitBox = this.findBoxForArt(boxes, splitArt, preferredType);
             
             if (!splitBox) {
-              splitBox = new Box({ type: preferredType, packingMode: PackingMode.ByMedium });
+              splitBox = new Box({ ...boxOptions, type: preferredType, packingMode: PackingMode.ByMedium });
               if (!splitBox.canAccommodate(splitArt) || !splitBox.addArt(splitArt)) {
                 unassignedArt.push(splitArt);
                 unassignedReasons[splitArt.getId()] = "Cannot accommodate even after splitting";
@@ -83,7 +85,7 @@ export class FirstFitPackingStrategy implements PackingStrategy {
               boxes.push(splitBox);
             } else {
               if (!splitBox.addArt(splitArt)) {
-                splitBox = new Box({ type: preferredType, packingMode: PackingMode.ByMedium });
+                splitBox = new Box({ ...boxOptions, type: preferredType, packingMode: PackingMode.ByMedium });
                 if (!splitBox.canAccommodate(splitArt) || !splitBox.addArt(splitArt)) {
                   unassignedArt.push(splitArt);
                   unassignedReasons[splitArt.getId()] = "Cannot accommodate even after splitting";
@@ -143,19 +145,7 @@ export class FirstFitPackingStrategy implements PackingStrategy {
     while (remaining > 0) {
       const quantityForThisSplit = Math.min(remaining, effectiveMax);
       
-      const splitArt = new Art({
-        id: `${art.getId()}-split-${splitIndex}`,
-        productType: art.getProductType(),
-        material: art.getMaterial(),
-        dimensions: art.getRawDimensions(),
-        quantity: quantityForThisSplit,
-        specialHandlingFlags: art.getSpecialHandlingFlags(),
-        description: art.getDescription(),
-        finalMediumLabel: art.getFinalMediumLabel(),
-        glazingLabel: art.getGlazingLabel(),
-        hardwareLabel: art.getHardwareLabel(),
-        hardwarePiecesPerItem: art.getHardwarePiecesPerItem(),
-      });
+      const splitArt = cloneArt(art, { id: `${art.getId()}-split-${splitIndex}`, quantity: quantityForThisSplit });
 
       splits.push(splitArt);
       remaining -= quantityForThisSplit;
@@ -165,9 +155,9 @@ export class FirstFitPackingStrategy implements PackingStrategy {
     return splits;
   }
 
-  private determineMaxPiecesPerBox(art: Art, preferredType: BoxType): number {
+  private determineMaxPiecesPerBox(art: Art, preferredType: BoxType, boxOptions: BoxOptions = {}): number {
     // Create a temp box of the preferred type to get its capacity for this specific product
-    const tempBox = new Box({ type: preferredType });
+    const tempBox = new Box({ ...boxOptions, type: preferredType });
     
     // Try to get the product-specific limit from the box's rules
     const productType = art.getProductType();
@@ -178,7 +168,7 @@ export class FirstFitPackingStrategy implements PackingStrategy {
 
     // Fallback to checking if it requires oversize box
     if (PackagingRules.requiresOversizeBox(art)) {
-      return OVERSIZE_PIECES_PER_BOX;
+      return getPackagingSpecCatalog().maxOversizedPiecesPerBox;
     }
 
     // Last resort: use nominal capacity
@@ -1,10 +1,9 @@
-import { Art } from "../entities/Art";
-import { Box, BoxType, getDefaultMaxPiecesPerProduct, PackingMode } from "../entities/Box";
+import { Art, cloneArt } from "../entities/Art";
+import { Box, BoxOptions, BoxType, getDefaultMaxPiecesPerProduct, PackingMode } from "../entities/Box";
 import { PackagingRules } from "../rules/PackagingRules";
+import { getPackagingSpecCatalog } from "../catalog/PackagingSpecCatalog";
 import { PackingStrategy, BoxPackingResult, PackingStrategyMetadata } from "./PackingStrategy";
 
-const OVERSIZE_PIECES_PER_BOX = 3;
-
 /**
  * Pack By Depth Strategy
  * 
@@ -23,7 +22,7 @@ export class MinimizeBoxesStrategy implements PackingStrategy {
     };
   }
 
-  packBoxes(artCollection: Art[]): BoxPackingResult {
+  packBoxes(artCollection: Art[], boxOptions: BoxOptions = {}): BoxPackingResult {
     const boxes: Box[] = [];
     const unassignedArt: Art[] = [];
     const assignments = new Map<string, { art: Art; box: Box }>();
@@ -41,10 +40,10 @@ export class MinimizeBoxesStrategy implements PackingStrategy {
     }
 
     // PASS 1: Pack large box items first
-    const remainingStandardArt = this.packArtItems(largeBoxArt, boxes, assignments, unassignedArt, unassignedReasons);
+    const remainingStandardArt = this.packArtItems(largeBoxArt, boxes, assignments, unassignedArt, unassignedReasons, boxOptions);
     
     // PASS 2: Fill partial boxes with standard items, then pack remaining standard items
-    this.packArtItems(standardBoxArt, boxes, assignments, unassignedArt, unassignedReasons);
+    this.packArtItems(standardBoxArt, boxes, assignments, unassignedArt, unassignedReasons, boxOptions);
 
     return { boxes, unassignedArt, assignments, unassignedReasons };
   }
@@ -54,7 +53,8 @@ export class MinimizeBoxesStrategy implements PackingStrategy {
     boxes: Box[],
     assignments: Map<string, { art: Art; box: Box }>,
     unassignedArt: Art[],
-    unassignedReasons: Record<string, string>
+    unassignedReasons: Record<string, string>,
+    boxOptions: BoxOptions
   ): void {
     for (const art of artItems) {
       if (PackagingRules.needsCustomPackaging(art)) {
@@ -83,14 +83,17 @@ export class MinimizeBoxesStrategy implements PackingStrategy {
         targetBox.addArt(art);
         assignments.set(art.getId(), { art, box: targetBox });
       } else {
-        const tempBox = new Box({ type: preferredType, packingMode: PackingMode.ByDepth });
+        const tempBox = new Box({ ...boxOptions, type: preferredType, packingMode: PackingMode.ByDepth });
         
         if (tempBox.canAccommodate(art)) {
           tempBox.addArt(art);
           boxes.push(tempBox);
           assignments.set(art.getId(), { art, box: tempBox });
         } else {
-          const maxQuantity = this.determineMaxPiecesPerBox(art, preferredType);
+          const maxQuantity = Math.min(
+            this.determineMaxPiecesPerBox(art, preferredType, boxOptions),
+            tempBox.getMaxPiecesByWeight(art),
+          );
           const splits = this.splitArtByQuantity(art, maxQuantity);
           
           for (const splitArt of splits) {
@@ -100,7 +103,7 @@ export class MinimizeBoxesStrategy implements PackingStrategy {
             }
             
             if (!splitBox) {
-              splitBox = new Box({ type: preferredType, packingMode: PackingMode.ByDepth });
+              splitBox = new Box({ ...boxOptions, type: preferredType, packingMode: PackingMode.ByDepth });
               if (!splitBox.canAccommodate(splitArt) || !splitBox.addArt(splitArt)) {
                 unassignedArt.push(splitArt);
                 unassignedReasons[splitArt.getId()] = "Cannot accommodate even after splitting";
@@ -109,7 +112,7 @@ export class MinimizeBoxesStrategy implements PackingStrategy {
               boxes.push(splitBox);
             } else {
               if (!splitBox.addArt(splitArt)) {
-                splitBox = new Box({ type: preferredType, packingMode: PackingMode.ByDepth });
+                splitBox = new Box({ ...boxOptions, type: preferredType, packingMode: PackingMode.ByDepth });
                 if (!splitBox.canAccommodate(splitArt) || !splitBox.addArt(splitArt)) {
                   unassignedArt.push(splitArt);
                   unassignedReasons[splitArt.getId()] = "Cannot accommodate even after splitting";
@@ -169,19 +172,7 @@ export class MinimizeBoxesStrategy implements PackingStrategy {
     while (remaining > 0) {
       const quantityForThisSplit = Math.min(remaining, effectiveMax);
       
-      const splitArt = new Art({
-        id: `${art.getId()}-split-${splitIndex}`,
-        productType: art.getProductType(),
-        material: art.getMaterial(),
-        dimensions: art.getRawDimensions(),
-        quantity: quantityForThisSplit,
-        specialHandlingFlags: art.getSpecialHandlingFlags(),
-        description: art.getDescription(),
-        finalMediumLabel: art.getFinalMediumLabel(),
-        glazingLabel: art.getGlazingLabel(),
-        hardwareLabel: art.getHardwareLabel(),
-        hardwarePiecesPerItem: art.getHardwarePiecesPerItem(),
-      });
+      const splitArt = cloneArt(art, { id: `${art.getId()}-split-${splitIndex}`, quantity: quantityForThisSplit });
 
       splits.push(splitArt);
       remaining -= quantityForThisSplit;
@@ -191,9 +182,9 @@ export class MinimizeBoxesStrategy implements PackingStrategy {
     return splits;
   }
 
-  private determineMaxPiecesPerBox(art: Art, preferredType: BoxType): number {
+  private determineMaxPiecesPerBox(art: Art, preferredType: BoxType, boxOptions: BoxOptions = {}): number {
     // Create a temp box of the preferred type to get its capacity for this specific product
-    const tempBox = new Box({ type: preferredType });
+    const tempBox = new Box({ ...boxOptions, type: preferredType });
     
     // Try to get the product-specific limit from the box's rules
     const productType = art.getProductType();
@@ -205,7 +196,7 @@ export class MinimizeBoxesStrategy implements PackingStrategy {
 
     // Fallback to checking if it requires oversize box
     if (PackagingRules.requiresOversizeBox(art)) {
-      return OVERSIZE_PIECES_PER_BOX;
+      return getPackagingSpecCatalog().maxOversizedPiecesPerBox;
     }
 
     // Last resort: use nominal capacity
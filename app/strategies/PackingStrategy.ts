@@ -1,5 +1,5 @@
 import { Art } from "../entities/Art";
-import { Box, BoxType } from "../entities/Box";
+import { Box, BoxOptions, BoxType } from "../entities/Box";
 
 /**
  * Result of a box packing operation
@@ -40,7 +40,8 @@ export interface PackingStrategy {
   /**
    * Pack art items into boxes using this strategy
    * @param artCollection - Collection of art items to pack
+   * @param boxOptions - Extra options applied to every box created (e.g., client capacity overrides)
    * @returns Packing result with boxes and unassigned items
    */
-  packBoxes(artCollection: Art[]): BoxPackingResult;
+  packBoxes(artCollection: Art[], boxOptions?: BoxOptions): BoxPackingResult;
 }
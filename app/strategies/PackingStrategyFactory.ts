@@ -2,6 +2,7 @@ import { PackingStrategy, PackingStrategyMetadata } from "./PackingStrategy";
 import { FirstFitPackingStrategy } from "./FirstFitPackingStrategy";
 import { BalancedPackingStrategy } from "./BalancedPackingStrategy";
 import { MinimizeBoxesStrategy } from "./MinimizeBoxesStrategy";
+import { ThicknessPackingStrategy } from "./ThicknessPackingStrategy";
 
 /**
  * Factory for creating and managing packing strategies
@@ -11,6 +12,7 @@ export class PackingStrategyFactory {
     ["first-fit", new FirstFitPackingStrategy()],
     ["balanced", new BalancedPackingStrategy()],
     ["minimize-boxes", new MinimizeBoxesStrategy()],
+    ["by-thickness", new ThicknessPackingStrategy()],
   ]);
 
   /**
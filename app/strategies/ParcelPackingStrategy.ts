@@ -0,0 +1,144 @@
+import { Art, ArtMaterial, ArtType, cloneArt } from "../entities/Art";
+import { Box, BoxOptions, BoxType, PackingMode, getBoxSpecification } from "../entities/Box";
+import { PackagingRules } from "../rules/PackagingRules";
+import { PackingStrategy, BoxPackingResult, PackingStrategyMetadata } from "./PackingStrategy";
+
+/** Smallest carton first so small orders don't ship in oversized cartons. */
+const UPS_CARTON_TYPES: readonly BoxType[] = [BoxType.UpsSmall, BoxType.UpsLarge];
+
+/** Rule 15: fragile glazing never ships in UPS cartons. */
+const PARCEL_EXCLUDED_MATERIALS: ReadonlySet<ArtMaterial> = new Set([ArtMaterial.Glass, ArtMaterial.Mirror]);
+
+/**
+ * UPS Parcel Packing
+ *
+ * Packs parcel-eligible art (no glass or mirrors, small enough for a UPS carton) into
+ * UPS small/large cartons, one medium per carton. Anything else is left unassigned so it
+ * can go freight instead. Used by the parcel shipping mode rather than picked as a strategy.
+ */
+export class ParcelPackingStrategy implements PackingStrategy {
+  getMetadata(): PackingStrategyMetadata {
+    return {
+      id: "ups-parcel",
+      name: "UPS Parcel",
+      description: "Packs small, non-glass orders into UPS cartons that ship without pallets.",
+      bestFor: "Small acrylic or metal-print orders going parcel instead of LTL freight",
+      algorithmName: "UPS Parcel (No Glass, No Pallets)"
+    };
+  }
+
+  /**
+   * Returns why a piece cannot ship parcel, or undefined when it can.
+   */
+  static getIneligibleReason(art: Art): string | undefined {
+    if (PARCEL_EXCLUDED_MATERIALS.has(art.getMaterial()) || art.getProductType() === ArtType.Mirror) {
+      return "Glass and mirrors cannot ship in UPS cartons (rule 15)";
+    }
+
+    if (!UPS_CARTON_TYPES.some((type) => ParcelPackingStrategy.fitsCarton(art, type))) {
+      return "Too large for UPS cartons";
+    }
+
+    return undefined;
+  }
+
+  private static fitsCarton(art: Art, type: BoxType): boolean {
+    const spec = getBoxSpecification(type);
+    const footprint = PackagingRules.getPlanarFootprint(art);
+    const cartonLong = Math.max(spec.innerLength, spec.innerWidth);
+    const cartonShort = Math.min(spec.innerLength, spec.innerWidth);
+
+    return (
+      footprint.longSide <= cartonLong &&
+      footprint.shortSide <= cartonShort &&
+      art.getRawDimensions().height <= spec.innerHeight
+    );
+  }
+
+  packBoxes(artCollection: Art[], boxOptions: BoxOptions = {}): BoxPackingResult {
+    const boxes: Box[] = [];
+    const unassignedArt: Art[] = [];
+    const assignments = new Map<string, { art: Art; box: Box }>();
+    const unassignedReasons: Record<string, string> = {};
+
+    // Larger pieces first so they open the large cartons that smaller pieces can share
+    const sortedArt = [...artCollection].sort((a, b) => {
+      const aFootprint = PackagingRules.getPlanarFootprint(a);
+      const bFootprint = PackagingRules.getPlanarFootprint(b);
+      if (aFootprint.longSide !== bFootprint.longSide) {
+        return bFootprint.longSide - aFootprint.longSide;
+      }
+      return bFootprint.shortSide - aFootprint.shortSide;
+    });
+
+    for (const art of sortedArt) {
+      const ineligibleReason = ParcelPackingStrategy.getIneligibleReason(art);
+      if (ineligibleReason) {
+        unassignedArt.push(art);
+        unassignedReasons[art.getId()] = ineligibleReason;
+        continue;
+      }
+
+      const cartonType = UPS_CARTON_TYPES.find((type) => ParcelPackingStrategy.fitsCarton(art, type))!;
+      const maxQuantity = Math.min(
+        this.determineMaxPiecesPerCarton(art, cartonType, boxOptions),
+        new Box({ ...boxOptions, type: cartonType }).getMaxPiecesByWeight(art),
+      );
+
+      for (const piece of this.splitArtByQuantity(art, maxQuantity)) {
+        let carton = boxes.find((box) => box.getType() === cartonType && box.canAccommodate(piece));
+
+        if (!carton) {
+          carton = new Box({ ...boxOptions, type: cartonType, packingMode: PackingMode.ByMedium });
+          if (!carton.addArt(piece)) {
+            unassignedArt.push(piece);
+            unassignedReasons[piece.getId()] = "Cannot accommodate even after splitting";
+            continue;
+          }
+          boxes.push(carton);
+        } else {
+          carton.addArt(piece);
+        }
+
+        assignments.set(piece.getId(), { art: piece, box: carton });
+      }
+    }
+
+    return { boxes, unassignedArt, assignments, unassignedReasons };
+  }
+
+  private splitArtByQuantity(art: Art, maxQuantity: number): Art[] {
+    const effectiveMax = Math.max(1, maxQuantity);
+    const totalQuantity = art.getQuantity();
+    if (totalQuantity <= effectiveMax) {
+      return [art];
+    }
+
+    const splits: Art[] = [];
+    let remaining = totalQuantity;
+    let splitIndex = 0;
+
+    while (remaining > 0) {
+      const quantityForThisSplit = Math.min(remaining, effectiveMax);
+
+      const splitArt = cloneArt(art, { id: `${art.getId()}-split-${splitIndex}`, quantity: quantityForThisSplit });
+
+      splits.push(splitArt);
+      remaining -= quantityForThisSplit;
+      splitIndex++;
+    }
+
+    return splits;
+  }
+
+  private determineMaxPiecesPerCarton(art: Art, cartonType: BoxType, boxOptions: BoxOptions): number {
+    const tempBox = new Box({ ...boxOptions, type: cartonType });
+    const productLimit = tempBox.getProductLimit(art.getProductType());
+    if (productLimit !== undefined && Number.isFinite(productLimit)) {
+      return productLimit;
+    }
+
+    const nominal = tempBox.getNominalCapacity();
+    return Number.isFinite(nominal) && nominal > 0 ? nominal : 1;
+  }
+}
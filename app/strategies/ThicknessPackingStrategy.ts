@@ -0,0 +1,108 @@
+import { Art, cloneArt } from "../entities/Art";
+import { Box, BoxOptions, BoxType, PackingMode } from "../entities/Box";
+import { PackagingRules } from "../rules/PackagingRules";
+import { PackingStrategy, BoxPackingResult, PackingStrategyMetadata } from "./PackingStrategy";
+
+/**
+ * Pack By Thickness Strategy
+ *
+ * Fills each box until the pieces' depth, plus the catalog padding per piece, reaches the box's inner height.
+ * Piece-count limits do not apply, so thin acrylic prints fill more of a box and thick canvases fewer.
+ * Mediums may share a box; the gross weight limit still applies.
+ */
+export class ThicknessPackingStrategy implements PackingStrategy {
+  getMetadata(): PackingStrategyMetadata {
+    return {
+      id: "by-thickness",
+      name: "Pack by Thickness",
+      description: "Fills each box by the real thickness of its pieces plus padding, instead of a fixed piece count per box.",
+      bestFor: "Orders of very thin or very thick pieces, where fixed piece counts under- or over-fill boxes",
+      algorithmName: "Pack by Thickness (Summed Depth + Padding)"
+    };
+  }
+
+  packBoxes(artCollection: Art[], boxOptions: BoxOptions = {}): BoxPackingResult {
+    const boxes: Box[] = [];
+    const unassignedArt: Art[] = [];
+    const assignments = new Map<string, { art: Art; box: Box }>();
+    const unassignedReasons: Record<string, string> = {};
+
+    // Larger pieces first so they open the boxes smaller pieces can share
+    const sortedArt = [...artCollection].sort((a, b) => {
+      const aFootprint = PackagingRules.getPlanarFootprint(a);
+      const bFootprint = PackagingRules.getPlanarFootprint(b);
+      if (aFootprint.longSide !== bFootprint.longSide) {
+        return bFootprint.longSide - aFootprint.longSide;
+      }
+      return bFootprint.shortSide - aFootprint.shortSide;
+    });
+
+    for (const art of sortedArt) {
+      if (PackagingRules.needsCustomPackaging(art)) {
+        unassignedArt.push(art);
+        unassignedReasons[art.getId()] = "Requires custom packaging (both sides exceed 43.5\")";
+        continue;
+      }
+
+      if (PackagingRules.requiresCrateOnly(art)) {
+        unassignedArt.push(art);
+        unassignedReasons[art.getId()] = "Crate-only item; palletization handled later";
+        continue;
+      }
+
+      const preferredType = PackagingRules.requiresOversizeBox(art) ? BoxType.Large : BoxType.Standard;
+      const tempBox = new Box({ ...boxOptions, type: preferredType, packingMode: PackingMode.ByThickness });
+      const maxQuantity = Math.min(tempBox.getMaxPiecesByThickness(art), tempBox.getMaxPiecesByWeight(art));
+
+      for (const piece of this.splitArtByQuantity(art, maxQuantity)) {
+        let box = this.findBoxForArt(boxes, piece, preferredType);
+
+        if (!box) {
+          box = new Box({ ...boxOptions, type: preferredType, packingMode: PackingMode.ByThickness });
+          if (!box.addArt(piece)) {
+            unassignedArt.push(piece);
+            unassignedReasons[piece.getId()] = "Cannot accommodate even after splitting";
+            continue;
+          }
+          boxes.push(box);
+        } else {
+          box.addArt(piece);
+        }
+
+        assignments.set(piece.getId(), { art: piece, box });
+      }
+    }
+
+    return { boxes, unassignedArt, assignments, unassignedReasons };
+  }
+
+  private findBoxForArt(boxes: Box[], art: Art, preferredType: BoxType): Box | undefined {
+    // Boxes of the preferred type first, then any box with room, such as a large box for a standard piece
+    return (
+      boxes.find((box) => box.getType() === preferredType && box.canAccommodate(art)) ??
+      boxes.find((box) => box.canAccommodate(art))
+    );
+  }
+
+  private splitArtByQuantity(art: Art, maxQuantity: number): Art[] {
+    const effectiveMax = Math.max(1, maxQuantity);
+    const totalQuantity = art.getQuantity();
+    if (totalQuantity <= effectiveMax) {
+      return [art];
+    }
+
+    const splits: Art[] = [];
+    let remaining = totalQuantity;
+    let splitIndex = 0;
+
+    while (remaining > 0) {
+      const quantityForThisSplit = Math.min(remaining, effectiveMax);
+
+      splits.push(cloneArt(art, { id: `${art.getId()}-split-${splitIndex}`, quantity: quantityForThisSplit }));
+      remaining -= quantityForThisSplit;
+      splitIndex++;
+    }
+
+    return splits;
+  }
+}
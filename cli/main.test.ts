@@ -1,5 +1,8 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { existsSync } from 'node:fs'
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises'
+import { dirname, join } from 'node:path'
+import { tmpdir } from 'node:os'
 import { parse, validateCsvStructure } from '../app/parser/CsvParser'
 import { PackagingInteractor } from '../app/interactors/PackagingInteractor'
 import { Art, ArtType, ArtMaterial } from '../app/entities/Art'
@@ -11,7 +14,8 @@ vi.mock('node:fs', () => ({
 
 vi.mock('../app/parser/CsvParser', () => ({
   parse: vi.fn(),
-  validateCsvStructure: vi.fn()
+  validateCsvStructure: vi.fn(),
+  WORK_ORDER_FIELDS: []
 }))
 
 vi.mock('../app/interactors/PackagingInteractor', () => ({
@@ -223,13 +227,14 @@ describe('CLI Main', () => {
           totalArtworkWeightLbs: 10,
           glassFramedWeightLbs: 10,
           oversizedWeightLbs: 0,
-          packagingWeightLbs: { total: 60, pallets: { count: 1, totalWeight: 60 }, crates: { count: 0, totalWeight: 0 } },
-          finalShipmentWeightLbs: 70
+          packagingWeightLbs: { total: 60, pallets: { count: 1, totalWeight: 60 }, crates: { count: 0, totalWeight: 0 }, cartons: { count: 1, totalWeight: 18 }, cartonTareIncluded: false },
+          finalShipmentWeightLbs: 70,
+          artworkWeights: []
         },
-        packingSummary: { boxRequirements: [], containerRequirements: [], packedContainerDimensions: [], hardware: { lineItemSummary: [], totalsByHardwareType: {}, totalPieces: 0 } },
+        packingSummary: { boxRequirements: [], containerRequirements: [], packedContainerDimensions: [], hardware: { lineItemSummary: [], totalsByHardwareType: {}, totalPieces: 0 }, materials: { lines: [], totalCost: 0, totalWeightLbs: 0 } },
         businessIntelligence: { clientRulesApplied: [], oversizedItems: [], mediumsToFlag: [], alternativeRecommendations: [], riskFlags: [] },
         freightExport: { subject: '', shipmentDetails: [] },
-        metadata: { warnings: [], errors: [], algorithmUsed: 'test', processingTimeMs: 0, timestamp: '' }
+        metadata: { warnings: [], errors: [], algorithmUsed: 'test', specCatalogVersion: 'test', processingTimeMs: 0, timestamp: '' }
       }
 
       mockExistsSync.mockReturnValue(true)
@@ -453,6 +458,145 @@ describe('CLI Main', () => {
         needsInsideDelivery: true
       })
     })
+
+    it('should pass --shipping-mode through to the packaging request', async () => {
+      const args = [
+        'test.csv', 'My Client', '123 Main St', 'Standard Service',
+        'yes', 'no', 'true', 'false', 'yes',
+        '--shipping-mode', 'Parcel'
+      ]
+
+      mockExistsSync.mockReturnValue(true)
+      mockValidateCsvStructure.mockResolvedValue({ isValid: true, headers: [], errors: [] })
+      mockParse.mockResolvedValue([createSampleArt()])
+
+      const mockInstance = {
+        packageEverything: vi.fn().mockReturnValue({ success: true })
+      }
+      mockPackagingInteractor.mockImplementation(() => mockInstance as any)
+
+      await runMainWithArgs(args)
+
+      const callArgs = mockInstance.packageEverything.mock.calls[0][0]
+      expect(callArgs.shippingMode).toBe('parcel')
+      expect(callArgs.deliveryCapabilities.needsInsideDelivery).toBe(true)
+    })
+
+    it('should write one SVG per loaded unit with --diagrams', async () => {
+      const diagramsDir = join(await mkdtemp(join(tmpdir(), 'diagrams-')), 'out')
+      mockExistsSync.mockReturnValue(true)
+      mockValidateCsvStructure.mockResolvedValue({ isValid: true, headers: [], errors: [] })
+      mockParse.mockResolvedValue([createSampleArt()])
+      const mockInstance = {
+        packageEverything: vi.fn().mockReturnValue({
+          packingSummary: {
+            loadDiagrams: [{
+              containerId: 'Standard pallet 1',
+              base: { length: 48, width: 40 },
+              baseHeightInches: 5.5,
+              items: [{ boxNumber: 1, label: '#1', layer: 1, x: 2, y: 2, z: 0, length: 11, width: 36, height: 36, weightLbs: 40 }],
+              layers: [{ layer: 1, labels: ['#1'], weightLbs: 40 }]
+            }]
+          }
+        })
+      }
+      mockPackagingInteractor.mockImplementation(() => mockInstance as any)
+
+      try {
+        await runMainWithArgs([
+          'test.csv', 'My Client', '123 Main St', 'Standard Service',
+          'yes', 'no', 'true', 'false', 'yes',
+          '--diagrams', diagramsDir
+        ])
+
+        expect(await readdir(diagramsDir)).toEqual(['standard-pallet-1.svg'])
+        expect(await readFile(join(diagramsDir, 'standard-pallet-1.svg'), 'utf-8')).toContain('Layer 1: #1 - 40 lbs')
+        expect(consoleErrorSpy).toHaveBeenCalledWith(`1 load diagram(s) written to: ${diagramsDir}`)
+      } finally {
+        await rm(dirname(diagramsDir), { recursive: true, force: true })
+      }
+    })
+
+    it('should print where a tag ended up with lookup', async () => {
+      mockExistsSync.mockReturnValue(true)
+      mockValidateCsvStructure.mockResolvedValue({ isValid: true, headers: [], errors: [] })
+      mockParse.mockResolvedValue([createSampleArt()])
+      const mockInstance = {
+        packageEverything: vi.fn().mockReturnValue({
+          packingSummary: {
+            tagTrace: [
+              {
+                tag: 'A12',
+                productType: 'Paper Print',
+                pieces: 3,
+                locations: [
+                  { boxNumber: 1, containerId: 'Standard pallet 1', pieces: 2 },
+                  { boxNumber: 2, containerId: 'Standard pallet 1', pieces: 1 }
+                ],
+                unpackedPieces: 0
+              }
+            ]
+          }
+        })
+      }
+      mockPackagingInteractor.mockImplementation(() => mockInstance as any)
+      const packagingArgs = ['test.csv', 'My Client', '123 Main St', 'Standard Service', 'yes', 'no', 'true', 'false', 'yes']
+
+      await runMainWithArgs(['lookup', 'a12', ...packagingArgs])
+
+      expect(consoleLogSpy).toHaveBeenCalledWith(
+        'Tag A12 (Paper Print, 3 piece(s)):\n' +
+        '- Box 1 on Standard pallet 1: 2 piece(s)\n' +
+        '- Box 2 on Standard pallet 1: 1 piece(s)'
+      )
+
+      await runMainWithArgs(['lookup', 'B7', ...packagingArgs])
+
+      expect(mockExit).toHaveBeenCalledWith(1)
+      expect(consoleErrorSpy).toHaveBeenCalledWith("Tag 'B7' not found in test.csv.")
+    })
+
+    it('should exit with error for an unknown shipping mode', async () => {
+      await runMainWithArgs([
+        'test.csv', 'My Client', '123 Main St', 'Standard Service',
+        'yes', 'no', 'true', 'false', 'yes',
+        '--shipping-mode', 'courier'
+      ])
+
+      expect(mockExit).toHaveBeenCalledWith(1)
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        'Invalid shipping mode: "courier". Accepted values: freight, parcel.'
+      )
+    })
+
+    it('should exit with error when the rate tables file does not exist', async () => {
+      await runMainWithArgs([
+        'test.csv', 'My Client', '123 Main St', 'Standard Service',
+        'yes', 'no', 'true', 'false', 'yes',
+        '--rate-tables', '/nonexistent/rates.json'
+      ])
+
+      expect(mockExit).toHaveBeenCalledWith(1)
+      expect(consoleErrorSpy).toHaveBeenCalledWith("Rate tables file '/nonexistent/rates.json' does not exist.")
+    })
+
+    it('should exit with error for an unknown column mapping', async () => {
+      process.env.COLUMN_MAPPINGS_PATH = '/nonexistent/column-mappings.json'
+      try {
+        await runMainWithArgs([
+          'vendor.csv', 'My Client', '123 Main St', 'Standard Service',
+          'yes', 'no', 'true', 'false', 'yes',
+          '--mapping', 'acme-frames'
+        ])
+      } finally {
+        delete process.env.COLUMN_MAPPINGS_PATH
+      }
+
+      expect(mockExit).toHaveBeenCalledWith(1)
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        'Column mapping \'acme-frames\' not found. Run "pnpm package mappings list" to see saved mappings.'
+      )
+    })
   })
 })
 
@@ -3,8 +3,16 @@ import path from "node:path";
 import { fileURLToPath } from "node:url";
 
 import { PackagingService } from "../app/services/PackagingService";
-import type { DeliveryCapabilities } from "../app/requests/PackagingRequest";
+import type { DeliveryCapabilities, ShippingMode, SiteClearances } from "../app/requests/PackagingRequest";
+import { parseSiteClearances } from "../app/parser/SiteClearancesParser";
 import { TextFormatter } from "../app/formatters/TextFormatter";
+import { SiteDirectory, toPackagingFields } from "../app/storage/SiteDirectory";
+import { ColumnMappingStore } from "../app/storage/ColumnMappingStore";
+import { RateTableStore } from "../app/storage/RateTableStore";
+import type { LtlRateTables } from "../app/rates/LtlRateTables";
+import type { ColumnMapping } from "../app/parser/CsvParser";
+import { runSitesCommand } from "./sites";
+import { runMappingsCommand } from "./mappings";
 
 // Re-export for backward compatibility with tests
 export { PackagingService };
@@ -24,6 +32,36 @@ export const parseBoolean = PackagingService.parseBoolean;
 
 export async function main(): Promise<void> {
   const args = process.argv.slice(2);
+
+  // `pnpm package sites ...` manages the saved job-site directory
+  if (args[0] === "sites") {
+    const exitCode = await runSitesCommand(args.slice(1));
+    if (exitCode !== 0) {
+      process.exit(exitCode);
+    }
+    return;
+  }
+
+  // `pnpm package mappings ...` manages saved column-mapping profiles
+  if (args[0] === "mappings") {
+    const exitCode = await runMappingsCommand(args.slice(1));
+    if (exitCode !== 0) {
+      process.exit(exitCode);
+    }
+    return;
+  }
+
+  // `pnpm package lookup <tag> <packaging args...>` packs the job and prints where one tag ended up
+  let lookupTag: string | undefined;
+  if (args[0] === "lookup") {
+    lookupTag = args[1];
+    if (!lookupTag) {
+      console.error("Usage: pnpm package lookup <tag-number> <csv-file-path> <client-name> ... (same arguments as a packaging run)");
+      process.exit(1);
+      return;
+    }
+    args.splice(0, 2);
+  }
   
   // Check for optional --json-output flag
   let jsonOutputPath: string | undefined;
@@ -34,6 +72,15 @@ export async function main(): Promise<void> {
     args.splice(jsonOutputIndex, 2);
   }
 
+  // Check for optional --diagrams flag (directory for SVG load diagrams)
+  let diagramsDir: string | undefined;
+  const diagramsIndex = args.findIndex(arg => arg === "--diagrams");
+  if (diagramsIndex !== -1 && diagramsIndex + 1 < args.length) {
+    diagramsDir = args[diagramsIndex + 1];
+    // Remove the flag and its value from args
+    args.splice(diagramsIndex, 2);
+  }
+
   // Check for optional --strategy flag
   let packingAlgorithm: string | undefined;
   const strategyIndex = args.findIndex(arg => arg === "--strategy" || arg === "-s");
@@ -43,11 +90,93 @@ export async function main(): Promise<void> {
     args.splice(strategyIndex, 2);
   }
 
+  // Check for optional --shipping-mode flag (freight or parcel)
+  let shippingMode: ShippingMode | undefined;
+  const shippingModeIndex = args.findIndex(arg => arg === "--shipping-mode");
+  if (shippingModeIndex !== -1 && shippingModeIndex + 1 < args.length) {
+    try {
+      shippingMode = PackagingService.parseShippingMode(args[shippingModeIndex + 1]);
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : "Invalid shipping mode.");
+      process.exit(1);
+    }
+    // Remove the flag and its value from args
+    args.splice(shippingModeIndex, 2);
+  }
+
+  // Check for optional --site-requirements flag (replaces the positional capability flags)
+  let siteRequirementsPath: string | undefined;
+  const siteRequirementsIndex = args.findIndex(arg => arg === "--site-requirements" || arg === "-r");
+  if (siteRequirementsIndex !== -1 && siteRequirementsIndex + 1 < args.length) {
+    siteRequirementsPath = args[siteRequirementsIndex + 1];
+    // Remove the flag and its value from args
+    args.splice(siteRequirementsIndex, 2);
+  }
+
+  // Check for optional --clearances flag (door, hallway, elevator and stair limits for inside delivery)
+  let siteClearances: SiteClearances | undefined;
+  const clearancesIndex = args.findIndex(arg => arg === "--clearances");
+  if (clearancesIndex !== -1 && clearancesIndex + 1 < args.length) {
+    try {
+      siteClearances = parseSiteClearances(args[clearancesIndex + 1]);
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : "Invalid site clearances.");
+      process.exit(1);
+    }
+    // Remove the flag and its value from args
+    args.splice(clearancesIndex, 2);
+  }
+
+  // Check for optional --site flag (fills location, service type and capabilities from a saved site)
+  let savedSiteId: string | undefined;
+  const savedSiteIndex = args.findIndex(arg => arg === "--site");
+  if (savedSiteIndex !== -1 && savedSiteIndex + 1 < args.length) {
+    savedSiteId = args[savedSiteIndex + 1];
+    // Remove the flag and its value from args
+    args.splice(savedSiteIndex, 2);
+  }
+
+  // Check for optional --mapping flag (reads a vendor CSV layout through a saved column-mapping profile)
+  let columnMapping: ColumnMapping | undefined;
+  const mappingIndex = args.findIndex(arg => arg === "--mapping");
+  if (mappingIndex !== -1 && mappingIndex + 1 < args.length) {
+    const mappingId = args[mappingIndex + 1];
+    try {
+      columnMapping = await new ColumnMappingStore().get(mappingId);
+      if (!columnMapping) {
+        throw new Error(`Column mapping '${mappingId}' not found. Run "pnpm package mappings list" to see saved mappings.`);
+      }
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : "Could not load column mapping.");
+      process.exit(1);
+    }
+    // Remove the flag and its value from args
+    args.splice(mappingIndex, 2);
+  }
+
+  // Check for optional --rate-tables flag (prices this job from a rate tables file instead of the saved one)
+  let rateTables: LtlRateTables | undefined;
+  const rateTablesIndex = args.findIndex(arg => arg === "--rate-tables");
+  if (rateTablesIndex !== -1 && rateTablesIndex + 1 < args.length) {
+    const rateTablesPath = args[rateTablesIndex + 1];
+    try {
+      rateTables = await new RateTableStore(rateTablesPath).load();
+      if (!rateTables) {
+        throw new Error(`Rate tables file '${rateTablesPath}' does not exist.`);
+      }
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : "Could not load rate tables.");
+      process.exit(1);
+    }
+    // Remove the flag and its value from args
+    args.splice(rateTablesIndex, 2);
+  }
+
   const [
     csvFilePath,
-    clientName,
-    jobSiteLocation,
-    serviceType,
+    clientNameArg,
+    jobSiteLocationArg,
+    serviceTypeArg,
     acceptsPalletsRaw,
     acceptsCratesRaw,
     hasLoadingDockRaw,
@@ -55,55 +184,125 @@ export async function main(): Promise<void> {
     needsInsideDeliveryRaw,
   ] = args;
 
-  // Basic usage guard to ensure all required arguments are provided.
-  if (
-    !csvFilePath ||
-    !clientName ||
-    !jobSiteLocation ||
-    !serviceType ||
-    !acceptsPalletsRaw ||
-    !acceptsCratesRaw ||
-    !hasLoadingDockRaw ||
-    !requiresLiftgateRaw ||
-    !needsInsideDeliveryRaw
-  ) {
-    console.error(
-      "Usage: pnpm package <csv-file-path> <client-name> <job-site-location> <service-type> <accepts-pallets> <accepts-crates> <has-loading-dock> <requires-liftgate> <needs-inside-delivery> [--json-output <output-file>]",
-    );
-    process.exit(1);
-  }
+  let clientName = clientNameArg;
+  let jobSiteLocation = jobSiteLocationArg;
+  let serviceType = serviceTypeArg;
+  let deliveryCapabilities: DeliveryCapabilities;
 
-  let deliveryCapabilities;
+  if (siteRequirementsPath) {
+    if (!csvFilePath) {
+      console.error(
+        "Usage: pnpm package <csv-file-path> [client-name] [job-site-location] [service-type] --site-requirements <site-requirements-csv> [--json-output <output-file>]",
+      );
+      process.exit(1);
+    }
 
-  try {
-    // Convert the human-friendly flags into booleans for the request payload.
-    deliveryCapabilities = {
-      acceptsPallets: PackagingService.parseBoolean(acceptsPalletsRaw, "accepts-pallets"),
-      acceptsCrates: PackagingService.parseBoolean(acceptsCratesRaw, "accepts-crates"),
-      hasLoadingDock: PackagingService.parseBoolean(hasLoadingDockRaw, "has-loading-dock"),
-      requiresLiftgate: PackagingService.parseBoolean(requiresLiftgateRaw, "requires-liftgate"),
-      needsInsideDelivery: PackagingService.parseBoolean(needsInsideDeliveryRaw, "needs-inside-delivery"),
-    };
-  } catch (error) {
-    if (error instanceof Error) {
-      console.error(error.message);
-    } else {
-      console.error("Invalid capability flag.");
+    try {
+      // Client, location and service type typed on the command line override the sheet.
+      const siteDetails = await PackagingService.loadSiteRequirements(siteRequirementsPath, {
+        clientName: clientNameArg,
+        jobSiteLocation: jobSiteLocationArg,
+        serviceType: serviceTypeArg,
+      });
+      clientName = siteDetails.clientName;
+      jobSiteLocation = siteDetails.jobSiteLocation;
+      serviceType = siteDetails.serviceType;
+      deliveryCapabilities = siteDetails.deliveryCapabilities;
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : "Invalid site requirements file.");
+      process.exit(1);
+    }
+  } else if (savedSiteId) {
+    if (!csvFilePath || !clientName) {
+      console.error(
+        "Usage: pnpm package <csv-file-path> <client-name> --site <site-id> [--json-output <output-file>]",
+      );
+      process.exit(1);
+    }
+
+    try {
+      const site = await new SiteDirectory().get(savedSiteId);
+      if (!site) {
+        throw new Error(`Job site '${savedSiteId}' not found. Run "pnpm package sites list" to see saved sites.`);
+      }
+      const fields = toPackagingFields(site);
+      ({ jobSiteLocation, serviceType, deliveryCapabilities } = fields);
+      // Clearances typed on the command line win over the saved ones
+      siteClearances = siteClearances ?? fields.siteClearances;
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : "Could not load saved job site.");
+      process.exit(1);
+    }
+  } else {
+    // Basic usage guard to ensure all required arguments are provided.
+    if (
+      !csvFilePath ||
+      !clientName ||
+      !jobSiteLocation ||
+      !serviceType ||
+      !acceptsPalletsRaw ||
+      !acceptsCratesRaw ||
+      !hasLoadingDockRaw ||
+      !requiresLiftgateRaw ||
+      !needsInsideDeliveryRaw
+    ) {
+      console.error(
+        "Usage: pnpm package <csv-file-path> <client-name> <job-site-location> <service-type> <accepts-pallets> <accepts-crates> <has-loading-dock> <requires-liftgate> <needs-inside-delivery> [--json-output <output-file>] [--shipping-mode <freight|parcel>] [--diagrams <dir>] [--clearances <spec>] [--mapping <mapping-id>] [--rate-tables <rates-json>]\n" +
+          "   or: pnpm package <csv-file-path> [client-name] [job-site-location] [service-type] --site-requirements <site-requirements-csv>\n" +
+          "   or: pnpm package <csv-file-path> <client-name> --site <site-id>\n" +
+          "   or: pnpm package lookup <tag-number> <packaging arguments...>\n" +
+          "   or: pnpm package sites <list|show|add|update|remove> ...\n" +
+          "   or: pnpm package mappings <list|show|add|remove> ...",
+      );
+      process.exit(1);
+    }
+
+    try {
+      // Convert the human-friendly flags into booleans for the request payload.
+      deliveryCapabilities = {
+        acceptsPallets: PackagingService.parseBoolean(acceptsPalletsRaw, "accepts-pallets"),
+        acceptsCrates: PackagingService.parseBoolean(acceptsCratesRaw, "accepts-crates"),
+        hasLoadingDock: PackagingService.parseBoolean(hasLoadingDockRaw, "has-loading-dock"),
+        requiresLiftgate: PackagingService.parseBoolean(requiresLiftgateRaw, "requires-liftgate"),
+        needsInsideDelivery: PackagingService.parseBoolean(needsInsideDeliveryRaw, "needs-inside-delivery"),
+      };
+    } catch (error) {
+      if (error instanceof Error) {
+        console.error(error.message);
+      } else {
+        console.error("Invalid capability flag.");
+      }
+      process.exit(1);
     }
-    process.exit(1);
   }
 
   try {
     const { response } = await PackagingService.runPackagingJob({
       csvFilePath,
+      columnMapping,
       clientName,
       jobSiteLocation,
       serviceType,
       deliveryCapabilities,
+      siteClearances,
+      rateTables,
       packingAlgorithm,
+      shippingMode,
       jsonOutputPath,
+      diagramsDir,
     });
 
+    if (lookupTag !== undefined) {
+      const traces = PackagingService.findTagTrace(response, lookupTag);
+      if (traces.length === 0) {
+        console.error(`Tag '${lookupTag}' not found in ${csvFilePath}.`);
+        process.exit(1);
+        return;
+      }
+      console.log(traces.map((trace) => TextFormatter.formatTagTrace(trace)).join("\n\n"));
+      return;
+    }
+
     // Output in human-readable text format as specified by client
     console.log(TextFormatter.formatResponse(response));
   } catch (error) {
@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { runMappingsCommand } from './mappings'
+import { ColumnMappingStore } from '../app/storage/ColumnMappingStore'
+
+describe('CLI mappings subcommand', () => {
+  let tempDir: string
+  let store: ColumnMappingStore
+  let consoleLogSpy: any
+  let consoleErrorSpy: any
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'cli-mappings-'))
+    store = new ColumnMappingStore(join(tempDir, 'column-mappings.json'))
+    consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
+    consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await rm(tempDir, { recursive: true, force: true })
+  })
+
+  it('should add, show and remove a mapping', async () => {
+    expect(await runMappingsCommand(
+      ['add', 'Acme Frames', 'Qty=quantity', 'W=outsideWidth', 'H=outsideHeight', '--default', 'glazing=N/A', '--default', 'hardware=2 pt'],
+      store,
+    )).toBe(0)
+    expect(await store.get('acme-frames')).toMatchObject({
+      columns: { Qty: 'quantity', W: 'outsideWidth', H: 'outsideHeight' },
+      defaults: { glazing: 'N/A', hardware: '2 pt' },
+    })
+
+    expect(await runMappingsCommand(['show', 'acme-frames'], store)).toBe(0)
+    const shown = consoleLogSpy.mock.calls.at(-1)[0]
+    expect(shown).toContain('Acme Frames (acme-frames)')
+    expect(shown).toContain('  W -> outsideWidth')
+    expect(shown).toContain('  glazing defaults to "N/A"')
+
+    expect(await runMappingsCommand(['remove', 'acme-frames'], store)).toBe(0)
+    expect(await store.list()).toEqual([])
+  })
+
+  it('should report columns mapped to unknown fields', async () => {
+    expect(await runMappingsCommand(['add', 'Acme Frames', 'Qty=qty'], store)).toBe(1)
+    expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('Invalid column mapping: columns.Qty must be one of lineNumber'))
+  })
+
+  it('should fail with usage on missing or malformed arguments', async () => {
+    expect(await runMappingsCommand(['add', 'Only A Name'], store)).toBe(1)
+    expect(await runMappingsCommand(['add', 'Acme', 'Qty'], store)).toBe(1)
+    expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('Usage: pnpm package mappings'))
+  })
+})
@@ -0,0 +1,115 @@
+import { ColumnMappingStore, type ColumnMappingProfile } from "../app/storage/ColumnMappingStore";
+import { WORK_ORDER_FIELDS } from "../app/parser/CsvParser";
+
+const MAPPINGS_USAGE = [
+  "Usage: pnpm package mappings list",
+  "       pnpm package mappings show <mapping-id>",
+  "       pnpm package mappings add <name> <header=field>... [--default <field=value>]...",
+  "       pnpm package mappings remove <mapping-id>",
+  `Fields: ${WORK_ORDER_FIELDS.join(", ")}`,
+].join("\n");
+
+/**
+ * Splits `key=value` at the first `=`; undefined when there is none.
+ */
+function splitPair(text: string): [string, string] | undefined {
+  const index = text.indexOf("=");
+  return index > 0 ? [text.slice(0, index), text.slice(index + 1)] : undefined;
+}
+
+/**
+ * Renders a saved profile as indented text for the terminal.
+ */
+export function formatColumnMapping(profile: ColumnMappingProfile): string {
+  const lines = [`${profile.name} (${profile.id})`];
+  for (const [header, field] of Object.entries(profile.columns)) {
+    lines.push(`  ${header} -> ${field}`);
+  }
+  for (const [field, value] of Object.entries(profile.defaults ?? {})) {
+    lines.push(`  ${field} defaults to "${value}"`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Runs `pnpm package mappings ...`. Returns the process exit code.
+ */
+export async function runMappingsCommand(argv: string[], store: ColumnMappingStore = new ColumnMappingStore()): Promise<number> {
+  const args = [...argv];
+  const subcommand = args.shift();
+
+  try {
+    switch (subcommand) {
+      case "list": {
+        const profiles = await store.list();
+        if (profiles.length === 0) {
+          console.log("No saved column mappings.");
+          return 0;
+        }
+        console.log(profiles.map(formatColumnMapping).join("\n\n"));
+        return 0;
+      }
+
+      case "show": {
+        const [id] = args;
+        const profile = id ? await store.get(id) : undefined;
+        if (!profile) {
+          console.error(id ? `Column mapping '${id}' not found.` : MAPPINGS_USAGE);
+          return 1;
+        }
+        console.log(formatColumnMapping(profile));
+        return 0;
+      }
+
+      case "add": {
+        const defaults: Record<string, string> = {};
+        let defaultIndex = args.indexOf("--default");
+        while (defaultIndex !== -1 && defaultIndex + 1 < args.length) {
+          const pair = splitPair(args.splice(defaultIndex, 2)[1]);
+          if (!pair) {
+            console.error(MAPPINGS_USAGE);
+            return 1;
+          }
+          defaults[pair[0]] = pair[1];
+          defaultIndex = args.indexOf("--default");
+        }
+
+        const [name, ...columnArgs] = args;
+        const pairs = columnArgs.map(splitPair);
+        if (!name || pairs.length === 0 || pairs.some((pair) => !pair)) {
+          console.error(MAPPINGS_USAGE);
+          return 1;
+        }
+
+        const profile = await store.save({
+          name,
+          columns: Object.fromEntries(pairs as Array<[string, string]>),
+          defaults,
+        });
+        console.log(`Saved column mapping:\n${formatColumnMapping(profile)}`);
+        return 0;
+      }
+
+      case "remove": {
+        const [id] = args;
+        if (!id) {
+          console.error(MAPPINGS_USAGE);
+          return 1;
+        }
+        if (!(await store.remove(id))) {
+          console.error(`Column mapping '${id}' not found.`);
+          return 1;
+        }
+        console.log(`Removed column mapping '${id}'.`);
+        return 0;
+      }
+
+      default:
+        console.error(MAPPINGS_USAGE);
+        return 1;
+    }
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : "Unknown error");
+    return 1;
+  }
+}
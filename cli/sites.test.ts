@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { runSitesCommand } from './sites'
+import { SiteDirectory } from '../app/storage/SiteDirectory'
+
+describe('CLI sites subcommand', () => {
+  let tempDir: string
+  let directory: SiteDirectory
+  let consoleLogSpy: any
+  let consoleErrorSpy: any
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'cli-sites-'))
+    directory = new SiteDirectory(join(tempDir, 'sites.json'))
+    consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
+    consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await rm(tempDir, { recursive: true, force: true })
+  })
+
+  it('should add, update, show and remove a site', async () => {
+    expect(await runSitesCommand(
+      ['add', 'Olney Hospital', '18101 Prince Philip Dr', 'Delivery Only', 'yes', 'no', 'no', 'yes', 'yes', '--door-notes', '36in doors'],
+      directory,
+    )).toBe(0)
+    expect((await directory.get('olney-hospital'))?.deliveryCapabilities.requiresLiftgate).toBe(true)
+
+    expect(await runSitesCommand(['update', 'olney-hospital', '--has-loading-dock', 'y'], directory)).toBe(0)
+    expect((await directory.get('olney-hospital'))?.deliveryCapabilities.hasLoadingDock).toBe(true)
+
+    expect(await runSitesCommand(['show', 'olney-hospital'], directory)).toBe(0)
+    const shown = consoleLogSpy.mock.calls.at(-1)[0]
+    expect(shown).toContain('Olney Hospital (olney-hospital)')
+    expect(shown).toContain('Loading Dock: yes, Liftgate: yes, Inside Delivery: yes')
+    expect(shown).toContain('Door Notes: 36in doors')
+
+    expect(await runSitesCommand(['remove', 'olney-hospital'], directory)).toBe(0)
+    expect(await directory.list()).toEqual([])
+  })
+
+  it('should save and show site clearances', async () => {
+    expect(await runSitesCommand(
+      ['add', 'Olney Hospital', '18101 Prince Philip Dr', 'Delivery Only', 'yes', 'no', 'no', 'yes', 'yes', '--clearances', 'door=36x80'],
+      directory,
+    )).toBe(0)
+    expect(await runSitesCommand(['update', 'olney-hospital', '--clearances', 'door=36x80, stairs=no'], directory)).toBe(0)
+    expect((await directory.get('olney-hospital'))?.clearances).toEqual({ doorWidthInches: 36, doorHeightInches: 80, hasStairs: false })
+
+    expect(await runSitesCommand(['show', 'olney-hospital'], directory)).toBe(0)
+    expect(consoleLogSpy.mock.calls.at(-1)[0]).toContain('Clearances: door=36x80, stairs=no')
+
+    expect(await runSitesCommand(['update', 'olney-hospital', '--clearances', 'door=wide'], directory)).toBe(1)
+    expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('Invalid site clearances: door must be width x height'))
+  })
+
+  it('should fail with usage on missing arguments', async () => {
+    expect(await runSitesCommand(['add', 'Only A Name'], directory)).toBe(1)
+    expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('Usage: pnpm package sites'))
+  })
+
+  it('should report invalid capability values', async () => {
+    expect(await runSitesCommand(['add', 'Site', 'Addr', 'Delivery Only', 'maybe', 'no', 'no', 'no', 'no'], directory)).toBe(1)
+    expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('Invalid accepts-pallets value'))
+  })
+
+  it('should report unknown sites', async () => {
+    expect(await runSitesCommand(['show', 'missing'], directory)).toBe(1)
+    expect(consoleErrorSpy).toHaveBeenCalledWith("Job site 'missing' not found.")
+  })
+})
@@ -0,0 +1,181 @@
+import { PackagingService } from "../app/services/PackagingService";
+import { SiteDirectory, type JobSiteChanges, type SavedJobSite } from "../app/storage/SiteDirectory";
+import type { DeliveryCapabilities } from "../app/requests/PackagingRequest";
+import { formatSiteClearances, parseSiteClearances } from "../app/parser/SiteClearancesParser";
+
+const SITES_USAGE = [
+  "Usage: pnpm package sites list",
+  "       pnpm package sites show <site-id>",
+  "       pnpm package sites add <name> <address> <service-type> <accepts-pallets> <accepts-crates> <has-loading-dock> <requires-liftgate> <needs-inside-delivery> [--dock-notes <text>] [--door-notes <text>] [--clearances <spec>]",
+  "       pnpm package sites update <site-id> [--name <name>] [--address <address>] [--service-type <type>] [--accepts-pallets <y/n>] [--accepts-crates <y/n>] [--has-loading-dock <y/n>] [--requires-liftgate <y/n>] [--needs-inside-delivery <y/n>] [--dock-notes <text>] [--door-notes <text>] [--clearances <spec>]",
+  "       pnpm package sites remove <site-id>",
+].join("\n");
+
+const CAPABILITY_OPTIONS: Array<[string, keyof DeliveryCapabilities]> = [
+  ["--accepts-pallets", "acceptsPallets"],
+  ["--accepts-crates", "acceptsCrates"],
+  ["--has-loading-dock", "hasLoadingDock"],
+  ["--requires-liftgate", "requiresLiftgate"],
+  ["--needs-inside-delivery", "needsInsideDelivery"],
+];
+
+/**
+ * Removes `--flag <value>` from args and returns the value (undefined when absent).
+ */
+function takeOption(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  if (index === -1 || index + 1 >= args.length) {
+    return undefined;
+  }
+  const [, value] = args.splice(index, 2);
+  return value;
+}
+
+function yesNo(value: boolean): string {
+  return value ? "yes" : "no";
+}
+
+/**
+ * Renders a saved site as indented text for the terminal.
+ */
+export function formatSite(site: SavedJobSite): string {
+  const caps = site.deliveryCapabilities;
+  const lines = [
+    `${site.name} (${site.id})`,
+    `  Address: ${site.address}`,
+    `  Service Type: ${site.serviceType}`,
+    `  Accepts Pallets: ${yesNo(caps.acceptsPallets)}, Accepts Crates: ${yesNo(caps.acceptsCrates)}`,
+    `  Loading Dock: ${yesNo(caps.hasLoadingDock)}, Liftgate: ${yesNo(caps.requiresLiftgate)}, Inside Delivery: ${yesNo(caps.needsInsideDelivery)}`,
+  ];
+  if (site.dockNotes) {
+    lines.push(`  Dock Notes: ${site.dockNotes}`);
+  }
+  if (site.doorNotes) {
+    lines.push(`  Door Notes: ${site.doorNotes}`);
+  }
+  if (site.clearances) {
+    lines.push(`  Clearances: ${formatSiteClearances(site.clearances)}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Runs `pnpm package sites ...`. Returns the process exit code.
+ */
+export async function runSitesCommand(argv: string[], directory: SiteDirectory = new SiteDirectory()): Promise<number> {
+  const args = [...argv];
+  const subcommand = args.shift();
+
+  try {
+    switch (subcommand) {
+      case "list": {
+        const sites = await directory.list();
+        if (sites.length === 0) {
+          console.log("No saved job sites.");
+          return 0;
+        }
+        console.log(sites.map(formatSite).join("\n\n"));
+        return 0;
+      }
+
+      case "show": {
+        const [id] = args;
+        const site = id ? await directory.get(id) : undefined;
+        if (!site) {
+          console.error(id ? `Job site '${id}' not found.` : SITES_USAGE);
+          return 1;
+        }
+        console.log(formatSite(site));
+        return 0;
+      }
+
+      case "add": {
+        const dockNotes = takeOption(args, "--dock-notes");
+        const doorNotes = takeOption(args, "--door-notes");
+        const clearances = takeOption(args, "--clearances");
+        const [name, address, serviceType, pallets, crates, dock, liftgate, inside] = args;
+        if (!name || !address || !serviceType || !pallets || !crates || !dock || !liftgate || !inside) {
+          console.error(SITES_USAGE);
+          return 1;
+        }
+
+        const site = await directory.create({
+          name,
+          address,
+          serviceType,
+          deliveryCapabilities: {
+            acceptsPallets: PackagingService.parseBoolean(pallets, "accepts-pallets"),
+            acceptsCrates: PackagingService.parseBoolean(crates, "accepts-crates"),
+            hasLoadingDock: PackagingService.parseBoolean(dock, "has-loading-dock"),
+            requiresLiftgate: PackagingService.parseBoolean(liftgate, "requires-liftgate"),
+            needsInsideDelivery: PackagingService.parseBoolean(inside, "needs-inside-delivery"),
+          },
+          dockNotes,
+          doorNotes,
+          clearances: clearances !== undefined ? parseSiteClearances(clearances) : undefined,
+        });
+        console.log(`Saved job site:\n${formatSite(site)}`);
+        return 0;
+      }
+
+      case "update": {
+        const changes: JobSiteChanges = {
+          name: takeOption(args, "--name"),
+          address: takeOption(args, "--address"),
+          serviceType: takeOption(args, "--service-type"),
+          dockNotes: takeOption(args, "--dock-notes"),
+          doorNotes: takeOption(args, "--door-notes"),
+        };
+        const clearances = takeOption(args, "--clearances");
+        if (clearances !== undefined) {
+          // --clearances "" clears the saved limits
+          changes.clearances = clearances.trim() ? parseSiteClearances(clearances) : null;
+        }
+
+        const capabilityChanges: Partial<Record<keyof DeliveryCapabilities, boolean>> = {};
+        for (const [flag, key] of CAPABILITY_OPTIONS) {
+          const raw = takeOption(args, flag);
+          if (raw !== undefined) {
+            capabilityChanges[key] = PackagingService.parseBoolean(raw, flag.slice(2));
+          }
+        }
+        changes.deliveryCapabilities = capabilityChanges as DeliveryCapabilities;
+
+        const [id] = args;
+        if (!id) {
+          console.error(SITES_USAGE);
+          return 1;
+        }
+
+        const site = await directory.update(id, changes);
+        if (!site) {
+          console.error(`Job site '${id}' not found.`);
+          return 1;
+        }
+        console.log(`Updated job site:\n${formatSite(site)}`);
+        return 0;
+      }
+
+      case "remove": {
+        const [id] = args;
+        if (!id) {
+          console.error(SITES_USAGE);
+          return 1;
+        }
+        if (!(await directory.remove(id))) {
+          console.error(`Job site '${id}' not found.`);
+          return 1;
+        }
+        console.log(`Removed job site '${id}'.`);
+        return 0;
+      }
+
+      default:
+        console.error(SITES_USAGE);
+        return 1;
+    }
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : "Unknown error");
+    return 1;
+  }
+}
@@ -78,5 +78,17 @@ describe("End-to-end packaging workflow", () => {
       const actual = getCount(response.packingSummary.containerRequirements, containerExpectation.label);
       expect(actual).toBe(containerExpectation.count);
     }
+
+    // The manifest puts every box on exactly one container
+    const manifest = response.packingSummary.containerManifest ?? [];
+    const manifestBoxNumbers = manifest.flatMap((entry) => entry.boxes.map((box) => box.boxNumber)).sort((a, b) => a - b);
+    expect(manifestBoxNumbers).toEqual(response.packingSummary.boxContents.map((box) => box.boxNumber));
+    expect(manifest.reduce((sum, entry) => sum + entry.pieceCount, 0)).toBe(totalPieces);
+
+    // Every tag's pieces are accounted for, packed or not
+    for (const trace of response.packingSummary.tagTrace ?? []) {
+      const placed = trace.locations.reduce((sum, location) => sum + location.pieces, 0);
+      expect(placed + trace.unpackedPieces).toBe(trace.pieces);
+    }
   });
 });
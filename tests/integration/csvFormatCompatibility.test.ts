@@ -2,7 +2,7 @@ import { describe, test, expect } from "vitest";
 import { writeFile, unlink } from "node:fs/promises";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
-import { parse, parseWithDiagnostics } from "../../app/parser/CsvParser";
+import { parse, parseWithDiagnostics, previewCsv, validateCsvStructure, type ColumnMapping } from "../../app/parser/CsvParser";
 import { ArtType, ArtMaterial } from "../../app/entities/Art";
 
 /**
@@ -286,4 +286,82 @@ describe("CSV Format Compatibility Integration Tests", () => {
       await cleanup(tempPath);
     });
   });
+
+  describe("Column-mapping profiles", () => {
+    const vendorCsv = `Item,Qty,W,H,Medium,Glass,Notes
+A1,2,33 1/2,43,Paper Print - Framed,Acrylic,rush
+A2,1,24,30,Mirror,,
+A3,4,18,24,Canvas - Gallery,N/A,`;
+
+    const vendorMapping: ColumnMapping = {
+      columns: { item: "tagNumber", QTY: "quantity", W: "outsideWidth", H: "outsideHeight", Medium: "finalMedium", Glass: "glazing" },
+      defaults: { lineNumber: "1", frameMoulding: "N/A", hardware: "2 pt Sec", glazing: "Regular Glass" },
+    };
+
+    test("rejects a vendor layout without a mapping", async () => {
+      const tempPath = await createTempCsv(vendorCsv);
+
+      const structure = await validateCsvStructure(tempPath);
+      expect(structure.isValid).toBe(false);
+      expect(structure.errors[0]).toContain("Missing required columns: lineNumber, quantity, tagNumber");
+
+      await cleanup(tempPath);
+    });
+
+    test("reads a vendor layout through a mapping with defaults for missing columns", async () => {
+      const tempPath = await createTempCsv(vendorCsv);
+
+      expect((await validateCsvStructure(tempPath, vendorMapping)).isValid).toBe(true);
+      const result = await parseWithDiagnostics(tempPath, vendorMapping);
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.artItems.map((art) => art.getId())).toEqual(["A1", "A2", "A3"]);
+      expect(result.artItems[0].getQuantity()).toBe(2);
+      expect(result.artItems[0].getRawDimensions().length).toBe(43);
+      expect(result.artItems[0].getRawDimensions().width).toBe(33.5);
+      // Defaults only fill columns the file lacks; the vendor's empty Glass cell stays empty
+      expect(result.artItems[0].getMaterial()).toBe(ArtMaterial.Acrylic);
+      expect(result.artItems[1].getGlazingLabel()).toBe("");
+      expect(result.artItems[1].getHardwarePiecesPerItem()).toBe(2);
+
+      await cleanup(tempPath);
+    });
+
+    test("previews the first rows as work-order fields", async () => {
+      const tempPath = await createTempCsv(vendorCsv);
+
+      const preview = await previewCsv(tempPath, vendorMapping, 2);
+
+      expect(preview.columns).toEqual([
+        { header: "Item", field: "tagNumber" },
+        { header: "Qty", field: "quantity" },
+        { header: "W", field: "outsideWidth" },
+        { header: "H", field: "outsideHeight" },
+        { header: "Medium", field: "finalMedium" },
+        { header: "Glass", field: "glazing" },
+        { header: "Notes", field: undefined },
+      ]);
+      expect(preview.rows).toHaveLength(2);
+      expect(preview.rows[0]).toEqual({
+        lineNumber: "1",
+        quantity: "2",
+        tagNumber: "A1",
+        finalMedium: "Paper Print - Framed",
+        outsideWidth: "33 1/2",
+        outsideHeight: "43",
+        glazing: "Acrylic",
+        frameMoulding: "N/A",
+        hardware: "2 pt Sec",
+      });
+      expect(preview.missingFields).toEqual([]);
+
+      const unmapped = await previewCsv(tempPath);
+      expect(unmapped.columns.every((column) => column.field === undefined)).toBe(true);
+      expect(unmapped.missingFields).toEqual([
+        "lineNumber", "quantity", "tagNumber", "finalMedium", "outsideWidth", "outsideHeight", "glazing", "frameMoulding", "hardware",
+      ]);
+
+      await cleanup(tempPath);
+    });
+  });
 });
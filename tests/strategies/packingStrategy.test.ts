@@ -7,10 +7,11 @@ describe("Packing Strategy Pattern", () => {
   test("Factory returns all available strategies", () => {
     const strategies = PackingStrategyFactory.getAllStrategyMetadata();
     
-    expect(strategies.length).toBe(3);
+    expect(strategies.length).toBe(4);
     expect(strategies.map(s => s.id)).toContain("first-fit");
     expect(strategies.map(s => s.id)).toContain("balanced");
     expect(strategies.map(s => s.id)).toContain("minimize-boxes");
+    expect(strategies.map(s => s.id)).toContain("by-thickness");
   });
 
   test("Factory validates strategy IDs", () => {
@@ -70,6 +71,24 @@ describe("Packing Strategy Pattern", () => {
     }
   });
 
+  test("All strategies split quantities to keep boxes under the gross weight limit", () => {
+    // Eight 31 lb mirrors would fit one large box by count but weigh 270 lbs in it
+    const mirrors = new Art({
+      id: "M1",
+      productType: ArtType.Mirror,
+      material: ArtMaterial.Mirror,
+      dimensions: { length: 40, width: 40, height: 2 },
+      quantity: 8,
+    });
+
+    for (const strategyId of ["first-fit", "balanced", "minimize-boxes"]) {
+      const result = new PackagingInteractor(strategyId).packBoxes([mirrors]);
+
+      expect(result.boxes.map(box => [box.getTotalPieces(), box.getTotalWeight()])).toEqual([[4, 146], [4, 146]]);
+      expect(result.unassignedArt).toEqual([]);
+    }
+  });
+
   test("Strategy metadata contains required fields", () => {
     const strategies = PackingStrategyFactory.getAllStrategyMetadata();
 
@@ -172,6 +172,36 @@ describe("Packing Strategy Differences", () => {
     });
   });
 
+  describe("Pack by Thickness vs piece counts", () => {
+    test("Thin acrylic prints fill more of a box and thick canvases fewer", () => {
+      // 1" prints take 1.5" each with padding: seven fit the 11" standard box, where the count limit is six
+      const thinPrints = new Art({
+        id: "thin-1",
+        productType: ArtType.PaperPrint,
+        material: ArtMaterial.Acrylic,
+        dimensions: { length: 30, width: 24, height: 1 },
+        quantity: 7,
+      });
+      // 3" canvases take 3.5" each: three fit, where the count limit is four
+      const thickCanvas = new Art({
+        id: "thick-1",
+        productType: ArtType.CanvasFloatFrame,
+        material: ArtMaterial.CanvasGallery,
+        dimensions: { length: 30, width: 24, height: 3 },
+        quantity: 4,
+      });
+
+      const byCount = new PackagingInteractor("first-fit").packBoxes([thinPrints, thickCanvas]);
+      const byThickness = new PackagingInteractor("by-thickness").packBoxes([thinPrints, thickCanvas]);
+
+      expect(byCount.boxes.map(box => box.getTotalPieces())).toEqual([6, 1, 4]);
+      expect(byThickness.boxes.map(box => box.getTotalPieces())).toEqual([7, 3, 1]);
+      byThickness.boxes.forEach(box => {
+        expect(box.getAccumulatedDepth()).toBeLessThanOrEqual(box.getSpecification().innerHeight);
+      });
+    });
+  });
+
   describe("All strategies handle same-type items identically", () => {
     test("All strategies produce same result for uniform items", () => {
       const items = new Art({